@@ -29,5 +29,13 @@ export default defineConfig([
     },
   },
 
+  // The command line entry point runs in Node, not in a browser
+  {
+    files: ['src/cli/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
+
   eslintConfigPrettier,
 ]);
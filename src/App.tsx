@@ -10,31 +10,188 @@
  * 2. Environment Adapters: Handles third-party event hooks (e.g., Lively Wallpaper bindings).
  * 3. Data Error Boundary: Intercepts and corrects corrupted data (e.g., invalid dates) globally.
  * 4. Render Config Derivation: Transforms UserConfig into RenderConfig on the fly.
- * 5. Theme Orchestration: Listens to OS-level theme changes if 'system' is selected,
- * and applies the Tailwind `.dark` class to the absolute root of the DOM.
+ * 5. Theme Orchestration: Listens to OS-level theme changes if 'system' is selected
+ * (a 'schedule' theme flips at its switches instead, see Boundary Scheduling),
+ * and applies the Tailwind `.dark` class to the absolute root of the DOM, along with
+ * the background and accent colors of the active palette (as CSS variables).
  * 6. Prop Distribution: Passes exact, narrow props to child components to minimize
  * unnecessary re-renders.
+ * 7. Time Travel: Owns the (never persisted) preview date and the Clock derived from it,
+ * which every time-dependent consumer reads the present moment from.
+ * 8. Boundary Scheduling: Sleeps until the next meaningful time boundary (rollover,
+ * visible fill step, birthday, midnight, theme switch) and then re-derives the RenderConfig,
+ * so long-lived wallpapers and tabs keep moving forward without per-frame polling.
+ * 9. Life Events: Owns the user's life events, persisted next to the UserConfig and
+ * editable from the settings drawer (browser) or a single text property (Lively).
+ * 10. Zoom: Owns the (never persisted) zoom level, from the whole lifetime down to the
+ * hours of a single day. The RenderConfig is derived for the zoomed unit only.
+ * 11. Background: Loads the user's background image from IndexedDB (life.imageStore.ts),
+ * measures its average color so the palette keeps its contrast over it, and paints
+ * it with its effects behind the canvas (`Backdrop.tsx`).
  */
-import { useState, useEffect } from 'react';
-import type { UserConfig, ThemePreference, Shape } from './types/life.types.ts';
+import { useState, useEffect, useMemo } from 'react';
+import type { CSSProperties } from 'react';
+import type {
+  UserConfig,
+  LifeEvent,
+  ThemePreference,
+  Granularity,
+  LayoutStrategy,
+  CellOrder,
+  ExpectancyMode,
+  Sex,
+  SmokingStatus,
+  ActivityLevel,
+  FutureShading,
+  RenderBackend,
+  SurvivalModel,
+  ZoomState,
+  BackgroundKind,
+  ThemeScheduleKind,
+} from './types/life.types.ts';
 
-import { loadConfig, saveConfig } from './config/life.config.ts';
-import { buildRenderConfig } from './utils/life.render.ts';
+import {
+  loadConfig,
+  saveConfig,
+  loadEvents,
+  saveEvents,
+  isCustomShape,
+  isHexColor,
+} from './config/life.config.ts';
+import {
+  storeBackgroundImage,
+  loadBackgroundImage,
+  measureImageColor,
+} from './config/life.imageStore.ts';
+import { buildRenderConfig, isThemeApplied } from './utils/life.render.ts';
+import { getSystemThemeMode } from './utils/life.systemTheme.ts';
+import { systemClock, createTimeTravelClock } from './utils/life.clock.ts';
+import { parseIsoDate } from './utils/life.calendar.ts';
+import { getNextRenderBoundary } from './utils/life.schedule.ts';
+import { computeTimelineLayout } from './utils/life.layout.ts';
+import { LIFE_TABLE_COUNTRIES } from './data/life.tables.ts';
+import { parseEventList } from './utils/life.events.ts';
+import { parseEraList } from './utils/life.eras.ts';
+import { getReadableTextColor } from './canvas/life.draw.ts';
+import { AUTO_PALETTE_ID, BUILT_IN_PALETTES } from './data/life.palettes.ts';
+import { LIFE_ZOOM } from './utils/life.zoom.ts';
+import { SHAPE_IDS } from './data/life.shapeRegistry.ts';
+import { FILL_STYLE_IDS } from './data/life.fillStyles.ts';
+import {
+  MAX_BACKGROUND_BLUR,
+  MAX_BACKGROUND_DIM,
+} from './utils/life.backdrop.ts';
+import { isTimeOfDay } from './utils/life.themeSchedule.ts';
 
 import LifeCanvas from './components/LifeCanvas.tsx';
 import SettingsOverlay from './components/SettingsOverlay.tsx';
 import CountdownTimer from './components/CountdownTimer.tsx';
 import PersonalMessage from './components/PersonalMessage.tsx';
+import Backdrop from './components/Backdrop.tsx';
 
 
 
 // ENVIRONMENT CHECK: Determine if the app is running inside the Lively Wallpaper engine
 const isLively = import.meta.env.MODE === 'lively';
 
+// setTimeout silently overflows (fires immediately) above this delay (~24.8 days)
+const MAX_TIMEOUT_DELAY = 2 ** 31 - 1;
+
+// Never reschedule faster than this, even if a boundary is imminent
+const MIN_TIMEOUT_DELAY = 250;
+
+// Size (in CSS pixels) and pixel density of the window
+interface Viewport {
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+/**
+ * Reads the current viewport of the window.
+ * @returns {Viewport} The viewport.
+ */
+const readViewport = (): Viewport => ({
+  width: window.innerWidth,
+  height: window.innerHeight,
+  pixelRatio: window.devicePixelRatio || 1,
+});
+
 export default function App() {
   // Initialize State from Persistence Layer
   const [userConfig, setUserConfig] = useState<UserConfig>(loadConfig());
 
+  // Life events are persisted separately from the UserConfig
+  const [events, setEvents] = useState<LifeEvent[]>(loadEvents());
+
+  // Time travel preview date (YYYY-MM-DD). Lives only in memory, never in localStorage.
+  const [previewDate, setPreviewDate] = useState<string | null>(null);
+
+  // Zoomed part of the timeline. Lives only in memory, never in localStorage.
+  const [zoom, setZoom] = useState<ZoomState>(LIFE_ZOOM);
+
+  // The clock every time-dependent module reads "now" from
+  const clock = useMemo(() => {
+    if (!previewDate) return systemClock;
+
+    const target = parseIsoDate(previewDate);
+    if (isNaN(target.getTime())) return systemClock;
+
+    // Keep the current wall-clock time of day so the preview keeps ticking naturally
+    const realNow = systemClock.now();
+    target.setHours(
+      realNow.getHours(),
+      realNow.getMinutes(),
+      realNow.getSeconds(),
+      realNow.getMilliseconds(),
+    );
+
+    return createTimeTravelClock(target);
+  }, [previewDate]);
+
+  // Incremented whenever a time boundary is reached; forces the RenderConfig to be re-derived
+  const [boundaryTick, setBoundaryTick] = useState(0);
+
+  // Viewport the canvas fills; the number of present cell fill steps depends on it
+  const [viewport, setViewport] = useState(readViewport);
+
+  // Viewport Listener: resizes, and density changes (e.g. moving to another monitor)
+  useEffect(() => {
+    const handleViewportChange = () => {
+      const next = readViewport();
+
+      setViewport((prev) =>
+        prev.width === next.width &&
+        prev.height === next.height &&
+        prev.pixelRatio === next.pixelRatio
+          ? prev
+          : next,
+      );
+    };
+
+    //a density query only matches the density it was created for, so renew it
+    let densityQuery: MediaQueryList | null = null;
+    const watchDensity = () => {
+      densityQuery?.removeEventListener('change', handleDensityChange);
+      densityQuery = window.matchMedia(
+        `(resolution: ${window.devicePixelRatio || 1}dppx)`,
+      );
+      densityQuery.addEventListener('change', handleDensityChange);
+    };
+    const handleDensityChange = () => {
+      handleViewportChange();
+      watchDensity();
+    };
+
+    window.addEventListener('resize', handleViewportChange);
+    watchDensity();
+
+    return () => {
+      window.removeEventListener('resize', handleViewportChange);
+      densityQuery?.removeEventListener('change', handleDensityChange);
+    };
+  }, []);
+
   // A dummy state to force a React re-render when the OS theme changes
   const [, setSystemThemeTick] = useState(0);
 
@@ -56,13 +213,110 @@ export default function App() {
     };
   }, [userConfig.theme]);
 
+  // The background image (loaded from the image store) and its average color
+  const [backgroundImage, setBackgroundImage] = useState<{
+    id: string;
+    url: string;
+    color: string | null;
+  } | null>(null);
+  const { kind: backgroundKind, imageId } = userConfig.background;
+
+  // Background Image Loader: reads the image back whenever another one is selected
+  useEffect(() => {
+    if (backgroundKind !== 'image' || imageId === '') return;
+
+    let isCancelled = false;
+    let url: string | null = null;
+
+    const load = async () => {
+      const image = await loadBackgroundImage(imageId);
+      if (!image || isCancelled) return;
+
+      const color = await measureImageColor(image);
+      if (isCancelled) return;
+
+      url = URL.createObjectURL(image);
+      setBackgroundImage({ id: imageId, url, color });
+    };
+
+    load().catch((error) =>
+      console.error('Failed to load the background image.', error),
+    );
+
+    return () => {
+      isCancelled = true;
+      if (url) {
+        URL.revokeObjectURL(url);
+        setBackgroundImage(null);
+      }
+    };
+  }, [backgroundKind, imageId]);
+
+  // Only the image of the current configuration is shown
+  const activeImage =
+    backgroundKind === 'image' && backgroundImage?.id === imageId
+      ? backgroundImage
+      : null;
+
   // Lively Wallpaper External Input Listener
   useEffect(() => {
     // If this is the browser extension build we do nothing here.
     if (!isLively) return;
 
     // Attach listener to global window object so Lively's C# engine can inject data
-    window.livelyPropertyListener = (name: string, val: string | number) => {
+    window.livelyPropertyListener = (
+      name: string,
+      val: string | number | boolean,
+    ) => {
+      // Events are not part of the UserConfig; Lively edits them as one text box
+      if (name === 'events') {
+        const parsedEvents = parseEventList(String(val));
+        setEvents(parsedEvents);
+        saveEvents(parsedEvents);
+        return;
+      }
+
+      // The file picker copies the image next to the wallpaper and passes its
+      // relative path: copy it into the image store, like the settings drawer
+      if (name === 'backgroundImage') {
+        const path = String(val).replace(/\\/g, '/');
+        if (path === '') return;
+
+        // Storing drops the other images, so nothing but an image may get there
+        fetch(path)
+          .then((response) => {
+            if (!response.ok) {
+              throw new Error(`${response.status} ${response.statusText}`);
+            }
+            return response.blob();
+          })
+          .then((image) => {
+            if (!image.type.startsWith('image/')) {
+              throw new Error(`not an image (${image.type || 'unknown type'})`);
+            }
+            return storeBackgroundImage(image, '');
+          })
+          .then((storedId) => {
+            setUserConfig((prev) => {
+              const updatedConfig: UserConfig = {
+                ...prev,
+                background: {
+                  ...prev.background,
+                  kind: 'image',
+                  imageId: storedId,
+                  imageName: path.split('/').pop() ?? path,
+                },
+              };
+              saveConfig(updatedConfig);
+              return updatedConfig;
+            });
+          })
+          .catch((error) =>
+            console.error('Failed to load the Lively background image.', error),
+          );
+        return;
+      }
+
       setUserConfig((prev) => {
         const updatedConfig = { ...prev };
 
@@ -86,21 +340,303 @@ export default function App() {
             }
             break;
           case 'theme': {
-            // 0 for Light, 1 for Dark (System Auto disabled for Lively due to lively engine limits)
+            // 0 for Light, 1 for Dark, 2 for Schedule (System Auto disabled for Lively due to lively engine limits)
             const themeIndex = Number(val);
-            if (themeIndex === 0 || themeIndex === 1) {
-              updatedConfig.theme = ['light', 'dark'][
+            if (themeIndex >= 0 && themeIndex <= 2) {
+              updatedConfig.theme = ['light', 'dark', 'schedule'][
                 themeIndex
               ] as ThemePreference;
             }
             break;
           }
+          case 'themeScheduleKind': {
+            // 0 for fixed times, 1 for sunrise and sunset
+            const scheduleKindIndex = Number(val);
+            if (scheduleKindIndex === 0 || scheduleKindIndex === 1) {
+              updatedConfig.themeSchedule = {
+                ...prev.themeSchedule,
+                kind: ['fixed', 'sun'][scheduleKindIndex] as ThemeScheduleKind,
+              };
+            }
+            break;
+          }
+          case 'themeLightAt':
+            if (isTimeOfDay(val)) {
+              updatedConfig.themeSchedule = {
+                ...prev.themeSchedule,
+                lightAt: val,
+              };
+            }
+            break;
+          case 'themeDarkAt':
+            if (isTimeOfDay(val)) {
+              updatedConfig.themeSchedule = {
+                ...prev.themeSchedule,
+                darkAt: val,
+              };
+            }
+            break;
+          case 'themeLatitude': {
+            const latitude = Number(val);
+            if (String(val).trim() !== '' && !isNaN(latitude)) {
+              updatedConfig.themeSchedule = {
+                ...prev.themeSchedule,
+                latitude: Math.max(-90, Math.min(90, latitude)),
+              };
+            }
+            break;
+          }
+          case 'themeLongitude': {
+            const longitude = Number(val);
+            if (String(val).trim() !== '' && !isNaN(longitude)) {
+              updatedConfig.themeSchedule = {
+                ...prev.themeSchedule,
+                longitude: Math.max(-180, Math.min(180, longitude)),
+              };
+            }
+            break;
+          }
           case 'shape': {
+            // Dropdown items follow the order of the shape registry
             const shapeIndex = Number(val);
-            if (shapeIndex >= 0 && shapeIndex <= 2) {
-              updatedConfig.shape = ['square', 'circle', 'heart'][
-                shapeIndex
-              ] as Shape;
+            if (shapeIndex >= 0 && shapeIndex < SHAPE_IDS.length) {
+              updatedConfig.shape = SHAPE_IDS[shapeIndex];
+            }
+            break;
+          }
+          case 'customShape':
+            if (isCustomShape(val)) {
+              updatedConfig.customShape = val.trim();
+            }
+            break;
+          case 'fillStyle': {
+            // Dropdown items follow the order of the fill style registry
+            const fillStyleIndex = Number(val);
+            if (fillStyleIndex >= 0 && fillStyleIndex < FILL_STYLE_IDS.length) {
+              updatedConfig.fillStyle = FILL_STYLE_IDS[fillStyleIndex];
+            }
+            break;
+          }
+          case 'granularity': {
+            const granularityIndex = Number(val);
+            if (granularityIndex >= 0 && granularityIndex <= 3) {
+              updatedConfig.granularity = ['year', 'month', 'week', 'day'][
+                granularityIndex
+              ] as Granularity;
+            }
+            break;
+          }
+          case 'layout': {
+            const layoutIndex = Number(val);
+            if (layoutIndex >= 0 && layoutIndex <= 5) {
+              updatedConfig.layout = [
+                'grid',
+                'yearRows',
+                'decades',
+                'spiral',
+                'rings',
+                'honeycomb',
+              ][layoutIndex] as LayoutStrategy;
+            }
+            break;
+          }
+          case 'cellOrder': {
+            const orderIndex = Number(val);
+            if (orderIndex >= 0 && orderIndex <= 2) {
+              updatedConfig.cellOrder = ['leftToRight', 'rightToLeft', 'snake'][
+                orderIndex
+              ] as CellOrder;
+            }
+            break;
+          }
+          case 'palette': {
+            // 0 for Auto, then the bundled palettes in order
+            const paletteIndex = Number(val);
+            if (
+              paletteIndex >= 0 &&
+              paletteIndex <= BUILT_IN_PALETTES.length
+            ) {
+              updatedConfig.palette =
+                paletteIndex === 0
+                  ? AUTO_PALETTE_ID
+                  : BUILT_IN_PALETTES[paletteIndex - 1].id;
+            }
+            break;
+          }
+          case 'expectancyMode': {
+            const modeIndex = Number(val);
+            if (modeIndex === 0 || modeIndex === 1) {
+              updatedConfig.expectancyMode = ['manual', 'estimate'][
+                modeIndex
+              ] as ExpectancyMode;
+            }
+            break;
+          }
+          case 'lifeTableCountry': {
+            const countryIndex = Number(val);
+            if (
+              countryIndex >= 0 &&
+              countryIndex < LIFE_TABLE_COUNTRIES.length
+            ) {
+              updatedConfig.lifeTableCountry =
+                LIFE_TABLE_COUNTRIES[countryIndex];
+            }
+            break;
+          }
+          case 'sex': {
+            const sexIndex = Number(val);
+            if (sexIndex === 0 || sexIndex === 1) {
+              updatedConfig.sex = ['female', 'male'][sexIndex] as Sex;
+            }
+            break;
+          }
+          case 'smoking': {
+            const smokingIndex = Number(val);
+            if (smokingIndex >= 0 && smokingIndex <= 2) {
+              updatedConfig.smoking = ['never', 'former', 'current'][
+                smokingIndex
+              ] as SmokingStatus;
+            }
+            break;
+          }
+          case 'activity': {
+            const activityIndex = Number(val);
+            if (activityIndex >= 0 && activityIndex <= 2) {
+              updatedConfig.activity = ['sedentary', 'moderate', 'active'][
+                activityIndex
+              ] as ActivityLevel;
+            }
+            break;
+          }
+          case 'futureShading': {
+            const shadingIndex = Number(val);
+            if (shadingIndex === 0 || shadingIndex === 1) {
+              updatedConfig.futureShading = ['flat', 'survival'][
+                shadingIndex
+              ] as FutureShading;
+            }
+            break;
+          }
+          case 'survivalModel': {
+            const modelIndex = Number(val);
+            if (modelIndex === 0 || modelIndex === 1) {
+              updatedConfig.survivalModel = ['lifeTable', 'gompertz'][
+                modelIndex
+              ] as SurvivalModel;
+            }
+            break;
+          }
+          case 'gompertzModalAge': {
+            const modalAge = Number(val);
+            if (!isNaN(modalAge)) {
+              updatedConfig.gompertzModalAge = Math.max(
+                1,
+                Math.min(150, modalAge),
+              );
+            }
+            break;
+          }
+          case 'gompertzDispersion': {
+            const dispersion = Number(val);
+            if (!isNaN(dispersion)) {
+              updatedConfig.gompertzDispersion = Math.max(
+                1,
+                Math.min(30, dispersion),
+              );
+            }
+            break;
+          }
+          case 'maxAge': {
+            const maxAge = Number(val);
+            if (!isNaN(maxAge)) {
+              updatedConfig.maxAge = Math.max(1, Math.min(150, maxAge));
+            }
+            break;
+          }
+          case 'eras':
+            if (typeof val === 'string') {
+              updatedConfig.eras = parseEraList(val);
+            }
+            break;
+          case 'motion':
+            if (typeof val === 'boolean') {
+              updatedConfig.motion = val;
+            }
+            break;
+          case 'backgroundKind': {
+            // 0 for the palette background, then solid, gradient and image
+            const kindIndex = Number(val);
+            if (kindIndex >= 0 && kindIndex <= 3) {
+              updatedConfig.background = {
+                ...prev.background,
+                kind: ['palette', 'solid', 'gradient', 'image'][
+                  kindIndex
+                ] as BackgroundKind,
+              };
+            }
+            break;
+          }
+          case 'backgroundColor':
+            if (isHexColor(val)) {
+              updatedConfig.background = { ...prev.background, color: val };
+            }
+            break;
+          case 'backgroundGradientFrom':
+            if (isHexColor(val)) {
+              updatedConfig.background = {
+                ...prev.background,
+                gradientFrom: val,
+              };
+            }
+            break;
+          case 'backgroundGradientTo':
+            if (isHexColor(val)) {
+              updatedConfig.background = {
+                ...prev.background,
+                gradientTo: val,
+              };
+            }
+            break;
+          case 'backgroundGradientAngle': {
+            const angle = Number(val);
+            if (!isNaN(angle)) {
+              updatedConfig.background = {
+                ...prev.background,
+                gradientAngle: Math.max(0, Math.min(360, angle)),
+              };
+            }
+            break;
+          }
+          case 'backgroundBlur': {
+            const blur = Number(val);
+            if (!isNaN(blur)) {
+              updatedConfig.background = {
+                ...prev.background,
+                blur: Math.max(0, Math.min(MAX_BACKGROUND_BLUR, blur)),
+              };
+            }
+            break;
+          }
+          case 'backgroundDim':
+          case 'backgroundVignette': {
+            // Lively sliders are in percent
+            const amount = Number(val) / 100;
+            if (!isNaN(amount)) {
+              updatedConfig.background = {
+                ...prev.background,
+                ...(name === 'backgroundDim'
+                  ? { dim: Math.max(0, Math.min(MAX_BACKGROUND_DIM, amount)) }
+                  : { vignette: Math.max(0, Math.min(1, amount)) }),
+              };
+            }
+            break;
+          }
+          case 'renderBackend': {
+            const backendIndex = Number(val);
+            if (backendIndex === 0 || backendIndex === 1) {
+              updatedConfig.renderBackend = ['worker', 'main'][
+                backendIndex
+              ] as RenderBackend;
             }
             break;
           }
@@ -120,7 +656,7 @@ export default function App() {
   // CENTRALIZED DATA ERROR BOUNDARY
   // Lively's UI allows arbitrary text injection. We must intercept invalid dates here.
   // Try to parse the current date from the state
-  const parsedDate = new Date(`${userConfig.dob}T00:00:00`);
+  const parsedDate = parseIsoDate(userConfig.dob);
   const isInvalidDate = isNaN(parsedDate.getTime());
 
   // If it's invalid silently fall back to a safe date for calculations
@@ -130,26 +666,116 @@ export default function App() {
   const safeConfig = { ...userConfig, dob: safeDob };
 
   // Derive Runtime Configuration using the safe data
-  const renderConfig = buildRenderConfig(safeConfig);
+  const renderConfig = buildRenderConfig(
+    safeConfig,
+    clock,
+    events,
+    zoom,
+    getSystemThemeMode(),
+    activeImage?.color ?? null,
+  );
   const isDark = renderConfig.themeMode === 'dark';
 
+  // The palette colors the UI chrome through CSS variables (see index.css)
+  const { palette } = renderConfig;
+  const paletteStyle = {
+    '--palette-background': palette.background,
+    '--palette-accent': palette.accent,
+    '--palette-accent-text': getReadableTextColor(palette.accent),
+  } as CSSProperties;
+
+  const { totalCells, granularity, layout, cellOrder } = renderConfig;
+
+  // Only a scheduled theme that shows adds its switches to the boundaries
+  const themeSchedule =
+    userConfig.theme === 'schedule' && isThemeApplied(userConfig)
+      ? userConfig.themeSchedule
+      : null;
+
+  // Boundary Scheduler: re-derive the RenderConfig exactly when something visible changes
+  useEffect(() => {
+    // Number of device pixels the present cell fill is spread across
+    const layoutConfig = computeTimelineLayout(
+      { totalCells, granularity, layout, cellOrder },
+      viewport.width,
+      viewport.height,
+    );
+    const fillSteps = Math.ceil(layoutConfig.cellSize * viewport.pixelRatio);
+
+    const nextBoundary = getNextRenderBoundary(
+      safeDob,
+      granularity,
+      fillSteps,
+      clock,
+      themeSchedule,
+    );
+    const delay = nextBoundary.getTime() - clock.now().getTime();
+
+    const timeoutId = window.setTimeout(
+      () => setBoundaryTick((tick) => tick + 1),
+      Math.min(Math.max(delay, MIN_TIMEOUT_DELAY), MAX_TIMEOUT_DELAY),
+    );
+
+    // Timers are suspended while the machine sleeps, so catch up when we become visible again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        setBoundaryTick((tick) => tick + 1);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [
+    safeDob,
+    granularity,
+    totalCells,
+    layout,
+    cellOrder,
+    viewport,
+    clock,
+    themeSchedule,
+    boundaryTick,
+  ]);
+
   // React UI Update Handler (Settings Menu) (only for browser extension)
   const handleConfigUpdate = (newConfig: UserConfig) => {
     setUserConfig(newConfig);
     saveConfig(newConfig);
   };
 
+  // Life events editor handler (Settings Menu) (only for browser extension)
+  const handleEventsUpdate = (newEvents: LifeEvent[]) => {
+    setEvents(newEvents);
+    saveEvents(newEvents);
+  };
+
   return (
     // The outermost wrapper controls the global Tailwind theme.
     // We toggle the 'dark' class here, and the rest of the app inherits it.
     <div
-      className={`relative w-screen h-screen overflow-hidden transition-colors duration-500 ${
-        isDark ? 'dark bg-slate-950' : 'bg-slate-50'
+      className={`relative w-screen h-screen overflow-hidden transition-colors duration-500 bg-palette-background ${
+        isDark ? 'dark' : ''
       }`}
+      style={paletteStyle}
     >
+      {/*  LAYER 0: USER BACKGROUND (color, gradient or image, with its effects) */}
+      <Backdrop
+        background={safeConfig.background}
+        imageUrl={activeImage?.url ?? null}
+      />
+
       {/*  LAYER 1: CANVAS ENGINE (BACKGROUND) */}
       {/* The canvas component handles its own z-index (sits as the background) and full-screen sizing */}
-      <LifeCanvas renderConfig={renderConfig} />
+      <LifeCanvas
+        renderConfig={renderConfig}
+        clock={clock}
+        onZoomChange={setZoom}
+        renderBackend={safeConfig.renderBackend}
+      />
 
       {/*  LAYER 2: REACT UI (FOREGROUND)  */}
       {/* The react layer sits on top of background (canvas layer)*/}
@@ -186,14 +812,36 @@ export default function App() {
             <SettingsOverlay
               currentConfig={userConfig}
               onSave={handleConfigUpdate}
+              currentEvents={events}
+              onSaveEvents={handleEventsUpdate}
+              previewDate={previewDate}
+              onPreviewDateChange={setPreviewDate}
+              renderConfig={renderConfig}
+              clock={clock}
             />
           </div>
         )}
 
+        {/* Time Travel Badge: reminds the user the wallpaper is not showing today */}
+        {previewDate && (
+          <div className="pointer-events-auto absolute bottom-8 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 py-2 px-5 rounded-2xl bg-palette-accent/10 backdrop-blur-xl border border-palette-accent/20 shadow-lg">
+            <span className="text-sm tracking-wide text-slate-800 dark:text-white/80">
+              Previewing {previewDate}
+            </span>
+            <button
+              onClick={() => setPreviewDate(null)}
+              className="text-sm font-medium text-palette-accent hover:opacity-80 cursor-pointer"
+            >
+              Back to today
+            </button>
+          </div>
+        )}
+
         {/* Central High-Performance Timer */}
         <CountdownTimer
           dob={safeConfig.dob}
-          expectancy={userConfig.expectancy}
+          expectancy={renderConfig.expectancy}
+          clock={clock}
         />
 
         {/* Bottom Message Banner */}
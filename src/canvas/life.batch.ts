@@ -0,0 +1,133 @@
+/**
+ * LIFE TIMELINE BATCHED CELL PAINTER
+ *
+ * This file paints many cells with as few draw commands as possible.
+ *
+ * Drawing cell by cell costs one `fillStyle` change and one path per cell.
+ * Instead, cells are collected into BUCKETS of identical paint, i.e. the same
+ * opacity, the same color and the same operation (fill or stroke). Every
+ * bucket becomes a single "shapes" display command listing the position of
+ * each of its cells, which a backend emits with one `fill()` or `stroke()`
+ * (see life.canvas2d.ts):
+ *
+ *     50,000 cells  →  ~200 buckets  →  ~200 draw calls
+ *
+ * The gradient already rounds every color to whole RGB values, so the number
+ * of buckets stays bounded no matter how many cells there are. Opacities
+ * (survival shading) are rounded to steps of 1/64, which is below what the
+ * eye can tell apart between neighboring cells.
+ *
+ * NOTE:
+ *
+ * This file only groups already resolved paint into display commands.
+ * It must NOT:
+ * - classify cell state or resolve colors
+ * - perform layout calculations
+ * - access Canvas APIs
+ */
+
+import type { ShapeOutline, ShapesCommand } from '../types/life.types.ts';
+
+const OPACITY_STEPS = 64;
+
+/**
+ * The resolved paint of a single cell.
+ */
+export interface CellPaint {
+  /**
+   * Fill color, or null for an outlined cell.
+   */
+  fill: string | null;
+  /**
+   * Outline color (used when there is no fill).
+   */
+  stroke: string;
+  /**
+   * Opacity [0, 1].
+   */
+  alpha: number;
+}
+
+/**
+ * A batch of cells of one shape and size, waiting to be flushed.
+ */
+export interface PaintBatch {
+  outline: ShapeOutline;
+  size: number;
+  gap: number;
+  lineWidth: number;
+  buckets: Map<string, ShapesCommand>;
+}
+
+/**
+ * Starts an empty batch.
+ * @param {ShapeOutline} outline - The outline every cell of the batch is drawn with.
+ * @param {number} cellSize - The grid cell size (the shape is drawn inside its padded box).
+ * @param {number} lineWidth - The outline width of outlined cells.
+ * @returns {PaintBatch} The batch.
+ */
+export const createPaintBatch = (
+  outline: ShapeOutline,
+  cellSize: number,
+  lineWidth: number,
+): PaintBatch => {
+  const gap = cellSize * 0.08;
+
+  return {
+    outline,
+    size: cellSize - gap,
+    gap,
+    lineWidth,
+    buckets: new Map(),
+  };
+};
+
+/**
+ * Queues a cell into the bucket matching its paint.
+ * @param {PaintBatch} batch - The batch to add to.
+ * @param {number} x - The top-left X coordinate of the grid cell.
+ * @param {number} y - The top-left Y coordinate of the grid cell.
+ * @param {CellPaint} paint - The resolved paint of the cell.
+ */
+export const addCellToBatch = (
+  batch: PaintBatch,
+  x: number,
+  y: number,
+  paint: CellPaint,
+): void => {
+  const alpha = Math.round(paint.alpha * OPACITY_STEPS) / OPACITY_STEPS;
+  if (alpha <= 0) return;
+
+  const isFill = paint.fill !== null;
+  const color = paint.fill ?? paint.stroke;
+  const key = `${alpha}|${isFill ? 'fill' : 'stroke'}|${color}`;
+
+  let bucket = batch.buckets.get(key);
+  if (!bucket) {
+    bucket = {
+      op: 'shapes',
+      outline: batch.outline,
+      size: batch.size,
+      points: [],
+      fill: isFill ? color : null,
+      stroke: isFill ? null : color,
+      lineWidth: batch.lineWidth,
+      alpha,
+    };
+    batch.buckets.set(key, bucket);
+  }
+
+  bucket.points.push(x + batch.gap / 2, y + batch.gap / 2);
+};
+
+/**
+ * Turns every bucket into its display command, then empties the batch.
+ * @param {PaintBatch} batch - The batch to flush.
+ * @returns {ShapesCommand[]} One command per bucket, in the order the buckets were opened.
+ */
+export const flushPaintBatch = (batch: PaintBatch): ShapesCommand[] => {
+  const commands = [...batch.buckets.values()];
+  batch.buckets.clear();
+
+  return commands;
+};
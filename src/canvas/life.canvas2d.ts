@@ -0,0 +1,267 @@
+/**
+ * LIFE TIMELINE CANVAS 2D BACKEND
+ *
+ * This file replays display lists (see life.renderLoop.ts) onto an HTML5
+ * Canvas 2D context. It is the only place of the rendering engine that
+ * issues Canvas API calls.
+ *
+ * REPLAY:
+ * - clear:        wipes the whole canvas (inside the current clip)
+ * - save/restore: push / pop the clip
+ * - clip:         intersects the clip with a union of rectangles (and of a
+ *                 unit-box path scaled into place)
+ * - shapes:       ONE combined Path2D per command, built from the shared
+ *                 shape template (life.shapes.ts) copied to every position,
+ *                 then a single fill and/or stroke (glyph outlines fill with
+ *                 one fillText per position instead)
+ * - rect, circle, text: drawn as is
+ *
+ * The context is expected to be scaled already (e.g. by devicePixelRatio), so
+ * display list coordinates are used as CSS pixels.
+ */
+
+import type {
+  Canvas2DContext,
+  DisplayCommand,
+  DisplayList,
+  DisplayPaint,
+  RenderConfig,
+} from '../types/life.types.ts';
+import { computeTimelineLayout } from '../utils/life.layout.ts';
+import { buildDisplayList } from './life.renderLoop.ts';
+import { GLYPH_SCALE, getShapeTemplate } from './life.shapes.ts';
+
+/**
+ * Resolves a display paint into a Canvas fill style.
+ * @param {Canvas2DContext} ctx - The active Canvas 2D rendering context.
+ * @param {DisplayPaint} paint - A CSS color or a gradient.
+ * @returns {string | CanvasGradient} The fill style.
+ */
+const toFillStyle = (
+  ctx: Canvas2DContext,
+  paint: DisplayPaint,
+): string | CanvasGradient => {
+  if (typeof paint === 'string') return paint;
+
+  const gradient = ctx.createLinearGradient(
+    paint.x0,
+    paint.y0,
+    paint.x1,
+    paint.y1,
+  );
+
+  for (const stop of paint.stops) {
+    gradient.addColorStop(stop.offset, stop.color);
+  }
+
+  return gradient;
+};
+
+/**
+ * Builds the path of a shapes command: the template copied to every position.
+ * @param {Path2D} template - The shape template, at the origin.
+ * @param {number[]} points - The flat list of positions.
+ * @returns {Path2D} The combined path.
+ */
+const getShapesPath = (template: Path2D, points: readonly number[]): Path2D => {
+  const path = new Path2D();
+  // Reused for every copy; addPath copies the transform at call time
+  const placement = new DOMMatrix();
+
+  for (let i = 0; i < points.length; i += 2) {
+    placement.e = points[i];
+    placement.f = points[i + 1];
+    path.addPath(template, placement);
+  }
+
+  return path;
+};
+
+/**
+ * Fills a glyph (e.g. an emoji) into the draw box of every position.
+ * @param {Canvas2DContext} ctx - The active Canvas 2D rendering context.
+ * @param {string} text - The glyph.
+ * @param {number} size - The width and height of each draw box.
+ * @param {number[]} points - The flat list of top-left corners.
+ */
+const fillGlyphs = (
+  ctx: Canvas2DContext,
+  text: string,
+  size: number,
+  points: readonly number[],
+): void => {
+  ctx.font = `${size * GLYPH_SCALE}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (let i = 0; i < points.length; i += 2) {
+    ctx.fillText(text, points[i] + size / 2, points[i + 1] + size / 2);
+  }
+};
+
+/**
+ * Replays a single command.
+ * @param {Canvas2DContext} ctx - The active Canvas 2D rendering context.
+ * @param {DisplayCommand} command - The command to draw.
+ */
+const replayCommand = (ctx: Canvas2DContext, command: DisplayCommand): void => {
+  switch (command.op) {
+    case 'clear':
+      //clear in device pixels, whatever the current scale
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      ctx.restore();
+      break;
+    case 'save':
+      ctx.save();
+      break;
+    case 'restore':
+      ctx.restore();
+      break;
+    case 'clip': {
+      const { rects, path } = command;
+      const region = new Path2D();
+      for (let i = 0; i < rects.length; i += 4) {
+        region.rect(rects[i], rects[i + 1], rects[i + 2], rects[i + 3]);
+      }
+      if (path) {
+        region.addPath(
+          new Path2D(path.d),
+          new DOMMatrix([path.size, 0, 0, path.size, path.x, path.y]),
+        );
+      }
+      ctx.clip(region);
+      break;
+    }
+    case 'shapes': {
+      const { outline, points } = command;
+      const template = getShapeTemplate(outline, command.size);
+
+      ctx.save();
+
+      //a single copy (present cell, highlight) is simply drawn in place
+      let path = template;
+      if (points.length === 2) {
+        ctx.translate(points[0], points[1]);
+      } else {
+        path = getShapesPath(template, points);
+      }
+
+      ctx.globalAlpha = command.alpha;
+      ctx.lineWidth = command.lineWidth;
+      if (command.fill !== null) {
+        ctx.fillStyle = command.fill;
+        if (outline.kind === 'glyph') {
+          //positions are already in place when the context was translated
+          fillGlyphs(
+            ctx,
+            outline.text,
+            command.size,
+            points.length === 2 ? [0, 0] : points,
+          );
+        } else {
+          ctx.fill(path);
+        }
+      }
+      if (command.stroke !== null) {
+        ctx.strokeStyle = command.stroke;
+        ctx.stroke(path);
+      }
+      ctx.restore();
+      break;
+    }
+    case 'rect':
+      ctx.save();
+      if (command.fill !== null) {
+        ctx.fillStyle = toFillStyle(ctx, command.fill);
+        ctx.fillRect(command.x, command.y, command.width, command.height);
+      }
+      if (command.stroke !== null) {
+        ctx.strokeStyle = command.stroke;
+        ctx.lineWidth = command.lineWidth;
+        ctx.strokeRect(command.x, command.y, command.width, command.height);
+      }
+      ctx.restore();
+      break;
+    case 'circle':
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(command.cx, command.cy, command.radius, 0, 2 * Math.PI);
+      if (command.fill !== null) {
+        ctx.fillStyle = command.fill;
+        ctx.fill();
+      }
+      if (command.stroke !== null) {
+        ctx.strokeStyle = command.stroke;
+        ctx.lineWidth = command.lineWidth;
+        ctx.stroke();
+      }
+      ctx.restore();
+      break;
+    case 'text':
+      ctx.save();
+      ctx.font = `${command.fontWeight} ${command.fontSize}px sans-serif`;
+      ctx.textAlign = command.align;
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = command.color;
+      ctx.fillText(command.text, command.x, command.y);
+      ctx.restore();
+      break;
+  }
+};
+
+/**
+ * Replays display commands onto a canvas, in order.
+ * @param {Canvas2DContext} ctx - The active Canvas 2D rendering context (already scaled).
+ * @param {DisplayCommand[]} commands - The commands to draw.
+ */
+export const replayDisplayCommands = (
+  ctx: Canvas2DContext,
+  commands: readonly DisplayCommand[],
+): void => {
+  for (const command of commands) {
+    replayCommand(ctx, command);
+  }
+};
+
+/**
+ * Replays a complete display list onto a canvas.
+ * @param {Canvas2DContext} ctx - The active Canvas 2D rendering context (already scaled).
+ * @param {DisplayList} displayList - The scene to draw.
+ */
+export const replayDisplayList = (
+  ctx: Canvas2DContext,
+  displayList: DisplayList,
+): void => {
+  replayDisplayCommands(ctx, displayList.commands);
+};
+
+/**
+ * Executes a complete (uncached) render cycle of the life timeline onto the provided Canvas.
+ *
+ * @param {Canvas2DContext} ctx - The active 2D rendering context of the target canvas.
+ * @param {RenderConfig} renderConfig - The derived runtime configuration containing timeline metrics and user preferences.
+ * @param {number} canvasWidth - The current CSS pixel width of the canvas.
+ * @param {number} canvasHeight - The current CSS pixel height of the canvas.
+ * @param {number} hoverIndex - The hovered cell (counted from birth), or -1 (default).
+ * @returns {void} This function performs side-effects (drawing to the canvas) and returns nothing.
+ */
+export const renderLifeTimeline = (
+  ctx: Canvas2DContext,
+  renderConfig: RenderConfig,
+  canvasWidth: number,
+  canvasHeight: number,
+  hoverIndex: number = -1,
+): void => {
+  const layoutConfig = computeTimelineLayout(
+    renderConfig,
+    canvasWidth,
+    canvasHeight,
+  );
+
+  replayDisplayList(
+    ctx,
+    buildDisplayList(renderConfig, layoutConfig, hoverIndex),
+  );
+};
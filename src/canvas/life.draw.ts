@@ -2,45 +2,54 @@
  * LIFE TIMELINE CANVAS RENDERING ENGINE
  *
  * This file serves as the "Paintbox" for the Life Timeline application.
- * It strictly encapsulates all HTML5 Canvas 2D API commands, keeping the rest
- * of the application entirely agnostic of the rendering implementation.
+ * It resolves what every cell looks like and describes it as display commands
+ * (see DisplayList), keeping the rest of the application entirely agnostic of
+ * the rendering implementation (Canvas 2D, SVG, ...).
  *
  * RESPONSIBILITIES:
- * - Color Interpolation: Translating life progress into a smooth RGB gradient.
- * - Spatial Padding: Applying a responsive visual gap between timeline cells.
- * - Shape Drawing: Tracing paths for squares, circles, and bezier-curves (hearts).
- * - State Rendering: Handling the visual differences between:
+ * - Color Interpolation: Translating life progress into a smooth RGB gradient
+ *   through the stops of the active palette (see life.palettes.ts).
+ * - State Colors: Resolving the visual differences between:
  * -> Past (Fully filled, solid color)
  * -> Present (Partially filled via clipping masks, stroked outline)
  * -> Future (Empty, stroked outline)
+ * - Era Colors: Resolving the solid or gradient color of a cell inside an era.
+ * - Present Cell: Drawing the single partially filled cell, and the pulse
+ *   rippling out of it when motion is enabled (see life.motion.ts).
+ * - Hover Highlight: Outlining the hovered cell, following its shape.
+ *
+ * Past and future cells are not drawn one by one: the renderer resolves their
+ * colors here and paints them in color buckets (see life.batch.ts). Every
+ * shape outline comes from the shape registry (life.shapeRegistry.ts).
  *
  * RENDERING TECHNIQUE:
- * For the 'present' (current month) state, this engine uses a Canvas Clipping Mask
- * (`ctx.clip()`). This allows a rectangular progress bar to flawlessly mask any
- * complex underlying shape (like a circle or heart) without requiring complex
- * fractional geometry calculations.
+ * For the 'present' (current cell) state, this engine uses a Clipping Mask
+ * (a "clip" command). This allows a progress region (a growing rectangle,
+ * disc or pie wedge) to flawlessly mask any complex underlying shape (like a
+ * circle or heart) without requiring complex fractional geometry
+ * calculations. The region is resolved by the selected fill style (see
+ * life.fillStyles.ts).
  */
 
 import type {
   CellPosition,
-  CellState,
+  DisplayCommand,
+  EraRange,
+  FillRegion,
+  Palette,
+  ShapeOutline,
+  ShapesCommand,
   ThemeMode,
 } from '../types/life.types.ts';
+import type { RGB } from '../utils/life.backdrop.ts';
+import { hexToRgb } from '../utils/life.backdrop.ts';
 
-// COLOR PALETTES & MATH
-type RGB = [number, number, number];
+// How much larger than its cell the pulse ring grows (stays within the
+// quarter-cell margin the render cache repaints around dirty cells)
+const PULSE_GROWTH = 0.3;
 
-const LIGHT_THEME = {
-  start: [34, 197, 94] as RGB, // Tailwind Green-500
-  end: [239, 68, 68] as RGB, // Tailwind Red-500
-  future: '#D1D5DB', // Tailwind Gray-300
-};
-
-const DARK_THEME = {
-  start: [20, 184, 166] as RGB, // Tailwind Teal-500
-  end: [245, 158, 11] as RGB, // Tailwind Amber-500
-  future: '#374151', // Tailwind Gray-700
-};
+const LIGHT_HIGHLIGHT = '#0F172A'; // Tailwind Slate-900
+const DARK_HIGHLIGHT = '#F8FAFC'; // Tailwind Slate-50
 
 /**
  * Linearly interpolates between two RGB colors.
@@ -60,297 +69,216 @@ const lerpColor = (startColor: RGB, endColor: RGB, t: number): string => {
 };
 
 /**
- * Resolves the precise fill color for a specific life-month cell.
- *
- * This function handles two distinct visual states:
- * 1. Future Months: Returns a static, neutral background color to represent unlived time.
- * 2. Past/Present Months: Calculates a dynamic color using linear interpolation (Lerp).
- * The color transitions smoothly from the theme's 'start' color to its 'end' color
- * based on the cell's chronological position across the user's total life expectancy.
- *
- * @param {number} index - The chronological index of the cell being drawn (0-based).
- * @param {number} totalMonths - The total number of months in the user's life expectancy.
- * @param {number} fullMonthsLived - The number of months the user has already completed.
- * @param {ThemeMode} theme - The active rendering theme ('light' or 'dark').
- * @returns {string} A valid CSS color string (Hex or rgb()) for the Canvas API.
+ * Interpolates a position along evenly spaced gradient stops.
+ * @param {readonly string[]} stops - The gradient stops in #RRGGBB format (at least one).
+ * @param {number} t - The position along the gradient between 0.0 and 1.0
+ * @returns {string} A valid CSS rgb() string for the Canvas API
  */
-const getCellColor = (
-  index: number,
-  totalMonths: number,
-  fullMonthsLived: number,
-  theme: ThemeMode,
+export const getGradientColor = (
+  stops: readonly string[],
+  t: number,
 ): string => {
-  if (index > fullMonthsLived) {
-    return theme === 'light' ? LIGHT_THEME.future : DARK_THEME.future;
-  }
+  //a single stop paints every cell alike
+  if (stops.length === 1) return stops[0];
 
-  const t = Math.min(index / totalMonths, 1); //clamped between [0,1]
+  const position = Math.max(Math.min(t, 1), 0) * (stops.length - 1);
+  const segment = Math.min(Math.floor(position), stops.length - 2);
 
-  if (theme === 'light') {
-    return lerpColor(LIGHT_THEME.start, LIGHT_THEME.end, t);
-  } else {
-    return lerpColor(DARK_THEME.start, DARK_THEME.end, t);
-  }
+  return lerpColor(
+    hexToRgb(stops[segment]),
+    hexToRgb(stops[segment + 1]),
+    position - segment,
+  );
 };
 
 /**
- * Renders a square cell on the canvas, applying dynamic gap padding.
- * * @param {CanvasRenderingContext2D} ctx - The active Canvas 2D rendering context.
- * @param {CellPosition} position - The absolute (x, y) top-left coordinate of the cell.
- * @param {number} cellSize - The maximum bounded size of the grid cell.
- * @param {CellState} state - 'past' (filled), 'present' (filling), or 'future' (empty).
- * @param {number} progress - Fractional completion of the current month [0, 1].
- * @param {number} index - The chronological index of the cell.
- * @param {number} totalMonths - Total expected life months (used for color math).
- * @param {number} fullMonthsLived - Total fully lived months (used for state/color math).
- * @param {ThemeMode} theme - The active system or user theme mode.
+ * Picks black or white text, whichever reads better on a background.
+ * @param {string} hex - The background color in #RRGGBB format
+ * @returns {string} '#000000' or '#FFFFFF'
  */
-export const drawSquareCell = (
-  ctx: CanvasRenderingContext2D,
-  position: CellPosition,
-  cellSize: number,
-  state: CellState,
-  progress: number,
-  index: number,
-  totalMonths: number,
-  fullMonthsLived: number,
-  theme: ThemeMode,
-): void => {
-  const gap = cellSize * 0.08;
-  const drawSize = cellSize - gap;
-  const drawX = position.x + gap / 2;
-  const drawY = position.y + gap / 2;
+export const getReadableTextColor = (hex: string): string => {
+  const [r, g, b] = hexToRgb(hex);
 
-  if (state === 'past') {
-    //fully filled
-    ctx.fillStyle = getCellColor(index, totalMonths, fullMonthsLived, theme);
-    ctx.fillRect(drawX, drawY, drawSize, drawSize);
-  } else if (state === 'present') {
-    const fillWidth = Math.max(Math.min(drawSize * progress, drawSize), 0);
+  //perceived brightness (ITU-R BT.601 weights)
+  return r * 0.299 + g * 0.587 + b * 0.114 > 150 ? '#000000' : '#FFFFFF';
+};
 
-    //clip fill region (left -> right fill)
-    ctx.save();
-    ctx.beginPath();
-    ctx.rect(drawX, drawY, fillWidth, drawSize);
-    ctx.clip();
+/**
+ * Resolves the color of a cell inside an era.
+ * Solid eras return their color; gradient eras interpolate from color to
+ * endColor across the era's cells.
+ *
+ * @param {number} index - The chronological index of the cell being drawn (0-based).
+ * @param {EraRange} era - The era coloring this cell.
+ * @returns {string} A valid CSS color string for the Canvas API.
+ */
+export const getEraColor = (index: number, era: EraRange): string => {
+  if (!era.endColor) return era.color;
 
-    //fill full cell (NOT fillWidth)
-    ctx.fillStyle = getCellColor(index, totalMonths, fullMonthsLived, theme);
+  const span = Math.max(era.endIndex - era.startIndex, 1);
+  const t = (index - era.startIndex) / span;
 
-    ctx.fillRect(drawX, drawY, drawSize, drawSize);
-    ctx.restore();
+  return lerpColor(hexToRgb(era.color), hexToRgb(era.endColor), t);
+};
+
+/**
+ * Resolves the precise fill color for a specific timeline cell.
+ *
+ * This function handles three distinct visual states:
+ * 1. Future Cells: Returns the palette's static color to represent unlived time.
+ * 2. Present Cell: Returns the palette's present color, if it has one.
+ * 3. Past/Present Cells: Calculates a dynamic color along the palette's
+ * gradient stops, based on the cell's chronological position across the
+ * user's total life expectancy.
+ *
+ * @param {number} index - The chronological index of the cell being drawn (0-based).
+ * @param {number} totalCells - The total number of cells in the user's life expectancy.
+ * @param {number} fullCellsLived - The number of cells the user has already completed.
+ * @param {Palette} palette - The active palette.
+ * @returns {string} A valid CSS color string (Hex or rgb()) for the Canvas API.
+ */
+export const getCellColor = (
+  index: number,
+  totalCells: number,
+  fullCellsLived: number,
+  palette: Palette,
+): string => {
+  if (index > fullCellsLived) {
+    return palette.future;
+  }
 
-    //draw outline
-    ctx.strokeStyle =
-      theme === 'light' ? LIGHT_THEME.future : DARK_THEME.future;
-    ctx.strokeRect(drawX, drawY, drawSize, drawSize);
-  } else if (state === 'future') {
-    ctx.strokeStyle =
-      theme === 'light' ? LIGHT_THEME.future : DARK_THEME.future;
-    ctx.strokeRect(drawX, drawY, drawSize, drawSize);
+  if (index === fullCellsLived && palette.present !== null) {
+    return palette.present;
   }
+
+  const t = Math.min(index / totalCells, 1); //clamped between [0,1]
+
+  return getGradientColor(palette.past, t);
 };
 
 /**
- * Renders a circular cell on the canvas.
- * Derives center coordinates and radius from the bounding cell size.
+ * Describes the present cell: its outline, partially filled via a clipping mask.
+ * The fill grows as the selected fill style dictates (e.g. squares fill left
+ * to right, hearts bottom to top, or any shape as a clockwise pie).
  *
- * @param {CanvasRenderingContext2D} ctx - The active Canvas 2D rendering context.
  * @param {CellPosition} position - The absolute (x, y) top-left grid coordinate.
  * @param {number} cellSize - The maximum bounded size of the grid cell.
- * @param {CellState} state - 'past' (filled), 'present' (filling), or 'future' (empty).
- * @param {number} progress - Fractional completion of the current month [0, 1].
- * @param {number} index - The chronological index of the cell.
- * @param {number} totalMonths - Total expected life months (used for color math).
- * @param {number} fullMonthsLived - Total fully lived months (used for state/color math).
- * @param {ThemeMode} theme - The active system or user theme mode.
+ * @param {ShapeOutline} outline - The outline of the cell shape.
+ * @param {FillRegion} fillRegion - The lived part of the cell (see life.fillStyles.ts).
+ * @param {string} fillColor - The color of the lived part.
+ * @param {string} outlineColor - The color of the outline.
+ * @param {number} lineWidth - The outline width.
+ * @returns {DisplayCommand[]} The commands drawing the cell.
  */
-export const drawCircleCell = (
-  ctx: CanvasRenderingContext2D,
+export const getPresentCellCommands = (
   position: CellPosition,
   cellSize: number,
-  state: CellState,
-  progress: number,
-  index: number,
-  totalMonths: number,
-  fullMonthsLived: number,
-  theme: ThemeMode,
-): void => {
+  outline: ShapeOutline,
+  fillRegion: FillRegion,
+  fillColor: string,
+  outlineColor: string,
+  lineWidth: number,
+): DisplayCommand[] => {
   const gap = cellSize * 0.08;
   const drawSize = cellSize - gap;
   const drawX = position.x + gap / 2;
   const drawY = position.y + gap / 2;
 
-  const centerX = drawX + drawSize / 2;
-  const centerY = drawY + drawSize / 2;
-  const radius = drawSize / 2;
-
-  if (state === 'past') {
-    //fill full circle
-    ctx.fillStyle = getCellColor(index, totalMonths, fullMonthsLived, theme);
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-    ctx.closePath();
-    ctx.fill();
-  } else if (state === 'present') {
-    const fillWidth = Math.max(Math.min(drawSize * progress, drawSize), 0);
-
-    ctx.save();
-    ctx.beginPath();
-    ctx.rect(drawX, drawY, fillWidth, drawSize);
-    ctx.clip();
-
-    ctx.fillStyle = getCellColor(index, totalMonths, fullMonthsLived, theme);
-
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-    ctx.closePath();
-    ctx.fill();
-
-    ctx.restore();
-
-    ctx.strokeStyle =
-      theme === 'light' ? LIGHT_THEME.future : DARK_THEME.future;
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-    ctx.closePath();
-    ctx.stroke();
-  } else if (state === 'future') {
-    ctx.strokeStyle =
-      theme === 'light' ? LIGHT_THEME.future : DARK_THEME.future;
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-    ctx.closePath();
-    ctx.stroke();
-  }
+  const cell: Omit<ShapesCommand, 'fill' | 'stroke'> = {
+    op: 'shapes',
+    outline,
+    size: drawSize,
+    points: [drawX, drawY],
+    lineWidth,
+    alpha: 1,
+  };
+
+  const fill: ShapesCommand = {
+    ...cell,
+    fill: fillColor,
+    stroke: null,
+    alpha: fillRegion.alpha,
+  };
+  //draw outline
+  const stroke: ShapesCommand = { ...cell, fill: null, stroke: outlineColor };
+
+  if (fillRegion.clip === null) return [fill, stroke];
+
+  //clip fill region, then fill the full shape (NOT just the clipped size)
+  return [
+    { op: 'save' },
+    {
+      op: 'clip',
+      rects: [],
+      path: { d: fillRegion.clip, x: drawX, y: drawY, size: drawSize },
+    },
+    fill,
+    { op: 'restore' },
+    stroke,
+  ];
 };
 
 /**
- * Internal helper function to trace a mathematical heart shape using Bezier curves.
- * Assumes a bounding box defined by x, y, and size.
+ * Describes one frame of the pulse of the present cell: a ring following its
+ * shape that grows out of the cell and fades away.
  *
- * @param {CanvasRenderingContext2D} ctx - The active Canvas context.
- * @param {number} x - The top-left X coordinate of the bounding box.
- * @param {number} y - The top-left Y coordinate of the bounding box.
- * @param {number} size - The width and height of the bounding box.
+ * @param {CellPosition} position - The absolute (x, y) top-left grid coordinate.
+ * @param {number} cellSize - The maximum bounded size of the grid cell.
+ * @param {ShapeOutline} outline - The outline of the cell shape.
+ * @param {number} pulse - Phase of the pulse [0, 1).
+ * @param {string} color - The color of the ring.
+ * @param {number} lineWidth - The outline width.
+ * @returns {ShapesCommand} The command drawing the ring.
  */
-
-const createHeartPath = (
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  size: number,
-): void => {
-  ctx.beginPath();
-
-  // We'll define some internal offsets to keep the heart centered in the box
-  const topY = y + size * 0.25;
-  const bottomY = y + size * 0.95;
-  const centerX = x + size / 2;
-  const leftX = x;
-  const rightX = x + size;
-
-  // Start at the bottom point of the heart
-  ctx.moveTo(centerX, bottomY);
-
-  // Left side of the heart (bottom to top-left)
-  ctx.bezierCurveTo(
-    x + size * 0.2,
-    y + size * 0.7, // Control point 1 (bottom left)
-    leftX,
-    y + size * 0.5, // Control point 2 (middle left)
-    leftX,
-    topY, // End point (top left lobe)
-  );
-
-  // Top left lobe
-  ctx.bezierCurveTo(
-    leftX,
-    y, // CP 1
-    x + size * 0.4,
-    y, // CP 2
-    centerX,
-    y + size * 0.3, // End point (center dip)
-  );
-
-  // Top right lobe
-  ctx.bezierCurveTo(
-    x + size * 0.6,
-    y, // CP 1
-    rightX,
-    y, // CP 2
-    rightX,
-    topY, // End point (top right lobe)
-  );
-
-  // Right side of the heart (top-right to bottom)
-  ctx.bezierCurveTo(
-    rightX,
-    y + size * 0.5, // CP 1 (middle right)
-    x + size * 0.8,
-    y + size * 0.7, // CP 2 (bottom right)
-    centerX,
-    bottomY, // Back to start!
-  );
-
-  ctx.closePath();
+export const getPresentCellPulseCommand = (
+  position: CellPosition,
+  cellSize: number,
+  outline: ShapeOutline,
+  pulse: number,
+  color: string,
+  lineWidth: number,
+): ShapesCommand => {
+  const gap = cellSize * 0.08;
+  const drawSize = (cellSize - gap) * (1 + PULSE_GROWTH * pulse);
+  const inset = (cellSize - drawSize) / 2;
+
+  return {
+    op: 'shapes',
+    outline,
+    size: drawSize,
+    points: [position.x + inset, position.y + inset],
+    fill: null,
+    stroke: color,
+    lineWidth: Math.max(lineWidth, 1),
+    alpha: 1 - pulse,
+  };
 };
 
 /**
- * Renders a heart-shaped cell on the canvas utilizing Bezier Curve path.
+ * Describes the outline of the hovered cell, following its shape.
  *
- * @param {CanvasRenderingContext2D} ctx - The active Canvas 2D rendering context.
  * @param {CellPosition} position - The absolute (x, y) top-left grid coordinate.
  * @param {number} cellSize - The maximum bounded size of the grid cell.
- * @param {CellState} state - 'past' (filled), 'present' (filling), or 'future' (empty).
- * @param {number} progress - Fractional completion of the current month [0, 1].
- * @param {number} index - The chronological index of the cell.
- * @param {number} totalMonths - Total expected life months (used for color math).
- * @param {number} fullMonthsLived - Total fully lived months (used for state/color math).
+ * @param {ShapeOutline} outline - The outline the cells are drawn with.
  * @param {ThemeMode} theme - The active system or user theme mode.
+ * @returns {ShapesCommand} The command drawing the highlight.
  */
-export const drawHeartCell = (
-  ctx: CanvasRenderingContext2D,
+export const getCellHighlightCommand = (
   position: CellPosition,
   cellSize: number,
-  state: CellState,
-  progress: number,
-  index: number,
-  totalMonths: number,
-  fullMonthsLived: number,
+  outline: ShapeOutline,
   theme: ThemeMode,
-): void => {
+): ShapesCommand => {
   const gap = cellSize * 0.08;
-  const drawSize = cellSize - gap;
-  const drawX = position.x + gap / 2;
-  const drawY = position.y + gap / 2;
-
-  if (state === 'past') {
-    ctx.fillStyle = getCellColor(index, totalMonths, fullMonthsLived, theme);
-    createHeartPath(ctx, drawX, drawY, drawSize);
-    ctx.fill();
-  } else if (state === 'present') {
-    const fillHeight = Math.max(Math.min(drawSize * progress, drawSize), 0);
 
-    ctx.save();
-    ctx.beginPath();
-    ctx.rect(drawX, drawY + (drawSize - fillHeight), drawSize, fillHeight);
-    ctx.clip();
-
-    ctx.fillStyle = getCellColor(index, totalMonths, fullMonthsLived, theme);
-    createHeartPath(ctx, drawX, drawY, drawSize);
-    ctx.fill();
-
-    ctx.restore();
-
-    ctx.strokeStyle =
-      theme === 'light' ? LIGHT_THEME.future : DARK_THEME.future;
-    createHeartPath(ctx, drawX, drawY, drawSize);
-    ctx.stroke();
-  } else if (state === 'future') {
-    ctx.strokeStyle =
-      theme === 'light' ? LIGHT_THEME.future : DARK_THEME.future;
-    createHeartPath(ctx, drawX, drawY, drawSize);
-    ctx.stroke();
-  }
+  return {
+    op: 'shapes',
+    outline,
+    size: cellSize - gap,
+    points: [position.x + gap / 2, position.y + gap / 2],
+    fill: null,
+    stroke: theme === 'light' ? LIGHT_HIGHLIGHT : DARK_HIGHLIGHT,
+    lineWidth: Math.max(cellSize * 0.1, 1),
+    alpha: 1,
+  };
 };
@@ -0,0 +1,156 @@
+/**
+ * LIFE TIMELINE ERA LEGEND RENDERER
+ *
+ * This file describes the legend explaining era colors as part of the scene
+ * (display commands), so it shows up identically in the browser, in Lively
+ * and in exported images.
+ *
+ * LAYOUT:
+ * - one entry (color swatch + name) per era name, in chronological order
+ * - entries flow left to right and wrap onto extra lines, each line centered
+ *   under the grid
+ * - the legend sits in the padding band below the grid; if the band is too
+ *   small it moves above the grid instead (never into the safe-area margins)
+ *
+ * Gradient eras get a gradient swatch.
+ *
+ * Label widths are estimated from the text rather than measured, since the
+ * display list is built without any drawing context (see life.text.ts).
+ */
+
+import type {
+  DisplayCommand,
+  EraRange,
+  LayoutConfig,
+  ThemeMode,
+} from '../types/life.types.ts';
+import { estimateTextWidth } from './life.text.ts';
+
+const FONT_SIZE = 12;
+const LINE_HEIGHT = 18;
+const SWATCH_SIZE = 10;
+const SWATCH_GAP = 6; // swatch → label
+const ENTRY_GAP = 16; // label → next swatch
+const GRID_MARGIN = 12; // grid edge → legend
+
+const LIGHT_TEXT = '#475569'; // Tailwind Slate-600
+const DARK_TEXT = '#CBD5E1'; // Tailwind Slate-300
+
+interface LegendEntry {
+  era: EraRange;
+  width: number;
+}
+
+/**
+ * Describes the era legend around the grid.
+ *
+ * @param {EraRange[]} eras - The eras on the grid (any order).
+ * @param {LayoutConfig} layoutConfig - The grid geometry the legend is placed around.
+ * @param {ThemeMode} theme - The active system or user theme mode.
+ * @returns {DisplayCommand[]} The commands drawing the legend (none without eras).
+ */
+export const getEraLegendCommands = (
+  eras: readonly EraRange[],
+  layoutConfig: LayoutConfig,
+  theme: ThemeMode,
+): DisplayCommand[] => {
+  if (eras.length === 0) return [];
+
+  //the legend stays inside the safe area, like the grid
+  const { width, height, safeArea } = layoutConfig;
+  const areaWidth = width - safeArea.left - safeArea.right;
+  const areaBottom = height - safeArea.bottom;
+  const commands: DisplayCommand[] = [];
+
+  //one entry per name, ordered by where the era starts on the grid
+  const seenNames = new Set<string>();
+  const entries: LegendEntry[] = [...eras]
+    .sort((a, b) => a.startIndex - b.startIndex)
+    .filter((era) => {
+      if (seenNames.has(era.name)) return false;
+      seenNames.add(era.name);
+      return true;
+    })
+    .map((era) => ({
+      era,
+      width: SWATCH_SIZE + SWATCH_GAP + estimateTextWidth(era.name, FONT_SIZE),
+    }));
+
+  //wrap the entries into lines no wider than the grid (but never absurdly narrow)
+  const { bounds } = layoutConfig;
+  const gridWidth = bounds.width;
+  const maxLineWidth = Math.min(Math.max(gridWidth, 240), areaWidth);
+  const lines: LegendEntry[][] = [[]];
+  let lineWidth = 0;
+
+  for (const entry of entries) {
+    const currentLine = lines[lines.length - 1];
+    const addedWidth = (currentLine.length > 0 ? ENTRY_GAP : 0) + entry.width;
+
+    if (currentLine.length > 0 && lineWidth + addedWidth > maxLineWidth) {
+      lines.push([entry]);
+      lineWidth = entry.width;
+    } else {
+      currentLine.push(entry);
+      lineWidth += addedWidth;
+    }
+  }
+
+  const legendHeight = lines.length * LINE_HEIGHT;
+  const gridBottom = bounds.y + bounds.height;
+  const top =
+    gridBottom + GRID_MARGIN + legendHeight <= areaBottom
+      ? gridBottom + GRID_MARGIN
+      : Math.max(bounds.y - GRID_MARGIN - legendHeight, safeArea.top);
+
+  const centerX = bounds.x + gridWidth / 2;
+
+  lines.forEach((line, lineIndex) => {
+    const width =
+      line.reduce((sum, entry) => sum + entry.width, 0) +
+      ENTRY_GAP * (line.length - 1);
+    const y = top + lineIndex * LINE_HEIGHT + LINE_HEIGHT / 2;
+    let x = centerX - width / 2;
+
+    for (const { era, width: entryWidth } of line) {
+      commands.push(
+        {
+          op: 'rect',
+          x,
+          y: y - SWATCH_SIZE / 2,
+          width: SWATCH_SIZE,
+          height: SWATCH_SIZE,
+          fill: era.endColor
+            ? {
+                type: 'linear',
+                x0: x,
+                y0: 0,
+                x1: x + SWATCH_SIZE,
+                y1: 0,
+                stops: [
+                  { offset: 0, color: era.color },
+                  { offset: 1, color: era.endColor },
+                ],
+              }
+            : era.color,
+          stroke: null,
+          lineWidth: 0,
+        },
+        {
+          op: 'text',
+          x: x + SWATCH_SIZE + SWATCH_GAP,
+          y,
+          text: era.name,
+          fontSize: FONT_SIZE,
+          fontWeight: 400,
+          align: 'left',
+          color: theme === 'light' ? LIGHT_TEXT : DARK_TEXT,
+        },
+      );
+
+      x += entryWidth + ENTRY_GAP;
+    }
+  });
+
+  return commands;
+};
@@ -0,0 +1,99 @@
+/**
+ * LIFE TIMELINE EVENT MARKER RENDERER
+ *
+ * This file describes the life event layer, drawn on top of the already painted
+ * cells, as display commands.
+ *
+ * MARKERS:
+ * - badge:   a small dot in the top-right corner of the cell
+ * - ring:    a colored outline around the cell, following its shape
+ * - recolor: nothing extra; the cell itself was already filled in the event
+ *            color by the shape renderer (see life.draw.ts)
+ *
+ * On cells large enough to hold a glyph, the event icon (usually an emoji) is
+ * drawn in the middle of the cell and replaces the badge dot.
+ *
+ * When several events share a cell, the renderer passes the earliest one.
+ */
+
+import type {
+  CellPosition,
+  DisplayCommand,
+  EventCell,
+  Palette,
+  ShapeOutline,
+} from '../types/life.types.ts';
+
+// Below this cell size (px) an icon would be unreadable, so a dot is drawn instead
+const MIN_ICON_CELL_SIZE = 16;
+
+/**
+ * Describes the marker of a single life event on its cell.
+ *
+ * @param {CellPosition} position - The absolute (x, y) top-left grid coordinate.
+ * @param {number} cellSize - The maximum bounded size of the grid cell.
+ * @param {EventCell} event - The event pinned to this cell.
+ * @param {ShapeOutline} outline - The cell outline (rings follow it).
+ * @param {Palette} palette - The active palette (badges are haloed in its background).
+ * @returns {DisplayCommand[]} The commands drawing the marker (none for "recolor" without icon).
+ */
+export const getEventMarkerCommands = (
+  position: CellPosition,
+  cellSize: number,
+  event: EventCell,
+  outline: ShapeOutline,
+  palette: Palette,
+): DisplayCommand[] => {
+  const gap = cellSize * 0.08;
+  const drawSize = cellSize - gap;
+  const drawX = position.x + gap / 2;
+  const drawY = position.y + gap / 2;
+  const centerX = drawX + drawSize / 2;
+  const centerY = drawY + drawSize / 2;
+
+  const showIcon = event.icon !== '' && cellSize >= MIN_ICON_CELL_SIZE;
+  const commands: DisplayCommand[] = [];
+
+  if (event.marker === 'ring') {
+    const lineWidth = Math.max(1.5, cellSize * 0.14);
+
+    commands.push({
+      op: 'shapes',
+      outline,
+      size: drawSize,
+      points: [drawX, drawY],
+      fill: null,
+      stroke: event.color,
+      lineWidth,
+      alpha: 1,
+    });
+  } else if (event.marker === 'badge' && !showIcon) {
+    const radius = Math.max(cellSize * 0.2, 1.5);
+
+    commands.push({
+      op: 'circle',
+      cx: drawX + drawSize,
+      cy: drawY,
+      radius,
+      fill: event.color,
+      //matches the background so badges stay separated from the cell underneath
+      stroke: palette.background,
+      lineWidth: Math.max(radius * 0.35, 0.5),
+    });
+  }
+
+  if (showIcon) {
+    commands.push({
+      op: 'text',
+      x: centerX,
+      y: centerY,
+      text: event.icon,
+      fontSize: Math.round(drawSize * 0.62),
+      fontWeight: 400,
+      align: 'center',
+      color: event.color,
+    });
+  }
+
+  return commands;
+};
@@ -0,0 +1,219 @@
+/**
+ * LIFE TIMELINE MOTION
+ *
+ * This file animates the timeline when the user enabled motion. It sits
+ * between a render backend and its painter (life.renderCache.ts), on
+ * whichever thread paints, so the page never has to post a frame per tick:
+ *
+ * - pulse:   a ring grows out of the present cell and fades, once per
+ *            PULSE_PERIOD_MS (see getPresentCellPulseCommand in life.draw.ts)
+ * - fill:    the present cell keeps filling in real time between two
+ *            RenderConfigs, extrapolated from currentCellDuration. It stops
+ *            at full: rolling over is left to the App boundary scheduler,
+ *            which derives the next RenderConfig from the real clock.
+ * - intro:   on load, the present moment sweeps from the first cell up to
+ *            today, replaying the life lived so far.
+ *
+ * Every animated frame is an ordinary RenderConfig with another present
+ * cell and fill, so the render cache repaints it like a unit rolling over.
+ *
+ * Whether motion is enabled is decided by the page (the user's toggle AND
+ * no OS reduced motion preference); disabled, a frame is painted once per
+ * render, exactly as without this file.
+ *
+ * NOTE:
+ *
+ * Workers have no `window`: only timers available to both threads are used.
+ */
+
+import type { RenderConfig } from '../types/life.types.ts';
+
+// Length of one pulse of the present cell
+const PULSE_PERIOD_MS = 2400;
+
+// Length of the intro sweep from the first cell up to today
+const INTRO_SWEEP_MS = 1800;
+
+// Animated frames are throttled to ~30 fps: the motion is slow and subtle
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+/**
+ * Paints one frame onto the canvas.
+ * @param {RenderConfig} renderConfig - The (possibly animated) configuration to paint.
+ * @param {number} hoverIndex - The hovered cell (counted from birth), or -1.
+ * @param {number | null} pulse - Phase of the present cell pulse [0, 1), or null when still.
+ */
+export type FramePainter = (
+  renderConfig: RenderConfig,
+  hoverIndex: number,
+  pulse: number | null,
+) => void;
+
+/**
+ * Feeds a painter with still or animated frames.
+ */
+export interface TimelineAnimator {
+  /**
+   * Sets the latest configuration, hovered cell and whether motion is enabled.
+   */
+  render: (
+    renderConfig: RenderConfig,
+    hoverIndex: number,
+    isMotionEnabled: boolean,
+  ) => void;
+  /**
+   * Paints the latest frame again (e.g. after a resize).
+   */
+  repaint: () => void;
+  /**
+   * Stops animating.
+   */
+  dispose: () => void;
+}
+
+/**
+ * Eases the intro sweep: fast through the early years, slowing down towards today.
+ * @param {number} t - Linear progress [0, 1].
+ * @returns {number} Eased progress [0, 1].
+ */
+const easeOutCubic = (t: number): number => 1 - (1 - t) ** 3;
+
+/**
+ * Resolves the configuration to paint at an instant of the animation.
+ *
+ * @param {RenderConfig} renderConfig - The configuration as derived from the clock.
+ * @param {number} sinceIntro - Milliseconds since the intro started (Infinity without intro).
+ * @param {number} sinceRender - Milliseconds since the configuration was received.
+ * @returns {RenderConfig} The configuration with the present cell of that instant.
+ */
+export const getAnimatedRenderConfig = (
+  renderConfig: RenderConfig,
+  sinceIntro: number,
+  sinceRender: number,
+): RenderConfig => {
+  const { firstCellIndex, fullCellsLived, currentCellDuration } = renderConfig;
+
+  const liveProgress =
+    currentCellDuration > 0
+      ? Math.min(
+          renderConfig.currentCellProgress + sinceRender / currentCellDuration,
+          1,
+        )
+      : renderConfig.currentCellProgress;
+
+  //the sweep replays the lived cells of the window, up to the live fill
+  const lived = fullCellsLived + liveProgress - firstCellIndex;
+
+  if (sinceIntro >= INTRO_SWEEP_MS || lived <= 0) {
+    return liveProgress === renderConfig.currentCellProgress
+      ? renderConfig
+      : { ...renderConfig, currentCellProgress: liveProgress };
+  }
+
+  const swept = lived * easeOutCubic(sinceIntro / INTRO_SWEEP_MS);
+  const sweptCells = Math.floor(swept);
+
+  return {
+    ...renderConfig,
+    fullCellsLived: firstCellIndex + sweptCells,
+    currentCellProgress: swept - sweptCells,
+  };
+};
+
+/**
+ * Schedules a callback for the next animation frame, or after a frame's
+ * worth of time where animation frames are unavailable (e.g. some workers).
+ * @param {(now: number) => void} callback - Called with the current time in milliseconds.
+ * @returns {() => void} Cancels the callback.
+ */
+const requestFrame = (callback: (now: number) => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+
+  const id = setTimeout(() => callback(performance.now()), FRAME_INTERVAL_MS);
+  return () => clearTimeout(id);
+};
+
+/**
+ * Creates an animator feeding a painter.
+ * @param {FramePainter} paint - Paints a frame onto the canvas.
+ * @returns {TimelineAnimator} The animator.
+ */
+export const createTimelineAnimator = (
+  paint: FramePainter,
+): TimelineAnimator => {
+  let lastFrame: {
+    renderConfig: RenderConfig;
+    hoverIndex: number;
+    receivedAt: number;
+  } | null = null;
+  let isAnimated = false;
+  let introStart: number | null = null;
+  let lastPaintAt = -Infinity;
+  let cancelFrame: (() => void) | null = null;
+
+  const paintAt = (now: number) => {
+    if (!lastFrame) return;
+
+    if (!isAnimated) {
+      paint(lastFrame.renderConfig, lastFrame.hoverIndex, null);
+      return;
+    }
+
+    lastPaintAt = now;
+    paint(
+      getAnimatedRenderConfig(
+        lastFrame.renderConfig,
+        introStart === null ? Infinity : now - introStart,
+        now - lastFrame.receivedAt,
+      ),
+      lastFrame.hoverIndex,
+      (now % PULSE_PERIOD_MS) / PULSE_PERIOD_MS,
+    );
+  };
+
+  const tick = (now: number) => {
+    cancelFrame = requestFrame(tick);
+    if (now - lastPaintAt >= FRAME_INTERVAL_MS) paintAt(now);
+  };
+
+  const stop = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+  };
+
+  return {
+    render: (renderConfig, hoverIndex, isMotionEnabled) => {
+      const now = performance.now();
+
+      //the intro only plays for the first frame ever painted
+      if (isMotionEnabled && !lastFrame) introStart = now;
+
+      //a hover change repeats the same present moment: keep extrapolating from it
+      const isSamePresent =
+        lastFrame !== null &&
+        lastFrame.renderConfig.fullCellsLived === renderConfig.fullCellsLived &&
+        lastFrame.renderConfig.currentCellProgress ===
+          renderConfig.currentCellProgress;
+
+      lastFrame = {
+        renderConfig,
+        hoverIndex,
+        receivedAt: isSamePresent && lastFrame ? lastFrame.receivedAt : now,
+      };
+      isAnimated = isMotionEnabled;
+
+      if (isAnimated && !cancelFrame) {
+        cancelFrame = requestFrame(tick);
+      } else if (!isAnimated) {
+        stop();
+      }
+
+      paintAt(now);
+    },
+    repaint: () => paintAt(performance.now()),
+    dispose: stop,
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * LIFE TIMELINE PNG EXPORT
+ *
+ * This file renders the full export scene (life.scene.ts) into an image file
+ * of any resolution, independently of the window the app is running in.
+ *
+ * PIPELINE:
+ * 1. the scene is laid out in CSS pixels: the image size divided by the
+ *    target pixel ratio, minus the safe-area margins (its own layout pass,
+ *    never the window size)
+ * 2. the display list is replayed by the Canvas 2D backend onto an offscreen
+ *    surface of the image size, scaled by the pixel ratio
+ * 3. the surface is encoded as PNG
+ *
+ * An OffscreenCanvas is used where available; otherwise a detached <canvas>
+ * element (never attached to the page) takes its place.
+ *
+ * NOTE:
+ *
+ * This file produces the image only.
+ * It must NOT:
+ * - trigger the download (see SettingsOverlay.tsx)
+ * - decide what the scene contains
+ */
+
+import type {
+  Canvas2DContext,
+  RenderConfig,
+  SafeAreaInsets,
+} from '../types/life.types.ts';
+import type { SceneOptions } from './life.scene.ts';
+import { computeTimelineLayout } from '../utils/life.layout.ts';
+import { replayDisplayList } from './life.canvas2d.ts';
+import { buildSceneDisplayList } from './life.scene.ts';
+
+/**
+ * Target of a PNG export.
+ */
+export interface PngExportOptions extends SceneOptions {
+  /**
+   * Size of the image in physical pixels.
+   */
+  width: number;
+  height: number;
+  /**
+   * Physical pixels per CSS pixel of the scene.
+   */
+  pixelRatio: number;
+  /**
+   * Margins (in CSS pixels) to keep free of content.
+   */
+  safeArea: SafeAreaInsets;
+}
+
+/**
+ * Creates a drawing surface that is not part of the page.
+ * @param {number} width - The surface width in physical pixels.
+ * @param {number} height - The surface height in physical pixels.
+ * @returns {{ ctx: Canvas2DContext; toBlob: () => Promise<Blob> }} Its context and a PNG encoder.
+ */
+const createExportSurface = (
+  width: number,
+  height: number,
+): { ctx: Canvas2DContext; toBlob: () => Promise<Blob> } => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D context unavailable for PNG export');
+
+    return { ctx, toBlob: () => canvas.convertToBlob({ type: 'image/png' }) };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D context unavailable for PNG export');
+
+  return {
+    ctx,
+    toBlob: () =>
+      new Promise((resolve, reject) => {
+        canvas.toBlob(
+          (blob) =>
+            blob ? resolve(blob) : reject(new Error('PNG encoding failed')),
+          'image/png',
+        );
+      }),
+  };
+};
+
+/**
+ * Renders the full scene (grid, message and optional countdown) as a PNG image.
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {PngExportOptions} options - The image size, pixel ratio, safe area and scene options.
+ * @returns {Promise<Blob>} The encoded image.
+ */
+export const renderLifeTimelinePng = (
+  renderConfig: RenderConfig,
+  options: PngExportOptions,
+): Promise<Blob> => {
+  const width = Math.round(options.width);
+  const height = Math.round(options.height);
+  const { pixelRatio } = options;
+
+  const layoutConfig = computeTimelineLayout(
+    renderConfig,
+    width / pixelRatio,
+    height / pixelRatio,
+    options.safeArea,
+  );
+
+  const { ctx, toBlob } = createExportSurface(width, height);
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+  replayDisplayList(
+    ctx,
+    buildSceneDisplayList(renderConfig, layoutConfig, options),
+  );
+
+  return toBlob();
+};
@@ -0,0 +1,302 @@
+/**
+ * LIFE TIMELINE RENDER BACKENDS
+ *
+ * This file decides WHICH thread paints the timeline canvas, behind one small
+ * TimelineRenderer interface (render / resize / dispose):
+ *
+ * - main:   the page paints its own canvas (life.renderCache.ts), in the same
+ *           tick as React.
+ * - worker: control of the canvas is handed to a Web Worker with
+ *           `transferControlToOffscreen`. The page then only posts messages
+ *           (RenderConfig updates and resize/DPR changes) and the worker
+ *           paints the OffscreenCanvas (life.renderWorker.ts), so a new tab
+ *           page never competes with its own startup work.
+ *
+ * FALLBACK:
+ *
+ * The worker backend silently falls back to the main thread where
+ * OffscreenCanvas or workers are unavailable, or when the worker cannot be
+ * started. A canvas whose control was transferred can never be painted by
+ * the page again, so a worker that fails AFTER the transfer reports it
+ * through `onWorkerError`; the owner must then create a fresh canvas with
+ * the "main" backend.
+ *
+ * RenderConfig is plain data, so it crosses the thread boundary unchanged
+ * through structured cloning. It is only posted when it changes: a hover
+ * change posts the hovered cell alone, so the worker keeps the very same
+ * RenderConfig objects and its render cache recognizes the static layer
+ * by identity, without re-serializing its inputs (see getLayerKey).
+ *
+ * MOTION:
+ *
+ * Animations run next to the painter (life.motion.ts), in the worker when
+ * there is one: the page only posts whether motion is enabled with every
+ * render, never a message per animation frame.
+ */
+
+import type { RenderBackend, RenderConfig } from '../types/life.types.ts';
+import {
+  createRenderCache,
+  renderLifeTimelineCached,
+} from './life.renderCache.ts';
+import type { FramePainter } from './life.motion.ts';
+import { createTimelineAnimator } from './life.motion.ts';
+
+/**
+ * Messages posted from the page to the render worker.
+ */
+export type RenderWorkerMessage =
+  | {
+      type: 'init';
+      canvas: OffscreenCanvas;
+      width: number;
+      height: number;
+      dpr: number;
+    }
+  | { type: 'resize'; width: number; height: number; dpr: number }
+  | {
+      type: 'render';
+      renderConfig: RenderConfig;
+      hoverIndex: number;
+      isMotionEnabled: boolean;
+    }
+  | { type: 'hover'; hoverIndex: number };
+
+/**
+ * Paints the timeline onto one canvas, on whichever thread the backend uses.
+ */
+export interface TimelineRenderer {
+  /**
+   * The backend actually in use (after any fallback).
+   */
+  backend: RenderBackend;
+  /**
+   * Paints a frame (only the cells that changed, see life.renderCache.ts),
+   * and keeps animating it while motion is enabled.
+   */
+  render: (
+    renderConfig: RenderConfig,
+    hoverIndex: number,
+    isMotionEnabled: boolean,
+  ) => void;
+  /**
+   * Adapts the canvas to new CSS dimensions or pixel density, then repaints.
+   */
+  resize: (width: number, height: number, dpr: number) => void;
+  /**
+   * Stops animating and releases the worker (if any).
+   */
+  dispose: () => void;
+}
+
+/**
+ * @returns {boolean} true if the browser can paint a canvas from a worker
+ */
+export const isWorkerRenderingSupported = (): boolean => {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype
+  );
+};
+
+/**
+ * Applies CSS dimensions to a canvas element (its bitmap size is set by the painter).
+ * @param {HTMLCanvasElement} canvas - The canvas element on the page.
+ * @param {number} width - The CSS pixel width.
+ * @param {number} height - The CSS pixel height.
+ */
+const applyCssSize = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+): void => {
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+};
+
+/**
+ * Creates a renderer painting on the main thread.
+ * @param {HTMLCanvasElement} canvas - The canvas element to paint.
+ * @param {number} width - The initial CSS pixel width.
+ * @param {number} height - The initial CSS pixel height.
+ * @param {number} dpr - The initial device pixel ratio.
+ * @returns {TimelineRenderer} The renderer.
+ */
+export const createMainThreadRenderer = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  dpr: number,
+): TimelineRenderer => {
+  const ctx = canvas.getContext('2d');
+  const renderCache = createRenderCache();
+  let size = { width, height, dpr };
+
+  const paint: FramePainter = (renderConfig, hoverIndex, pulse) => {
+    if (!ctx) return;
+
+    // Set the internal bitmap resolution to match the display density
+    // (only on change: resizing wipes the bitmap the render cache builds upon)
+    const bitmapWidth = Math.floor(size.width * size.dpr);
+    const bitmapHeight = Math.floor(size.height * size.dpr);
+
+    if (canvas.width !== bitmapWidth || canvas.height !== bitmapHeight) {
+      canvas.width = bitmapWidth;
+      canvas.height = bitmapHeight;
+    }
+
+    // Scale the drawing context so the engine doesn't have to multiply by DPR manually
+    ctx.setTransform(size.dpr, 0, 0, size.dpr, 0, 0);
+
+    renderLifeTimelineCached(
+      ctx,
+      renderCache,
+      renderConfig,
+      size.width,
+      size.height,
+      size.dpr,
+      hoverIndex,
+      pulse,
+    );
+  };
+  const animator = createTimelineAnimator(paint);
+
+  applyCssSize(canvas, width, height);
+
+  return {
+    backend: 'main',
+    render: animator.render,
+    resize: (nextWidth, nextHeight, nextDpr) => {
+      size = { width: nextWidth, height: nextHeight, dpr: nextDpr };
+      applyCssSize(canvas, nextWidth, nextHeight);
+      animator.repaint();
+    },
+    dispose: animator.dispose,
+  };
+};
+
+/**
+ * Creates a renderer painting from a Web Worker.
+ * @param {HTMLCanvasElement} canvas - The canvas element to hand over (must never have had a context).
+ * @param {number} width - The initial CSS pixel width.
+ * @param {number} height - The initial CSS pixel height.
+ * @param {number} dpr - The initial device pixel ratio.
+ * @param {() => void} onWorkerError - Called once if the worker fails after taking over the canvas.
+ * @returns {TimelineRenderer | null} The renderer, or null if the worker could not be started.
+ */
+export const createWorkerRenderer = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  dpr: number,
+  onWorkerError: () => void,
+): TimelineRenderer | null => {
+  if (!isWorkerRenderingSupported()) return null;
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./life.renderWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+  } catch (error) {
+    console.warn(
+      'Render worker unavailable, painting on the main thread.',
+      error,
+    );
+    return null;
+  }
+
+  const offscreen = canvas.transferControlToOffscreen();
+
+  const post = (
+    message: RenderWorkerMessage,
+    transfer: Transferable[] = [],
+  ) => {
+    worker.postMessage(message, transfer);
+  };
+
+  let hasFailed = false;
+  const handleError = (event: Event) => {
+    console.error('Render worker failed.', event);
+    if (hasFailed) return;
+
+    hasFailed = true;
+    worker.terminate();
+    onWorkerError();
+  };
+
+  worker.addEventListener('error', handleError);
+  worker.addEventListener('messageerror', handleError);
+
+  applyCssSize(canvas, width, height);
+  post({ type: 'init', canvas: offscreen, width, height, dpr }, [offscreen]);
+
+  // What the worker last received, so an unchanged RenderConfig is never cloned again
+  let posted: { renderConfig: RenderConfig; isMotionEnabled: boolean } | null =
+    null;
+
+  return {
+    backend: 'worker',
+    render: (renderConfig, hoverIndex, isMotionEnabled) => {
+      if (
+        posted?.renderConfig === renderConfig &&
+        posted.isMotionEnabled === isMotionEnabled
+      ) {
+        post({ type: 'hover', hoverIndex });
+        return;
+      }
+
+      posted = { renderConfig, isMotionEnabled };
+      post({ type: 'render', renderConfig, hoverIndex, isMotionEnabled });
+    },
+    resize: (nextWidth, nextHeight, nextDpr) => {
+      applyCssSize(canvas, nextWidth, nextHeight);
+      post({
+        type: 'resize',
+        width: nextWidth,
+        height: nextHeight,
+        dpr: nextDpr,
+      });
+    },
+    dispose: () => {
+      worker.removeEventListener('error', handleError);
+      worker.removeEventListener('messageerror', handleError);
+      worker.terminate();
+    },
+  };
+};
+
+/**
+ * Creates a renderer for the preferred backend, falling back to the main thread.
+ * @param {HTMLCanvasElement} canvas - A freshly created canvas element.
+ * @param {RenderBackend} backend - The preferred backend.
+ * @param {number} width - The initial CSS pixel width.
+ * @param {number} height - The initial CSS pixel height.
+ * @param {number} dpr - The initial device pixel ratio.
+ * @param {() => void} onWorkerError - Called if the worker fails after taking over the canvas.
+ * @returns {TimelineRenderer} The renderer.
+ */
+export const createTimelineRenderer = (
+  canvas: HTMLCanvasElement,
+  backend: RenderBackend,
+  width: number,
+  height: number,
+  dpr: number,
+  onWorkerError: () => void,
+): TimelineRenderer => {
+  if (backend === 'worker') {
+    const workerRenderer = createWorkerRenderer(
+      canvas,
+      width,
+      height,
+      dpr,
+      onWorkerError,
+    );
+
+    if (workerRenderer) return workerRenderer;
+  }
+
+  return createMainThreadRenderer(canvas, width, height, dpr);
+};
@@ -0,0 +1,333 @@
+/**
+ * LIFE TIMELINE INCREMENTAL RENDERER
+ *
+ * This file keeps repaints cheap. Redrawing every cell costs little for ~960
+ * month cells, but a day grid holds ~30,000 cells and is repainted on every
+ * visible fill step and every hover change.
+ *
+ * Instead, the static layer (see life.renderLoop.ts) is rendered once into an
+ * off-screen cache canvas. Each frame then decides how much work is needed:
+ *
+ * FULL REDRAW: when the cache is missing or stale
+ *   - layout: canvas size, device pixel ratio, unit or rendered window (zoom)
+ *   - theme or shape
+ *   - drawn data: events, eras, survival shading
+ *   The static layer is re-rendered and the whole canvas is recomposed.
+ *
+ * DIRTY CELLS: otherwise only the cells that changed are recomposed
+ *   - the present cell (its fill grew or changed style, it rolled over or its
+ *     pulse moved on)
+ *   - cells that changed state in a rollover (patched into the cache first)
+ *   - the previously and currently hovered cells
+ *
+ * Recomposing a dirty cell clips the canvas to the cell box (grown by the
+ * reach of event badges and outlines), copies the cached static pixels back
+ * and draws the dynamic layer on top. Every event marker reaching into the
+ * box is therefore restored too.
+ *
+ * Animated timelines (see life.motion.ts) render a fresh RenderConfig every
+ * frame that shares everything but the present cell with the previous one.
+ * The layer signature is therefore only re-serialized when one of its inputs
+ * is no longer the very same value.
+ *
+ * NOTE:
+ *
+ * The cache assumes it is the only writer of its canvas: anything else
+ * drawing on it must call renderLifeTimelineCached with a fresh cache.
+ */
+
+import type {
+  Canvas2DContext,
+  LayoutConfig,
+  RenderConfig,
+} from '../types/life.types.ts';
+import { computeTimelineLayout } from '../utils/life.layout.ts';
+import { getCellPosition } from '../utils/life.position.ts';
+import {
+  buildDynamicLayer,
+  buildStaticCellsPatch,
+  buildStaticLayer,
+} from './life.renderLoop.ts';
+import { replayDisplayCommands } from './life.canvas2d.ts';
+
+// Beyond this many rolled-over cells (e.g. a time travel jump) a full redraw is cheaper
+const MAX_PATCHED_CELLS = 256;
+
+/**
+ * The state carried from one frame to the next.
+ */
+export interface RenderCache {
+  /**
+   * Off-screen canvas holding the static layer, and its context (null until the first frame).
+   */
+  layer: OffscreenCanvas | HTMLCanvasElement | null;
+  layerCtx: Canvas2DContext | null;
+  /**
+   * Signature of everything the static layer was drawn for.
+   */
+  layerKey: string;
+  /**
+   * The values the signature was serialized from.
+   */
+  layerInputs: readonly unknown[];
+  /**
+   * The configuration, hovered cell and pulse phase of the last composed frame.
+   */
+  renderConfig: RenderConfig | null;
+  hoverIndex: number;
+  pulse: number | null;
+}
+
+/**
+ * @returns {RenderCache} an empty cache; its first frame is a full redraw
+ */
+export const createRenderCache = (): RenderCache => {
+  return {
+    layer: null,
+    layerCtx: null,
+    layerKey: '',
+    layerInputs: [],
+    renderConfig: null,
+    hoverIndex: -1,
+    pulse: null,
+  };
+};
+
+/**
+ * Lists everything the static layer depends on.
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {number} canvasWidth - The CSS pixel width of the canvas.
+ * @param {number} canvasHeight - The CSS pixel height of the canvas.
+ * @param {number} dpr - The device pixel ratio the canvas is scaled by.
+ * @returns {unknown[]} The values whose change requires a full redraw.
+ */
+const getLayerInputs = (
+  renderConfig: RenderConfig,
+  canvasWidth: number,
+  canvasHeight: number,
+  dpr: number,
+): unknown[] => {
+  return [
+    canvasWidth,
+    canvasHeight,
+    dpr,
+    renderConfig.themeMode,
+    renderConfig.palette,
+    renderConfig.shape,
+    renderConfig.customShape,
+    renderConfig.layout,
+    renderConfig.cellOrder,
+    renderConfig.granularity,
+    renderConfig.firstCellIndex,
+    renderConfig.totalCells,
+    renderConfig.lifetimeCells,
+    renderConfig.events,
+    renderConfig.eras,
+    renderConfig.futureSurvival,
+  ];
+};
+
+/**
+ * Builds the signature of the static layer, reusing the cached one when every
+ * input is the very same value as last frame.
+ * @param {RenderCache} cache - The cache holding the previous signature.
+ * @param {readonly unknown[]} layerInputs - The inputs of this frame.
+ * @returns {string} A key that changes whenever a full redraw is required.
+ */
+const getLayerKey = (
+  cache: RenderCache,
+  layerInputs: readonly unknown[],
+): string => {
+  const isUnchanged =
+    layerInputs.length === cache.layerInputs.length &&
+    layerInputs.every((input, i) => input === cache.layerInputs[i]);
+
+  return isUnchanged ? cache.layerKey : JSON.stringify(layerInputs);
+};
+
+/**
+ * Returns the cache canvas context, (re)allocating the canvas for the given size.
+ * @param {RenderCache} cache - The cache to draw into.
+ * @param {number} canvasWidth - The CSS pixel width of the canvas.
+ * @param {number} canvasHeight - The CSS pixel height of the canvas.
+ * @param {number} dpr - The device pixel ratio the canvas is scaled by.
+ * @returns {Canvas2DContext | null} The scaled context, or null if unavailable.
+ */
+const getLayerContext = (
+  cache: RenderCache,
+  canvasWidth: number,
+  canvasHeight: number,
+  dpr: number,
+): Canvas2DContext | null => {
+  if (!cache.layer) {
+    //the render worker has no document, so prefer OffscreenCanvas wherever it exists
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const layer = new OffscreenCanvas(1, 1);
+      cache.layer = layer;
+      cache.layerCtx = layer.getContext('2d');
+    } else {
+      const layer = document.createElement('canvas');
+      cache.layer = layer;
+      cache.layerCtx = layer.getContext('2d');
+    }
+  }
+
+  //same truncation the visible canvas applies to its own bitmap size
+  const width = Math.floor(canvasWidth * dpr);
+  const height = Math.floor(canvasHeight * dpr);
+
+  //resizing wipes the bitmap, so only do it when the size really changed
+  if (cache.layer.width !== width || cache.layer.height !== height) {
+    cache.layer.width = width;
+    cache.layer.height = height;
+  }
+
+  cache.layerCtx?.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  return cache.layerCtx;
+};
+
+/**
+ * Adds the box of a cell, grown by the reach of markers and outlines, to the current path.
+ * @param {Canvas2DContext} ctx - The active 2D rendering context.
+ * @param {number} index - The cell (counted from birth).
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {LayoutConfig} layoutConfig - The grid geometry.
+ */
+const addDirtyCellRect = (
+  ctx: Canvas2DContext,
+  index: number,
+  renderConfig: RenderConfig,
+  layoutConfig: LayoutConfig,
+): void => {
+  const cellSize = layoutConfig.cellSize;
+
+  //event badges sit on the top-right corner and reach ~a quarter cell outside
+  const margin = Math.max(cellSize * 0.25, 2) + 1;
+  const { x, y } = getCellPosition(
+    index - renderConfig.firstCellIndex,
+    layoutConfig,
+  );
+
+  ctx.rect(
+    x - margin,
+    y - margin,
+    cellSize + 2 * margin,
+    cellSize + 2 * margin,
+  );
+};
+
+/**
+ * Renders a frame, reusing the cached static layer wherever possible.
+ *
+ * @param {Canvas2DContext} ctx - The context of the visible canvas (already scaled by dpr).
+ * @param {RenderCache} cache - The cache carried between frames of this canvas.
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {number} canvasWidth - The CSS pixel width of the canvas.
+ * @param {number} canvasHeight - The CSS pixel height of the canvas.
+ * @param {number} dpr - The device pixel ratio the canvas is scaled by.
+ * @param {number} hoverIndex - The hovered cell (counted from birth), or -1.
+ * @param {number | null} pulse - Phase of the present cell pulse [0, 1), or null when still (default).
+ */
+export const renderLifeTimelineCached = (
+  ctx: Canvas2DContext,
+  cache: RenderCache,
+  renderConfig: RenderConfig,
+  canvasWidth: number,
+  canvasHeight: number,
+  dpr: number,
+  hoverIndex: number,
+  pulse: number | null = null,
+): void => {
+  const layoutConfig = computeTimelineLayout(
+    renderConfig,
+    canvasWidth,
+    canvasHeight,
+  );
+  const layerCtx = getLayerContext(cache, canvasWidth, canvasHeight, dpr);
+
+  if (!cache.layer || !layerCtx) return;
+
+  const layerInputs = getLayerInputs(
+    renderConfig,
+    canvasWidth,
+    canvasHeight,
+    dpr,
+  );
+  const layerKey = getLayerKey(cache, layerInputs);
+  const previous = cache.renderConfig;
+
+  let isFullRedraw = !previous || layerKey !== cache.layerKey;
+  const dirtyCells = new Set<number>();
+
+  if (previous && !isFullRedraw) {
+    const previousPresent = previous.fullCellsLived;
+    const present = renderConfig.fullCellsLived;
+
+    if (previousPresent !== present) {
+      const from = Math.min(previousPresent, present);
+      const to = Math.max(previousPresent, present);
+
+      if (to - from > MAX_PATCHED_CELLS) {
+        isFullRedraw = true;
+      } else {
+        replayDisplayCommands(
+          layerCtx,
+          buildStaticCellsPatch(renderConfig, layoutConfig, from, to),
+        );
+        for (let index = from; index <= to; ++index) dirtyCells.add(index);
+      }
+    } else if (
+      previous.currentCellProgress !== renderConfig.currentCellProgress ||
+      previous.fillStyle !== renderConfig.fillStyle ||
+      cache.pulse !== pulse
+    ) {
+      dirtyCells.add(present);
+    }
+
+    if (cache.hoverIndex !== hoverIndex) {
+      dirtyCells.add(cache.hoverIndex);
+      dirtyCells.add(hoverIndex);
+    }
+  }
+
+  cache.layerKey = layerKey;
+  cache.layerInputs = layerInputs;
+  cache.renderConfig = renderConfig;
+  cache.hoverIndex = hoverIndex;
+  cache.pulse = pulse;
+
+  if (isFullRedraw) {
+    replayDisplayCommands(
+      layerCtx,
+      buildStaticLayer(renderConfig, layoutConfig),
+    );
+
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+    ctx.drawImage(cache.layer, 0, 0, canvasWidth, canvasHeight);
+    replayDisplayCommands(
+      ctx,
+      buildDynamicLayer(renderConfig, layoutConfig, hoverIndex, pulse),
+    );
+    return;
+  }
+
+  dirtyCells.delete(-1);
+  if (dirtyCells.size === 0) return;
+
+  ctx.save();
+  ctx.beginPath();
+  for (const index of dirtyCells) {
+    addDirtyCellRect(ctx, index, renderConfig, layoutConfig);
+  }
+  ctx.clip();
+
+  ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+  ctx.drawImage(cache.layer, 0, 0, canvasWidth, canvasHeight);
+  replayDisplayCommands(
+    ctx,
+    buildDynamicLayer(renderConfig, layoutConfig, hoverIndex, pulse),
+  );
+
+  ctx.restore();
+};
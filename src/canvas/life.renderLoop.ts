@@ -1,108 +1,404 @@
 /**
  * LIFE TIMELINE MASTER RENDERER
  *
- * This file acts as the primary orchestrator for the canvas rendering engine.
+ * This file acts as the primary orchestrator of the rendering engine.
  * It bridges the pure mathematical domain (Layout, Age, Positioning) with
- * the visual domain (Shapes, Colors and Canvas Context).
+ * the visual domain (Shapes, Colors), and describes the whole scene as a
+ * DISPLAY LIST: a serializable list of drawing commands.
+ *
+ *     RenderConfig + LayoutConfig  →  display list  →  backend
+ *
+ * The display list is derived from RenderConfig and LayoutConfig only (plus
+ * the hovered cell). Backends replay it onto their output: a Canvas 2D
+ * context (life.canvas2d.ts), or any other target such as SVG. Building
+ * it needs no DOM or Canvas API at all, so scenes can be snapshot in plain Node.
  *
  * ARCHITECTURAL FLOW:
- * 1. Wipes the canvas clean to prevent ghosting across re-renders or resizes.
- * 2. Computes the optimal spatial grid based on the current viewport dimensions.
- * 3. Iterates through the entire sequential lifecycle (0 to totalMonths).
- * 4. For each month, resolves its exact (x, y) spatial coordinate and semantic state.
- * 5. Delegates the actual pixel-drawing to the specific shape renderer requested by the user.
+ * 1. Starts with a "clear" command to prevent ghosting across re-renders or resizes.
+ * 2. Iterates through the rendered window of the lifecycle (firstCellIndex to
+ *    firstCellIndex + totalCells), i.e. the whole life or a single zoomed unit.
+ * 3. For each cell, resolves its exact (x, y) spatial coordinate and semantic state.
+ * 4. Delegates the description of shapes, markers and the legend to their own files.
  *
- * This function is designed to be called rapidly and relies on the underlying O(1) 
+ * These functions are designed to be called rapidly and rely on the underlying O(1)
  * math functions to maintain high performance without dropping frames.
+ *
+ * The loop is granularity-agnostic: it handles anything from ~80 year cells up to
+ * ~55,000 day cells. Outline stroke width is scaled down with the cell size so that
+ * tiny day cells keep a visible gap instead of merging into a solid block.
+ *
+ * With "survival" shading, future cells are drawn with an opacity equal to the
+ * probability of being alive at that age (see life.survival.ts).
+ *
+ * Life events are drawn last, as a separate layer on top of the cells
+ * (see life.markers.ts). "recolor" events instead override the fill color of
+ * their cell during the main pass.
+ *
+ * Cell indices are always counted from birth. A zoomed view lays out its window
+ * from the grid's first slot, and spreads the color gradient over the whole
+ * lifetime (lifetimeCells) so a zoomed month keeps its place in the gradient.
+ *
+ * Eras replace the default gradient for the lived cells they cover and tint the
+ * outline of their future cells. A "recolor" event beats its era. The era
+ * legend is drawn around the grid after everything else (see life.legend.ts).
+ *
+ * LAYERS:
+ *
+ * A frame is split into two layers so backends can cache the expensive one
+ * (see life.renderCache.ts):
+ *
+ * - static layer:  every past/future cell (painted in color buckets, see
+ *                  life.batch.ts) and the era legend. It only changes
+ *                  with the layout, theme, palette, shape or drawn data, and when a
+ *                  unit rolls over (patched cell by cell, see buildStaticCellsPatch).
+ * - dynamic layer: the present cell, the event markers and the hovered cell
+ *                  highlight, drawn on top of the static layer.
  */
 
-import type { RenderConfig } from '../types/life.types';
-import { drawSquareCell, drawCircleCell, drawHeartCell } from './life.draw.ts';
-import { getCellPosition } from '../utils/life.position.ts';
+import type {
+  DisplayCommand,
+  DisplayList,
+  EventCell,
+  LayoutConfig,
+  RenderConfig,
+} from '../types/life.types';
+import type { CellPaint, PaintBatch } from './life.batch.ts';
+import {
+  getCellColor,
+  getCellHighlightCommand,
+  getEraColor,
+  getPresentCellCommands,
+  getPresentCellPulseCommand,
+} from './life.draw.ts';
+import {
+  addCellToBatch,
+  createPaintBatch,
+  flushPaintBatch,
+} from './life.batch.ts';
+import {
+  getCellPosition,
+  getNeighborIndexSpan,
+} from '../utils/life.position.ts';
 import { getCellState } from '../utils/life.cells.ts';
-import { computeGridLayout } from '../utils/life.layout';
+import { getFutureCellOpacity } from '../utils/life.survival.ts';
+import { getEraForCell } from '../utils/life.eras.ts';
+import { getEventMarkerCommands } from './life.markers.ts';
+import { getEraLegendCommands } from './life.legend.ts';
+import { getCellShape, getShapeOutline } from '../data/life.shapeRegistry.ts';
+import { getFillRegion } from '../data/life.fillStyles.ts';
+
+/**
+ * Indexes the events by cell.
+ * Events are sorted by date, so the earliest event of a shared cell wins.
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @returns {Map<number, EventCell>} The event shown on each cell.
+ */
+const getEventsByIndex = (
+  renderConfig: RenderConfig,
+): Map<number, EventCell> => {
+  const eventsByIndex = new Map<number, EventCell>();
+
+  for (const event of renderConfig.events) {
+    if (!eventsByIndex.has(event.index)) {
+      eventsByIndex.set(event.index, event);
+    }
+  }
+
+  return eventsByIndex;
+};
 
 /**
- * Executes a complete render cycle of the life timeline onto the provided Canvas.
+ * Resolves the colors and opacity of a single cell in its current state.
  *
- * @param {CanvasRenderingContext2D} ctx - The active 2D rendering context of the target canvas.
- * @param {RenderConfig} renderConfig - The derived runtime configuration containing timeline metrics and user preferences.
- * @param {number} canvasWidth - The current physical pixel width of the canvas.
- * @param {number} canvasHeight - The current physical pixel height of the canvas.
- * @returns {void} This function performs side-effects (drawing to the canvas) and returns nothing.
+ * @param {number} index - The chronological index of the cell (counted from birth).
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {Map<number, EventCell>} eventsByIndex - The event shown on each cell.
+ * @returns {CellPaint} The fill (null for an outlined future cell), outline and opacity.
+ */
+const getCellPaint = (
+  index: number,
+  renderConfig: RenderConfig,
+  eventsByIndex: Map<number, EventCell>,
+): CellPaint => {
+  const palette = renderConfig.palette;
+  const cellState = getCellState(index, renderConfig);
+  const isFuture = cellState === 'future';
+
+  const event = eventsByIndex.get(index);
+  const era = getEraForCell(index, renderConfig.eras);
+  const eraColor = era ? getEraColor(index, era) : undefined;
+
+  const color = getCellColor(
+    index,
+    renderConfig.lifetimeCells,
+    renderConfig.fullCellsLived,
+    palette,
+  );
+
+  //overridden future cells are filled too, so planned events stay visible
+  let fill = isFuture ? null : (eraColor ?? color);
+
+  if (event?.marker === 'recolor') {
+    fill = event.color;
+  }
+
+  return {
+    fill,
+    stroke: isFuture ? (eraColor ?? color) : palette.outline,
+    alpha: isFuture ? getFutureCellOpacity(index, renderConfig) : 1,
+  };
+};
+
+/**
+ * Queues a past or future cell into a paint batch (the present cell is skipped).
+ *
+ * @param {PaintBatch} batch - The batch to add to.
+ * @param {number} index - The chronological index of the cell (counted from birth).
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {LayoutConfig} layoutConfig - The grid geometry.
+ * @param {Map<number, EventCell>} eventsByIndex - The event shown on each cell.
  */
-export const renderLifeTimeline = (
-  ctx: CanvasRenderingContext2D,
+const batchStaticCell = (
+  batch: PaintBatch,
+  index: number,
   renderConfig: RenderConfig,
-  canvasWidth: number,
-  canvasHeight: number,
+  layoutConfig: LayoutConfig,
+  eventsByIndex: Map<number, EventCell>,
 ): void => {
-  ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+  const firstCellIndex = renderConfig.firstCellIndex;
+  const lastCellIndex = firstCellIndex + renderConfig.totalCells - 1;
 
-  const totalMonths = renderConfig.totalMonths;
-  const fullMonthsLived = renderConfig.fullMonthsLived;
-  const theme = renderConfig.themeMode;
-  const shape = renderConfig.shape;
-  const currentMonthProgress = renderConfig.currentMonthProgress;
+  if (index < firstCellIndex || index > lastCellIndex) return;
+  if (index === renderConfig.fullCellsLived) return;
+
+  const { x, y } = getCellPosition(index - firstCellIndex, layoutConfig);
+  addCellToBatch(batch, x, y, getCellPaint(index, renderConfig, eventsByIndex));
+};
+
+/**
+ * @param {LayoutConfig} layoutConfig - The grid geometry.
+ * @returns {number} The outline width used by every cell of the grid.
+ */
+const getCellLineWidth = (layoutConfig: LayoutConfig): number => {
+  //1px outlines are fine for month cells but would swallow a ~5px day cell
+  return Math.min(1, layoutConfig.cellSize * 0.12);
+};
+
+/**
+ * Describes the static layer: every past and future cell, and the era legend.
+ * The present cell is left out, it belongs to the dynamic layer.
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {LayoutConfig} layoutConfig - The grid geometry.
+ * @returns {DisplayCommand[]} The commands drawing the layer onto a cleared surface.
+ */
+export const buildStaticLayer = (
+  renderConfig: RenderConfig,
+  layoutConfig: LayoutConfig,
+): DisplayCommand[] => {
+  const firstCellIndex = renderConfig.firstCellIndex;
+  const lastCellIndex = firstCellIndex + renderConfig.totalCells - 1;
+  const eventsByIndex = getEventsByIndex(renderConfig);
 
-  const layoutConfig = computeGridLayout(
-    totalMonths,
-    canvasWidth,
-    canvasHeight,
+  const batch = createPaintBatch(
+    getShapeOutline(
+      renderConfig.shape,
+      renderConfig.customShape,
+      layoutConfig.kind,
+    ),
+    layoutConfig.cellSize,
+    getCellLineWidth(layoutConfig),
   );
 
-  const cellSize = layoutConfig.cellSize;
+  for (let index = firstCellIndex; index <= lastCellIndex; ++index) {
+    batchStaticCell(batch, index, renderConfig, layoutConfig, eventsByIndex);
+  }
 
-  for (let index = 0; index <= totalMonths - 1; ++index) {
-    let progress = 1;
+  return [
+    { op: 'clear' },
+    ...flushPaintBatch(batch),
+    ...getEraLegendCommands(
+      renderConfig.eras,
+      layoutConfig,
+      renderConfig.themeMode,
+    ),
+  ];
+};
 
-    const cellPosition = getCellPosition(index, layoutConfig);
-    const cellState = getCellState(index, renderConfig);
+/**
+ * Describes how to repaint a range of cells of an already drawn static layer,
+ * e.g. after the present cell rolled over. The cell boxes are cleared and
+ * redrawn; their neighbors are redrawn inside the boxes too, since their
+ * outlines may bleed into them.
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {LayoutConfig} layoutConfig - The grid geometry.
+ * @param {number} fromIndex - First cell to repaint (inclusive).
+ * @param {number} toIndex - Last cell to repaint (inclusive).
+ * @returns {DisplayCommand[]} The commands patching the layer (none if no cell is in the window).
+ */
+export const buildStaticCellsPatch = (
+  renderConfig: RenderConfig,
+  layoutConfig: LayoutConfig,
+  fromIndex: number,
+  toIndex: number,
+): DisplayCommand[] => {
+  const { cellSize } = layoutConfig;
+  const neighborSpan = getNeighborIndexSpan(layoutConfig);
+  const firstCellIndex = renderConfig.firstCellIndex;
+  const lastCellIndex = firstCellIndex + renderConfig.totalCells - 1;
+  const eventsByIndex = getEventsByIndex(renderConfig);
 
-    if (cellState === 'present') {
-      progress = currentMonthProgress; //for others it is 1 only future will ignore it completely so no issue there
-    }
+  const from = Math.max(fromIndex, firstCellIndex);
+  const to = Math.min(toIndex, lastCellIndex);
 
-    switch (shape) {
-      case 'square':
-        drawSquareCell(
-          ctx,
-          cellPosition,
-          cellSize,
-          cellState,
-          progress,
-          index,
-          totalMonths,
-          fullMonthsLived,
-          theme,
-        );
-        break;
-      case 'circle':
-        drawCircleCell(
-          ctx,
-          cellPosition,
-          cellSize,
-          cellState,
-          progress,
-          index,
-          totalMonths,
-          fullMonthsLived,
-          theme,
-        );
-        break;
-      case 'heart':
-        drawHeartCell(
-          ctx,
-          cellPosition,
+  if (from > to) return [];
+
+  //clip to the repainted cell boxes and wipe them
+  const rects: number[] = [];
+  for (let index = from; index <= to; ++index) {
+    const { x, y } = getCellPosition(index - firstCellIndex, layoutConfig);
+    rects.push(x, y, cellSize, cellSize);
+  }
+
+  //the cells around the window hold every neighbor whose outline reaches in
+  const batch = createPaintBatch(
+    getShapeOutline(
+      renderConfig.shape,
+      renderConfig.customShape,
+      layoutConfig.kind,
+    ),
+    cellSize,
+    getCellLineWidth(layoutConfig),
+  );
+
+  for (let index = from - neighborSpan; index <= to + neighborSpan; ++index) {
+    batchStaticCell(batch, index, renderConfig, layoutConfig, eventsByIndex);
+  }
+
+  return [
+    { op: 'save' },
+    { op: 'clip', rects },
+    { op: 'clear' },
+    ...flushPaintBatch(batch),
+    { op: 'restore' },
+  ];
+};
+
+/**
+ * Describes the dynamic layer, drawn on top of the static one: the present
+ * cell (and its pulse, when animated), the life event markers and the
+ * highlight of the hovered cell.
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {LayoutConfig} layoutConfig - The grid geometry.
+ * @param {number} hoverIndex - The hovered cell (counted from birth), or -1.
+ * @param {number | null} pulse - Phase of the present cell pulse [0, 1), or null when still (default).
+ * @returns {DisplayCommand[]} The commands drawing the layer.
+ */
+export const buildDynamicLayer = (
+  renderConfig: RenderConfig,
+  layoutConfig: LayoutConfig,
+  hoverIndex: number,
+  pulse: number | null = null,
+): DisplayCommand[] => {
+  const firstCellIndex = renderConfig.firstCellIndex;
+  const lastCellIndex = firstCellIndex + renderConfig.totalCells - 1;
+  const presentIndex = renderConfig.fullCellsLived;
+  const cellSize = layoutConfig.cellSize;
+  const theme = renderConfig.themeMode;
+  const shape = renderConfig.shape;
+  const outline = getShapeOutline(
+    shape,
+    renderConfig.customShape,
+    layoutConfig.kind,
+  );
+  const eventsByIndex = getEventsByIndex(renderConfig);
+  const commands: DisplayCommand[] = [];
+
+  if (presentIndex >= firstCellIndex && presentIndex <= lastCellIndex) {
+    const paint = getCellPaint(presentIndex, renderConfig, eventsByIndex);
+    const presentPosition = getCellPosition(
+      presentIndex - firstCellIndex,
+      layoutConfig,
+    );
+
+    commands.push(
+      ...getPresentCellCommands(
+        presentPosition,
+        cellSize,
+        outline,
+        getFillRegion(
+          renderConfig.fillStyle,
+          getCellShape(shape, layoutConfig.kind),
+          renderConfig.currentCellProgress,
+        ),
+        paint.fill ?? paint.stroke,
+        paint.stroke,
+        getCellLineWidth(layoutConfig),
+      ),
+    );
+
+    if (pulse !== null) {
+      commands.push(
+        getPresentCellPulseCommand(
+          presentPosition,
           cellSize,
-          cellState,
-          progress,
-          index,
-          totalMonths,
-          fullMonthsLived,
-          theme,
-        );
-        break;
+          outline,
+          pulse,
+          paint.fill ?? paint.stroke,
+          getCellLineWidth(layoutConfig),
+        ),
+      );
     }
   }
+
+  //event layer: drawn on top of every cell so markers are never overpainted
+  for (const [index, event] of eventsByIndex) {
+    const cellPosition = getCellPosition(index - firstCellIndex, layoutConfig);
+    commands.push(
+      ...getEventMarkerCommands(
+        cellPosition,
+        cellSize,
+        event,
+        outline,
+        renderConfig.palette,
+      ),
+    );
+  }
+
+  if (hoverIndex >= firstCellIndex && hoverIndex <= lastCellIndex) {
+    const cellPosition = getCellPosition(
+      hoverIndex - firstCellIndex,
+      layoutConfig,
+    );
+    commands.push(
+      getCellHighlightCommand(cellPosition, cellSize, outline, theme),
+    );
+  }
+
+  return commands;
+};
+
+/**
+ * Describes a complete frame of the life timeline (static + dynamic layer).
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration containing timeline metrics and user preferences.
+ * @param {LayoutConfig} layoutConfig - The grid geometry (and size of the scene).
+ * @param {number} hoverIndex - The hovered cell (counted from birth), or -1 (default).
+ * @returns {DisplayList} The scene, ready to be replayed by any backend.
+ */
+export const buildDisplayList = (
+  renderConfig: RenderConfig,
+  layoutConfig: LayoutConfig,
+  hoverIndex: number = -1,
+): DisplayList => {
+  return {
+    width: layoutConfig.width,
+    height: layoutConfig.height,
+    commands: [
+      ...buildStaticLayer(renderConfig, layoutConfig),
+      ...buildDynamicLayer(renderConfig, layoutConfig, hoverIndex),
+    ],
+  };
 };
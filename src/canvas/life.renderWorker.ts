@@ -0,0 +1,111 @@
+/**
+ * LIFE TIMELINE RENDER WORKER
+ *
+ * Entry point of the Web Worker used by the "worker" render backend
+ * (see life.renderBackend.ts). It owns the OffscreenCanvas handed over by the
+ * page and paints it with exactly the same incremental renderer as the main
+ * thread (life.renderCache.ts).
+ *
+ * MESSAGES (RenderWorkerMessage):
+ * - init:   takes the OffscreenCanvas and its initial size / pixel density
+ * - resize: new CSS size or pixel density (e.g. window resize, zoom, monitor change)
+ * - render: a new RenderConfig and hovered cell, and whether motion is enabled
+ * - hover:  a new hovered cell only (the last RenderConfig is kept as is)
+ *
+ * Every message triggers one paint of the latest state; while motion is
+ * enabled, the animator (life.motion.ts) keeps painting frames in between.
+ *
+ * NOTE:
+ *
+ * Workers have no DOM: everything reached from here must only use APIs that
+ * exist in a worker (OffscreenCanvas, Path2D, DOMMatrix), never `window` or
+ * `document`. RenderConfig arrives fully derived, so no theme resolution or
+ * time math happens here.
+ */
+
+import type { RenderConfig } from '../types/life.types.ts';
+import type { RenderWorkerMessage } from './life.renderBackend.ts';
+import {
+  createRenderCache,
+  renderLifeTimelineCached,
+} from './life.renderCache.ts';
+import type { FramePainter } from './life.motion.ts';
+import { createTimelineAnimator } from './life.motion.ts';
+
+const renderCache = createRenderCache();
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let size = { width: 0, height: 0, dpr: 1 };
+
+// The last rendered state, repainted with the new hovered cell on hover messages
+let latest: { renderConfig: RenderConfig; isMotionEnabled: boolean } | null =
+  null;
+
+/**
+ * Paints a frame onto the OffscreenCanvas.
+ */
+const paint: FramePainter = (renderConfig, hoverIndex, pulse) => {
+  if (!canvas || !ctx) return;
+
+  const bitmapWidth = Math.floor(size.width * size.dpr);
+  const bitmapHeight = Math.floor(size.height * size.dpr);
+
+  //resizing wipes the bitmap the render cache builds upon, so only do it on change
+  if (canvas.width !== bitmapWidth || canvas.height !== bitmapHeight) {
+    canvas.width = bitmapWidth;
+    canvas.height = bitmapHeight;
+  }
+
+  ctx.setTransform(size.dpr, 0, 0, size.dpr, 0, 0);
+
+  renderLifeTimelineCached(
+    ctx,
+    renderCache,
+    renderConfig,
+    size.width,
+    size.height,
+    size.dpr,
+    hoverIndex,
+    pulse,
+  );
+};
+
+const animator = createTimelineAnimator(paint);
+
+self.onmessage = (event: MessageEvent<RenderWorkerMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      canvas = message.canvas;
+      ctx = canvas.getContext('2d');
+      size = { width: message.width, height: message.height, dpr: message.dpr };
+      animator.repaint();
+      break;
+    case 'resize':
+      size = { width: message.width, height: message.height, dpr: message.dpr };
+      animator.repaint();
+      break;
+    case 'render':
+      latest = {
+        renderConfig: message.renderConfig,
+        isMotionEnabled: message.isMotionEnabled,
+      };
+      animator.render(
+        message.renderConfig,
+        message.hoverIndex,
+        message.isMotionEnabled,
+      );
+      break;
+    case 'hover':
+      if (latest) {
+        animator.render(
+          latest.renderConfig,
+          message.hoverIndex,
+          latest.isMotionEnabled,
+        );
+      }
+      break;
+  }
+};
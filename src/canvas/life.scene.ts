@@ -0,0 +1,322 @@
+/**
+ * LIFE TIMELINE EXPORT SCENE
+ *
+ * On screen, the timeline canvas only paints the grid: the background color,
+ * the personal message and the countdown are React elements layered above it.
+ * An exported image has no such layers, so this file describes the WHOLE
+ * scene as one display list, mirroring the on-screen composition:
+ *
+ * 1. background:   the user's color or gradient (dimmed), or the background
+ *                  color of the palette
+ * 2. timeline:     the grid, present cell, markers and legend (life.renderLoop.ts)
+ * 3. message:      the personal message, centered near the top (PersonalMessage.tsx)
+ * 4. countdown:    optionally, a snapshot of the remaining time, centered on
+ *                  the grid (CountdownTimer.tsx)
+ *
+ * Sizes follow the Tailwind classes of those components, for a scene laid out
+ * in CSS pixels. The message and countdown are placed inside the safe area of
+ * the layout, so docks and taskbars never cover them.
+ *
+ * NOTE:
+ *
+ * This file describes the scene only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - compute temporal values (the countdown snapshot is passed in)
+ */
+
+import type {
+  CalendarDifference,
+  DisplayCommand,
+  DisplayList,
+  LayoutConfig,
+  RenderConfig,
+  ThemeMode,
+} from '../types/life.types.ts';
+import { buildDisplayList } from './life.renderLoop.ts';
+import { estimateTextWidth, wrapText } from './life.text.ts';
+
+/**
+ * What an exported scene shows besides the timeline.
+ */
+export interface SceneOptions {
+  /**
+   * Remaining time to show as a countdown, or null to leave it out.
+   */
+  countdown: CalendarDifference | null;
+}
+
+const LIGHT_MESSAGE = '#334155'; // Tailwind Slate-700
+const DARK_MESSAGE = 'rgba(255,255,255,0.7)';
+
+const LIGHT_COUNTDOWN = '#1E293B'; // Tailwind Slate-800
+const DARK_COUNTDOWN = 'rgba(255,255,255,0.9)';
+const LIGHT_COUNTDOWN_LABEL = '#0F172A'; // Tailwind Slate-900
+const DARK_COUNTDOWN_LABEL = 'rgba(255,255,255,0.5)';
+
+const MESSAGE_TOP = 40; // top-10
+const MESSAGE_MAX_WIDTH = 1024; // max-w-5xl
+const MESSAGE_SIDE_PADDING = 24; // px-6
+
+const COUNTDOWN_FONT_SIZE = 60; // text-6xl
+const COUNTDOWN_LABEL_FONT_SIZE = 14; // text-sm
+const COUNTDOWN_LABEL_MARGIN = 4; // mt-1
+const COUNTDOWN_LABEL_LINE_HEIGHT = 20;
+const COUNTDOWN_GAP = 16; // gap-4
+
+// The region of the scene inside the safe-area margins
+interface SceneArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Message font size for a scene width, following the responsive text classes.
+ * @param {number} width - The scene width in pixels.
+ * @returns {number} text-3xl, md:text-4xl or lg:text-5xl
+ */
+const getMessageFontSize = (width: number): number => {
+  if (width >= 1024) return 48;
+  if (width >= 768) return 36;
+  return 30;
+};
+
+/**
+ * Describes the personal message, wrapped and centered near the top.
+ * @param {string} message - The personal message.
+ * @param {ThemeMode} theme - The active rendering theme.
+ * @param {SceneArea} area - The region of the scene inside the safe-area margins.
+ * @returns {DisplayCommand[]} One text command per line (none for a blank message).
+ */
+const getMessageCommands = (
+  message: string,
+  theme: ThemeMode,
+  area: SceneArea,
+): DisplayCommand[] => {
+  const fontSize = getMessageFontSize(area.width);
+  const maxWidth = Math.min(
+    MESSAGE_MAX_WIDTH,
+    area.width - 2 * MESSAGE_SIDE_PADDING,
+  );
+
+  return wrapText(message, fontSize, maxWidth).map((line, lineIndex) => ({
+    op: 'text',
+    x: area.x + area.width / 2,
+    y: area.y + MESSAGE_TOP + fontSize * lineIndex + fontSize / 2,
+    text: line,
+    fontSize,
+    fontWeight: 300,
+    align: 'center',
+    color: theme === 'light' ? LIGHT_MESSAGE : DARK_MESSAGE,
+  }));
+};
+
+/**
+ * Describes a countdown snapshot, centered in the scene.
+ * @param {CalendarDifference} countdown - The remaining time.
+ * @param {ThemeMode} theme - The active rendering theme.
+ * @param {SceneArea} area - The region of the scene inside the safe-area margins.
+ * @returns {DisplayCommand[]} A value and a label per unit, years to seconds.
+ */
+const getCountdownCommands = (
+  countdown: CalendarDifference,
+  theme: ThemeMode,
+  area: SceneArea,
+): DisplayCommand[] => {
+  const columns = [
+    { value: countdown.years, label: 'YEARS' },
+    { value: countdown.months, label: 'MONTHS' },
+    { value: countdown.days, label: 'DAYS' },
+    { value: countdown.hours, label: 'HOURS' },
+    { value: countdown.minutes, label: 'MINUTES' },
+    { value: countdown.seconds, label: 'SECONDS' },
+  ].map(({ value, label }) => {
+    const text = String(value).padStart(2, '0');
+
+    return {
+      text,
+      label,
+      width: Math.max(
+        estimateTextWidth(text, COUNTDOWN_FONT_SIZE),
+        estimateTextWidth(label, COUNTDOWN_LABEL_FONT_SIZE),
+      ),
+    };
+  });
+
+  const totalWidth =
+    columns.reduce((sum, column) => sum + column.width, 0) +
+    COUNTDOWN_GAP * (columns.length - 1);
+  const totalHeight =
+    COUNTDOWN_FONT_SIZE + COUNTDOWN_LABEL_MARGIN + COUNTDOWN_LABEL_LINE_HEIGHT;
+  const top = area.y + (area.height - totalHeight) / 2;
+
+  const commands: DisplayCommand[] = [];
+  let x = area.x + (area.width - totalWidth) / 2;
+
+  for (const column of columns) {
+    const centerX = x + column.width / 2;
+
+    commands.push(
+      {
+        op: 'text',
+        x: centerX,
+        y: top + COUNTDOWN_FONT_SIZE / 2,
+        text: column.text,
+        fontSize: COUNTDOWN_FONT_SIZE,
+        fontWeight: 300,
+        align: 'center',
+        color: theme === 'light' ? LIGHT_COUNTDOWN : DARK_COUNTDOWN,
+      },
+      {
+        op: 'text',
+        x: centerX,
+        y:
+          top +
+          COUNTDOWN_FONT_SIZE +
+          COUNTDOWN_LABEL_MARGIN +
+          COUNTDOWN_LABEL_LINE_HEIGHT / 2,
+        text: column.label,
+        fontSize: COUNTDOWN_LABEL_FONT_SIZE,
+        fontWeight: 400,
+        align: 'center',
+        color: theme === 'light' ? LIGHT_COUNTDOWN_LABEL : DARK_COUNTDOWN_LABEL,
+      },
+    );
+
+    x += column.width + COUNTDOWN_GAP;
+  }
+
+  return commands;
+};
+
+/**
+ * Describes the dim of a background: a translucent black layer.
+ * @param {number} dim - How much the background is darkened [0, 1].
+ * @param {number} width - The scene width in pixels.
+ * @param {number} height - The scene height in pixels.
+ * @returns {DisplayCommand[]} The command drawing the layer, if any.
+ */
+const getDimCommands = (
+  dim: number,
+  width: number,
+  height: number,
+): DisplayCommand[] => {
+  if (dim <= 0) return [];
+
+  return [
+    {
+      op: 'rect',
+      x: 0,
+      y: 0,
+      width,
+      height,
+      fill: `rgba(0,0,0,${dim})`,
+      stroke: null,
+      lineWidth: 0,
+    },
+  ];
+};
+
+/**
+ * Describes the background of the scene: the user's color or gradient, then
+ * its dim. Any other background is drawn as the palette background, which
+ * already is the (dimmed) color seen behind the grid, e.g. the average color
+ * of an image, since images and their blur and vignette stay on screen only.
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {number} width - The scene width in pixels.
+ * @param {number} height - The scene height in pixels.
+ * @returns {DisplayCommand[]} The commands drawing the background.
+ */
+const getBackgroundCommands = (
+  renderConfig: RenderConfig,
+  width: number,
+  height: number,
+): DisplayCommand[] => {
+  const { background, palette } = renderConfig;
+  const area = { x: 0, y: 0, width, height, stroke: null, lineWidth: 0 };
+
+  if (background.kind === 'solid') {
+    return [
+      { op: 'rect', ...area, fill: background.color },
+      ...getDimCommands(background.dim, width, height),
+    ];
+  }
+
+  if (background.kind === 'gradient') {
+    //same gradient line as CSS: through the center, long enough to reach the corners
+    const angle = (background.gradientAngle * Math.PI) / 180;
+    const dx = Math.sin(angle);
+    const dy = -Math.cos(angle);
+    const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+
+    return [
+      {
+        op: 'rect',
+        ...area,
+        fill: {
+          type: 'linear',
+          x0: width / 2 - dx * halfLength,
+          y0: height / 2 - dy * halfLength,
+          x1: width / 2 + dx * halfLength,
+          y1: height / 2 + dy * halfLength,
+          stops: [
+            { offset: 0, color: background.gradientFrom },
+            { offset: 1, color: background.gradientTo },
+          ],
+        },
+      },
+      ...getDimCommands(background.dim, width, height),
+    ];
+  }
+
+  return [{ op: 'rect', ...area, fill: palette.background }];
+};
+
+/**
+ * Describes the complete scene of an exported image.
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {LayoutConfig} layoutConfig - The grid geometry (and size of the scene).
+ * @param {SceneOptions} options - What to show besides the timeline.
+ * @returns {DisplayList} The scene, ready to be replayed by any backend.
+ */
+export const buildSceneDisplayList = (
+  renderConfig: RenderConfig,
+  layoutConfig: LayoutConfig,
+  options: SceneOptions,
+): DisplayList => {
+  const { width, height, safeArea } = layoutConfig;
+  const theme = renderConfig.themeMode;
+  const timeline = buildDisplayList(renderConfig, layoutConfig);
+
+  //overlays stay clear of the safe-area margins, like the grid
+  const area: SceneArea = {
+    x: safeArea.left,
+    y: safeArea.top,
+    width: width - safeArea.left - safeArea.right,
+    height: height - safeArea.top - safeArea.bottom,
+  };
+
+  //the scene is drawn once onto a fresh surface: it starts with the
+  //background, which the timeline's own clear would wipe again
+  const timelineCommands = timeline.commands.filter(
+    (command) => command.op !== 'clear',
+  );
+
+  return {
+    width,
+    height,
+    commands: [
+      { op: 'clear' },
+      ...getBackgroundCommands(renderConfig, width, height),
+      ...timelineCommands,
+      ...getMessageCommands(renderConfig.message, theme, area),
+      ...(options.countdown
+        ? getCountdownCommands(options.countdown, theme, area)
+        : []),
+    ],
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * LIFE TIMELINE SHAPE TEMPLATES
+ *
+ * This file turns cell outlines (see life.shapeRegistry.ts, where every shape
+ * is defined exactly once as an SVG path) into ready-to-use Path2D templates.
+ *
+ * Tracing a Bezier heart (or even an arc) for each of 50,000 cells is what
+ * dominates a full repaint. A template is instead built once per outline and
+ * draw size, and every cell merely copies it to its own position:
+ *
+ *     outline path (SVG "d")  →  scaled once per draw size  →  Path2D template
+ *                                                                  ⬇️
+ *                            combined.addPath(template, translate(x, y)) per cell
+ *
+ * Templates are positioned at the origin (top-left corner of the padded box).
+ * Glyph outlines (e.g. an emoji) are drawn as text by the backends; their
+ * template is the outline of the cell box.
+ *
+ * NOTE:
+ *
+ * This file builds paths only.
+ * It must NOT:
+ * - choose colors or fill/stroke anything
+ * - perform layout calculations
+ */
+
+import type { ShapeOutline } from '../types/life.types.ts';
+
+// Resizes produce a new draw size each time; keep only the most recent templates
+const MAX_CACHED_TEMPLATES = 16;
+
+// Font size of glyph outlines, relative to the draw box (leaves room for ascenders)
+export const GLYPH_SCALE = 0.85;
+
+// Outline of a glyph cell
+const BOX_PATH = 'M0 0H1V1H0Z';
+
+const templateCache = new Map<string, Path2D>();
+
+/**
+ * Identifies an outline, e.g. to cache or share its definition.
+ * @param {ShapeOutline} outline - The cell outline.
+ * @returns {string} A key that is equal for equal outlines.
+ */
+export const getOutlineKey = (outline: ShapeOutline): string => {
+  return outline.kind === 'path'
+    ? `path:${outline.box}:${outline.d}`
+    : `glyph:${outline.text}`;
+};
+
+/**
+ * Returns the template of an outline scaled to a draw size, building it on first use.
+ * @param {ShapeOutline} outline - The cell outline.
+ * @param {number} size - The width and height of the padded draw box.
+ * @returns {Path2D} The outline, with its top-left corner at the origin.
+ */
+export const getShapeTemplate = (
+  outline: ShapeOutline,
+  size: number,
+): Path2D => {
+  const key = `${getOutlineKey(outline)}:${size}`;
+  const cached = templateCache.get(key);
+
+  if (cached) return cached;
+
+  if (templateCache.size >= MAX_CACHED_TEMPLATES) {
+    templateCache.clear();
+  }
+
+  const [d, box] =
+    outline.kind === 'path' ? [outline.d, outline.box] : [BOX_PATH, 1];
+
+  const template = new Path2D();
+  template.addPath(new Path2D(d), new DOMMatrix().scale(size / box));
+  templateCache.set(key, template);
+
+  return template;
+};
@@ -0,0 +1,144 @@
+/**
+ * LIFE TIMELINE DISPLAY LIST AND SVG TESTS
+ *
+ * The scene is plain data built without any DOM (see DisplayList), so a fixed
+ * clock and config pin it down exactly: the display list of the timeline
+ * (buildDisplayList) and the SVG document of the whole scene
+ * (renderLifeTimelineSvg) are checked for lived, present and future cells.
+ *
+ * Every suite pins the process time zone, so the results never depend on the
+ * machine running them.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  DisplayCommand,
+  RenderConfig,
+  ShapesCommand,
+  UserConfig,
+} from '../types/life.types.ts';
+import { defaultConfig } from '../types/life.types.ts';
+import { buildDisplayList } from './life.renderLoop.ts';
+import { renderLifeTimelineSvg } from './life.svg.ts';
+import { buildRenderConfig } from '../utils/life.render.ts';
+import { computeTimelineLayout } from '../utils/life.layout.ts';
+import { createFixedClock } from '../utils/life.clock.ts';
+import { parseIsoDate } from '../utils/life.calendar.ts';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+// 80 yearly cells: a 10 × 8 grid of 60px slots from (100, 60), each cell
+// drawn 2.4px inside its slot
+const USER_CONFIG: UserConfig = {
+  ...defaultConfig,
+  dob: '1990-01-01',
+  expectancy: 80,
+  granularity: 'year',
+  fillStyle: 'horizontal',
+};
+
+/**
+ * Builds the render config of USER_CONFIG at a local instant, in the time
+ * zone pinned when it is called.
+ * @param {string} dateTime - The local date and time, as "YYYY-MM-DD HH:MM".
+ * @returns {RenderConfig} The render config.
+ */
+const renderConfigAt = (dateTime: string): RenderConfig => {
+  const [isoDate, time] = dateTime.split(' ');
+  const [hours, minutes] = time.split(':');
+  const now = parseIsoDate(isoDate);
+  now.setHours(Number(hours), Number(minutes));
+
+  return buildRenderConfig(USER_CONFIG, createFixedClock(now));
+};
+
+/**
+ * Counts the cells drawn by the shape commands matching a predicate.
+ * @param {DisplayCommand[]} commands - The commands to scan.
+ * @param {(command: ShapesCommand) => boolean} predicate - The commands to count.
+ * @returns {number} The number of cells.
+ */
+const countCells = (
+  commands: DisplayCommand[],
+  predicate: (command: ShapesCommand) => boolean,
+): number => {
+  return commands
+    .filter((command): command is ShapesCommand => command.op === 'shapes')
+    .filter(predicate)
+    .reduce((cells, command) => cells + command.points.length / 2, 0);
+};
+
+describe.each(['UTC', 'America/New_York', 'Australia/Sydney'])(
+  'timeline scene in %s',
+  (timeZone) => {
+    beforeEach(() => {
+      vi.stubEnv('TZ', timeZone);
+    });
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it.each([
+      // local time, lived cells, present cell fill (share of its width)
+      ['2024-03-05 12:00', 34, '0.1762'],
+      ['2024-07-02 00:00', 34, '0.5'],
+      ['2050-12-31 12:00', 60, '0.9986'],
+    ])(
+      'draws %s as %i lived cells and a %s filled present cell',
+      (dateTime, lived, fill) => {
+        const renderConfig = renderConfigAt(dateTime);
+        const layoutConfig = computeTimelineLayout(renderConfig, WIDTH, HEIGHT);
+        const { width, height, commands } = buildDisplayList(
+          renderConfig,
+          layoutConfig,
+        );
+
+        expect([width, height]).toEqual([WIDTH, HEIGHT]);
+        expect(commands[0]).toEqual({ op: 'clear' });
+
+        //the static layer: lived cells filled, future cells outlined
+        const staticLayer = commands.slice(
+          0,
+          commands.findIndex((command) => command.op === 'save'),
+        );
+        expect(countCells(staticLayer, (command) => !!command.fill)).toBe(
+          lived,
+        );
+        expect(countCells(staticLayer, (command) => !!command.stroke)).toBe(
+          80 - lived - 1,
+        );
+
+        //the present cell: the next slot, clipped to its progress
+        const column = lived % 10;
+        const row = Math.floor(lived / 10);
+        const clip = commands.find((command) => command.op === 'clip');
+        expect(clip).toMatchObject({
+          path: {
+            d: `M0 0H${fill}V1H0Z`,
+            x: expect.closeTo(102.4 + column * 60),
+            y: expect.closeTo(62.4 + row * 60),
+          },
+        });
+      },
+    );
+
+    it('renders the scene as a standalone, repeatable SVG document', () => {
+      const renderConfig = renderConfigAt('2024-03-05 12:00');
+      const svg = renderLifeTimelineSvg(renderConfig, WIDTH, HEIGHT, {
+        countdown: null,
+      });
+
+      expect(svg).toMatch(
+        /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="800" height="600" viewBox="0 0 800 600">/,
+      );
+      expect(svg.trimEnd().endsWith('</svg>')).toBe(true);
+      expect(svg).toContain('fill="#F8FAFC"');
+      expect(svg).toContain('<path d="M0 0H0.1762V1H0Z"');
+      expect(svg).toContain(`>${USER_CONFIG.message}</text>`);
+      expect(
+        renderLifeTimelineSvg(renderConfig, WIDTH, HEIGHT, { countdown: null }),
+      ).toBe(svg);
+    });
+  },
+);
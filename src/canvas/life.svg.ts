@@ -0,0 +1,283 @@
+/**
+ * LIFE TIMELINE SVG BACKEND
+ *
+ * This file turns display lists into standalone SVG documents, without any
+ * DOM: the output is a plain string, so it works in a browser, a worker or
+ * plain Node alike.
+ *
+ * TRANSLATION:
+ * - shapes:       every shape outline is defined once (its path from the
+ *                 shape registry, heart Bezier included, or a glyph `<text>`)
+ *                 and each cell is a `<use>` of it, inside a group scaled to
+ *                 the draw size
+ * - clip:         a `<clipPath>` of rectangles (and a path), applied to a group that
+ *                 lasts until the matching restore (e.g. the present cell's
+ *                 partial fill)
+ * - rect, circle: `<rect>` / `<circle>`; gradients become `<linearGradient>`
+ * - text:         `<text>` (sans-serif, vertically centered)
+ * - clear:        starts the document over (scenes begin with it)
+ *
+ * Coordinates are rounded to 1/100 px to keep day grids compact (positions
+ * inside scaled shape groups keep more decimals, as they are scaled back up).
+ *
+ * NOTE:
+ *
+ * This file only translates already described scenes.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - decide what the scene contains (see life.renderLoop.ts, life.scene.ts)
+ */
+
+import type {
+  DisplayList,
+  DisplayPaint,
+  RenderConfig,
+  SafeAreaInsets,
+  ShapeOutline,
+} from '../types/life.types.ts';
+import type { SceneOptions } from './life.scene.ts';
+import { NO_SAFE_AREA, computeTimelineLayout } from '../utils/life.layout.ts';
+import { buildSceneDisplayList } from './life.scene.ts';
+import { GLYPH_SCALE, getOutlineKey } from './life.shapes.ts';
+
+/**
+ * Formats a coordinate for an attribute.
+ * @param {number} value - The value.
+ * @param {number} decimals - The decimals to keep (default 2).
+ * @returns {string} The rounded value.
+ */
+const num = (value: number, decimals: number = 2): string => {
+  const factor = 10 ** decimals;
+
+  return String(Math.round(value * factor) / factor);
+};
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ * @param {string} text - The raw text.
+ * @returns {string} The escaped text.
+ */
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+/**
+ * Builds the fill / stroke attributes of an element.
+ * @param {string | null} fill - The fill reference or color, or null.
+ * @param {string | null} stroke - The stroke color, or null.
+ * @param {number} lineWidth - The stroke width.
+ * @returns {string} The attributes (with a leading space).
+ */
+const paintAttributes = (
+  fill: string | null,
+  stroke: string | null,
+  lineWidth: number,
+): string => {
+  const fillAttribute = ` fill="${escapeXml(fill ?? 'none')}"`;
+  const strokeAttribute =
+    stroke === null
+      ? ''
+      : ` stroke="${escapeXml(stroke)}" stroke-width="${num(lineWidth, 4)}"`;
+
+  return fillAttribute + strokeAttribute;
+};
+
+/**
+ * Builds the definition of an outline on the unit box.
+ * Glyphs are filled as text; their outline (when stroked) is the cell box.
+ * @param {string} id - The id of the definition.
+ * @param {ShapeOutline} outline - The cell outline.
+ * @param {boolean} isFill - Whether the definition is filled (or stroked).
+ * @returns {string} The definition.
+ */
+const outlineDefinition = (
+  id: string,
+  outline: ShapeOutline,
+  isFill: boolean,
+): string => {
+  if (outline.kind === 'path') {
+    const scale =
+      outline.box === 1 ? '' : ` transform="scale(${num(1 / outline.box, 6)})"`;
+
+    return `<path id="${id}" d="${escapeXml(outline.d)}"${scale}/>`;
+  }
+
+  return isFill
+    ? `<text id="${id}" x="0.5" y="0.5" font-family="sans-serif" font-size="${GLYPH_SCALE}" text-anchor="middle" dominant-baseline="central">${escapeXml(outline.text)}</text>`
+    : `<rect id="${id}" width="1" height="1"/>`;
+};
+
+/**
+ * Converts a display list into an SVG document.
+ * @param {DisplayList} displayList - The scene to translate.
+ * @returns {string} The SVG markup.
+ */
+export const displayListToSvg = (displayList: DisplayList): string => {
+  const defs: string[] = [];
+  // Id of every outline definition, by outline key and fill / stroke
+  const definedShapes = new Map<string, string>();
+  let body: string[] = [];
+  let nextId = 0;
+
+  // Groups opened (by clips) since each pending save
+  const openGroups: number[] = [0];
+
+  /**
+   * Resolves a paint into a fill value, defining its gradient if needed.
+   * @param {DisplayPaint} paint - A CSS color or a gradient.
+   * @returns {string} The color, or a url() reference.
+   */
+  const toFill = (paint: DisplayPaint): string => {
+    if (typeof paint === 'string') return paint;
+
+    const id = `gradient-${nextId++}`;
+    const stops = paint.stops
+      .map(
+        (stop) =>
+          `<stop offset="${num(stop.offset)}" stop-color="${escapeXml(stop.color)}"/>`,
+      )
+      .join('');
+
+    defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${num(paint.x0)}" y1="${num(paint.y0)}" x2="${num(paint.x1)}" y2="${num(paint.y1)}">${stops}</linearGradient>`,
+    );
+
+    return `url(#${id})`;
+  };
+
+  for (const command of displayList.commands) {
+    switch (command.op) {
+      case 'clear':
+        if (openGroups.length === 1 && openGroups[0] === 0) body = [];
+        break;
+      case 'save':
+        openGroups.push(0);
+        break;
+      case 'restore':
+        body.push('</g>'.repeat(openGroups.pop() ?? 0));
+        if (openGroups.length === 0) openGroups.push(0);
+        break;
+      case 'clip': {
+        const id = `clip-${nextId++}`;
+        const regions: string[] = [];
+
+        for (let i = 0; i < command.rects.length; i += 4) {
+          const [x, y, width, height] = command.rects.slice(i, i + 4);
+          regions.push(
+            `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}"/>`,
+          );
+        }
+        if (command.path) {
+          const { d, x, y, size } = command.path;
+          regions.push(
+            `<path d="${escapeXml(d)}" transform="translate(${num(x)} ${num(y)}) scale(${num(size, 6)})"/>`,
+          );
+        }
+
+        defs.push(`<clipPath id="${id}">${regions.join('')}</clipPath>`);
+        body.push(`<g clip-path="url(#${id})">`);
+        openGroups[openGroups.length - 1]++;
+        break;
+      }
+      case 'shapes': {
+        //glyphs are drawn differently when filled, so fill and stroke may differ
+        const isFill = command.fill !== null;
+        const definitionKey = `${isFill && command.outline.kind === 'glyph' ? 'fill' : 'any'}|${getOutlineKey(command.outline)}`;
+
+        let shapeId = definedShapes.get(definitionKey);
+        if (shapeId === undefined) {
+          shapeId = `shape-${nextId++}`;
+          definedShapes.set(definitionKey, shapeId);
+          defs.push(outlineDefinition(shapeId, command.outline, isFill));
+        }
+
+        //the unit shape is scaled up, so positions and widths are scaled down
+        const scale = command.size;
+        const uses: string[] = [];
+
+        for (let i = 0; i < command.points.length; i += 2) {
+          uses.push(
+            `<use href="#${shapeId}" x="${num(command.points[i] / scale, 4)}" y="${num(command.points[i + 1] / scale, 4)}"/>`,
+          );
+        }
+
+        const opacity =
+          command.alpha < 1 ? ` opacity="${num(command.alpha)}"` : '';
+
+        body.push(
+          `<g transform="scale(${num(scale, 4)})"${paintAttributes(command.fill, command.stroke, command.lineWidth / scale)}${opacity}>${uses.join('')}</g>`,
+        );
+        break;
+      }
+      case 'rect':
+        body.push(
+          `<rect x="${num(command.x)}" y="${num(command.y)}" width="${num(command.width)}" height="${num(command.height)}"${paintAttributes(
+            command.fill === null ? null : toFill(command.fill),
+            command.stroke,
+            command.lineWidth,
+          )}/>`,
+        );
+        break;
+      case 'circle':
+        body.push(
+          `<circle cx="${num(command.cx)}" cy="${num(command.cy)}" r="${num(command.radius)}"${paintAttributes(
+            command.fill,
+            command.stroke,
+            command.lineWidth,
+          )}/>`,
+        );
+        break;
+      case 'text':
+        body.push(
+          `<text x="${num(command.x)}" y="${num(command.y)}" font-family="sans-serif" font-size="${num(command.fontSize)}" font-weight="${command.fontWeight}" text-anchor="${command.align === 'center' ? 'middle' : 'start'}" dominant-baseline="central" fill="${escapeXml(command.color)}">${escapeXml(command.text)}</text>`,
+        );
+        break;
+    }
+  }
+
+  //close whatever a list left open
+  for (const count of openGroups) body.push('</g>'.repeat(count));
+
+  const { width, height } = displayList;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...body.filter((element) => element !== ''),
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Renders the full scene (grid, message and optional countdown) as an SVG document.
+ *
+ * @param {RenderConfig} renderConfig - The derived runtime configuration.
+ * @param {number} width - The width of the image in pixels.
+ * @param {number} height - The height of the image in pixels.
+ * @param {SceneOptions} options - What to show besides the timeline.
+ * @param {SafeAreaInsets} safeArea - Margins to keep free of content (default: none).
+ * @returns {string} The SVG markup.
+ */
+export const renderLifeTimelineSvg = (
+  renderConfig: RenderConfig,
+  width: number,
+  height: number,
+  options: SceneOptions,
+  safeArea: SafeAreaInsets = NO_SAFE_AREA,
+): string => {
+  const layoutConfig = computeTimelineLayout(
+    renderConfig,
+    width,
+    height,
+    safeArea,
+  );
+
+  return displayListToSvg(
+    buildSceneDisplayList(renderConfig, layoutConfig, options),
+  );
+};
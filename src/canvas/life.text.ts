@@ -0,0 +1,72 @@
+/**
+ * LIFE TIMELINE TEXT METRICS
+ *
+ * Display lists are built without any drawing context, so text cannot be
+ * measured with `ctx.measureText`. This file estimates text widths from the
+ * characters instead, which is precise enough to center and wrap short
+ * labels (legend entries, the personal message, the countdown).
+ *
+ * NOTE:
+ *
+ * This file performs estimates only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - emit display commands
+ */
+
+// Average advance of a sans-serif glyph, and of a wide one (emoji, CJK), in em
+const NARROW_GLYPH_WIDTH = 0.55;
+const WIDE_GLYPH_WIDTH = 1;
+const FIRST_WIDE_CODE_POINT = 0x2e80;
+
+/**
+ * Estimates the rendered width of a line of sans-serif text.
+ * @param {string} text - The text.
+ * @param {number} fontSize - The font size in pixels.
+ * @returns {number} The approximate width in pixels.
+ */
+export const estimateTextWidth = (text: string, fontSize: number): number => {
+  let width = 0;
+
+  for (const glyph of text) {
+    const codePoint = glyph.codePointAt(0) ?? 0;
+    width +=
+      codePoint >= FIRST_WIDE_CODE_POINT
+        ? WIDE_GLYPH_WIDTH
+        : NARROW_GLYPH_WIDTH;
+  }
+
+  return width * fontSize;
+};
+
+/**
+ * Greedily wraps text into lines no wider than a maximum width.
+ * A single word wider than the limit gets a line of its own.
+ * @param {string} text - The text (whitespace collapses).
+ * @param {number} fontSize - The font size in pixels.
+ * @param {number} maxWidth - The maximum line width in pixels.
+ * @returns {string[]} The lines (none for blank text).
+ */
+export const wrapText = (
+  text: string,
+  fontSize: number,
+  maxWidth: number,
+): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line === '' ? word : `${line} ${word}`;
+
+    if (line !== '' && estimateTextWidth(candidate, fontSize) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+
+  if (line !== '') lines.push(line);
+
+  return lines;
+};
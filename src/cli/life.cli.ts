@@ -0,0 +1,387 @@
+#!/usr/bin/env node
+/**
+ * LIFE WALLPAPER COMMAND LINE INTERFACE
+ *
+ * Headless entry point for generating the wallpaper outside a browser, e.g.
+ * from a daily cron job that feeds feh, GNOME, sway or any other wallpaper
+ * setter:
+ *
+ *     life-wallpaper render --dob 1990-05-01 --expectancy 85 --shape circle \
+ *       --size 3840x2160 --out wall.svg
+ *
+ * PIPELINE (the same one the app runs):
+ *
+ *     flags → UserConfig → buildRenderConfig → computeTimelineLayout
+ *           → export scene (display list) → SVG backend → file
+ *
+ * Only the DOM-free parts of the app are used: the SVG backend produces a
+ * plain string, and the "system" theme falls back to light since there is no
+ * OS color scheme to read. The "schedule" theme works as is: a cron job run at
+ * night renders the dark wallpaper.
+ *
+ * ERRORS:
+ *
+ * Unlike the app, which silently falls back to defaults, invalid flags are
+ * reported with the usage text and a non-zero exit code, so a broken cron job
+ * is noticed instead of quietly rendering someone else's life. Failures to
+ * write the image (e.g. a missing --out directory) are reported on their own,
+ * with the same exit code: the invocation itself was fine.
+ *
+ * NOTE:
+ *
+ * This file is the Node boundary of the app.
+ * It must NOT:
+ * - be imported by browser code (it uses Node APIs)
+ * - contain rendering or domain logic of its own
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type {
+  SafeAreaInsets,
+  ThemeSchedule,
+  UserConfig,
+} from '../types/life.types.ts';
+import { defaultConfig } from '../types/life.types.ts';
+import {
+  isCellOrder,
+  isCustomShape,
+  isFillStyle,
+  isGranularity,
+  isLayoutStrategy,
+  isShape,
+  isThemePreference,
+} from '../config/life.config.ts';
+import { parseIsoDate, getCalendarDifference } from '../utils/life.calendar.ts';
+import { createFixedClock, systemClock } from '../utils/life.clock.ts';
+import { NO_SAFE_AREA } from '../utils/life.layout.ts';
+import { buildRenderConfig, isThemeApplied } from '../utils/life.render.ts';
+import { getLifeEndDate } from '../utils/life.time.ts';
+import { isTimeOfDay } from '../utils/life.themeSchedule.ts';
+import { renderLifeTimelineSvg } from '../canvas/life.svg.ts';
+import { SHAPE_IDS } from '../data/life.shapeRegistry.ts';
+import { FILL_STYLE_IDS } from '../data/life.fillStyles.ts';
+import { AUTO_PALETTE_ID, BUILT_IN_PALETTES } from '../data/life.palettes.ts';
+
+// Palettes selectable from the command line (custom ones live in the browser)
+const PALETTE_IDS = [
+  AUTO_PALETTE_ID,
+  ...BUILT_IN_PALETTES.map((palette) => palette.id),
+];
+
+const USAGE = `Usage: life-wallpaper render [options]
+
+Renders the life timeline wallpaper as an SVG image.
+
+Options:
+  --dob <YYYY-MM-DD>       date of birth (default ${defaultConfig.dob})
+  --expectancy <years>     life expectancy in years (default ${defaultConfig.expectancy})
+  --shape <shape>          ${SHAPE_IDS.join(' | ')} (default ${defaultConfig.shape})
+  --custom-shape <text>    emoji or SVG path (24x24 box) used by --shape custom
+  --fill <style>           ${FILL_STYLE_IDS.join(' | ')}
+                           (default ${defaultConfig.fillStyle})
+  --granularity <unit>     year | month | week | day (default ${defaultConfig.granularity})
+  --layout <layout>        grid | yearRows | decades | spiral | rings |
+                           honeycomb (default ${defaultConfig.layout})
+  --order <order>          leftToRight | rightToLeft | snake, for row layouts (default ${defaultConfig.cellOrder})
+  --theme <theme>          light | dark | system | schedule (default ${defaultConfig.theme});
+                           system renders light, as there is no OS color scheme
+  --schedule <when>        light/dark times for --theme schedule (implied;
+                           only with --palette auto):
+                           HH:MM-HH:MM (e.g. 07:00-19:00) for fixed times,
+                           or LAT,LON (e.g. 51.48,0) for sunrise and sunset
+  --palette <palette>      ${PALETTE_IDS.join(' | ')}
+                           (default ${defaultConfig.palette})
+  --message <text>         personal message shown at the top
+  --size <WxH>             image size in pixels (default 1920x1080)
+  --safe-area <T,R,B,L>    margins kept free for docks and taskbars (default 0,0,0,0)
+  --date <YYYY-MM-DD>      render as of another date (default: now)
+  --countdown              include a snapshot of the remaining time
+  --out <file>             output file, or - for stdout (default life-wallpaper.svg)
+  --help                   show this help`;
+
+const DEFAULT_SIZE = { width: 1920, height: 1080 };
+const MAX_EXPECTANCY = 150; // same bound the settings form enforces
+const SIZE_PATTERN = /^(\d+)x(\d+)$/;
+const FIXED_SCHEDULE_PATTERN = /^(\d\d:\d\d)-(\d\d:\d\d)$/;
+
+/**
+ * Reports a usage error and ends the process.
+ * @param {string} message - What is wrong with the invocation.
+ * @returns {never} Never returns.
+ */
+const fail = (message: string): never => {
+  console.error(`life-wallpaper: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+/**
+ * Reports a runtime failure (e.g. an unwritable --out file) and ends the
+ * process, without the usage text.
+ * @param {string} message - What went wrong.
+ * @returns {never} Never returns.
+ */
+const abort = (message: string): never => {
+  console.error(`life-wallpaper: ${message}`);
+  process.exit(1);
+};
+
+/**
+ * Parses an image size such as "3840x2160".
+ * @param {string} value - The flag value.
+ * @returns {{ width: number; height: number }} The size in pixels.
+ */
+const parseSize = (value: string): { width: number; height: number } => {
+  const match = SIZE_PATTERN.exec(value.trim());
+  const width = Number(match?.[1]);
+  const height = Number(match?.[2]);
+
+  if (!match || width < 1 || height < 1) {
+    return fail(`invalid --size "${value}", expected e.g. 3840x2160`);
+  }
+
+  return { width, height };
+};
+
+/**
+ * Parses safe-area margins such as "0,0,48,0" (top, right, bottom, left).
+ * @param {string} value - The flag value.
+ * @returns {SafeAreaInsets} The margins in pixels.
+ */
+const parseSafeArea = (value: string): SafeAreaInsets => {
+  const margins = value.split(',').map((margin) => Number(margin.trim()));
+
+  if (
+    margins.length !== 4 ||
+    margins.some((margin) => !Number.isFinite(margin) || margin < 0)
+  ) {
+    return fail(`invalid --safe-area "${value}", expected e.g. 0,0,48,0`);
+  }
+
+  const [top, right, bottom, left] = margins;
+  return { top, right, bottom, left };
+};
+
+/**
+ * Parses a theme schedule such as "07:00-19:00" or "51.48,0".
+ * @param {string} value - The flag value.
+ * @returns {ThemeSchedule} The schedule.
+ */
+const parseThemeSchedule = (value: string): ThemeSchedule => {
+  const times = FIXED_SCHEDULE_PATTERN.exec(value.trim());
+
+  if (times) {
+    const [, lightAt, darkAt] = times;
+    if (!isTimeOfDay(lightAt) || !isTimeOfDay(darkAt)) {
+      return fail(`invalid --schedule "${value}", expected e.g. 07:00-19:00`);
+    }
+
+    return { ...defaultConfig.themeSchedule, kind: 'fixed', lightAt, darkAt };
+  }
+
+  const coordinates = value.split(',').map((part) => Number(part.trim()));
+  const [latitude, longitude] = coordinates;
+
+  if (
+    coordinates.length !== 2 ||
+    !coordinates.every(Number.isFinite) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return fail(
+      `invalid --schedule "${value}", expected e.g. 07:00-19:00 or 51.48,0`,
+    );
+  }
+
+  return { ...defaultConfig.themeSchedule, kind: 'sun', latitude, longitude };
+};
+
+/**
+ * Runs the `render` command.
+ * @param {string[]} args - The arguments following the command name.
+ */
+const runRender = (args: string[]): void => {
+  const { values } = parseArgs({
+    args,
+    strict: true,
+    options: {
+      dob: { type: 'string' },
+      expectancy: { type: 'string' },
+      shape: { type: 'string' },
+      'custom-shape': { type: 'string' },
+      fill: { type: 'string' },
+      granularity: { type: 'string' },
+      layout: { type: 'string' },
+      order: { type: 'string' },
+      theme: { type: 'string' },
+      schedule: { type: 'string' },
+      palette: { type: 'string' },
+      message: { type: 'string' },
+      size: { type: 'string' },
+      'safe-area': { type: 'string' },
+      date: { type: 'string' },
+      countdown: { type: 'boolean', default: false },
+      out: { type: 'string', default: 'life-wallpaper.svg' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const {
+    dob,
+    expectancy,
+    shape,
+    fill,
+    granularity,
+    layout,
+    order,
+    theme,
+    palette,
+  } = values;
+
+  if (dob !== undefined && isNaN(parseIsoDate(dob).getTime())) {
+    fail(`invalid --dob "${dob}", expected YYYY-MM-DD`);
+  }
+
+  const expectancyYears =
+    expectancy === undefined ? undefined : Number(expectancy);
+  if (
+    expectancyYears !== undefined &&
+    (!Number.isFinite(expectancyYears) ||
+      expectancyYears <= 0 ||
+      expectancyYears > MAX_EXPECTANCY)
+  ) {
+    fail(`invalid --expectancy "${expectancy}"`);
+  }
+
+  if (shape !== undefined && !isShape(shape)) {
+    fail(`unknown --shape "${shape}"`);
+  }
+  const customShape = values['custom-shape'];
+  if (customShape !== undefined && !isCustomShape(customShape)) {
+    fail('--custom-shape is too long');
+  }
+  if (fill !== undefined && !isFillStyle(fill)) {
+    fail(`unknown --fill "${fill}"`);
+  }
+  if (granularity !== undefined && !isGranularity(granularity)) {
+    fail(`unknown --granularity "${granularity}"`);
+  }
+  if (layout !== undefined && !isLayoutStrategy(layout)) {
+    fail(`unknown --layout "${layout}"`);
+  }
+  if (order !== undefined && !isCellOrder(order)) {
+    fail(`unknown --order "${order}"`);
+  }
+  if (theme !== undefined && !isThemePreference(theme)) {
+    fail(`unknown --theme "${theme}"`);
+  }
+  const themeSchedule =
+    values.schedule === undefined
+      ? defaultConfig.themeSchedule
+      : parseThemeSchedule(values.schedule);
+  if (palette !== undefined && !PALETTE_IDS.includes(palette)) {
+    fail(`unknown --palette "${palette}"`);
+  }
+
+  //a given expectancy is always used as is, never estimated
+  const userConfig: UserConfig = {
+    ...defaultConfig,
+    dob: dob ?? defaultConfig.dob,
+    expectancy: expectancyYears ?? defaultConfig.expectancy,
+    expectancyMode:
+      expectancyYears === undefined ? defaultConfig.expectancyMode : 'manual',
+    shape: isShape(shape) ? shape : defaultConfig.shape,
+    customShape: customShape ?? defaultConfig.customShape,
+    fillStyle: isFillStyle(fill) ? fill : defaultConfig.fillStyle,
+    granularity: isGranularity(granularity)
+      ? granularity
+      : defaultConfig.granularity,
+    layout: isLayoutStrategy(layout) ? layout : defaultConfig.layout,
+    cellOrder: isCellOrder(order) ? order : defaultConfig.cellOrder,
+    //a schedule without a theme means the scheduled theme
+    theme: isThemePreference(theme)
+      ? theme
+      : values.schedule === undefined
+        ? defaultConfig.theme
+        : 'schedule',
+    themeSchedule,
+    palette: palette ?? defaultConfig.palette,
+    message: values.message ?? defaultConfig.message,
+  };
+
+  if (userConfig.theme === 'schedule' && !isThemeApplied(userConfig)) {
+    fail('--theme schedule only applies to --palette auto');
+  }
+
+  let clock = systemClock;
+  if (values.date !== undefined) {
+    const date = parseIsoDate(values.date);
+    if (isNaN(date.getTime())) {
+      fail(`invalid --date "${values.date}", expected YYYY-MM-DD`);
+    }
+    clock = createFixedClock(date);
+  }
+
+  const { width, height } =
+    values.size === undefined ? DEFAULT_SIZE : parseSize(values.size);
+  const safeArea =
+    values['safe-area'] === undefined
+      ? NO_SAFE_AREA
+      : parseSafeArea(values['safe-area']);
+
+  const renderConfig = buildRenderConfig(userConfig, clock);
+  const countdown = values.countdown
+    ? getCalendarDifference(
+        clock.now(),
+        getLifeEndDate(renderConfig.dob, renderConfig.expectancy),
+      )
+    : null;
+
+  const svg = renderLifeTimelineSvg(
+    renderConfig,
+    width,
+    height,
+    { countdown },
+    safeArea,
+  );
+
+  if (values.out === '-') {
+    process.stdout.write(svg);
+    return;
+  }
+
+  try {
+    writeFileSync(values.out, svg);
+  } catch (error) {
+    abort(error instanceof Error ? error.message : String(error));
+  }
+};
+
+/**
+ * Dispatches the command line to its command.
+ * @param {string[]} argv - The arguments after the executable and script.
+ */
+const main = (argv: string[]): void => {
+  const [command, ...args] = argv;
+
+  if (command === undefined || command === '--help' || command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+
+  if (command !== 'render') fail(`unknown command "${command}"`);
+
+  try {
+    runRender(args);
+  } catch (error) {
+    //parseArgs rejects unknown flags and missing values by throwing
+    fail(error instanceof Error ? error.message : String(error));
+  }
+};
+
+main(process.argv.slice(2));
@@ -0,0 +1,99 @@
+/**
+ * LIFE TIMELINE BACKDROP COMPONENT
+ *
+ * Paints the user's background behind the timeline canvas: a solid color, a
+ * linear gradient or an image (covering the screen), then the effects on top
+ * of it, in this order:
+ *
+ * 1. blur:     softens the image (the layer is slightly enlarged so the
+ *              blurred edges never let the page show through)
+ * 2. dim:      a black layer of the dim opacity
+ * 3. vignette: a radial shade darkening the corners
+ *
+ * ARCHITECTURAL DESIGN:
+ * - Purely presentational: the image is loaded from the image store
+ * (life.imageStore.ts) by `App.tsx`, which also fits the palette to the
+ * backdrop (life.backdrop.ts) so the grid keeps its contrast on top of it.
+ * - Until the image is loaded (or when it is missing), the palette
+ * background shows through.
+ * - The palette background needs no layer of its own: it is the color of
+ * the App root, which is the fitted palette background and therefore already
+ * dimmed. Only the layers drawn here are dimmed by this component.
+ */
+
+import type { CSSProperties } from 'react';
+import type { Background } from '../types/life.types.ts';
+
+interface BackdropProps {
+  /**
+   * The user's background.
+   */
+  background: Background;
+  /**
+   * Object URL of the loaded background image, or null.
+   */
+  imageUrl: string | null;
+}
+
+/**
+ * Resolves the CSS of the base layer.
+ * @param {Background} background - The user's background.
+ * @param {string | null} imageUrl - Object URL of the loaded image, or null.
+ * @returns {CSSProperties | null} The style of the layer, or null when the palette background shows.
+ */
+const getBaseStyle = (
+  background: Background,
+  imageUrl: string | null,
+): CSSProperties | null => {
+  switch (background.kind) {
+    case 'solid':
+      return { backgroundColor: background.color };
+    case 'gradient':
+      return {
+        backgroundImage: `linear-gradient(${background.gradientAngle}deg, ${background.gradientFrom}, ${background.gradientTo})`,
+      };
+    case 'image':
+      if (imageUrl === null) return null;
+
+      return {
+        backgroundImage: `url("${imageUrl}")`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        filter: background.blur > 0 ? `blur(${background.blur}px)` : undefined,
+        //blurred edges fade out: grow past the screen by twice the radius
+        transform:
+          background.blur > 0
+            ? `scale(${1 + (4 * background.blur) / Math.min(window.innerWidth, window.innerHeight)})`
+            : undefined,
+      };
+    default:
+      return null;
+  }
+};
+
+export default function Backdrop({ background, imageUrl }: BackdropProps) {
+  const baseStyle = getBaseStyle(background, imageUrl);
+
+  return (
+    <div
+      className="fixed inset-0 z-0 overflow-hidden pointer-events-none"
+      aria-hidden="true"
+    >
+      {baseStyle && <div className="absolute inset-0" style={baseStyle} />}
+      {baseStyle && background.dim > 0 && (
+        <div
+          className="absolute inset-0 bg-black"
+          style={{ opacity: background.dim }}
+        />
+      )}
+      {background.vignette > 0 && (
+        <div
+          className="absolute inset-0"
+          style={{
+            backgroundImage: `radial-gradient(ellipse at center, transparent 40%, rgba(0, 0, 0, ${background.vignette}) 100%)`,
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+/**
+ * LIFE TIMELINE BACKGROUND EDITOR COMPONENT
+ *
+ * Edits the background behind the timeline inside the settings drawer: its
+ * kind (the palette background, a solid color, a gradient or an image), the
+ * colors or image of that kind, and the blur, dim and vignette effects.
+ *
+ * ARCHITECTURAL DESIGN:
+ * - Controlled: every change is handed to `onChange` as a complete
+ * background, and `SettingsOverlay.tsx` keeps it in its form draft until the
+ * user saves.
+ * - A picked image is stored in IndexedDB right away (life.imageStore.ts):
+ * only its key travels in the draft. The image of the saved configuration is
+ * kept, so cancelling the form still finds it.
+ */
+
+import type { ChangeEvent } from 'react';
+import { useState } from 'react';
+import type { Background, BackgroundKind } from '../types/life.types.ts';
+import { storeBackgroundImage } from '../config/life.imageStore.ts';
+import {
+  MAX_BACKGROUND_BLUR,
+  MAX_BACKGROUND_DIM,
+} from '../utils/life.backdrop.ts';
+
+// Background kinds, in display order
+const KIND_OPTIONS: ReadonlyArray<{ kind: BackgroundKind; label: string }> = [
+  { kind: 'palette', label: 'Palette background' },
+  { kind: 'solid', label: 'Solid color' },
+  { kind: 'gradient', label: 'Gradient' },
+  { kind: 'image', label: 'Image' },
+];
+
+interface BackgroundEditorProps {
+  /**
+   * The background being edited.
+   */
+  background: Background;
+  /**
+   * Key of the image of the saved configuration, kept when another is picked.
+   */
+  savedImageId: string;
+  /**
+   * Callback fired with the edited background on every change.
+   */
+  onChange: (background: Background) => void;
+}
+
+export default function BackgroundEditor({
+  background,
+  savedImageId,
+  onChange,
+}: BackgroundEditorProps) {
+  // Feedback of the last image pick (storage can fail, e.g. in private windows)
+  const [imageError, setImageError] = useState<string | null>(null);
+
+  // Generic handler for the inputs whose names match the Background keys
+  const handleFieldChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => {
+    const { name, value, type } = e.target;
+    onChange({
+      ...background,
+      [name]: type === 'range' ? Number(value) : value,
+    });
+  };
+
+  const handleImagePick = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imageId = await storeBackgroundImage(file, savedImageId);
+      setImageError(null);
+      onChange({
+        ...background,
+        kind: 'image',
+        imageId,
+        imageName: file.name,
+      });
+    } catch (error) {
+      console.warn('Storing the background image failed:', error);
+      setImageError('The image could not be stored in this browser.');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        name="kind"
+        value={background.kind}
+        onChange={handleFieldChange}
+        aria-label="Background"
+        className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+      >
+        {KIND_OPTIONS.map(({ kind, label }) => (
+          <option key={kind} value={kind}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {background.kind === 'solid' && (
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="color"
+            name="color"
+            value={background.color}
+            onChange={handleFieldChange}
+            className="w-10 h-8 bg-transparent cursor-pointer"
+          />
+          Color
+        </label>
+      )}
+
+      {background.kind === 'gradient' && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="color"
+              name="gradientFrom"
+              value={background.gradientFrom}
+              onChange={handleFieldChange}
+              aria-label="Gradient start"
+              className="w-10 h-8 bg-transparent cursor-pointer"
+            />
+            →
+            <input
+              type="color"
+              name="gradientTo"
+              value={background.gradientTo}
+              onChange={handleFieldChange}
+              aria-label="Gradient end"
+              className="w-10 h-8 bg-transparent cursor-pointer"
+            />
+          </div>
+          <label className="block text-xs text-slate-500 dark:text-slate-400">
+            Angle: {background.gradientAngle}°
+            <input
+              type="range"
+              name="gradientAngle"
+              min={0}
+              max={360}
+              step={15}
+              value={background.gradientAngle}
+              onChange={handleFieldChange}
+              className="w-full accent-palette-accent"
+            />
+          </label>
+        </div>
+      )}
+
+      {background.kind === 'image' && (
+        <div className="space-y-2">
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleImagePick}
+            aria-label="Background image"
+            className="w-full text-sm text-slate-700 dark:text-slate-300 file:mr-3 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-palette-accent file:text-palette-accent-text file:cursor-pointer"
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {imageError ??
+              (background.imageName
+                ? `Current image: ${background.imageName} (kept in this browser only).`
+                : 'Pick an image from your computer; it never leaves this browser.')}
+          </p>
+          <label className="block text-xs text-slate-500 dark:text-slate-400">
+            Blur: {background.blur}px
+            <input
+              type="range"
+              name="blur"
+              min={0}
+              max={MAX_BACKGROUND_BLUR}
+              step={1}
+              value={background.blur}
+              onChange={handleFieldChange}
+              className="w-full accent-palette-accent"
+            />
+          </label>
+        </div>
+      )}
+
+      <label className="block text-xs text-slate-500 dark:text-slate-400">
+        Dim: {Math.round(background.dim * 100)}%
+        <input
+          type="range"
+          name="dim"
+          min={0}
+          max={MAX_BACKGROUND_DIM}
+          step={0.05}
+          value={background.dim}
+          onChange={handleFieldChange}
+          className="w-full accent-palette-accent"
+        />
+      </label>
+      <label className="block text-xs text-slate-500 dark:text-slate-400">
+        Vignette: {Math.round(background.vignette * 100)}%
+        <input
+          type="range"
+          name="vignette"
+          min={0}
+          max={1}
+          step={0.05}
+          value={background.vignette}
+          onChange={handleFieldChange}
+          className="w-full accent-palette-accent"
+        />
+      </label>
+
+      {background.kind !== 'palette' && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Cell colors are adjusted automatically to stay visible on this
+          background.
+        </p>
+      )}
+    </div>
+  );
+}
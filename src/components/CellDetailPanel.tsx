@@ -0,0 +1,156 @@
+/**
+ * LIFE TIMELINE CELL DETAIL PANEL COMPONENT
+ *
+ * A card opened by clicking a timeline cell. It shows the same facts as the
+ * hover tooltip in full: the covered dates, the user's age, how much of the
+ * cell has been lived, its era, and every attached life event with its
+ * complete note.
+ *
+ * ARCHITECTURAL DESIGN:
+ * - Purely presentational: the clicked cell is resolved inside `LifeCanvas.tsx`.
+ * - Docked to the top-right corner so it never covers the settings drawer.
+ * - Closed through its button, the Escape key, or by clicking empty space.
+ * - Offers a "Zoom in" button when the cell can be opened as a deeper zoom level.
+ */
+
+import { useEffect } from 'react';
+import type { CellDetails, TimeUnit } from '../types/life.types.ts';
+import {
+  formatAge,
+  formatCellRange,
+  formatCellState,
+  formatCellTitle,
+  formatDisplayDate,
+} from '../utils/life.format.ts';
+import { parseIsoDate } from '../utils/life.calendar.ts';
+
+interface CellDetailPanelProps {
+  /**
+   * The selected cell.
+   */
+  details: CellDetails;
+  /**
+   * Span of time represented by a single cell.
+   */
+  granularity: TimeUnit;
+  /**
+   * Callback fired when the panel should close.
+   */
+  onClose: () => void;
+  /**
+   * Callback fired to zoom into the cell (omitted at the deepest zoom level).
+   */
+  onZoomIn?: () => void;
+}
+
+export default function CellDetailPanel({
+  details,
+  granularity,
+  onClose,
+  onZoomIn,
+}: CellDetailPanelProps) {
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div className="fixed top-6 right-6 z-30 w-80 max-h-[calc(100vh-48px)] overflow-y-auto p-5 rounded-2xl bg-white/90 dark:bg-slate-900/90 backdrop-blur-md shadow-2xl border border-slate-200 dark:border-slate-800 text-slate-700 dark:text-slate-300">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800 dark:text-white">
+            {formatCellTitle(details, granularity)}
+          </h2>
+          <p className="text-sm">{formatCellRange(details, granularity)}</p>
+        </div>
+        {/* Close Button */}
+        <button
+          onClick={onClose}
+          aria-label="Close cell details"
+          className="text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-white cursor-pointer"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+            strokeWidth={2}
+            stroke="currentColor"
+            className="w-5 h-5"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-slate-500 dark:text-slate-400">Age</dt>
+        <dd>{formatAge(details.ageAtStart, granularity)}</dd>
+        <dt className="text-slate-500 dark:text-slate-400">Status</dt>
+        <dd>{formatCellState(details)}</dd>
+        {details.eraName && (
+          <>
+            <dt className="text-slate-500 dark:text-slate-400">Era</dt>
+            <dd>{details.eraName}</dd>
+          </>
+        )}
+      </dl>
+
+      {/* Lived fraction of the cell */}
+      <div className="mt-3 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+        <div
+          className="h-full bg-palette-accent"
+          style={{ width: `${details.progress * 100}%` }}
+        />
+      </div>
+
+      {onZoomIn && (
+        <button
+          onClick={onZoomIn}
+          className="mt-4 w-full py-1.5 rounded-lg text-sm font-medium bg-palette-accent text-palette-accent-text hover:bg-palette-accent/85 transition-colors cursor-pointer"
+        >
+          Zoom in
+        </button>
+      )}
+
+      <h3 className="mt-5 text-sm font-medium text-slate-700 dark:text-slate-300">
+        Life Events
+      </h3>
+      {details.events.length === 0 && (
+        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+          Nothing pinned to this cell.
+        </p>
+      )}
+      <ul className="mt-2 space-y-3">
+        {details.events.map((event) => (
+          <li key={`${event.date}-${event.title}`} className="text-sm">
+            <p className="flex items-center gap-2 font-medium text-slate-900 dark:text-white">
+              <span
+                className="w-2.5 h-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: event.color }}
+              />
+              {event.icon} {event.title}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {formatDisplayDate(parseIsoDate(event.date))}
+            </p>
+            {event.note && (
+              <p className="mt-1 whitespace-pre-line">{event.note}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * LIFE TIMELINE CELL TOOLTIP COMPONENT
+ *
+ * A small floating card that follows the pointer while it hovers a timeline
+ * cell. It shows the cell's date range, the user's age at that time, whether
+ * the cell has been lived, and the era and life events attached to it.
+ *
+ * ARCHITECTURAL DESIGN:
+ * - Purely presentational: the hovered cell is hit-tested and described by
+ * the utils layer (life.hitTest.ts, life.cellDetails.ts) inside `LifeCanvas.tsx`.
+ * - Flips to the other side of the pointer near the right and bottom edges so
+ * it never leaves the viewport.
+ * - Never captures the pointer (`pointer-events-none`), otherwise it would
+ * steal the hover from the canvas underneath.
+ */
+
+import type { CellDetails, TimeUnit } from '../types/life.types.ts';
+import {
+  formatAge,
+  formatCellRange,
+  formatCellState,
+  formatCellTitle,
+} from '../utils/life.format.ts';
+
+// Distance between the pointer and the tooltip
+const POINTER_OFFSET = 16;
+
+// Rough tooltip footprint used to decide when to flip sides
+const FLIP_WIDTH = 260;
+const FLIP_HEIGHT = 160;
+
+interface CellTooltipProps {
+  /**
+   * The hovered cell.
+   */
+  details: CellDetails;
+  /**
+   * Span of time represented by a single cell.
+   */
+  granularity: TimeUnit;
+  /**
+   * Pointer position in CSS pixels (viewport coordinates).
+   */
+  x: number;
+  y: number;
+}
+
+export default function CellTooltip({
+  details,
+  granularity,
+  x,
+  y,
+}: CellTooltipProps) {
+  const flipX = x + POINTER_OFFSET + FLIP_WIDTH > window.innerWidth;
+  const flipY = y + POINTER_OFFSET + FLIP_HEIGHT > window.innerHeight;
+
+  const style = {
+    left: flipX ? undefined : x + POINTER_OFFSET,
+    right: flipX ? window.innerWidth - x + POINTER_OFFSET : undefined,
+    top: flipY ? undefined : y + POINTER_OFFSET,
+    bottom: flipY ? window.innerHeight - y + POINTER_OFFSET : undefined,
+  };
+
+  return (
+    <div
+      style={style}
+      className="fixed z-30 max-w-64 py-2 px-3 rounded-lg bg-white/90 dark:bg-slate-900/90 backdrop-blur-md shadow-lg border border-slate-200 dark:border-slate-800 text-sm text-slate-700 dark:text-slate-300 pointer-events-none select-none"
+    >
+      <p className="font-semibold text-slate-900 dark:text-white">
+        {formatCellTitle(details, granularity)}
+        <span className="ml-2 font-normal text-xs text-slate-500 dark:text-slate-400">
+          {formatCellState(details)}
+        </span>
+      </p>
+      <p>{formatCellRange(details, granularity)}</p>
+      <p className="text-slate-500 dark:text-slate-400">
+        Age {formatAge(details.ageAtStart, granularity)}
+        {details.eraName && ` · ${details.eraName}`}
+      </p>
+
+      {details.events.map((event) => (
+        <div key={`${event.date}-${event.title}`} className="mt-1">
+          <p className="flex items-center gap-1">
+            <span
+              className="w-2 h-2 shrink-0 rounded-full"
+              style={{ backgroundColor: event.color }}
+            />
+            {event.icon} {event.title}
+          </p>
+          {event.note && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">
+              {event.note}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
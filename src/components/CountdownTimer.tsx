@@ -24,12 +24,14 @@
  * TEMPORAL LOGIC:
  *
  * The "End Date" is calculated exactly as:
- * Date of Birth (at 00:00:00) + Life Expectancy (in years)
+ * Date of Birth (at local 00:00:00) + Life Expectancy (in years, rounded to whole months)
  *
- * The remaining time is derived by subtracting the current time (`now`)
- * from the calculated `endDate`. The math borrows time downwards
- * (from years -> months -> days, etc.) to handle varying month lengths
- * and leap years accurately.
+ * The remaining time is derived by subtracting the current time (`now`,
+ * read from the injected Clock so time travel previews work) from the
+ * calculated `endDate`. Both the end date and the borrowing
+ * (from years -> months -> days, etc.) come from the shared calendar engine
+ * (life.calendar.ts), so month lengths, month-end births, leap days and DST
+ * follow exactly the same rules as the life grid.
  *
  * THEME HANDLING:
  *
@@ -39,17 +41,25 @@
  */
 
 import { useEffect, useRef } from 'react';
+import type { Clock } from '../types/life.types.ts';
+import { getCalendarDifference } from '../utils/life.calendar.ts';
+import { getLifeEndDate } from '../utils/life.time.ts';
 
 const pad = (num: number, size = 2) => num.toString().padStart(size, '0');
 
 interface CountdownTimerProps {
   dob: string;
   expectancy: number;
+  /**
+   * Source of the current instant (system clock or a time travel preview).
+   */
+  clock: Clock;
 }
 
 export default function CountdownTimer({
   dob,
   expectancy,
+  clock,
 }: CountdownTimerProps) {
   //required references
   const yearsRef = useRef<HTMLSpanElement | null>(null);
@@ -61,27 +71,18 @@ export default function CountdownTimer({
   const msRef = useRef<HTMLSpanElement | null>(null);
   
   useEffect(() => {
-    const birthDate = new Date(`${dob}T00:00:00`);
-    const endDate = new Date(birthDate);
-    endDate.setFullYear(endDate.getFullYear() + expectancy);
+    const endDate = getLifeEndDate(dob, expectancy);
 
     //cache years months days hours and mins they will change rarely (we run this at 60 or 120Hz)
     let prevYears = '', prevMonths = '', prevDays = '', prevHours = '', prevMins = '', prevSecs = '';
 
-    //this won't be changing
-    const daysInLastMonth = new Date(
-      endDate.getFullYear(),
-      endDate.getMonth(),
-      0,
-    ).getDate();
-
     let animationFrameId: number;
 
     const updateTimer = () => {
-      const now = new Date();
+      const now = clock.now();
 
-      //base case: The loop will stop when now >= endDate
-      if (now >= endDate) {
+      //base case: The loop will stop when now >= endDate (or the dob cannot be parsed)
+      if (isNaN(endDate.getTime()) || now >= endDate) {
         if (yearsRef.current) yearsRef.current.innerText = '00';
         if (monthsRef.current) monthsRef.current.innerText = '00';
         if (daysRef.current) daysRef.current.innerText = '00';
@@ -92,49 +93,19 @@ export default function CountdownTimer({
         return;
       }
 
-      let years = endDate.getFullYear() - now.getFullYear();
-      let months = endDate.getMonth() - now.getMonth();
-      let days = endDate.getDate() - now.getDate();
-      let hours = 0 - now.getHours();
-      let mins = 0 - now.getMinutes();
-      let secs = 0 - now.getSeconds();
-      let ms = 0 - now.getMilliseconds();
-
-      //resolving negatives
-      if (ms < 0) {
-        ms += 1000;
-        secs--;
-      }
-      if (secs < 0) {
-        secs += 60;
-        mins--;
-      }
-      if (mins < 0) {
-        mins += 60;
-        hours--;
-      }
-      if (hours < 0) {
-        hours += 24;
-        days--;
-      }
-      if (days < 0) {
-        months--;
-        days += daysInLastMonth;
-      }
-      if (months < 0) {
-        years--;
-        months += 12;
-      }
+      //borrowing (years -> months -> days ...) is handled by the shared calendar engine
+      const { years, months, days, hours, minutes, seconds, milliseconds } =
+        getCalendarDifference(now, endDate);
 
       //converting ms to 2 digits
-      const displayMs = Math.floor(ms / 10);
+      const displayMs = Math.floor(milliseconds / 10);
 
       const paddedYears = pad(years);
       const paddedMonths = pad(months);
       const paddedDays = pad(days);
       const paddedHours = pad(hours);
-      const paddedMins = pad(mins);
-      const paddedSecs = pad(secs);
+      const paddedMins = pad(minutes);
+      const paddedSecs = pad(seconds);
 
       if (prevYears !== paddedYears){
         if (yearsRef.current) yearsRef.current.innerText = paddedYears;
@@ -172,7 +143,7 @@ export default function CountdownTimer({
     animationFrameId = requestAnimationFrame(updateTimer);
 
     return () => cancelAnimationFrame(animationFrameId);
-  }, [dob, expectancy]);
+  }, [dob, expectancy, clock]);
 
   return (
     // text-slate-800 for light mode, dark:text-white/90 for dark mode
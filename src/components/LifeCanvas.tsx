@@ -4,58 +4,143 @@
  * and the HTML5 Canvas.
  * * ARCHITECTURAL RESPONSIBILITIES:
  * 1. DOM Mounting: Safely injecting the `<canvas>` element into the browser background.
+ * The element is created imperatively, once per render backend: a canvas handed over to a
+ * worker can never be painted (or handed over) again.
  * 2. High-DPI Scaling: Handling `devicePixelRatio` to prevent blurry rendering on Retina/4K displays.
- * 3. Lifecycle Management: Hooking into window resize events and cleaning them up to prevent memory leaks.
- * 4. Engine Delegation: Passing the configured Canvas context to the `renderLifeTimeline` math engine.
+ * 3. Lifecycle Management: Hooking into window resize and pixel density events and cleaning them up
+ * to prevent memory leaks.
+ * 4. Engine Delegation: Passing every RenderConfig to the render backend (life.renderBackend.ts),
+ * which paints on the main thread or in a Web Worker, through a per-canvas render cache
+ * (life.renderCache.ts) so repaints only redraw the cells that changed.
+ * 5. Pointer Interaction: Hit-testing the pointer against the grid (life.hitTest.ts) to show a
+ * tooltip for the hovered cell and a detail panel for the clicked cell.
+ * 6. Zoom Interaction: Double-click, scroll or pinch into a cell to zoom one level deeper
+ * (life.zoom.ts), scroll/pinch out or press Escape to zoom back out. Level changes are
+ * animated with the Web Animations API (scale + fade around the pointer), and happen
+ * instantly when the user prefers reduced motion.
+ * 7. Motion: Enables the timeline animations (life.motion.ts) while the user asked for them
+ * and the OS does not prefer reduced motion, following changes of that preference live.
  */
 
-import type { RenderConfig } from '../types/life.types.ts';
-import { useEffect, useRef } from 'react';
-import { renderLifeTimeline } from '../canvas/life.renderLoop.ts';
+import type { PointerEvent, MouseEvent } from 'react';
+import type {
+  Clock,
+  RenderBackend,
+  RenderConfig,
+  ZoomLevel,
+  ZoomState,
+} from '../types/life.types.ts';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TimelineRenderer } from '../canvas/life.renderBackend.ts';
+import { createTimelineRenderer } from '../canvas/life.renderBackend.ts';
+import { computeTimelineLayout } from '../utils/life.layout.ts';
+import { getCellIndexAt } from '../utils/life.hitTest.ts';
+import { getCellDetails } from '../utils/life.cellDetails.ts';
+import { getZoomAt, getZoomChild, getZoomParent } from '../utils/life.zoom.ts';
+import CellTooltip from './CellTooltip.tsx';
+import CellDetailPanel from './CellDetailPanel.tsx';
+import ZoomBreadcrumb from './ZoomBreadcrumb.tsx';
 
 interface LifeCanvasProps {
   renderConfig: RenderConfig;
+  /**
+   * Source of the current instant, used by the "Today" shortcut.
+   */
+  clock: Clock;
+  /**
+   * Callback fired with the zoom level to render next.
+   */
+  onZoomChange: (zoom: ZoomState) => void;
+  /**
+   * Preferred thread to paint on (falls back to the main thread when unsupported).
+   */
+  renderBackend: RenderBackend;
 }
 
+interface HoverState {
+  index: number;
+  x: number;
+  y: number;
+}
+
+type ZoomDirection = 'in' | 'out';
+
+// How deep each level sits, to tell zooming in from zooming out
+const ZOOM_DEPTH: Record<ZoomLevel, number> = {
+  life: 0,
+  year: 1,
+  month: 2,
+  day: 3,
+};
+
+// Accumulated wheel delta (in pixels) needed for one zoom step
+const WHEEL_ZOOM_THRESHOLD = 80;
+
+// Finger spread ratios that trigger a pinch zoom in / out
+const PINCH_IN_RATIO = 1.3;
+const PINCH_OUT_RATIO = 0.75;
+
+// Duration of each half of the level transition
+const ZOOM_ANIMATION_MS = 180;
+
+// Scale the outgoing level grows (in) or shrinks (out) to before fading away
+const ZOOM_ANIMATION_SCALE = 1.6;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
 /**
- * Prepares the canvas for a crisp, pixel-perfect render and triggers the drawing engine.
- * This function handles the complex math required for High-DPI (Retina) displays.
- * It artificially inflates the internal pixel count of the canvas while using CSS
- * to compress its physical display size, resulting in razor-sharp graphics.
- * @param {HTMLCanvasElement} canvas - The physical DOM element to be resized.
- * @param {CanvasRenderingContext2D} ctx - The 2D rendering context to be scaled.
+ * Resolves the cell under a pointer position using the same layout the renderer uses.
+ * @param {number} x - Pointer X in CSS pixels.
+ * @param {number} y - Pointer Y in CSS pixels.
  * @param {RenderConfig} renderConfig - The user's timeline data and visual preferences.
- * @returns {void}
+ * @returns {number} The hit cell index (counted from birth), or -1.
  */
-const repaintCanvas = (
-  canvas: HTMLCanvasElement,
-  ctx: CanvasRenderingContext2D,
+const hitTestPointer = (
+  x: number,
+  y: number,
   renderConfig: RenderConfig,
-): void => {
-  /*To improve render quality (on modern systems) we require pixel density of the screen.  */
-
-  // Get the current screen pixel density (fallback to 1 for standard monitors)
-  const dpr = window.devicePixelRatio || 1;
-
-  // Get the physical CSS dimensions of the user's viewport
-  const cssWidth = window.innerWidth;
-  const cssHeight = window.innerHeight;
+): number => {
+  const layoutConfig = computeTimelineLayout(
+    renderConfig,
+    window.innerWidth,
+    window.innerHeight,
+  );
 
-  // Set the internal bitmap resolution to match the display density
-  canvas.width = cssWidth * dpr;
-  canvas.height = cssHeight * dpr;
+  const index = getCellIndexAt(
+    x,
+    y,
+    layoutConfig,
+    renderConfig.totalCells,
+    renderConfig.shape,
+  );
 
-  // Force the CSS display size to fit the exact viewport
-  canvas.style.width = `${cssWidth}px`;
-  canvas.style.height = `${cssHeight}px`;
+  return index < 0 ? -1 : renderConfig.firstCellIndex + index;
+};
 
-  /* scale drawing ops back. The arguments for setTransform are (scaleX, skewY, skewX, scaleY, translateX, translateY)
-  and we just need to use scale feature.
-  */
-  // Scale the drawing context so the engine doesn't have to multiply by DPR manually
-  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+/**
+ * Builds the keyframes of one half of a zoom transition.
+ * @param {ZoomDirection} direction - Whether the user zooms in or out.
+ * @param {boolean} isIntro - true for the incoming level, false for the outgoing one.
+ * @returns {Keyframe[]} The scale + fade keyframes.
+ */
+const getZoomKeyframes = (
+  direction: ZoomDirection,
+  isIntro: boolean,
+): Keyframe[] => {
+  //zooming in, the old level grows past the viewer and the new one grows into place
+  const outgoingScale =
+    direction === 'in' ? ZOOM_ANIMATION_SCALE : 1 / ZOOM_ANIMATION_SCALE;
+  const incomingScale = 1 / outgoingScale;
 
-  renderLifeTimeline(ctx, renderConfig, cssWidth, cssHeight);
+  return isIntro
+    ? [
+        { transform: `scale(${incomingScale})`, opacity: 0 },
+        { transform: 'scale(1)', opacity: 1 },
+      ]
+    : [
+        { transform: 'scale(1)', opacity: 1 },
+        { transform: `scale(${outgoingScale})`, opacity: 0 },
+      ];
 };
 
 /**
@@ -64,38 +149,413 @@ const repaintCanvas = (
  * triggers re-renders whenever the window resizes or the user's config changes.
  * * @param {LifeCanvasProps} props - The component props containing the render configuration.
  */
-export default function LifeCanvas({ renderConfig }: LifeCanvasProps) {
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+export default function LifeCanvas({
+  renderConfig,
+  clock,
+  onZoomChange,
+  renderBackend,
+}: LifeCanvasProps) {
+  // Holds the canvas, and receives the pointer events and zoom animations
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Painter of the current canvas
+  const rendererRef = useRef<TimelineRenderer | null>(null);
+
+  // Set once the worker failed after taking over a canvas: repaint from the main thread instead
+  const [hasWorkerFailed, setHasWorkerFailed] = useState(false);
+  const backend: RenderBackend = hasWorkerFailed ? 'main' : renderBackend;
+
+  // Zoom transition in flight: its outgoing animation, and the direction of the pending intro
+  const outgoingAnimationRef = useRef<Animation | null>(null);
+  const pendingIntroRef = useRef<ZoomDirection | null>(null);
+  const isAnimatingRef = useRef(false);
+
+  // Wheel delta accumulated towards the next zoom step
+  const wheelDeltaRef = useRef(0);
+
+  // Active touch pointers, and the finger spread when the pinch started
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchStartRef = useRef<number | null>(null);
+
+  // Cell under the pointer (null when hovering empty space)
+  const [hover, setHover] = useState<HoverState | null>(null);
+
+  // Cell whose detail panel is open
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
 
+  const hoverIndex = hover ? hover.index : -1;
+
+  // OS-level reduced motion preference, which always wins over the user's motion toggle
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(
+    () => window.matchMedia(REDUCED_MOTION_QUERY).matches,
+  );
+  const isMotionEnabled = renderConfig.motion && !prefersReducedMotion;
+
+  useEffect(() => {
+    const reducedMotionQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleReducedMotionChange = (e: MediaQueryListEvent) => {
+      setPrefersReducedMotion(e.matches);
+    };
+
+    reducedMotionQuery.addEventListener('change', handleReducedMotionChange);
+
+    return () => {
+      reducedMotionQuery.removeEventListener(
+        'change',
+        handleReducedMotionChange,
+      );
+    };
+  }, []);
+
+  // Mounts a fresh canvas for the backend, and keeps it sized to the viewport
   useEffect(() => {
-    const canvas = canvasRef.current; //get the current canvas reference
-    if (!canvas) return;
+    const container = containerRef.current;
+    if (!container) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const canvas = document.createElement('canvas');
+    canvas.className = 'block';
+    container.appendChild(canvas);
 
-    //do the initial render and attach the event listener
-    repaintCanvas(canvas, ctx, renderConfig);
+    const renderer = createTimelineRenderer(
+      canvas,
+      backend,
+      window.innerWidth,
+      window.innerHeight,
+      window.devicePixelRatio || 1,
+      () => setHasWorkerFailed(true),
+    );
+    rendererRef.current = renderer;
 
-    //event handler if the window resizes. Only works if the window resizes.
+    //the new size (or density) invalidates the cache, so this repaints it entirely
     const handleWindowResize = () => {
-      //we have to repaint it entirely
-      repaintCanvas(canvas, ctx, renderConfig);
+      renderer.resize(
+        window.innerWidth,
+        window.innerHeight,
+        window.devicePixelRatio || 1,
+      );
+    };
+
+    //moving the window to another monitor changes the density without a resize
+    let densityQuery: MediaQueryList | null = null;
+    const watchDensity = () => {
+      densityQuery?.removeEventListener('change', handleDensityChange);
+      densityQuery = window.matchMedia(
+        `(resolution: ${window.devicePixelRatio || 1}dppx)`,
+      );
+      densityQuery.addEventListener('change', handleDensityChange);
+    };
+    const handleDensityChange = () => {
+      handleWindowResize();
+      watchDensity();
     };
 
-    //Add the event listener
     window.addEventListener('resize', handleWindowResize);
+    watchDensity();
 
     //clean up
     return () => {
       window.removeEventListener('resize', handleWindowResize);
+      densityQuery?.removeEventListener('change', handleDensityChange);
+      renderer.dispose();
+      rendererRef.current = null;
+      canvas.remove();
+    };
+  }, [backend]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const renderer = rendererRef.current;
+    if (!container || !renderer) return;
+
+    renderer.render(renderConfig, hoverIndex, isMotionEnabled);
+
+    //a zoom level change just landed: swap the faded-out level for the new one
+    const introDirection = pendingIntroRef.current;
+    if (introDirection) {
+      pendingIntroRef.current = null;
+      outgoingAnimationRef.current?.cancel();
+      outgoingAnimationRef.current = null;
+
+      const intro = container.animate(getZoomKeyframes(introDirection, true), {
+        duration: ZOOM_ANIMATION_MS,
+        easing: 'ease-out',
+      });
+      intro.onfinish = () => {
+        isAnimatingRef.current = false;
+      };
+      intro.oncancel = intro.onfinish;
+    }
+  }, [backend, renderConfig, hoverIndex, isMotionEnabled]);
+
+  const { dob, zoom, granularity } = renderConfig;
+
+  /**
+   * Switches to another zoom level, animated around the given origin.
+   * @param {ZoomState} nextZoom - The level to show.
+   * @param {ZoomDirection} direction - Whether this zooms in or out.
+   * @param {number} originX - Animation origin X in CSS pixels.
+   * @param {number} originY - Animation origin Y in CSS pixels.
+   */
+  const changeZoom = useCallback(
+    (
+      nextZoom: ZoomState,
+      direction: ZoomDirection,
+      originX: number,
+      originY: number,
+    ) => {
+      const container = containerRef.current;
+      if (!container || isAnimatingRef.current) return;
+
+      setHover(null);
+      setSelectedIndex(null);
+
+      const prefersReducedMotion =
+        window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+      if (prefersReducedMotion || typeof container.animate !== 'function') {
+        onZoomChange(nextZoom);
+        return;
+      }
+
+      isAnimatingRef.current = true;
+      container.style.transformOrigin = `${originX}px ${originY}px`;
+
+      //the outgoing level stays faded out (fill: forwards) until the new one is painted
+      const outgoing = container.animate(getZoomKeyframes(direction, false), {
+        duration: ZOOM_ANIMATION_MS,
+        easing: 'ease-in',
+        fill: 'forwards',
+      });
+      outgoingAnimationRef.current = outgoing;
+      outgoing.onfinish = () => {
+        pendingIntroRef.current = direction;
+        onZoomChange(nextZoom);
+      };
+    },
+    [onZoomChange],
+  );
+
+  /**
+   * Zooms into the cell under a point, if there is one and a deeper level exists.
+   * @param {number} x - Point X in CSS pixels.
+   * @param {number} y - Point Y in CSS pixels.
+   */
+  const zoomInAt = useCallback(
+    (x: number, y: number) => {
+      const index = hitTestPointer(x, y, renderConfig);
+      if (index < 0) return;
+
+      const child = getZoomChild(dob, zoom, granularity, index);
+      if (child) changeZoom(child, 'in', x, y);
+    },
+    [renderConfig, dob, zoom, granularity, changeZoom],
+  );
+
+  /**
+   * Zooms out one level, if the timeline is zoomed in.
+   * @param {number} x - Animation origin X in CSS pixels.
+   * @param {number} y - Animation origin Y in CSS pixels.
+   */
+  const zoomOutAt = useCallback(
+    (x: number, y: number) => {
+      const parent = getZoomParent(dob, zoom);
+      if (parent) changeZoom(parent, 'out', x, y);
+    },
+    [dob, zoom, changeZoom],
+  );
+
+  // Scrolling zooms: a native listener, because React's wheel listeners are passive
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      //stop the page (or ctrl + wheel browser zoom) from handling it
+      e.preventDefault();
+
+      wheelDeltaRef.current += e.deltaY;
+      if (Math.abs(wheelDeltaRef.current) < WHEEL_ZOOM_THRESHOLD) return;
+
+      const isZoomIn = wheelDeltaRef.current < 0;
+      wheelDeltaRef.current = 0;
+
+      if (isZoomIn) {
+        zoomInAt(e.clientX, e.clientY);
+      } else {
+        zoomOutAt(e.clientX, e.clientY);
+      }
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+    };
+  }, [zoomInAt, zoomOutAt]);
+
+  // Escape zooms out, unless it is closing the detail panel
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || selectedIndex !== null) return;
+      if (
+        e.target instanceof HTMLElement &&
+        e.target.closest('input, textarea, select')
+      ) {
+        return;
+      }
+
+      zoomOutAt(window.innerWidth / 2, window.innerHeight / 2);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [renderConfig]);
+  }, [selectedIndex, zoomOutAt]);
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType !== 'touch') return;
+
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    pinchStartRef.current = null;
+  };
+
+  // Tracks a two-finger pinch; returns true while one is in progress
+  const handlePinchMove = (e: PointerEvent<HTMLDivElement>): boolean => {
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return false;
+
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.size !== 2) return false;
+
+    const [first, second] = [...pointers.values()];
+    const spread = Math.hypot(first.x - second.x, first.y - second.y);
+
+    if (pinchStartRef.current === null) {
+      pinchStartRef.current = spread;
+      return true;
+    }
+
+    const ratio = spread / Math.max(pinchStartRef.current, 1);
+    const centerX = (first.x + second.x) / 2;
+    const centerY = (first.y + second.y) / 2;
+
+    if (ratio > PINCH_IN_RATIO) {
+      pinchStartRef.current = spread;
+      zoomInAt(centerX, centerY);
+    } else if (ratio < PINCH_OUT_RATIO) {
+      pinchStartRef.current = spread;
+      zoomOutAt(centerX, centerY);
+    }
+
+    return true;
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchStartRef.current = null;
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (handlePinchMove(e)) {
+      setHover(null);
+      return;
+    }
+
+    const index = hitTestPointer(e.clientX, e.clientY, renderConfig);
+    setHover(index < 0 ? null : { index, x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerLeave = (e: PointerEvent<HTMLDivElement>) => {
+    handlePointerUp(e);
+    setHover(null);
+  };
+
+  const handleDoubleClick = (e: MouseEvent<HTMLDivElement>) => {
+    zoomInAt(e.clientX, e.clientY);
+  };
+
+  // Clicking a cell opens its details, clicking empty space closes them
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    const index = hitTestPointer(e.clientX, e.clientY, renderConfig);
+    setSelectedIndex(index < 0 ? null : index);
+  };
+
+  const handleCloseDetails = useCallback(() => setSelectedIndex(null), []);
+
+  const hoverDetails = hover ? getCellDetails(hover.index, renderConfig) : null;
+  const selectedDetails =
+    selectedIndex === null ? null : getCellDetails(selectedIndex, renderConfig);
+  const selectedChild =
+    selectedIndex === null
+      ? null
+      : getZoomChild(dob, zoom, granularity, selectedIndex);
+
+  const handleZoomIntoSelected = () => {
+    if (selectedChild) {
+      changeZoom(
+        selectedChild,
+        'in',
+        window.innerWidth / 2,
+        window.innerHeight / 2,
+      );
+    }
+  };
+
+  const handleBreadcrumbSelect = (nextZoom: ZoomState) => {
+    const direction =
+      ZOOM_DEPTH[nextZoom.level] < ZOOM_DEPTH[zoom.level] ? 'out' : 'in';
+    changeZoom(
+      nextZoom,
+      direction,
+      window.innerWidth / 2,
+      window.innerHeight / 2,
+    );
+  };
 
   return (
-    <canvas
-      ref={canvasRef}
-      className="fixed top-0 left-0 w-screen h-screen z-0"
-    />
+    <>
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+        onClick={handleClick}
+        onDoubleClick={handleDoubleClick}
+        className={`fixed top-0 left-0 w-screen h-screen z-0 touch-none ${
+          hover ? 'cursor-pointer' : ''
+        }`}
+      />
+
+      {zoom.level !== 'life' && (
+        <ZoomBreadcrumb
+          dob={dob}
+          zoom={zoom}
+          today={getZoomAt(dob, 'day', clock.now())}
+          onSelect={handleBreadcrumbSelect}
+        />
+      )}
+
+      {hover && hoverDetails && (
+        <CellTooltip
+          details={hoverDetails}
+          granularity={renderConfig.granularity}
+          x={hover.x}
+          y={hover.y}
+        />
+      )}
+
+      {selectedDetails && (
+        <CellDetailPanel
+          details={selectedDetails}
+          granularity={renderConfig.granularity}
+          onClose={handleCloseDetails}
+          onZoomIn={selectedChild ? handleZoomIntoSelected : undefined}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,188 @@
+/**
+ * LIFE TIMELINE PALETTE EDITOR COMPONENT
+ *
+ * Edits one of the user's own palettes inside the settings drawer: its name,
+ * light / dark mode, background, the gradient stops of lived cells and the
+ * colors of the present cell, future cells, outlines and UI accent.
+ *
+ * ARCHITECTURAL DESIGN:
+ * - Controlled: every change is handed to `onChange` as a complete palette,
+ * and `SettingsOverlay.tsx` keeps it in its form draft until the user saves.
+ * - The past gradient always keeps between 1 and MAX_PALETTE_STOPS stops,
+ * the bounds the persistence layer validates (life.config.ts).
+ */
+
+import type { ChangeEvent } from 'react';
+import type { Palette } from '../types/life.types.ts';
+import { MAX_PALETTE_STOPS } from '../data/life.palettes.ts';
+
+// Palette keys edited by a plain color input, in display order
+const COLOR_FIELDS: ReadonlyArray<{
+  key: 'background' | 'future' | 'outline' | 'accent';
+  label: string;
+}> = [
+  { key: 'background', label: 'Background' },
+  { key: 'future', label: 'Future' },
+  { key: 'outline', label: 'Outline' },
+  { key: 'accent', label: 'Accent' },
+];
+
+interface PaletteEditorProps {
+  /**
+   * The palette being edited.
+   */
+  palette: Palette;
+  /**
+   * Callback fired with the edited palette on every change.
+   */
+  onChange: (palette: Palette) => void;
+}
+
+export default function PaletteEditor({
+  palette,
+  onChange,
+}: PaletteEditorProps) {
+  // Generic handler for the inputs whose names match the Palette keys
+  const handleFieldChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => {
+    const { name, value } = e.target;
+    onChange({ ...palette, [name]: value });
+  };
+
+  const handleStopChange = (position: number, color: string) => {
+    onChange({
+      ...palette,
+      past: palette.past.map((stop, i) => (i === position ? color : stop)),
+    });
+  };
+
+  // A new stop repeats the last one, so the gradient is unchanged until edited
+  const handleAddStop = () => {
+    if (palette.past.length >= MAX_PALETTE_STOPS) return;
+
+    onChange({
+      ...palette,
+      past: [...palette.past, palette.past[palette.past.length - 1]],
+    });
+  };
+
+  const handleRemoveStop = (position: number) => {
+    if (palette.past.length <= 1) return;
+
+    onChange({
+      ...palette,
+      past: palette.past.filter((_, i) => i !== position),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          name="name"
+          value={palette.name}
+          onChange={handleFieldChange}
+          maxLength={32}
+          aria-label="Palette name"
+          className="flex-1 min-w-0 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+        />
+        <select
+          name="mode"
+          value={palette.mode}
+          onChange={handleFieldChange}
+          aria-label="Palette mode"
+          className="px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+        >
+          <option value="light">Light</option>
+          <option value="dark">Dark</option>
+        </select>
+      </div>
+
+      {/* Past gradient stops, from birth to the end of the grid */}
+      <div className="space-y-1">
+        <span className="block text-xs text-slate-500 dark:text-slate-400">
+          Lived cells (gradient stops)
+        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          {palette.past.map((stop, position) => (
+            <span key={position} className="flex items-center">
+              <input
+                type="color"
+                value={stop}
+                onChange={(e) => handleStopChange(position, e.target.value)}
+                aria-label={`Gradient stop ${position + 1}`}
+                className="w-10 h-8 bg-transparent cursor-pointer"
+              />
+              {palette.past.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => handleRemoveStop(position)}
+                  aria-label={`Remove gradient stop ${position + 1}`}
+                  className="text-xs text-slate-400 hover:text-red-500 cursor-pointer"
+                >
+                  ✕
+                </button>
+              )}
+            </span>
+          ))}
+          {palette.past.length < MAX_PALETTE_STOPS && (
+            <button
+              type="button"
+              onClick={handleAddStop}
+              className="px-2 py-1 text-xs font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 cursor-pointer"
+            >
+              + Stop
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Present cell: its own color, or the gradient color of its position */}
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={palette.present !== null}
+            onChange={(e) =>
+              onChange({
+                ...palette,
+                present: e.target.checked ? palette.accent : null,
+              })
+            }
+          />
+          Highlight present cell
+        </label>
+        {palette.present !== null && (
+          <input
+            type="color"
+            name="present"
+            value={palette.present}
+            onChange={handleFieldChange}
+            aria-label="Present cell color"
+            className="w-10 h-8 bg-transparent cursor-pointer"
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {COLOR_FIELDS.map(({ key, label }) => (
+          <label
+            key={key}
+            className="flex flex-col items-center gap-1 text-xs text-slate-500 dark:text-slate-400"
+          >
+            <input
+              type="color"
+              name={key}
+              value={palette[key]}
+              onChange={handleFieldChange}
+              className="w-10 h-8 bg-transparent cursor-pointer"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
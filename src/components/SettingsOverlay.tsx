@@ -14,11 +14,136 @@
  * with the dynamic global theme controlled by `App.tsx`.
  * 4. Unobtrusive UI: Implements a sliding drawer pattern (backdrop-blur) to
  * ensure the settings menu doesn't permanently obscure the wallpaper canvas.
+ * 5. Time Travel: Exposes a date scrubber that previews the wallpaper as of any
+ * date. Preview changes apply live and bypass `onSave`, so the saved config is untouched.
+ * 6. Life Events: Edits a draft copy of the user's life events which is committed
+ * together with the form through `onSaveEvents`.
+ * 7. Eras: Edits the named life phases, which are part of `UserConfig` and are
+ * therefore saved with the rest of the form.
+ * 8. Palettes: Selects the palette (previewed live on its own background) and
+ * copies any palette into a custom one, edited by `PaletteEditor.tsx` and saved
+ * with the rest of the form.
+ * 9. Background: Picks a solid color, gradient or image behind the timeline,
+ * with its blur, dim and vignette, edited by `BackgroundEditor.tsx`.
+ * 10. Motion: Toggles the timeline animations, noting when the OS reduced motion
+ * preference keeps them paused.
+ * 11. Export: Downloads the scene currently on screen (applied config, zoom level
+ * and preview date) as an SVG graphic (life.svg.ts), optionally with a
+ * snapshot of the countdown, or as a PNG wallpaper (life.png.ts) of a preset or
+ * custom resolution, with safe-area margins kept free for docks and taskbars.
  */
 
 import type { ChangeEvent, SyntheticEvent } from 'react';
 import { useState } from 'react';
-import type { UserConfig } from '../types/life.types.ts';
+import type {
+  Clock,
+  Era,
+  LifeEvent,
+  Palette,
+  RenderConfig,
+  SafeAreaInsets,
+  UserConfig,
+} from '../types/life.types.ts';
+import {
+  addCalendarDays,
+  formatIsoDate,
+  getCalendarDaysBetween,
+  getCalendarDifference,
+  parseIsoDate,
+} from '../utils/life.calendar.ts';
+import { systemClock } from '../utils/life.clock.ts';
+import {
+  isThemeApplied,
+  resolvePalette,
+  resolveTheme,
+} from '../utils/life.render.ts';
+import { getSystemThemeMode } from '../utils/life.systemTheme.ts';
+import { getSunTimes } from '../utils/life.themeSchedule.ts';
+import { getLifeEndDate } from '../utils/life.time.ts';
+import { formatDisplayTime } from '../utils/life.format.ts';
+import {
+  estimateLifeExpectancy,
+  resolveExpectancy,
+} from '../utils/life.expectancy.ts';
+import { LIFE_TABLES, LIFE_TABLE_COUNTRIES } from '../data/life.tables.ts';
+import { DEFAULT_EVENT_COLOR } from '../utils/life.events.ts';
+import { DEFAULT_ERA_COLOR } from '../utils/life.eras.ts';
+import { renderLifeTimelineSvg } from '../canvas/life.svg.ts';
+import { renderLifeTimelinePng } from '../canvas/life.png.ts';
+import { EXPORT_PRESETS } from '../data/life.exportPresets.ts';
+import {
+  MAX_CUSTOM_SHAPE_LENGTH,
+  SHAPE_IDS,
+  SHAPE_REGISTRY,
+  isSvgPathData,
+} from '../data/life.shapeRegistry.ts';
+import { AUTO_PALETTE_ID, BUILT_IN_PALETTES } from '../data/life.palettes.ts';
+import {
+  FILL_STYLE_IDS,
+  FILL_STYLE_REGISTRY,
+} from '../data/life.fillStyles.ts';
+import { getGradientColor } from '../canvas/life.draw.ts';
+import PaletteEditor from './PaletteEditor.tsx';
+import BackgroundEditor from './BackgroundEditor.tsx';
+
+// UserConfig keys whose inputs must be stored as numbers instead of strings
+const NUMERIC_FIELDS: ReadonlyArray<string> = [
+  'expectancy',
+  'gompertzModalAge',
+  'gompertzDispersion',
+  'maxAge',
+];
+
+// Blank "Add Event" form; a fresh id is assigned when the event is added
+const EMPTY_EVENT: Omit<LifeEvent, 'id'> = {
+  date: '',
+  title: '',
+  icon: '',
+  color: DEFAULT_EVENT_COLOR,
+  marker: 'badge',
+  note: '',
+};
+
+// Blank "Add Era" form; endColor is only kept when the gradient box is ticked
+const EMPTY_ERA: Omit<Era, 'id'> = {
+  name: '',
+  start: '',
+  end: '',
+  color: DEFAULT_ERA_COLOR,
+  endColor: '#8B5CF6', // Tailwind Violet-500
+};
+
+// Number of lived cells drawn in the palette preview
+const PREVIEW_PAST_CELLS = 16;
+const PREVIEW_FUTURE_CELLS = 7;
+
+// Edges of the safe-area inputs, in display order
+const SAFE_AREA_EDGES: ReadonlyArray<keyof SafeAreaInsets> = [
+  'top',
+  'right',
+  'bottom',
+  'left',
+];
+
+// Resolution of a PNG export, as edited in the form
+interface PngExportTarget {
+  presetId: string; // 'custom' once edited by hand
+  width: number;
+  height: number;
+  pixelRatio: number;
+  safeArea: SafeAreaInsets;
+}
+
+const DEFAULT_PNG_TARGET: PngExportTarget = {
+  presetId: EXPORT_PRESETS[0].id,
+  width: EXPORT_PRESETS[0].width,
+  height: EXPORT_PRESETS[0].height,
+  pixelRatio: EXPORT_PRESETS[0].pixelRatio,
+  safeArea: EXPORT_PRESETS[0].safeArea,
+};
+
+// Largest edge of a PNG export; browsers refuse bigger canvases
+const MAX_PNG_EDGE = 16384;
 
 interface SettingsOverlayProps {
   /**
@@ -31,16 +156,256 @@ interface SettingsOverlayProps {
    * This updates App.tsx state and triggers the persistence layer.
    */
   onSave: (newConfig: UserConfig) => void;
+  /**
+   * The user's current life events. Used to initialize the events editor.
+   */
+  currentEvents: LifeEvent[];
+  /**
+   * Callback fired with the edited life events when the user commits their changes.
+   */
+  onSaveEvents: (newEvents: LifeEvent[]) => void;
+  /**
+   * The date currently being previewed (YYYY-MM-DD), or null when showing today.
+   */
+  previewDate: string | null;
+  /**
+   * Callback fired whenever the time travel scrubber moves.
+   * Passing null returns the wallpaper to the real present.
+   */
+  onPreviewDateChange: (previewDate: string | null) => void;
+  /**
+   * The scene currently on screen, used by the export buttons.
+   */
+  renderConfig: RenderConfig;
+  /**
+   * Source of the current instant (system clock or a time travel preview),
+   * used for the countdown snapshot of exports.
+   */
+  clock: Clock;
 }
 
+/**
+ * Saves a file through a temporary download link.
+ * @param {Blob} blob - The file contents.
+ * @param {string} filename - The suggested file name.
+ */
+const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  //some browsers only start the download once the click handler returns:
+  //revoking the URL right away could cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 export default function SettingsOverlay({
   currentConfig,
   onSave,
+  currentEvents,
+  onSaveEvents,
+  previewDate,
+  onPreviewDateChange,
+  renderConfig,
+  clock,
 }: SettingsOverlayProps) {
   const [isOpen, setIsOpen] = useState(false);
 
   const [formData, setFormData] = useState<UserConfig>(currentConfig);
 
+  // Draft of the event list, committed on save like the rest of the form
+  const [eventsDraft, setEventsDraft] = useState<LifeEvent[]>(currentEvents);
+  const [newEvent, setNewEvent] = useState<Omit<LifeEvent, 'id'>>(EMPTY_EVENT);
+
+  const [newEra, setNewEra] = useState<Omit<Era, 'id'>>(EMPTY_ERA);
+  const [isEraGradient, setIsEraGradient] = useState(false);
+
+  // Whether exports include a snapshot of the countdown
+  const [isCountdownExported, setIsCountdownExported] = useState(true);
+
+  const [pngTarget, setPngTarget] =
+    useState<PngExportTarget>(DEFAULT_PNG_TARGET);
+  const [isPngExporting, setIsPngExporting] = useState(false);
+
+  const isPngTargetValid =
+    Number.isInteger(pngTarget.width) &&
+    Number.isInteger(pngTarget.height) &&
+    pngTarget.width > 0 &&
+    pngTarget.height > 0 &&
+    pngTarget.width <= MAX_PNG_EDGE &&
+    pngTarget.height <= MAX_PNG_EDGE &&
+    pngTarget.pixelRatio > 0 &&
+    SAFE_AREA_EDGES.every((edge) => pngTarget.safeArea[edge] >= 0);
+
+  const isNewEraValid =
+    newEra.name.trim() !== '' &&
+    !isNaN(parseIsoDate(newEra.start).getTime()) &&
+    (newEra.end === '' ||
+      (!isNaN(parseIsoDate(newEra.end).getTime()) &&
+        newEra.end >= newEra.start));
+
+  const isNewEventValid =
+    !isNaN(parseIsoDate(newEvent.date).getTime()) &&
+    newEvent.title.trim() !== '';
+
+  // The row order only applies to layouts made of rows
+  const isRowLayout =
+    formData.layout !== 'spiral' && formData.layout !== 'rings';
+
+  // The palette currently selected in the form, as the renderer will resolve it
+  const formPalette = resolvePalette(
+    formData.palette,
+    formData.customPalettes,
+    resolveTheme(
+      formData.theme,
+      getSystemThemeMode(),
+      formData.themeSchedule,
+      clock.now(),
+    ),
+  );
+
+  // The schedule only shows with the "auto" palette over the palette background
+  const isScheduleApplied = isThemeApplied(formData);
+
+  // Today's sunrise and sunset at the location in the form, shown next to it
+  const sunTimes = getSunTimes(
+    clock.now(),
+    formData.themeSchedule.latitude,
+    formData.themeSchedule.longitude,
+  );
+  const isCustomPalette = formData.customPalettes.some(
+    (palette) => palette.id === formData.palette,
+  );
+
+  // Live actuarial estimate for the values currently in the form
+  const estimate =
+    formData.expectancyMode === 'estimate'
+      ? estimateLifeExpectancy(formData, clock)
+      : null;
+
+  // Time travel range: every day from the saved DOB up to the expected end of life
+  const birthDate = parseIsoDate(currentConfig.dob);
+  const isBirthDateValid = !isNaN(birthDate.getTime());
+  const endDate = getLifeEndDate(
+    currentConfig.dob,
+    resolveExpectancy(currentConfig, clock),
+  );
+
+  const scrubberMax = isBirthDateValid
+    ? Math.max(getCalendarDaysBetween(birthDate, endDate), 0)
+    : 0;
+  const scrubberDate = previewDate
+    ? parseIsoDate(previewDate)
+    : systemClock.now();
+  const scrubberValue = isBirthDateValid
+    ? Math.min(
+        Math.max(getCalendarDaysBetween(birthDate, scrubberDate), 0),
+        scrubberMax,
+      )
+    : 0;
+
+  // Moves the preview to DOB + dayOffset days
+  const handleScrub = (e: ChangeEvent<HTMLInputElement>) => {
+    const target = addCalendarDays(birthDate, Number(e.target.value));
+    onPreviewDateChange(formatIsoDate(target));
+  };
+
+  // Jumps the preview to an exact date picked from the calendar input
+  const handlePreviewDateInput = (e: ChangeEvent<HTMLInputElement>) => {
+    onPreviewDateChange(e.target.value === '' ? null : e.target.value);
+  };
+
+  // Snapshot of the remaining time for exports, or null when left out
+  const getExportCountdown = () => {
+    return isCountdownExported
+      ? getCalendarDifference(
+          clock.now(),
+          getLifeEndDate(renderConfig.dob, renderConfig.expectancy),
+        )
+      : null;
+  };
+
+  // Downloads the scene on screen, at the size of the window
+  const handleDownloadSvg = () => {
+    const countdown = getExportCountdown();
+
+    const svg = renderLifeTimelineSvg(
+      renderConfig,
+      window.innerWidth,
+      window.innerHeight,
+      { countdown },
+    );
+
+    downloadBlob(
+      new Blob([svg], { type: 'image/svg+xml' }),
+      'life-timeline.svg',
+    );
+  };
+
+  // Applies a preset resolution, including its safe-area margins
+  const handlePngPresetChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const preset = EXPORT_PRESETS.find(({ id }) => id === e.target.value);
+
+    if (!preset) {
+      setPngTarget((prev) => ({ ...prev, presetId: 'custom' }));
+      return;
+    }
+
+    setPngTarget({
+      presetId: preset.id,
+      width: preset.width,
+      height: preset.height,
+      pixelRatio: preset.pixelRatio,
+      safeArea: preset.safeArea,
+    });
+  };
+
+  // Edits the size or pixel ratio by hand, which leaves the preset
+  const handlePngSizeChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPngTarget((prev) => ({
+      ...prev,
+      presetId: 'custom',
+      [name]: Number(value),
+    }));
+  };
+
+  // Edits one safe-area margin; the resolution (and preset) stay as they are
+  const handleSafeAreaChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPngTarget((prev) => ({
+      ...prev,
+      safeArea: { ...prev.safeArea, [name]: Number(value) },
+    }));
+  };
+
+  // Renders the scene at the chosen resolution, off screen, and downloads it
+  const handleDownloadPng = async () => {
+    setIsPngExporting(true);
+
+    try {
+      const png = await renderLifeTimelinePng(renderConfig, {
+        width: pngTarget.width,
+        height: pngTarget.height,
+        pixelRatio: pngTarget.pixelRatio,
+        safeArea: pngTarget.safeArea,
+        countdown: getExportCountdown(),
+      });
+
+      downloadBlob(
+        png,
+        `life-timeline-${pngTarget.width}x${pngTarget.height}.png`,
+      );
+    } catch (error) {
+      console.warn('PNG export failed:', error);
+    } finally {
+      setIsPngExporting(false);
+    }
+  };
+
   // Generic handler for all standard inputs
   //It has been made sure that the name of the inputs will exactly match the keys defined in interface UserConfig
   const handleChange = (
@@ -49,7 +414,131 @@ export default function SettingsOverlay({
     const { name, value } = e.target;
     setFormData((prev) => ({
       ...prev,
-      [name]: name === 'expectancy' ? Number(value) : value,
+      [name]: NUMERIC_FIELDS.includes(name) ? Number(value) : value,
+    }));
+  };
+
+  // Edits the theme schedule (input names match the ThemeSchedule keys)
+  const handleThemeScheduleChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => {
+    const { name, value, type } = e.target;
+
+    //a cleared or half-typed input keeps the previous value
+    if (value === '') return;
+
+    //latitude and longitude stay within the bounds of their inputs
+    const { min, max } = e.target as HTMLInputElement;
+    const parsed =
+      type === 'number'
+        ? Math.min(Math.max(Number(value), Number(min)), Number(max))
+        : value;
+
+    setFormData((prev) => ({
+      ...prev,
+      themeSchedule: { ...prev.themeSchedule, [name]: parsed },
+    }));
+  };
+
+  // Generic handler for the "Add Event" inputs (names match the LifeEvent keys)
+  const handleNewEventChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => {
+    const { name, value } = e.target;
+    setNewEvent((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // Adds the new event to the draft, keeping the list in date order
+  const handleAddEvent = () => {
+    if (!isNewEventValid) return;
+
+    const note = newEvent.note?.trim();
+    const event: LifeEvent = {
+      ...newEvent,
+      id: crypto.randomUUID(),
+      title: newEvent.title.trim(),
+      note: note ? note : undefined,
+    };
+
+    setEventsDraft((prev) =>
+      [...prev, event].sort((a, b) => a.date.localeCompare(b.date)),
+    );
+    // Keep the chosen color and marker for the next event
+    setNewEvent((prev) => ({
+      ...EMPTY_EVENT,
+      color: prev.color,
+      marker: prev.marker,
+    }));
+  };
+
+  const handleRemoveEvent = (id: string) => {
+    setEventsDraft((prev) => prev.filter((event) => event.id !== id));
+  };
+
+  // Generic handler for the "Add Era" inputs (names match the Era keys)
+  const handleNewEraChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setNewEra((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // Adds the new era to the form; eras are saved with the rest of the UserConfig
+  const handleAddEra = () => {
+    if (!isNewEraValid) return;
+
+    const era: Era = {
+      ...newEra,
+      id: crypto.randomUUID(),
+      name: newEra.name.trim(),
+      endColor: isEraGradient ? newEra.endColor : undefined,
+    };
+
+    setFormData((prev) => ({ ...prev, eras: [...prev.eras, era] }));
+    setNewEra((prev) => ({
+      ...EMPTY_ERA,
+      color: prev.color,
+      endColor: prev.endColor,
+    }));
+  };
+
+  const handleRemoveEra = (id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      eras: prev.eras.filter((era) => era.id !== id),
+    }));
+  };
+
+  // Copies the selected palette into a new custom palette and selects it
+  const handleCopyPalette = () => {
+    const palette: Palette = {
+      ...formPalette,
+      id: crypto.randomUUID(),
+      name: `${formPalette.name} (copy)`.slice(0, 32),
+    };
+
+    setFormData((prev) => ({
+      ...prev,
+      palette: palette.id,
+      customPalettes: [...prev.customPalettes, palette],
+    }));
+  };
+
+  const handlePaletteEdit = (edited: Palette) => {
+    setFormData((prev) => ({
+      ...prev,
+      customPalettes: prev.customPalettes.map((palette) =>
+        palette.id === edited.id ? edited : palette,
+      ),
+    }));
+  };
+
+  // Removes the selected custom palette; the timeline falls back to "auto"
+  const handleDeletePalette = () => {
+    setFormData((prev) => ({
+      ...prev,
+      palette: AUTO_PALETTE_ID,
+      customPalettes: prev.customPalettes.filter(
+        (palette) => palette.id !== prev.palette,
+      ),
     }));
   };
 
@@ -57,12 +546,16 @@ export default function SettingsOverlay({
   const handleSubmit = (e: SyntheticEvent<HTMLFormElement>) => {
     e.preventDefault();
     onSave(formData);
+    onSaveEvents(eventsDraft);
     setIsOpen(false); // Close drawer on save
   };
 
   // Reset form to current config if user cancels/closes without saving
   const handleClose = () => {
     setFormData(currentConfig);
+    setEventsDraft(currentEvents);
+    setNewEvent(EMPTY_EVENT);
+    setNewEra(EMPTY_ERA);
     setIsOpen(false);
   };
 
@@ -152,27 +645,134 @@ export default function SettingsOverlay({
               value={formData.dob}
               onChange={handleChange}
               required
-              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
             />
           </div>
 
-          {/* Expectancy Input */}
+          {/* Expectancy Source Selection */}
           <div className="space-y-2">
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-              Life Expectancy (Years)
+              Life Expectancy Source
             </label>
-            <input
-              type="number"
-              name="expectancy"
-              value={formData.expectancy}
+            <select
+              name="expectancyMode"
+              value={formData.expectancyMode}
               onChange={handleChange}
-              min="1"
-              max="150"
-              required
-              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              <option value="manual">Enter manually</option>
+              <option value="estimate">Estimate for me</option>
+            </select>
           </div>
 
+          {/* Expectancy Input */}
+          {formData.expectancyMode === 'manual' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                Life Expectancy (Years)
+              </label>
+              <input
+                type="number"
+                name="expectancy"
+                value={formData.expectancy}
+                onChange={handleChange}
+                min="1"
+                max="150"
+                required
+                className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+            </div>
+          )}
+
+          {/* Actuarial Estimate Inputs */}
+          {formData.expectancyMode === 'estimate' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Country
+                </label>
+                <select
+                  name="lifeTableCountry"
+                  value={formData.lifeTableCountry}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                >
+                  {LIFE_TABLE_COUNTRIES.map((country) => (
+                    <option key={country} value={country}>
+                      {LIFE_TABLES.find((table) => table.country === country)
+                        ?.countryName ?? country}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Sex
+                </label>
+                <select
+                  name="sex"
+                  value={formData.sex}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                >
+                  <option value="female">Female</option>
+                  <option value="male">Male</option>
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Smoking
+                </label>
+                <select
+                  name="smoking"
+                  value={formData.smoking}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                >
+                  <option value="never">Never smoked</option>
+                  <option value="former">Former smoker</option>
+                  <option value="current">Current smoker</option>
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Physical Activity
+                </label>
+                <select
+                  name="activity"
+                  value={formData.activity}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                >
+                  <option value="sedentary">Sedentary</option>
+                  <option value="moderate">Moderate</option>
+                  <option value="active">Active</option>
+                </select>
+              </div>
+
+              {/* Estimate Summary with table provenance */}
+              {estimate && (
+                <div className="p-3 rounded-md bg-slate-100 dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-300 space-y-1">
+                  <p>
+                    Estimated lifespan:{' '}
+                    <span className="font-semibold text-slate-900 dark:text-white">
+                      {estimate.expectancy.toFixed(1)} years
+                    </span>{' '}
+                    ({estimate.remainingYears.toFixed(1)} remaining)
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {estimate.table.countryName}, {estimate.table.sex} period
+                    life table, {estimate.table.year}. Source:{' '}
+                    {estimate.table.source}.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Message Input */}
           <div className="space-y-2">
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
@@ -184,7 +784,7 @@ export default function SettingsOverlay({
               value={formData.message}
               onChange={handleChange}
               maxLength={72}
-              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
             />
           </div>
 
@@ -197,12 +797,236 @@ export default function SettingsOverlay({
               name="theme"
               value={formData.theme}
               onChange={handleChange}
-              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
             >
               <option value="light">Light</option>
               <option value="dark">Dark</option>
               <option value="system">System Auto</option>
+              <option
+                value="schedule"
+                disabled={!isScheduleApplied && formData.theme !== 'schedule'}
+              >
+                {isScheduleApplied
+                  ? 'Schedule (time of day)'
+                  : 'Schedule (needs the Auto palette)'}
+              </option>
+            </select>
+
+            {formData.theme === 'schedule' && !isScheduleApplied && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                The schedule has no effect right now: a selected palette keeps
+                its own light or dark look, and a custom background sets it from
+                its own lightness. Choose the Auto palette and the palette
+                background to switch by the time of day.
+              </p>
+            )}
+
+            {formData.theme === 'schedule' && isScheduleApplied && (
+              <div className="space-y-2">
+                <select
+                  name="kind"
+                  value={formData.themeSchedule.kind}
+                  onChange={handleThemeScheduleChange}
+                  aria-label="Theme schedule"
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                >
+                  <option value="fixed">Fixed times</option>
+                  <option value="sun">Sunrise and sunset</option>
+                </select>
+
+                {formData.themeSchedule.kind === 'fixed' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="block text-xs text-slate-500 dark:text-slate-400">
+                      Light from
+                      <input
+                        type="time"
+                        name="lightAt"
+                        value={formData.themeSchedule.lightAt}
+                        onChange={handleThemeScheduleChange}
+                        className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                      />
+                    </label>
+                    <label className="block text-xs text-slate-500 dark:text-slate-400">
+                      Dark from
+                      <input
+                        type="time"
+                        name="darkAt"
+                        value={formData.themeSchedule.darkAt}
+                        onChange={handleThemeScheduleChange}
+                        className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                      />
+                    </label>
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="block text-xs text-slate-500 dark:text-slate-400">
+                        Latitude
+                        <input
+                          type="number"
+                          name="latitude"
+                          min={-90}
+                          max={90}
+                          step="any"
+                          value={formData.themeSchedule.latitude}
+                          onChange={handleThemeScheduleChange}
+                          className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                        />
+                      </label>
+                      <label className="block text-xs text-slate-500 dark:text-slate-400">
+                        Longitude
+                        <input
+                          type="number"
+                          name="longitude"
+                          min={-180}
+                          max={180}
+                          step="any"
+                          value={formData.themeSchedule.longitude}
+                          onChange={handleThemeScheduleChange}
+                          className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                        />
+                      </label>
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {sunTimes.sunrise && sunTimes.sunset
+                        ? `Today: light from ${formatDisplayTime(sunTimes.sunrise)}, dark from ${formatDisplayTime(sunTimes.sunset)}.`
+                        : sunTimes.isPolarDay
+                          ? 'The sun does not set there today: the theme stays light.'
+                          : 'The sun does not rise there today: the theme stays dark.'}{' '}
+                      Computed on this device; the location is never sent
+                      anywhere.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Palette Selection */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Palette
+            </label>
+            <select
+              name="palette"
+              value={formData.palette}
+              onChange={handleChange}
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              <option value={AUTO_PALETTE_ID}>Auto (follows theme)</option>
+              {BUILT_IN_PALETTES.map((palette) => (
+                <option key={palette.id} value={palette.id}>
+                  {palette.name}
+                </option>
+              ))}
+              {formData.customPalettes.length > 0 && (
+                <optgroup label="Your palettes">
+                  {formData.customPalettes.map((palette) => (
+                    <option key={palette.id} value={palette.id}>
+                      {palette.name || 'Untitled'}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
             </select>
+
+            {/* Live preview: lived cells along the gradient, the present cell, future cells */}
+            <div
+              aria-hidden="true"
+              className="flex items-center gap-1 p-2 rounded-md border border-slate-300 dark:border-slate-700"
+              style={{ background: formPalette.background }}
+            >
+              {Array.from({ length: PREVIEW_PAST_CELLS }, (_, i) => (
+                <span
+                  key={`past-${i}`}
+                  className="flex-1 aspect-square rounded-sm"
+                  style={{
+                    background: getGradientColor(
+                      formPalette.past,
+                      i / PREVIEW_PAST_CELLS,
+                    ),
+                  }}
+                />
+              ))}
+              <span
+                className="flex-1 aspect-square rounded-sm border"
+                style={{
+                  background:
+                    formPalette.present ??
+                    getGradientColor(formPalette.past, 1),
+                  borderColor: formPalette.outline,
+                }}
+              />
+              {Array.from({ length: PREVIEW_FUTURE_CELLS }, (_, i) => (
+                <span
+                  key={`future-${i}`}
+                  className="flex-1 aspect-square rounded-sm border"
+                  style={{ borderColor: formPalette.future }}
+                />
+              ))}
+            </div>
+
+            {isCustomPalette && (
+              <PaletteEditor
+                palette={formPalette}
+                onChange={handlePaletteEdit}
+              />
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleCopyPalette}
+                className="flex-1 px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 cursor-pointer"
+              >
+                {isCustomPalette ? 'Duplicate' : 'Customize'}
+              </button>
+              {isCustomPalette && (
+                <button
+                  type="button"
+                  onClick={handleDeletePalette}
+                  className="flex-1 px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800 cursor-pointer"
+                >
+                  Delete Palette
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Background (color, gradient or image behind the timeline) */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Background
+            </label>
+            <BackgroundEditor
+              background={formData.background}
+              savedImageId={currentConfig.background.imageId}
+              onChange={(background) =>
+                setFormData((prev) => ({ ...prev, background }))
+              }
+            />
+          </div>
+
+          {/* Motion */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={formData.motion}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    motion: e.target.checked,
+                  }))
+                }
+              />
+              Animate the timeline
+            </label>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {window.matchMedia('(prefers-reduced-motion: reduce)').matches
+                ? 'Paused: your system asks apps to reduce motion.'
+                : 'A pulse on the present cell, its fill advancing live and a sweep from birth to today on load.'}
+            </p>
           </div>
 
           {/* Shape Selection */}
@@ -214,12 +1038,602 @@ export default function SettingsOverlay({
               name="shape"
               value={formData.shape}
               onChange={handleChange}
-              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              {SHAPE_IDS.map((shape) => (
+                <option key={shape} value={shape}>
+                  {SHAPE_REGISTRY[shape].label}
+                </option>
+              ))}
+            </select>
+            {formData.shape === 'custom' && (
+              <>
+                <input
+                  type="text"
+                  name="customShape"
+                  value={formData.customShape}
+                  onChange={handleChange}
+                  maxLength={MAX_CUSTOM_SHAPE_LENGTH}
+                  placeholder="🌱 or M12 2L22 22H2Z"
+                  aria-label="Custom shape"
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {isSvgPathData(formData.customShape)
+                    ? 'SVG path, drawn in a 24 × 24 box (paste an icon path as is).'
+                    : 'An emoji or a short text, drawn in every lived cell.'}
+                </p>
+              </>
+            )}
+          </div>
+
+          {/* Present Cell Fill Selection */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Present Cell Fill
+            </label>
+            <select
+              name="fillStyle"
+              value={formData.fillStyle}
+              onChange={handleChange}
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              {FILL_STYLE_IDS.map((fillStyle) => (
+                <option key={fillStyle} value={fillStyle}>
+                  {FILL_STYLE_REGISTRY[fillStyle].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Granularity Selection */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              One Cell Per
+            </label>
+            <select
+              name="granularity"
+              value={formData.granularity}
+              onChange={handleChange}
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              <option value="year">Year</option>
+              <option value="month">Month</option>
+              <option value="week">Week (Life in Weeks)</option>
+              <option value="day">Day</option>
+            </select>
+          </div>
+
+          {/* Layout Selection */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Layout
+            </label>
+            <select
+              name="layout"
+              value={formData.layout}
+              onChange={handleChange}
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              <option value="grid">Grid (fills the screen)</option>
+              <option value="yearRows">One Row Per Year</option>
+              <option value="decades">Decade Blocks</option>
+              <option value="spiral">Spiral</option>
+              <option value="rings">Rings (one per decade)</option>
+              <option value="honeycomb">Honeycomb</option>
+            </select>
+            {formData.layout === 'honeycomb' && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Honeycomb cells are always hexagons, whatever the cell shape.
+              </p>
+            )}
+          </div>
+
+          {/* Row Order (row-based layouts only) */}
+          {isRowLayout && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                Row Order
+              </label>
+              <select
+                name="cellOrder"
+                value={formData.cellOrder}
+                onChange={handleChange}
+                className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              >
+                <option value="leftToRight">Left to Right</option>
+                <option value="rightToLeft">Right to Left</option>
+                <option value="snake">Snake (rows alternate)</option>
+              </select>
+            </div>
+          )}
+
+          {/* Future Cell Shading */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Future Cells
+            </label>
+            <select
+              name="futureShading"
+              value={formData.futureShading}
+              onChange={handleChange}
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              <option value="flat">Flat</option>
+              <option value="survival">Fade by survival probability</option>
+            </select>
+          </div>
+
+          {/* Survival Model Inputs */}
+          {formData.futureShading === 'survival' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Survival Model
+                </label>
+                <select
+                  name="survivalModel"
+                  value={formData.survivalModel}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                >
+                  <option value="lifeTable">Life table (country & sex)</option>
+                  <option value="gompertz">Gompertz curve</option>
+                </select>
+              </div>
+
+              {formData.survivalModel === 'gompertz' && (
+                <>
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                      Modal Age at Death (Years)
+                    </label>
+                    <input
+                      type="number"
+                      name="gompertzModalAge"
+                      value={formData.gompertzModalAge}
+                      onChange={handleChange}
+                      min="1"
+                      max="150"
+                      required
+                      className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                      Dispersion (Years)
+                    </label>
+                    <input
+                      type="number"
+                      name="gompertzDispersion"
+                      value={formData.gompertzDispersion}
+                      onChange={handleChange}
+                      min="1"
+                      max="30"
+                      step="0.5"
+                      required
+                      className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Extend Grid To Age
+                </label>
+                <input
+                  type="number"
+                  name="maxAge"
+                  value={formData.maxAge}
+                  onChange={handleChange}
+                  min="1"
+                  max="150"
+                  required
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Eras (named life phases) */}
+          <div className="space-y-3 pt-4 border-t border-slate-200 dark:border-slate-800">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Eras
+            </label>
+
+            {formData.eras.length === 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                No eras yet. Color phases of your life such as school or a
+                career. Where eras overlap, the one that started later wins.
+              </p>
+            )}
+
+            {formData.eras.length > 0 && (
+              <ul className="space-y-1">
+                {formData.eras.map((era) => (
+                  <li
+                    key={era.id}
+                    className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300"
+                  >
+                    <span
+                      className="w-3 h-3 shrink-0 rounded-sm"
+                      style={{
+                        background: era.endColor
+                          ? `linear-gradient(to right, ${era.color}, ${era.endColor})`
+                          : era.color,
+                      }}
+                    />
+                    <span className="flex-1 min-w-0 truncate">{era.name}</span>
+                    <span className="shrink-0 tabular-nums text-xs text-slate-500 dark:text-slate-400">
+                      {era.start.slice(0, 4)}–
+                      {era.end ? era.end.slice(0, 4) : 'now'}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveEra(era.id)}
+                      aria-label={`Remove ${era.name}`}
+                      className="text-slate-400 hover:text-red-500 cursor-pointer"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Add Era (inputs are not required so they never block saving) */}
+            <div className="space-y-2">
+              <input
+                type="text"
+                name="name"
+                value={newEra.name}
+                onChange={handleNewEraChange}
+                maxLength={32}
+                placeholder="Name (e.g. University)"
+                aria-label="Era name"
+                className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  name="start"
+                  value={newEra.start}
+                  onChange={handleNewEraChange}
+                  aria-label="Era start"
+                  className="flex-1 min-w-0 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                />
+                <input
+                  type="date"
+                  name="end"
+                  value={newEra.end}
+                  onChange={handleNewEraChange}
+                  aria-label="Era end (leave empty if ongoing)"
+                  title="Leave empty if ongoing"
+                  className="flex-1 min-w-0 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  name="color"
+                  value={newEra.color}
+                  onChange={handleNewEraChange}
+                  aria-label="Era color"
+                  className="w-14 h-10 shrink-0 bg-transparent cursor-pointer"
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={isEraGradient}
+                    onChange={(e) => setIsEraGradient(e.target.checked)}
+                  />
+                  Fade into
+                </label>
+                {isEraGradient && (
+                  <input
+                    type="color"
+                    name="endColor"
+                    value={newEra.endColor}
+                    onChange={handleNewEraChange}
+                    aria-label="Era end color"
+                    className="w-14 h-10 shrink-0 bg-transparent cursor-pointer"
+                  />
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={handleAddEra}
+                disabled={!isNewEraValid}
+                className="w-full px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 cursor-pointer disabled:cursor-default"
+              >
+                Add Era
+              </button>
+            </div>
+          </div>
+
+          {/* Life Events */}
+          <div className="space-y-3 pt-4 border-t border-slate-200 dark:border-slate-800">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Life Events
+            </label>
+
+            {eventsDraft.length === 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                No events yet. Pin milestones to the cells they happened in.
+              </p>
+            )}
+
+            {eventsDraft.length > 0 && (
+              <ul className="space-y-1">
+                {eventsDraft.map((event) => (
+                  <li
+                    key={event.id}
+                    className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300"
+                  >
+                    <span
+                      className="w-3 h-3 shrink-0 rounded-full"
+                      style={{ backgroundColor: event.color }}
+                    />
+                    <span className="shrink-0 tabular-nums text-slate-500 dark:text-slate-400">
+                      {event.date}
+                    </span>
+                    <span
+                      className="flex-1 min-w-0 truncate"
+                      title={event.note}
+                    >
+                      {event.icon} {event.title}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveEvent(event.id)}
+                      aria-label={`Remove ${event.title}`}
+                      className="text-slate-400 hover:text-red-500 cursor-pointer"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Add Event (inputs are not required so they never block saving) */}
+            <div className="space-y-2">
+              <input
+                type="date"
+                name="date"
+                value={newEvent.date}
+                onChange={handleNewEventChange}
+                aria-label="Event date"
+                className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  name="icon"
+                  value={newEvent.icon}
+                  onChange={handleNewEventChange}
+                  maxLength={4}
+                  placeholder="🎓"
+                  aria-label="Event icon"
+                  className="w-14 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                />
+                <input
+                  type="text"
+                  name="title"
+                  value={newEvent.title}
+                  onChange={handleNewEventChange}
+                  maxLength={48}
+                  placeholder="Title"
+                  aria-label="Event title"
+                  className="flex-1 min-w-0 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                />
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="color"
+                  name="color"
+                  value={newEvent.color}
+                  onChange={handleNewEventChange}
+                  aria-label="Event color"
+                  className="w-14 h-10 shrink-0 bg-transparent cursor-pointer"
+                />
+                <select
+                  name="marker"
+                  value={newEvent.marker}
+                  onChange={handleNewEventChange}
+                  aria-label="Event marker"
+                  className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                >
+                  <option value="badge">Badge</option>
+                  <option value="ring">Ring</option>
+                  <option value="recolor">Recolor cell</option>
+                </select>
+              </div>
+              <input
+                type="text"
+                name="note"
+                value={newEvent.note}
+                onChange={handleNewEventChange}
+                maxLength={280}
+                placeholder="Note (optional)"
+                aria-label="Event note"
+                className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+              <button
+                type="button"
+                onClick={handleAddEvent}
+                disabled={!isNewEventValid}
+                className="w-full px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 cursor-pointer disabled:cursor-default"
+              >
+                Add Event
+              </button>
+            </div>
+          </div>
+
+          {/* Render Backend */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Rendering
+            </label>
+            <select
+              name="renderBackend"
+              value={formData.renderBackend}
+              onChange={handleChange}
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+            >
+              <option value="worker">Background thread (worker)</option>
+              <option value="main">Main thread</option>
+            </select>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Paints the grid off the main thread where the browser supports it.
+            </p>
+          </div>
+
+          {/* Time Travel Preview (not part of the saved config) */}
+          <div className="space-y-2 pt-4 border-t border-slate-200 dark:border-slate-800">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Time Travel Preview
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={scrubberMax}
+              value={scrubberValue}
+              onChange={handleScrub}
+              disabled={!isBirthDateValid}
+              aria-label="Preview date"
+              className="w-full accent-palette-accent"
+            />
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={previewDate ?? formatIsoDate(scrubberDate)}
+                onChange={handlePreviewDateInput}
+                className="flex-1 min-w-0 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+              <button
+                type="button"
+                onClick={() => onPreviewDateChange(null)}
+                disabled={!previewDate}
+                className="px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 cursor-pointer disabled:cursor-default"
+              >
+                Today
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Previews the grid and countdown as of another date. Nothing is
+              saved.
+            </p>
+          </div>
+
+          {/* Export (uses the applied settings, not the unsaved form) */}
+          <div className="space-y-2 pt-4 border-t border-slate-200 dark:border-slate-800">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Export
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={isCountdownExported}
+                onChange={(e) => setIsCountdownExported(e.target.checked)}
+              />
+              Include countdown
+            </label>
+            <button
+              type="button"
+              onClick={handleDownloadSvg}
+              className="w-full px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 cursor-pointer"
+            >
+              Download as SVG
+            </button>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Saves the timeline as shown, with your message, as a printable and
+              editable graphic.
+            </p>
+
+            <select
+              value={pngTarget.presetId}
+              onChange={handlePngPresetChange}
+              aria-label="Wallpaper resolution"
+              className="w-full px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
             >
-              <option value="square">Square</option>
-              <option value="circle">Circle</option>
-              <option value="heart">Heart</option>
+              {EXPORT_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+              <option value="custom">Custom</option>
             </select>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                name="width"
+                value={pngTarget.width}
+                onChange={handlePngSizeChange}
+                min={1}
+                max={MAX_PNG_EDGE}
+                step={1}
+                aria-label="Width in pixels"
+                className="flex-1 min-w-0 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+              <input
+                type="number"
+                name="height"
+                value={pngTarget.height}
+                onChange={handlePngSizeChange}
+                min={1}
+                max={MAX_PNG_EDGE}
+                step={1}
+                aria-label="Height in pixels"
+                className="flex-1 min-w-0 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+              <input
+                type="number"
+                name="pixelRatio"
+                value={pngTarget.pixelRatio}
+                onChange={handlePngSizeChange}
+                min={0.5}
+                max={4}
+                step={0.25}
+                aria-label="Scale (pixel ratio)"
+                title="Scale (pixel ratio)"
+                className="w-20 px-3 py-2 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+              />
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {SAFE_AREA_EDGES.map((edge) => (
+                <label
+                  key={edge}
+                  className="text-xs text-slate-500 dark:text-slate-400"
+                >
+                  <span className="capitalize">{edge}</span>
+                  <input
+                    type="number"
+                    name={edge}
+                    value={pngTarget.safeArea[edge]}
+                    onChange={handleSafeAreaChange}
+                    min={0}
+                    step={1}
+                    className="w-full mt-1 px-2 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-palette-accent"
+                  />
+                </label>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={handleDownloadPng}
+              disabled={!isPngTargetValid || isPngExporting}
+              className="w-full px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 cursor-pointer disabled:cursor-default"
+            >
+              {isPngExporting ? 'Rendering…' : 'Download as PNG'}
+            </button>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Renders a wallpaper image at any resolution. The margins (in
+              points) keep the timeline clear of docks, taskbars and lock screen
+              clocks.
+            </p>
           </div>
 
           {/* Spacer to push button to bottom*/}
@@ -228,7 +1642,7 @@ export default function SettingsOverlay({
           {/* Submit Button */}
           <button
             type="submit"
-            className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+            className="w-full py-3 px-4 bg-palette-accent hover:bg-palette-accent/85 text-palette-accent-text font-medium rounded-md shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-palette-accent focus:ring-offset-2 dark:focus:ring-offset-slate-900"
           >
             Save & Apply
           </button>
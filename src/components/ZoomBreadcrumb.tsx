@@ -0,0 +1,87 @@
+/**
+ * LIFE TIMELINE ZOOM BREADCRUMB COMPONENT
+ *
+ * A compact trail shown in the bottom-left corner while the timeline is
+ * zoomed in, e.g. "Life › Age 26 › Mar 15, 2021 – Apr 14, 2021". Every
+ * ancestor level is a button that zooms straight back out to it.
+ *
+ * ARCHITECTURAL DESIGN:
+ * - Purely presentational: the trail is resolved by the utils layer
+ * (life.zoom.ts) and the zoom itself is animated by `LifeCanvas.tsx`.
+ * - A "Today" shortcut jumps to the hours of the present day from any level.
+ */
+
+import type { ZoomState } from '../types/life.types.ts';
+import { formatZoomLabel } from '../utils/life.format.ts';
+import { getZoomTrail, isSameZoom } from '../utils/life.zoom.ts';
+
+interface ZoomBreadcrumbProps {
+  /**
+   * The user's date of birth (YYYY-MM-DD), the anchor of every zoom index.
+   */
+  dob: string;
+  /**
+   * The zoom level currently on screen.
+   */
+  zoom: ZoomState;
+  /**
+   * The zoom level holding the present hour.
+   */
+  today: ZoomState;
+  /**
+   * Callback fired with the level to zoom to.
+   */
+  onSelect: (zoom: ZoomState) => void;
+}
+
+export default function ZoomBreadcrumb({
+  dob,
+  zoom,
+  today,
+  onSelect,
+}: ZoomBreadcrumbProps) {
+  const trail = getZoomTrail(dob, zoom);
+
+  return (
+    <nav
+      aria-label="Timeline zoom"
+      className="fixed bottom-6 left-6 z-20 flex flex-wrap items-center gap-1 py-1.5 px-3 rounded-full bg-white/80 dark:bg-slate-900/80 backdrop-blur-md shadow-lg border border-slate-200 dark:border-slate-800 text-sm text-slate-700 dark:text-slate-300 select-none"
+    >
+      {trail.map((level, position) => {
+        const isCurrent = position === trail.length - 1;
+
+        return (
+          <span key={level.level} className="flex items-center gap-1">
+            {position > 0 && (
+              <span className="text-slate-400 dark:text-slate-500">›</span>
+            )}
+            {isCurrent ? (
+              <span
+                aria-current="page"
+                className="font-medium text-slate-900 dark:text-white"
+              >
+                {formatZoomLabel(dob, level)}
+              </span>
+            ) : (
+              <button
+                onClick={() => onSelect(level)}
+                className="hover:text-palette-accent cursor-pointer"
+              >
+                {formatZoomLabel(dob, level)}
+              </button>
+            )}
+          </span>
+        );
+      })}
+
+      {!isSameZoom(zoom, today) && (
+        <button
+          onClick={() => onSelect(today)}
+          className="ml-2 py-0.5 px-2 rounded-full text-xs font-medium bg-palette-accent text-palette-accent-text hover:bg-palette-accent/85 cursor-pointer"
+        >
+          Today
+        </button>
+      )}
+    </nav>
+  );
+}
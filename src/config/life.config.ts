@@ -1,39 +1,348 @@
 /**
  * This file has only 3 responsibilities(our persistence layer):
- * -load userConfig from localStorage
- * -save userConfig to localStorage
- * -fallback to defaultConfig if nothing exists in the localStorage
+ * -load userConfig (and the user's life events) from localStorage
+ * -save userConfig (and the user's life events) to localStorage
+ * -fallback to defaultConfig (or no events) if nothing exists in the localStorage
+ *
+ * Life events are stored under their own key so a corrupt event list can never
+ * reset the rest of the configuration (and vice versa).
+ *
+ * The type guards of the simple choices are also exported, so other input
+ * boundaries (e.g. the command line in life.cli.ts) validate them identically.
  */
 
 import type {
+  ActivityLevel,
+  Background,
+  BackgroundKind,
+  CellOrder,
+  Era,
+  EventMarker,
+  ExpectancyMode,
+  FillStyle,
+  FutureShading,
+  Granularity,
+  LayoutStrategy,
+  LifeEvent,
+  Palette,
+  RenderBackend,
+  Sex,
   Shape,
+  SmokingStatus,
+  SurvivalModel,
   ThemePreference,
+  ThemeSchedule,
+  ThemeScheduleKind,
   UserConfig,
 } from '../types/life.types.ts';
 
 import { defaultConfig } from '../types/life.types.ts';
+import { LIFE_TABLE_COUNTRIES } from '../data/life.tables.ts';
+import {
+  MAX_CUSTOM_SHAPE_LENGTH,
+  SHAPE_IDS,
+} from '../data/life.shapeRegistry.ts';
+import { MAX_PALETTE_STOPS } from '../data/life.palettes.ts';
+import { FILL_STYLE_IDS } from '../data/life.fillStyles.ts';
+import {
+  MAX_BACKGROUND_BLUR,
+  MAX_BACKGROUND_DIM,
+} from '../utils/life.backdrop.ts';
+import { isTimeOfDay } from '../utils/life.themeSchedule.ts';
 
 const LOCAL_STORAGE_KEY = 'life_timeline_config';
-const VALID_THEMES_PREFERENCES = ['light', 'dark', 'system'] as const;
-const VALID_SHAPES = ['square', 'circle', 'heart'] as const;
+const EVENTS_STORAGE_KEY = 'life_timeline_events';
+const VALID_THEMES_PREFERENCES = [
+  'light',
+  'dark',
+  'system',
+  'schedule',
+] as const;
+const VALID_THEME_SCHEDULE_KINDS = ['fixed', 'sun'] as const;
+const VALID_GRANULARITIES = ['year', 'month', 'week', 'day'] as const;
+const VALID_EXPECTANCY_MODES = ['manual', 'estimate'] as const;
+const VALID_SEXES = ['female', 'male'] as const;
+const VALID_SMOKING_STATUSES = ['never', 'former', 'current'] as const;
+const VALID_ACTIVITY_LEVELS = ['sedentary', 'moderate', 'active'] as const;
+const VALID_FUTURE_SHADINGS = ['flat', 'survival'] as const;
+const VALID_SURVIVAL_MODELS = ['lifeTable', 'gompertz'] as const;
+const VALID_EVENT_MARKERS = ['badge', 'ring', 'recolor'] as const;
+const VALID_RENDER_BACKENDS = ['worker', 'main'] as const;
+const VALID_BACKGROUND_KINDS = [
+  'palette',
+  'solid',
+  'gradient',
+  'image',
+] as const;
+const VALID_LAYOUTS = [
+  'grid',
+  'yearRows',
+  'decades',
+  'spiral',
+  'rings',
+  'honeycomb',
+] as const;
+const VALID_CELL_ORDERS = ['leftToRight', 'rightToLeft', 'snake'] as const;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
 
 //Type Predicates implementation with help of Type Guards
 /**
  * Type Guard: Validates if an unknown value is a supported Shape.
  * If true, narrows the type from 'unknown' to 'Shape' for the compiler.
  */
-const isShape = (value: unknown): value is Shape => {
-  return VALID_SHAPES.includes(value as Shape);
+export const isShape = (value: unknown): value is Shape => {
+  return SHAPE_IDS.includes(value as Shape);
 };
 
 /**
  * Type Guard: Validates if an unknown value is a supported ThemePreference.
  * If true, narrows the type from 'unknown' to 'ThemePreference' for the compiler.
  */
-const isThemePreference = (value: unknown): value is ThemePreference => {
+export const isThemePreference = (value: unknown): value is ThemePreference => {
   return VALID_THEMES_PREFERENCES.includes(value as ThemePreference);
 };
 
+/**
+ * Type Guard: Validates if an unknown value is a supported Granularity.
+ * If true, narrows the type from 'unknown' to 'Granularity' for the compiler.
+ */
+export const isGranularity = (value: unknown): value is Granularity => {
+  return VALID_GRANULARITIES.includes(value as Granularity);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported LayoutStrategy.
+ * If true, narrows the type from 'unknown' to 'LayoutStrategy' for the compiler.
+ */
+export const isLayoutStrategy = (value: unknown): value is LayoutStrategy => {
+  return VALID_LAYOUTS.includes(value as LayoutStrategy);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported CellOrder.
+ * If true, narrows the type from 'unknown' to 'CellOrder' for the compiler.
+ */
+export const isCellOrder = (value: unknown): value is CellOrder => {
+  return VALID_CELL_ORDERS.includes(value as CellOrder);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported FillStyle.
+ * If true, narrows the type from 'unknown' to 'FillStyle' for the compiler.
+ */
+export const isFillStyle = (value: unknown): value is FillStyle => {
+  return FILL_STYLE_IDS.includes(value as FillStyle);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported ExpectancyMode.
+ * If true, narrows the type from 'unknown' to 'ExpectancyMode' for the compiler.
+ */
+const isExpectancyMode = (value: unknown): value is ExpectancyMode => {
+  return VALID_EXPECTANCY_MODES.includes(value as ExpectancyMode);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported Sex.
+ * If true, narrows the type from 'unknown' to 'Sex' for the compiler.
+ */
+const isSex = (value: unknown): value is Sex => {
+  return VALID_SEXES.includes(value as Sex);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported SmokingStatus.
+ * If true, narrows the type from 'unknown' to 'SmokingStatus' for the compiler.
+ */
+const isSmokingStatus = (value: unknown): value is SmokingStatus => {
+  return VALID_SMOKING_STATUSES.includes(value as SmokingStatus);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported ActivityLevel.
+ * If true, narrows the type from 'unknown' to 'ActivityLevel' for the compiler.
+ */
+const isActivityLevel = (value: unknown): value is ActivityLevel => {
+  return VALID_ACTIVITY_LEVELS.includes(value as ActivityLevel);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported FutureShading.
+ * If true, narrows the type from 'unknown' to 'FutureShading' for the compiler.
+ */
+const isFutureShading = (value: unknown): value is FutureShading => {
+  return VALID_FUTURE_SHADINGS.includes(value as FutureShading);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported RenderBackend.
+ * If true, narrows the type from 'unknown' to 'RenderBackend' for the compiler.
+ */
+const isRenderBackend = (value: unknown): value is RenderBackend => {
+  return VALID_RENDER_BACKENDS.includes(value as RenderBackend);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported SurvivalModel.
+ * If true, narrows the type from 'unknown' to 'SurvivalModel' for the compiler.
+ */
+const isSurvivalModel = (value: unknown): value is SurvivalModel => {
+  return VALID_SURVIVAL_MODELS.includes(value as SurvivalModel);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a supported EventMarker.
+ * If true, narrows the type from 'unknown' to 'EventMarker' for the compiler.
+ */
+const isEventMarker = (value: unknown): value is EventMarker => {
+  return VALID_EVENT_MARKERS.includes(value as EventMarker);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a complete LifeEvent.
+ * Every field is checked; the optional note must be a string if present.
+ */
+const isLifeEvent = (value: unknown): value is LifeEvent => {
+  if (!value || typeof value !== 'object') return false;
+
+  const safeObject: Record<string, unknown> = { ...value };
+
+  return (
+    typeof safeObject.id === 'string' &&
+    typeof safeObject.date === 'string' &&
+    typeof safeObject.title === 'string' &&
+    typeof safeObject.icon === 'string' &&
+    typeof safeObject.color === 'string' &&
+    HEX_COLOR_PATTERN.test(safeObject.color) &&
+    isEventMarker(safeObject.marker) &&
+    (safeObject.note === undefined || typeof safeObject.note === 'string')
+  );
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a complete Era.
+ * Every field is checked; the optional endColor must be a hex color if present.
+ */
+const isEra = (value: unknown): value is Era => {
+  if (!value || typeof value !== 'object') return false;
+
+  const safeObject: Record<string, unknown> = { ...value };
+
+  return (
+    typeof safeObject.id === 'string' &&
+    typeof safeObject.name === 'string' &&
+    typeof safeObject.start === 'string' &&
+    typeof safeObject.end === 'string' &&
+    typeof safeObject.color === 'string' &&
+    HEX_COLOR_PATTERN.test(safeObject.color) &&
+    (safeObject.endColor === undefined ||
+      (typeof safeObject.endColor === 'string' &&
+        HEX_COLOR_PATTERN.test(safeObject.endColor)))
+  );
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a #RRGGBB hex color.
+ */
+export const isHexColor = (value: unknown): value is string => {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a complete Palette.
+ * Every color is checked; the past gradient needs 1 to MAX_PALETTE_STOPS stops.
+ */
+const isPalette = (value: unknown): value is Palette => {
+  if (!value || typeof value !== 'object') return false;
+
+  const safeObject: Record<string, unknown> = { ...value };
+
+  return (
+    typeof safeObject.id === 'string' &&
+    typeof safeObject.name === 'string' &&
+    (safeObject.mode === 'light' || safeObject.mode === 'dark') &&
+    isHexColor(safeObject.background) &&
+    Array.isArray(safeObject.past) &&
+    safeObject.past.length >= 1 &&
+    safeObject.past.length <= MAX_PALETTE_STOPS &&
+    safeObject.past.every(isHexColor) &&
+    (safeObject.present === null || isHexColor(safeObject.present)) &&
+    isHexColor(safeObject.future) &&
+    isHexColor(safeObject.outline) &&
+    isHexColor(safeObject.accent)
+  );
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a number within [min, max].
+ */
+const isNumberInRange = (
+  value: unknown,
+  min: number,
+  max: number,
+): value is number => {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max
+  );
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a well-formed Background.
+ */
+const isBackground = (value: unknown): value is Background => {
+  if (!value || typeof value !== 'object') return false;
+
+  const safeObject: Record<string, unknown> = { ...value };
+
+  return (
+    VALID_BACKGROUND_KINDS.includes(safeObject.kind as BackgroundKind) &&
+    isHexColor(safeObject.color) &&
+    isHexColor(safeObject.gradientFrom) &&
+    isHexColor(safeObject.gradientTo) &&
+    isNumberInRange(safeObject.gradientAngle, 0, 360) &&
+    typeof safeObject.imageId === 'string' &&
+    typeof safeObject.imageName === 'string' &&
+    isNumberInRange(safeObject.blur, 0, MAX_BACKGROUND_BLUR) &&
+    isNumberInRange(safeObject.dim, 0, MAX_BACKGROUND_DIM) &&
+    isNumberInRange(safeObject.vignette, 0, 1)
+  );
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a well-formed ThemeSchedule.
+ */
+const isThemeSchedule = (value: unknown): value is ThemeSchedule => {
+  if (!value || typeof value !== 'object') return false;
+
+  const safeObject: Record<string, unknown> = { ...value };
+
+  return (
+    VALID_THEME_SCHEDULE_KINDS.includes(safeObject.kind as ThemeScheduleKind) &&
+    isTimeOfDay(safeObject.lightAt) &&
+    isTimeOfDay(safeObject.darkAt) &&
+    isNumberInRange(safeObject.latitude, -90, 90) &&
+    isNumberInRange(safeObject.longitude, -180, 180)
+  );
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a usable custom shape
+ * (an emoji / short text or an SVG path, not too long).
+ */
+export const isCustomShape = (value: unknown): value is string => {
+  return typeof value === 'string' && value.length <= MAX_CUSTOM_SHAPE_LENGTH;
+};
+
+/**
+ * Type Guard: Validates if an unknown value is a country with a bundled life table.
+ */
+const isLifeTableCountry = (value: unknown): value is string => {
+  return typeof value === 'string' && LIFE_TABLE_COUNTRIES.includes(value);
+};
+
 /**
  * Safely retrieves and parses the persisted userConfig from localStorage.
  * Falls back to defaultConfig if data is missing, corrupted or incomplete.
@@ -68,6 +377,24 @@ export const loadConfig = (): UserConfig => {
           ? safeObject.expectancy
           : defaultConfig.expectancy,
 
+      expectancyMode: isExpectancyMode(safeObject.expectancyMode)
+        ? safeObject.expectancyMode
+        : defaultConfig.expectancyMode,
+
+      lifeTableCountry: isLifeTableCountry(safeObject.lifeTableCountry)
+        ? safeObject.lifeTableCountry
+        : defaultConfig.lifeTableCountry,
+
+      sex: isSex(safeObject.sex) ? safeObject.sex : defaultConfig.sex,
+
+      smoking: isSmokingStatus(safeObject.smoking)
+        ? safeObject.smoking
+        : defaultConfig.smoking,
+
+      activity: isActivityLevel(safeObject.activity)
+        ? safeObject.activity
+        : defaultConfig.activity,
+
       message:
         typeof safeObject.message === 'string'
           ? safeObject.message
@@ -77,7 +404,82 @@ export const loadConfig = (): UserConfig => {
         ? safeObject.theme
         : defaultConfig.theme,
 
+      themeSchedule: isThemeSchedule(safeObject.themeSchedule)
+        ? safeObject.themeSchedule
+        : defaultConfig.themeSchedule,
+
       shape: isShape(safeObject.shape) ? safeObject.shape : defaultConfig.shape,
+
+      customShape: isCustomShape(safeObject.customShape)
+        ? safeObject.customShape
+        : defaultConfig.customShape,
+
+      granularity: isGranularity(safeObject.granularity)
+        ? safeObject.granularity
+        : defaultConfig.granularity,
+
+      layout: isLayoutStrategy(safeObject.layout)
+        ? safeObject.layout
+        : defaultConfig.layout,
+
+      cellOrder: isCellOrder(safeObject.cellOrder)
+        ? safeObject.cellOrder
+        : defaultConfig.cellOrder,
+
+      fillStyle: isFillStyle(safeObject.fillStyle)
+        ? safeObject.fillStyle
+        : defaultConfig.fillStyle,
+
+      futureShading: isFutureShading(safeObject.futureShading)
+        ? safeObject.futureShading
+        : defaultConfig.futureShading,
+
+      survivalModel: isSurvivalModel(safeObject.survivalModel)
+        ? safeObject.survivalModel
+        : defaultConfig.survivalModel,
+
+      gompertzModalAge:
+        typeof safeObject.gompertzModalAge === 'number'
+          ? safeObject.gompertzModalAge
+          : defaultConfig.gompertzModalAge,
+
+      gompertzDispersion:
+        typeof safeObject.gompertzDispersion === 'number'
+          ? safeObject.gompertzDispersion
+          : defaultConfig.gompertzDispersion,
+
+      maxAge:
+        typeof safeObject.maxAge === 'number'
+          ? safeObject.maxAge
+          : defaultConfig.maxAge,
+
+      //invalid eras are dropped individually instead of discarding the whole list
+      eras: Array.isArray(safeObject.eras)
+        ? safeObject.eras.filter(isEra)
+        : defaultConfig.eras,
+
+      //an unknown palette id falls back to "auto" when the renderConfig is built
+      palette:
+        typeof safeObject.palette === 'string'
+          ? safeObject.palette
+          : defaultConfig.palette,
+
+      customPalettes: Array.isArray(safeObject.customPalettes)
+        ? safeObject.customPalettes.filter(isPalette)
+        : defaultConfig.customPalettes,
+
+      background: isBackground(safeObject.background)
+        ? safeObject.background
+        : defaultConfig.background,
+
+      motion:
+        typeof safeObject.motion === 'boolean'
+          ? safeObject.motion
+          : defaultConfig.motion,
+
+      renderBackend: isRenderBackend(safeObject.renderBackend)
+        ? safeObject.renderBackend
+        : defaultConfig.renderBackend,
     };
 
     return safeToReturnConfig;
@@ -109,3 +511,46 @@ export const saveConfig = (config: UserConfig): void => {
     );
   }
 };
+
+/**
+ * Safely retrieves the persisted life events from localStorage.
+ * Invalid entries are dropped individually instead of discarding the whole list.
+ * @returns {LifeEvent[]} the valid events (empty if nothing is stored)
+ */
+export const loadEvents = (): LifeEvent[] => {
+  try {
+    const storedEvents = localStorage.getItem(EVENTS_STORAGE_KEY);
+
+    if (!storedEvents) return [];
+
+    const parsedData: unknown = JSON.parse(storedEvents);
+
+    if (!Array.isArray(parsedData)) {
+      throw new Error('The life events in localStorage are corrupt');
+    }
+
+    return parsedData.filter(isLifeEvent);
+  } catch (error) {
+    console.error(
+      'Failed to retrieve life events from localStorage returning no events.',
+      error,
+    );
+
+    return [];
+  }
+};
+
+/**
+ * Persists the life events to localStorage
+ * @param {LifeEvent[]} events -The events to save
+ */
+export const saveEvents = (events: readonly LifeEvent[]): void => {
+  try {
+    localStorage.setItem(EVENTS_STORAGE_KEY, JSON.stringify(events));
+  } catch (error) {
+    console.error(
+      'Saving life events failed. Continuing to run the app on previous events',
+      error,
+    );
+  }
+};
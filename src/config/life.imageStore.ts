@@ -0,0 +1,163 @@
+/**
+ * LIFE TIMELINE BACKGROUND IMAGE STORE
+ *
+ * Background images are far too large for localStorage, so they are kept as
+ * Blobs in IndexedDB, next to the UserConfig that references them by key
+ * (Background.imageId):
+ *
+ * - store: saves a new image under a new key, so every consumer keyed on the
+ *   id reloads it, and drops the images nobody references anymore
+ * - load:  reads an image back (null when missing, e.g. storage was cleared)
+ * - measure: averages the colors of an image, for life.backdrop.ts
+ *
+ * The settings drawer stores an image as soon as it is picked, before the
+ * form is saved: the image of the saved configuration is therefore kept
+ * until another one is stored, so cancelling the form never loses it.
+ *
+ * NOTE:
+ *
+ * This file is part of the persistence layer.
+ * It must NOT:
+ * - decide how the image is drawn (see Backdrop.tsx)
+ * - be imported by code running outside a browser (it uses IndexedDB)
+ */
+
+const DATABASE_NAME = 'life_timeline';
+const DATABASE_VERSION = 1;
+const IMAGE_STORE_NAME = 'background_images';
+
+// Side of the thumbnail the average color is measured on
+const MEASURE_SIZE = 16;
+
+/**
+ * Opens (and creates on first use) the database.
+ * @returns {Promise<IDBDatabase>} The open database.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IMAGE_STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs one request against the image store.
+ * @param {IDBTransactionMode} mode - Read only, or read and write.
+ * @param {(store: IDBObjectStore) => IDBRequest<T>} makeRequest - Issues the request.
+ * @returns {Promise<T>} The result of the request, once its transaction completed.
+ */
+const withImageStore = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(IMAGE_STORE_NAME, mode);
+      const request = makeRequest(transaction.objectStore(IMAGE_STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+/**
+ * Stores a background image under a new key, dropping every other image but one.
+ * @param {Blob} image - The image file.
+ * @param {string} keepId - Key of an image still in use (the saved one), or ''.
+ * @returns {Promise<string>} The key of the stored image.
+ */
+export const storeBackgroundImage = async (
+  image: Blob,
+  keepId: string,
+): Promise<string> => {
+  const imageId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+  const storedIds = await withImageStore('readonly', (store) =>
+    store.getAllKeys(),
+  );
+
+  for (const storedId of storedIds) {
+    if (storedId !== keepId) {
+      await withImageStore('readwrite', (store) => store.delete(storedId));
+    }
+  }
+
+  await withImageStore('readwrite', (store) => store.put(image, imageId));
+
+  return imageId;
+};
+
+/**
+ * Reads a background image back.
+ * @param {string} imageId - The key of the image.
+ * @returns {Promise<Blob | null>} The image, or null if it is not stored.
+ */
+export const loadBackgroundImage = async (
+  imageId: string,
+): Promise<Blob | null> => {
+  if (imageId === '') return null;
+
+  const image: unknown = await withImageStore('readonly', (store) =>
+    store.get(imageId),
+  );
+
+  return image instanceof Blob ? image : null;
+};
+
+/**
+ * Averages the colors of an image.
+ * @param {Blob} image - The image file.
+ * @returns {Promise<string | null>} The average color in #RRGGBB format, or null if it cannot be decoded.
+ */
+export const measureImageColor = async (
+  image: Blob,
+): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(image, {
+      resizeWidth: MEASURE_SIZE,
+      resizeHeight: MEASURE_SIZE,
+      resizeQuality: 'medium',
+    });
+
+    const canvas = new OffscreenCanvas(MEASURE_SIZE, MEASURE_SIZE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, MEASURE_SIZE, MEASURE_SIZE);
+    const sum = [0, 0, 0];
+
+    for (let i = 0; i < data.length; i += 4) {
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+    }
+
+    const pixels = data.length / 4;
+
+    return `#${sum
+      .map((channel) =>
+        Math.round(channel / pixels)
+          .toString(16)
+          .padStart(2, '0'),
+      )
+      .join('')
+      .toUpperCase()}`;
+  } catch (error) {
+    console.error('Failed to measure the background image.', error);
+    return null;
+  }
+};
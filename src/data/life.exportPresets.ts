@@ -0,0 +1,79 @@
+/**
+ * WALLPAPER EXPORT PRESETS
+ *
+ * Common target resolutions for PNG wallpaper exports (life.png.ts), offered
+ * by the Export section of the settings overlay. Any other size can still be
+ * entered by hand.
+ *
+ * Every preset carries:
+ * - its size in physical pixels (what the image file will measure)
+ * - the pixel ratio of a typical screen of that size, so the message, legend
+ *   and outlines keep the size they have on screen
+ * - default safe-area margins (in CSS pixels) for the system UI usually drawn
+ *   over a wallpaper there: a taskbar, a dock and menu bar, or the clock and
+ *   the unlock bar of a phone lock screen
+ *
+ * The margins are approximations, meant as a starting point: they remain
+ * editable before exporting.
+ */
+
+import type { ExportPreset } from '../types/life.types.ts';
+
+export const EXPORT_PRESETS: readonly ExportPreset[] = [
+  {
+    id: 'fhd',
+    label: 'Full HD 1080p (1920 × 1080)',
+    width: 1920,
+    height: 1080,
+    pixelRatio: 1,
+    safeArea: { top: 0, right: 0, bottom: 48, left: 0 }, // Windows taskbar
+  },
+  {
+    id: 'qhd',
+    label: 'QHD 1440p (2560 × 1440)',
+    width: 2560,
+    height: 1440,
+    pixelRatio: 1,
+    safeArea: { top: 0, right: 0, bottom: 48, left: 0 }, // Windows taskbar
+  },
+  {
+    id: 'uhd',
+    label: '4K UHD (3840 × 2160)',
+    width: 3840,
+    height: 2160,
+    pixelRatio: 2,
+    safeArea: { top: 0, right: 0, bottom: 48, left: 0 }, // Windows taskbar
+  },
+  {
+    id: 'ultrawide',
+    label: 'Ultrawide (3440 × 1440)',
+    width: 3440,
+    height: 1440,
+    pixelRatio: 1,
+    safeArea: { top: 0, right: 0, bottom: 48, left: 0 }, // Windows taskbar
+  },
+  {
+    id: 'macbook',
+    label: 'MacBook Pro 14" (3024 × 1964)',
+    width: 3024,
+    height: 1964,
+    pixelRatio: 2,
+    safeArea: { top: 38, right: 0, bottom: 80, left: 0 }, // menu bar + dock
+  },
+  {
+    id: 'iphone',
+    label: 'iPhone lock screen (1179 × 2556)',
+    width: 1179,
+    height: 2556,
+    pixelRatio: 3,
+    safeArea: { top: 260, right: 0, bottom: 120, left: 0 }, // clock + unlock bar
+  },
+  {
+    id: 'android',
+    label: 'Android lock screen (1080 × 2400)',
+    width: 1080,
+    height: 2400,
+    pixelRatio: 2.625,
+    safeArea: { top: 220, right: 0, bottom: 100, left: 0 }, // clock + unlock bar
+  },
+];
@@ -0,0 +1,154 @@
+/**
+ * PRESENT CELL FILL STYLE REGISTRY
+ *
+ * Every way the present cell can fill up is described here, exactly once.
+ * Each entry defines:
+ *
+ * - label:          its name in the settings drawer and in Lively
+ * - getFillRegion:  the lived part of the cell for a progress, as a clip path
+ *                   on the unit box [0, 1] × [0, 1] and an opacity
+ *
+ * Styles only ever see the unit box (and, for "auto", the direction the shape
+ * prefers), never an outline: the renderer fills the whole shape through the
+ * clip. Every style therefore works with every shape, including shapes added
+ * to the shape registry later and the user's custom shape.
+ *
+ * Config validation, the settings select, the CLI and the Lively dropdown
+ * (which maps its item index onto FILL_STYLE_IDS) enumerate this registry.
+ * Adding a style means adding its id to the FillStyle union and an entry here
+ * (plus its label to the "fillStyle" items of public/LivelyProperties.json).
+ *
+ * NOTE:
+ *
+ * This file describes fill styles only.
+ * It must NOT:
+ * - access DOM or Canvas APIs (clips are turned into paths by the backends)
+ * - choose colors
+ */
+
+import type {
+  FillRegion,
+  FillStyle,
+  FillStyleDefinition,
+  ShapeDefinition,
+} from '../types/life.types.ts';
+
+// Radius reaching the corners of the unit box from its center: √2 / 2
+const CORNER_RADIUS = Math.SQRT1_2;
+
+// Clip path digits: a ten-thousandth of a cell is far below a device pixel
+const CLIP_PRECISION = 4;
+
+/**
+ * Rounds a clip coordinate, keeping the path short.
+ * @param {number} value - A unit box coordinate.
+ * @returns {number} The rounded coordinate.
+ */
+const round = (value: number): number => Number(value.toFixed(CLIP_PRECISION));
+
+/**
+ * Describes a rectangle of the unit box as a clip path.
+ * @param {readonly number[]} rect - The rectangle, as [x, y, width, height].
+ * @returns {string} The SVG path.
+ */
+const getRectPath = ([x, y, width, height]: readonly number[]): string =>
+  `M${round(x)} ${round(y)}H${round(x + width)}V${round(y + height)}H${round(x)}Z`;
+
+/**
+ * A region filling the whole shape at full opacity.
+ */
+const FULL_REGION: FillRegion = { clip: null, alpha: 1 };
+
+/**
+ * Every fill style, in the order they are offered (and indexed by Lively: new
+ * styles go last, so saved Lively dropdown indices keep their meaning).
+ */
+export const FILL_STYLE_REGISTRY: Readonly<
+  Record<FillStyle, FillStyleDefinition>
+> = {
+  auto: {
+    label: 'Shape default',
+    getFillRegion: (progress, cellShape) => ({
+      clip: getRectPath(cellShape.getFillClip(progress)),
+      alpha: 1,
+    }),
+  },
+  horizontal: {
+    label: 'Left to right',
+    getFillRegion: (progress) => ({
+      clip: getRectPath([0, 0, progress, 1]),
+      alpha: 1,
+    }),
+  },
+  vertical: {
+    label: 'Bottom to top',
+    getFillRegion: (progress) => ({
+      clip: getRectPath([0, 1 - progress, 1, progress]),
+      alpha: 1,
+    }),
+  },
+  radial: {
+    label: 'Radial (from the center)',
+    getFillRegion: (progress) => {
+      //the disc area grows with progress, reaching the corners when complete
+      const radius = round(CORNER_RADIUS * Math.sqrt(progress));
+
+      return {
+        clip:
+          radius === 0
+            ? null
+            : `M${round(0.5 - radius)} 0.5A${radius} ${radius} 0 1 1 ${round(0.5 + radius)} 0.5A${radius} ${radius} 0 1 1 ${round(0.5 - radius)} 0.5Z`,
+        alpha: radius === 0 ? 0 : 1,
+      };
+    },
+  },
+  pie: {
+    label: 'Pie (clockwise)',
+    getFillRegion: (progress) => {
+      if (progress <= 0) return { clip: null, alpha: 0 };
+      //an arc cannot end where it starts: a complete sweep is the whole shape
+      if (progress >= 1) return FULL_REGION;
+
+      //sweeps a wedge wider than the box, from twelve o'clock
+      const angle = 2 * Math.PI * progress;
+      const radius = CORNER_RADIUS + 0.05;
+      const endX = round(0.5 + radius * Math.sin(angle));
+      const endY = round(0.5 - radius * Math.cos(angle));
+      const largeArc = progress > 0.5 ? 1 : 0;
+
+      return {
+        clip: `M0.5 0.5V${round(0.5 - radius)}A${round(radius)} ${round(radius)} 0 ${largeArc} 1 ${endX} ${endY}Z`,
+        alpha: 1,
+      };
+    },
+  },
+  opacity: {
+    label: 'Fade in',
+    getFillRegion: (progress) => ({ clip: null, alpha: progress }),
+  },
+};
+
+/**
+ * Every fill style id, in registry order.
+ */
+export const FILL_STYLE_IDS = Object.keys(FILL_STYLE_REGISTRY) as FillStyle[];
+
+/**
+ * Resolves the lived part of the present cell.
+ * @param {FillStyle} fillStyle - The selected fill style.
+ * @param {ShapeDefinition} cellShape - The shape the cells are drawn with.
+ * @param {number} progress - Fractional completion of the cell (clamped to [0, 1]).
+ * @returns {FillRegion} The clip and opacity of the fill.
+ */
+export const getFillRegion = (
+  fillStyle: FillStyle,
+  cellShape: ShapeDefinition,
+  progress: number,
+): FillRegion => {
+  const clampedProgress = Math.max(Math.min(progress, 1), 0);
+
+  return FILL_STYLE_REGISTRY[fillStyle].getFillRegion(
+    clampedProgress,
+    cellShape,
+  );
+};
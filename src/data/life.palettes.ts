@@ -0,0 +1,93 @@
+/**
+ * BUNDLED COLOR PALETTES
+ *
+ * The palettes offered next to the user's own (see UserConfig.customPalettes):
+ *
+ * - Classic Light / Classic Dark: the original green → red and teal → amber
+ *   gradients, used by the "auto" palette depending on the theme
+ * - Viridis and Cividis: perceptually uniform gradients that stay readable
+ *   with the common forms of color blindness (Cividis even for
+ *   blue-yellow deficiency), from matplotlib
+ * - High Contrast: pure colors on black, with white outlines
+ *
+ * Their order is the order of the palette select and of the Lively dropdown
+ * (after "auto"): new palettes go last, so saved Lively indices keep their
+ * meaning.
+ *
+ * NOTE:
+ *
+ * This file describes palettes only.
+ * It must NOT:
+ * - interpolate colors (see life.draw.ts)
+ * - decide which palette is active (see life.render.ts)
+ */
+
+import type { Palette } from '../types/life.types.ts';
+
+// Palette id following the light / dark theme
+export const AUTO_PALETTE_ID = 'auto';
+
+// Most gradient stops a palette may have
+export const MAX_PALETTE_STOPS = 8;
+
+export const CLASSIC_LIGHT_PALETTE: Palette = {
+  id: 'classicLight',
+  name: 'Classic Light',
+  mode: 'light',
+  background: '#F8FAFC', // Tailwind Slate-50
+  past: ['#22C55E', '#EF4444'], // Tailwind Green-500 → Red-500
+  present: null,
+  future: '#D1D5DB', // Tailwind Gray-300
+  outline: '#D1D5DB', // Tailwind Gray-300
+  accent: '#2563EB', // Tailwind Blue-600
+};
+
+export const CLASSIC_DARK_PALETTE: Palette = {
+  id: 'classicDark',
+  name: 'Classic Dark',
+  mode: 'dark',
+  background: '#020617', // Tailwind Slate-950
+  past: ['#14B8A6', '#F59E0B'], // Tailwind Teal-500 → Amber-500
+  present: null,
+  future: '#374151', // Tailwind Gray-700
+  outline: '#374151', // Tailwind Gray-700
+  accent: '#2563EB', // Tailwind Blue-600
+};
+
+export const BUILT_IN_PALETTES: readonly Palette[] = [
+  CLASSIC_LIGHT_PALETTE,
+  CLASSIC_DARK_PALETTE,
+  {
+    id: 'viridis',
+    name: 'Viridis (colorblind-safe)',
+    mode: 'dark',
+    background: '#0B0E1A',
+    past: ['#440154', '#3B528B', '#21918C', '#5EC962', '#FDE725'],
+    present: null,
+    future: '#1F2937', // Tailwind Gray-800
+    outline: '#374151', // Tailwind Gray-700
+    accent: '#21918C',
+  },
+  {
+    id: 'cividis',
+    name: 'Cividis (colorblind-safe)',
+    mode: 'light',
+    background: '#F5F5F0',
+    past: ['#00204D', '#31446B', '#666970', '#958F78', '#CBBA69', '#FFEA46'],
+    present: null,
+    future: '#D6D3CB',
+    outline: '#B8B4AA',
+    accent: '#31446B',
+  },
+  {
+    id: 'highContrast',
+    name: 'High Contrast',
+    mode: 'dark',
+    background: '#000000',
+    past: ['#FFFFFF'],
+    present: '#FFFF00',
+    future: '#000000',
+    outline: '#FFFFFF',
+    accent: '#FFFF00',
+  },
+];
@@ -0,0 +1,277 @@
+/**
+ * CELL SHAPE REGISTRY
+ *
+ * Every cell shape the app can draw is described here, exactly once. Each
+ * entry defines:
+ *
+ * - label:        its name in the settings drawer and in Lively
+ * - path:         its outline on the unit box [0, 1] × [0, 1], as an SVG path
+ * - getFillClip:  how the present cell fills up as the unit progresses
+ *                 (left to right, or bottom to top for pointed shapes), used
+ *                 by the "auto" fill style (see life.fillStyles.ts)
+ * - contains:     its hit area, for tooltips and clicks
+ *
+ * Everything else enumerates the registry instead of listing shapes again:
+ * config validation, the settings select, the CLI, the renderers and the
+ * Lively dropdown, which maps its item index onto SHAPE_IDS.
+ *
+ * Adding a shape means adding its id to the Shape union and an entry here
+ * (plus its label to the "shape" items of public/LivelyProperties.json,
+ * which, being static JSON, cannot read this file).
+ *
+ * CUSTOM SHAPE:
+ *
+ * The "custom" shape has no outline of its own: the user supplies either an
+ * SVG path drawn in a 24 × 24 box (the convention of most icon sets, so icon
+ * paths can be pasted as is) or a short text such as an emoji, drawn as a
+ * glyph (see getShapeOutline).
+ *
+ * HONEYCOMB:
+ *
+ * The honeycomb layout tiles pointy-topped hexagons, whatever shape is
+ * selected: any other outline would leave the tiling full of holes. Its cell
+ * (HONEYCOMB_CELL) is not offered in the registry; getCellShape and
+ * getShapeOutline resolve it from the layout.
+ *
+ * NOTE:
+ *
+ * This file describes shapes only.
+ * It must NOT:
+ * - access DOM or Canvas APIs (outlines are turned into paths by the backends)
+ * - choose colors
+ */
+
+import type {
+  LayoutConfig,
+  Shape,
+  ShapeDefinition,
+  ShapeOutline,
+} from '../types/life.types.ts';
+
+// Box the user-supplied SVG paths are drawn in
+export const CUSTOM_SHAPE_BOX = 24;
+
+// Longest accepted custom shape (an SVG path can be long, a glyph is short)
+export const MAX_CUSTOM_SHAPE_LENGTH = 2000;
+const MAX_GLYPH_LENGTH = 16;
+
+// Only path commands, numbers and separators; must start with a moveto
+const SVG_PATH_PATTERN = /^[Mm][\d\s,.+\-eEMmZzLlHhVvCcSsQqTtAa]*$/;
+
+const SQUARE_PATH = 'M0 0H1V1H0Z';
+
+// Five-pointed star, its bottom points resting as low as its top point is high
+const STAR_VERTICES: ReadonlyArray<[number, number]> = [
+  [0.5, 0.048],
+  [0.612, 0.393],
+  [0.976, 0.393],
+  [0.682, 0.607],
+  [0.794, 0.952],
+  [0.5, 0.739],
+  [0.206, 0.952],
+  [0.318, 0.607],
+  [0.024, 0.393],
+  [0.388, 0.393],
+];
+
+// Horizontal margin of a pointy-topped hexagon as tall as its box: (1 - √3/2) / 2
+const HONEYCOMB_INSET = 0.067;
+
+// Pointy-topped hexagon, as tall as the box
+const HONEYCOMB_VERTICES: ReadonlyArray<[number, number]> = [
+  [0.5, 0],
+  [1 - HONEYCOMB_INSET, 0.25],
+  [1 - HONEYCOMB_INSET, 0.75],
+  [0.5, 1],
+  [HONEYCOMB_INSET, 0.75],
+  [HONEYCOMB_INSET, 0.25],
+];
+
+/**
+ * Fill strategy: the lived part grows from the left edge.
+ * @param {number} progress - Fractional completion of the cell [0, 1].
+ * @returns {[number, number, number, number]} The filled part of the unit box.
+ */
+const fillLeftToRight = (
+  progress: number,
+): [number, number, number, number] => [0, 0, progress, 1];
+
+/**
+ * Fill strategy: the lived part rises from the bottom edge, like a liquid.
+ * @param {number} progress - Fractional completion of the cell [0, 1].
+ * @returns {[number, number, number, number]} The filled part of the unit box.
+ */
+const fillBottomToTop = (
+  progress: number,
+): [number, number, number, number] => [0, 1 - progress, 1, progress];
+
+/**
+ * Hit area of the whole unit box.
+ * @param {number} u - Horizontal position in the unit box.
+ * @param {number} v - Vertical position in the unit box.
+ * @returns {boolean} true inside the box
+ */
+const isInsideBox = (u: number, v: number): boolean =>
+  u >= 0 && u <= 1 && v >= 0 && v <= 1;
+
+/**
+ * Even-odd point-in-polygon test.
+ * @param {number} u - Horizontal position in the unit box.
+ * @param {number} v - Vertical position in the unit box.
+ * @param {ReadonlyArray<[number, number]>} vertices - The polygon corners, in order.
+ * @returns {boolean} true inside the polygon
+ */
+const isInsidePolygon = (
+  u: number,
+  v: number,
+  vertices: ReadonlyArray<[number, number]>,
+): boolean => {
+  let isInside = false;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [ui, vi] = vertices[i];
+    const [uj, vj] = vertices[j];
+
+    if (vi > v !== vj > v && u < ((uj - ui) * (v - vi)) / (vj - vi) + ui) {
+      isInside = !isInside;
+    }
+  }
+
+  return isInside;
+};
+
+/**
+ * Every shape, in the order they are offered (and indexed by Lively: new
+ * shapes go last, so saved Lively dropdown indices keep their meaning).
+ */
+export const SHAPE_REGISTRY: Readonly<Record<Shape, ShapeDefinition>> = {
+  square: {
+    label: 'Square',
+    path: SQUARE_PATH,
+    getFillClip: fillLeftToRight,
+    contains: isInsideBox,
+  },
+  circle: {
+    label: 'Circle',
+    path: 'M1 0.5A0.5 0.5 0 1 1 0 0.5A0.5 0.5 0 1 1 1 0.5Z',
+    getFillClip: fillLeftToRight,
+    contains: (u, v) => (u - 0.5) ** 2 + (v - 0.5) ** 2 <= 0.25,
+  },
+  heart: {
+    label: 'Heart',
+    path: 'M0.5 0.95C0.2 0.7 0 0.5 0 0.25C0 0 0.4 0 0.5 0.3C0.6 0 1 0 1 0.25C1 0.5 0.8 0.7 0.5 0.95Z',
+    getFillClip: fillBottomToTop,
+    contains: isInsideBox,
+  },
+  roundedSquare: {
+    label: 'Rounded Square',
+    path: 'M0.2 0H0.8A0.2 0.2 0 0 1 1 0.2V0.8A0.2 0.2 0 0 1 0.8 1H0.2A0.2 0.2 0 0 1 0 0.8V0.2A0.2 0.2 0 0 1 0.2 0Z',
+    getFillClip: fillLeftToRight,
+    contains: isInsideBox,
+  },
+  hexagon: {
+    label: 'Hexagon',
+    //flat-topped, as wide as the box
+    path: 'M0.25 0.067H0.75L1 0.5L0.75 0.933H0.25L0 0.5Z',
+    getFillClip: fillLeftToRight,
+    contains: (u, v) =>
+      Math.abs(v - 0.5) <= 0.433 &&
+      Math.sqrt(3) * Math.abs(u - 0.5) + Math.abs(v - 0.5) <= 0.866,
+  },
+  diamond: {
+    label: 'Diamond',
+    path: 'M0.5 0L1 0.5L0.5 1L0 0.5Z',
+    getFillClip: fillBottomToTop,
+    contains: (u, v) => Math.abs(u - 0.5) + Math.abs(v - 0.5) <= 0.5,
+  },
+  star: {
+    label: 'Star',
+    path: `M${STAR_VERTICES.map(([u, v]) => `${u} ${v}`).join('L')}Z`,
+    getFillClip: fillBottomToTop,
+    contains: (u, v) => isInsidePolygon(u, v, STAR_VERTICES),
+  },
+  custom: {
+    label: 'Custom (emoji or SVG path)',
+    path: null,
+    getFillClip: fillLeftToRight,
+    contains: isInsideBox,
+  },
+};
+
+/**
+ * The cell of the honeycomb layout: a pointy-topped hexagon, filled left to
+ * right across its own width (not the wider box) so progress follows the
+ * outline.
+ */
+export const HONEYCOMB_CELL: ShapeDefinition = {
+  label: 'Honeycomb Hexagon',
+  path: `M${HONEYCOMB_VERTICES.map(([u, v]) => `${u} ${v}`).join('L')}Z`,
+  getFillClip: (progress) => [
+    HONEYCOMB_INSET,
+    0,
+    progress * (1 - 2 * HONEYCOMB_INSET),
+    1,
+  ],
+  contains: (u, v) => isInsidePolygon(u, v, HONEYCOMB_VERTICES),
+};
+
+/**
+ * Every shape id, in registry order.
+ */
+export const SHAPE_IDS = Object.keys(SHAPE_REGISTRY) as Shape[];
+
+/**
+ * Whether a custom shape is an SVG path (rather than a glyph).
+ * @param {string} customShape - The user-supplied custom shape.
+ * @returns {boolean} true for SVG path data
+ */
+export const isSvgPathData = (customShape: string): boolean => {
+  return SVG_PATH_PATTERN.test(customShape.trim());
+};
+
+/**
+ * Resolves the shape cells are drawn with in a layout.
+ * @param {Shape} shape - The selected shape.
+ * @param {LayoutConfig['kind']} layoutKind - The kind of layout the cells are placed in.
+ * @returns {ShapeDefinition} The honeycomb cell in a honeycomb, the selected shape otherwise.
+ */
+export const getCellShape = (
+  shape: Shape,
+  layoutKind: LayoutConfig['kind'],
+): ShapeDefinition => {
+  return layoutKind === 'honeycomb' ? HONEYCOMB_CELL : SHAPE_REGISTRY[shape];
+};
+
+/**
+ * Resolves the outline cells are drawn with.
+ * A blank custom shape falls back to a square.
+ * @param {Shape} shape - The selected shape.
+ * @param {string} customShape - The user-supplied outline of the "custom" shape.
+ * @param {LayoutConfig['kind']} layoutKind - The kind of layout the cells are placed in.
+ * @returns {ShapeOutline} The outline, ready for a display list.
+ */
+export const getShapeOutline = (
+  shape: Shape,
+  customShape: string,
+  layoutKind: LayoutConfig['kind'],
+): ShapeOutline => {
+  const path = getCellShape(shape, layoutKind).path;
+
+  if (path !== null) return { kind: 'path', d: path, box: 1 };
+
+  const trimmed = customShape.trim();
+
+  if (trimmed === '') {
+    return { kind: 'path', d: SQUARE_PATH, box: 1 };
+  }
+
+  if (isSvgPathData(trimmed)) {
+    return { kind: 'path', d: trimmed, box: CUSTOM_SHAPE_BOX };
+  }
+
+  //keep whole characters (an emoji can span several code units)
+  return {
+    kind: 'glyph',
+    text: Array.from(trimmed).slice(0, MAX_GLYPH_LENGTH).join(''),
+  };
+};
@@ -0,0 +1,291 @@
+/**
+ * BUNDLED PERIOD LIFE TABLES
+ *
+ * Offline, abridged period life tables used by the "estimate for me"
+ * expectancy mode (life.expectancy.ts). No network access is ever required.
+ *
+ * TABLE FORMAT:
+ *
+ * Every table lists `qx`: the probability of dying inside each abridged age
+ * interval, given survival to its start. Interval boundaries are shared by all
+ * tables (LIFE_TABLE_AGES):
+ *
+ *     [0,1) [1,5) [5,10) [10,15) ... [105,110) [110, ∞)
+ *
+ * The final interval is open; everyone alive at 110 is assumed to live
+ * OPEN_INTERVAL_EXPECTANCY more years on average.
+ *
+ * PROVENANCE:
+ *
+ * Infant mortality and life expectancy at birth follow the WHO Global Health
+ * Observatory 2019 estimates for each country and sex. Mortality above age 1
+ * is a Gompertz–Makeham curve calibrated to reproduce that life expectancy.
+ * The tables are therefore smooth approximations of the official period
+ * tables, adequate for a reflective wallpaper but NOT for actuarial pricing.
+ */
+
+import type { LifeTable } from '../types/life.types.ts';
+
+/**
+ * Start age (in years) of every abridged interval. The last entry starts the open interval.
+ */
+export const LIFE_TABLE_AGES: readonly number[] = [
+  0, 1, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90,
+  95, 100, 105, 110,
+];
+
+/**
+ * Average years remaining for anyone who survives to the open interval (110+).
+ */
+export const OPEN_INTERVAL_EXPECTANCY = 1.5;
+
+const SOURCE = 'WHO Global Health Observatory (Gompertz–Makeham abridged fit)';
+const YEAR = 2019;
+
+/**
+ * All bundled tables, ordered by country then sex.
+ * The order of countries is the order shown in the settings drawer and in Lively.
+ */
+export const LIFE_TABLES: readonly LifeTable[] = [
+  {
+    country: 'JP',
+    countryName: 'Japan',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 86.9,
+    qx: [
+      0.00167, 0.00082, 0.00068, 0.00074, 0.00083, 0.00098, 0.00123, 0.00166,
+      0.00236, 0.00353, 0.00547, 0.00869, 0.01404, 0.02288, 0.03743, 0.06118,
+      0.09943, 0.1597, 0.25126, 0.38213, 0.5513, 0.73662, 0.89154,
+    ],
+  },
+  {
+    country: 'JP',
+    countryName: 'Japan',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 81.5,
+    qx: [
+      0.0019, 0.00166, 0.00173, 0.00186, 0.00208, 0.00243, 0.00298, 0.00387,
+      0.0053, 0.00757, 0.01119, 0.01697, 0.02613, 0.04062, 0.06335, 0.0986,
+      0.15227, 0.23157, 0.34331, 0.4893, 0.65844, 0.82055, 0.93592,
+    ],
+  },
+  {
+    country: 'US',
+    countryName: 'United States',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 81.4,
+    qx: [
+      0.00528, 0.0015, 0.00074, 0.00083, 0.00099, 0.00125, 0.00168, 0.0024,
+      0.00359, 0.00558, 0.00888, 0.01435, 0.02339, 0.03827, 0.06254, 0.10161,
+      0.16308, 0.25627, 0.389, 0.55957, 0.74466, 0.897, 0.97729,
+    ],
+  },
+  {
+    country: 'US',
+    countryName: 'United States',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 76.3,
+    qx: [
+      0.006, 0.00247, 0.00186, 0.00208, 0.00243, 0.00298, 0.00387, 0.00529,
+      0.00755, 0.01117, 0.01692, 0.02607, 0.04051, 0.06319, 0.09835, 0.1519,
+      0.23103, 0.34258, 0.48838, 0.65746, 0.81973, 0.93545, 0.98752,
+    ],
+  },
+  {
+    country: 'GB',
+    countryName: 'United Kingdom',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 83.0,
+    qx: [
+      0.00352, 0.00117, 0.00072, 0.0008, 0.00094, 0.00116, 0.00153, 0.00215,
+      0.00318, 0.0049, 0.00774, 0.01247, 0.02028, 0.03316, 0.05424, 0.08832,
+      0.14237, 0.22537, 0.34614, 0.50694, 0.69185, 0.85913, 0.96174,
+    ],
+  },
+  {
+    country: 'GB',
+    countryName: 'United Kingdom',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 79.8,
+    qx: [
+      0.004, 0.00206, 0.00176, 0.00192, 0.00217, 0.00257, 0.00322, 0.00425,
+      0.00589, 0.00852, 0.0127, 0.01936, 0.02993, 0.0466, 0.07267, 0.11292,
+      0.17371, 0.26243, 0.385, 0.54017, 0.71124, 0.86283, 0.95831,
+    ],
+  },
+  {
+    country: 'DE',
+    countryName: 'Germany',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 83.3,
+    qx: [
+      0.00308, 0.00109, 0.00072, 0.0008, 0.00093, 0.00114, 0.00151, 0.00211,
+      0.00311, 0.00478, 0.00756, 0.01216, 0.01977, 0.03232, 0.05287, 0.08612,
+      0.13892, 0.22017, 0.33882, 0.49771, 0.68218, 0.85169, 0.95832,
+    ],
+  },
+  {
+    country: 'DE',
+    countryName: 'Germany',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 78.7,
+    qx: [
+      0.0035, 0.00198, 0.00179, 0.00197, 0.00225, 0.0027, 0.00342, 0.00457,
+      0.00641, 0.00934, 0.01401, 0.02144, 0.03322, 0.05176, 0.0807, 0.12517,
+      0.1919, 0.28823, 0.41906, 0.58024, 0.75043, 0.89138, 0.9713,
+    ],
+  },
+  {
+    country: 'FR',
+    countryName: 'France',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 85.1,
+    qx: [
+      0.00334, 0.00113, 0.0007, 0.00076, 0.00087, 0.00105, 0.00135, 0.00185,
+      0.00268, 0.00406, 0.00636, 0.01018, 0.0165, 0.02693, 0.04406, 0.07192,
+      0.11653, 0.18611, 0.29003, 0.43449, 0.61282, 0.79397, 0.92794,
+    ],
+  },
+  {
+    country: 'FR',
+    countryName: 'France',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 79.8,
+    qx: [
+      0.0038, 0.00202, 0.00176, 0.00192, 0.00217, 0.00257, 0.00322, 0.00425,
+      0.0059, 0.00853, 0.01272, 0.0194, 0.02998, 0.04668, 0.0728, 0.11311,
+      0.174, 0.26284, 0.38554, 0.54082, 0.71189, 0.86332, 0.95855,
+    ],
+  },
+  {
+    country: 'CA',
+    countryName: 'Canada',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 84.1,
+    qx: [
+      0.00414, 0.00128, 0.00071, 0.00078, 0.0009, 0.0011, 0.00143, 0.00198,
+      0.00289, 0.00441, 0.00694, 0.01113, 0.01807, 0.02953, 0.04831, 0.07878,
+      0.12737, 0.20267, 0.31393, 0.46583, 0.64788, 0.8241, 0.94462,
+    ],
+  },
+  {
+    country: 'CA',
+    countryName: 'Canada',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 80.4,
+    qx: [
+      0.0047, 0.00217, 0.00174, 0.00189, 0.00213, 0.00251, 0.00311, 0.00407,
+      0.00562, 0.00808, 0.01201, 0.01826, 0.02817, 0.04384, 0.06837, 0.10633,
+      0.16386, 0.24832, 0.36606, 0.51731, 0.68792, 0.84469, 0.94915,
+    ],
+  },
+  {
+    country: 'CN',
+    countryName: 'China',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 80.5,
+    qx: [
+      0.00634, 0.0017, 0.00075, 0.00085, 0.00102, 0.0013, 0.00177, 0.00255,
+      0.00385, 0.00601, 0.00959, 0.01553, 0.02534, 0.04146, 0.06771, 0.10985,
+      0.17583, 0.27503, 0.41445, 0.58971, 0.77309, 0.91538, 0.98363,
+    ],
+  },
+  {
+    country: 'CN',
+    countryName: 'China',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 74.7,
+    qx: [
+      0.0072, 0.00271, 0.00192, 0.00217, 0.00257, 0.00321, 0.00424, 0.00588,
+      0.0085, 0.01267, 0.01931, 0.02985, 0.04647, 0.07248, 0.11262, 0.17326,
+      0.26179, 0.38414, 0.53914, 0.7102, 0.86204, 0.95793, 0.99371,
+    ],
+  },
+  {
+    country: 'BR',
+    countryName: 'Brazil',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 79.4,
+    qx: [
+      0.0117, 0.00267, 0.00076, 0.00087, 0.00105, 0.00135, 0.00185, 0.00268,
+      0.00406, 0.00635, 0.01016, 0.01648, 0.0269, 0.04401, 0.07184, 0.1164,
+      0.18591, 0.28974, 0.4341, 0.61237, 0.79358, 0.92771, 0.98741,
+    ],
+  },
+  {
+    country: 'BR',
+    countryName: 'Brazil',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 72.4,
+    qx: [
+      0.0133, 0.00385, 0.002, 0.00229, 0.00277, 0.00353, 0.00475, 0.0067,
+      0.00981, 0.01476, 0.02264, 0.03511, 0.05472, 0.08529, 0.13215, 0.20218,
+      0.30267, 0.43779, 0.60169, 0.77052, 0.90503, 0.97685, 0.99758,
+    ],
+  },
+  {
+    country: 'IN',
+    countryName: 'India',
+    sex: 'female',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 72.2,
+    qx: [
+      0.02552, 0.00523, 0.0009, 0.00111, 0.00144, 0.002, 0.00294, 0.00449,
+      0.00707, 0.01135, 0.01844, 0.03013, 0.04929, 0.08037, 0.12988, 0.20648,
+      0.31938, 0.47287, 0.65559, 0.83046, 0.94792, 0.9927, 0.99972,
+    ],
+  },
+  {
+    country: 'IN',
+    countryName: 'India',
+    sex: 'male',
+    year: YEAR,
+    source: SOURCE,
+    lifeExpectancyAtBirth: 69.5,
+    qx: [
+      0.029, 0.00672, 0.00208, 0.00243, 0.00299, 0.00388, 0.0053, 0.00757,
+      0.0112, 0.01698, 0.02615, 0.04064, 0.06339, 0.09867, 0.15237, 0.23171,
+      0.34351, 0.48954, 0.65871, 0.82078, 0.93605, 0.9877, 0.99912,
+    ],
+  },
+];
+
+/**
+ * Distinct country codes with a bundled table, in display order.
+ */
+export const LIFE_TABLE_COUNTRIES: readonly string[] = [
+  ...new Set(LIFE_TABLES.map((table) => table.country)),
+];
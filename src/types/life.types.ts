@@ -34,20 +34,154 @@
  */
 
 /**
- * Defines the geometric shape used to render each life-month cell.
+ * Defines the geometric shape used to render each timeline cell.
  *
  * This affects how the Canvas renderer draws individual timeline units.
  * React layer selects this value via user configuration.
+ *
+ * Every shape is described once in the shape registry (life.shapeRegistry.ts);
+ * "custom" is the user-supplied emoji or SVG path (UserConfig.customShape).
+ */
+export type Shape =
+  | 'square'
+  | 'circle'
+  | 'heart'
+  | 'roundedSquare'
+  | 'hexagon'
+  | 'diamond'
+  | 'star'
+  | 'custom';
+
+/**
+ * The outline a cell is drawn with, as carried by display lists:
+ * - path:  an SVG path ("d") drawn inside a box × box square
+ * - glyph: a text glyph (e.g. an emoji) filling the cell; its outline is the
+ *          cell box
+ */
+export type ShapeOutline =
+  | { kind: 'path'; d: string; box: number }
+  | { kind: 'glyph'; text: string };
+
+/**
+ * An entry of the shape registry: everything the app needs to know about a shape.
+ */
+export interface ShapeDefinition {
+  /**
+   * Name shown in the settings and in Lively.
+   */
+  label: string;
+  /**
+   * Outline on the unit box [0, 1] × [0, 1] (SVG path "d"), or null when the
+   * outline is supplied by the user.
+   */
+  path: string | null;
+  /**
+   * Fill-progress clip strategy of the present cell: the part of the unit box
+   * to fill for a progress in [0, 1], as [x, y, width, height].
+   */
+  getFillClip: (progress: number) => [number, number, number, number];
+  /**
+   * Hit area: whether a point of the unit box (u, v) belongs to the shape.
+   */
+  contains: (u: number, v: number) => boolean;
+}
+
+/**
+ * Defines how the present cell fills up as its unit progresses. Every style
+ * works on the unit box, so it applies to every shape alike.
+ *
+ * - auto: the direction of the shape itself (see ShapeDefinition.getFillClip)
+ * - horizontal: from the left edge
+ * - vertical: from the bottom edge, like a liquid
+ * - radial: a disc growing from the center
+ * - pie: a clockwise sweep from twelve o'clock, like a clock hand
+ * - opacity: the whole shape at once, fading in
+ *
+ * Every style is described once in the fill style registry (life.fillStyles.ts).
+ */
+export type FillStyle =
+  | 'auto'
+  | 'horizontal'
+  | 'vertical'
+  | 'radial'
+  | 'pie'
+  | 'opacity';
+
+/**
+ * The lived part of the present cell.
+ */
+export interface FillRegion {
+  /**
+   * Clip on the unit box [0, 1] × [0, 1] (SVG path "d"), or null to fill the
+   * whole shape.
+   */
+  clip: string | null;
+  /**
+   * Opacity of the fill [0, 1].
+   */
+  alpha: number;
+}
+
+/**
+ * An entry of the fill style registry.
  */
-export type Shape = 'square' | 'circle' | 'heart';
+export interface FillStyleDefinition {
+  /**
+   * Name shown in the settings and in Lively.
+   */
+  label: string;
+  /**
+   * The lived part of a cell of the given shape for a progress in [0, 1].
+   */
+  getFillRegion: (progress: number, cellShape: ShapeDefinition) => FillRegion;
+}
 
 /**
  * Defines the active theme preference selected by the user.
  *
  * This determines the color palette used by the Canvas renderer
- * during timeline drawing.
+ * during timeline drawing. "schedule" switches between light and dark by
+ * the time of day (see ThemeSchedule).
+ */
+export type ThemePreference = 'light' | 'dark' | 'system' | 'schedule';
+
+/**
+ * Defines when the "schedule" theme switches.
+ *
+ * - fixed: light from one time of day, dark from another
+ * - sun: light from sunrise, dark from sunset, computed offline for a location
+ */
+export type ThemeScheduleKind = 'fixed' | 'sun';
+
+/**
+ * The time-of-day schedule of the "schedule" theme.
  */
-export type ThemePreference = 'light' | 'dark' | 'system';
+export interface ThemeSchedule {
+  /**
+   * Whether the theme follows fixed times or the sun.
+   */
+  readonly kind: ThemeScheduleKind;
+
+  /**
+   * Local time of day (HH:MM) the light theme starts at ("fixed" only).
+   */
+  readonly lightAt: string;
+
+  /**
+   * Local time of day (HH:MM) the dark theme starts at ("fixed" only).
+   */
+  readonly darkAt: string;
+
+  /**
+   * Latitude of the user in degrees, north positive [-90, 90] ("sun" only).
+   */
+  readonly latitude: number;
+
+  /**
+   * Longitude of the user in degrees, east positive [-180, 180] ("sun" only).
+   */
+  readonly longitude: number;
+}
 
 /**
  * Defines the active theme mode.
@@ -57,7 +191,120 @@ export type ThemePreference = 'light' | 'dark' | 'system';
 export type ThemeMode = 'light' | 'dark';
 
 /**
- * Semantic classification of a single life-month cell.
+ * Defines the span of life represented by a single timeline cell.
+ *
+ * - year: one cell per completed year of age (~80 cells)
+ * - month: one cell per DOB-anchored life-month (~960 cells)
+ * - week: one cell per 7 days lived, the classic "life in weeks" poster (~4,200 cells)
+ * - day: one cell per calendar day lived (~29,000 cells)
+ */
+export type Granularity = 'year' | 'month' | 'week' | 'day';
+
+/**
+ * Defines the span of time represented by a single cell at ANY zoom level.
+ *
+ * Extends Granularity with "hour", which is never selectable as the lifetime
+ * granularity but is used when zooming into a single day (24 hour cells).
+ */
+export type TimeUnit = Granularity | 'hour';
+
+/**
+ * Defines how far the timeline is zoomed in.
+ *
+ * - life: the whole lifetime at the user's Granularity
+ * - year: one year of age, as its 12 life-months
+ * - month: one life-month, as its days
+ * - day: one calendar day, as its 24 hours
+ */
+export type ZoomLevel = 'life' | 'year' | 'month' | 'day';
+
+/**
+ * Defines how the life expectancy used by the timeline is obtained.
+ *
+ * - manual: the user types a number of years
+ * - estimate: derived from a bundled life table, conditioned on current age
+ */
+export type ExpectancyMode = 'manual' | 'estimate';
+
+/**
+ * Sex used to select a life table.
+ */
+export type Sex = 'female' | 'male';
+
+/**
+ * Smoking status used as a mortality (hazard) adjustment.
+ */
+export type SmokingStatus = 'never' | 'former' | 'current';
+
+/**
+ * Physical activity level used as a mortality (hazard) adjustment.
+ */
+export type ActivityLevel = 'sedentary' | 'moderate' | 'active';
+
+/**
+ * Defines how future (not yet lived) cells are shaded.
+ *
+ * - flat: every future cell uses the same neutral color
+ * - survival: each future cell fades with the probability of being alive at that age
+ */
+export type FutureShading = 'flat' | 'survival';
+
+/**
+ * Defines which thread paints the timeline canvas.
+ *
+ * - worker: a Web Worker paints an OffscreenCanvas, keeping the main thread
+ *   free (falls back to "main" where OffscreenCanvas is unavailable)
+ * - main: the page itself paints the canvas
+ */
+export type RenderBackend = 'worker' | 'main';
+
+/**
+ * Defines where survival probabilities come from in "survival" shading.
+ *
+ * - lifeTable: the bundled life table selected for the actuarial estimate
+ * - gompertz: a configurable Gompertz mortality curve
+ */
+export type SurvivalModel = 'lifeTable' | 'gompertz';
+
+/**
+ * Defines how a life event is pinned onto its cell.
+ *
+ * - badge: a small colored dot (with the event icon on large cells) in the cell corner
+ * - ring: a colored outline around the cell
+ * - recolor: the cell itself is painted in the event color
+ */
+export type EventMarker = 'badge' | 'ring' | 'recolor';
+
+/**
+ * Defines how the timeline cells are arranged on the screen.
+ *
+ * - grid: a near-square grid filling the viewport
+ * - yearRows: one row per year (12 months, 52 weeks, ...; ten years per row
+ *   at year granularity)
+ * - decades: blocks of ten years, separated by gutters
+ * - spiral: an Archimedean spiral unwinding from the center
+ * - rings: concentric rings, one per decade
+ * - honeycomb: hexagonal cells tiled in offset rows, filling the viewport
+ */
+export type LayoutStrategy =
+  | 'grid'
+  | 'yearRows'
+  | 'decades'
+  | 'spiral'
+  | 'rings'
+  | 'honeycomb';
+
+/**
+ * Defines in which order the rows of the row-based layouts are filled.
+ *
+ * - leftToRight: every row starts on the left
+ * - rightToLeft: every row starts on the right
+ * - snake: rows alternate direction, so consecutive cells always touch
+ */
+export type CellOrder = 'leftToRight' | 'rightToLeft' | 'snake';
+
+/**
+ * Semantic classification of a single timeline cell.
  *
  * Used by the Canvas rendering engine to determine:
  * - fill color
@@ -65,13 +312,23 @@ export type ThemeMode = 'light' | 'dark';
  * - partial fill logic
  *
  * States:
- * - past: fully lived month
- * - present: current month (partially filled)
+ * - past: fully lived unit (year, month, week or day)
+ * - present: current unit (partially filled)
  * - future: not yet lived
  * - empty: optional safety fallback
  */
 export type CellState = 'past' | 'present' | 'future' | 'empty';
 
+/**
+ * A 2D drawing context the Canvas renderer can paint on.
+ *
+ * Either a page <canvas> or an OffscreenCanvas (the render worker paints one
+ * off the main thread, and caches are kept in one where available).
+ */
+export type Canvas2DContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
 /**
  * Position of the cell inside the grid
  *
@@ -89,162 +346,1159 @@ export interface CellPosition {
 }
 
 /**
- * USER CONFIGURATION MODEL
- *
- * Represents user-controlled input values.
+ * Source of the "current" instant for every time-dependent module.
  *
- * This object is:
- * -collected via React UI
- * -validated in SettingsOverlay.tsx
- * -persisted in localStorage
+ * Utilities and components MUST read the present moment through a Clock
+ * instead of calling `new Date()` directly. This allows:
+ * - previewing the timeline as of any other date (time travel)
+ * - deterministic, reproducible calculations
  *
- * MUST NOT contain derived values such as:
- * -totalMonths
- * -fullMonthsLived
- * -currentMonthProgress
+ * Implementations live in the clock layer (life.clock.ts).
+ */
+export interface Clock {
+  /**
+   * Returns the current instant as seen by this clock.
+   * Every call returns a fresh Date object that callers may mutate freely.
+   */
+  now: () => Date;
+}
+
+/**
+ * An abridged period life table for one country and sex.
  *
- * DOB is stored as an ISO string (YYYY-MM-DD) to ensure
- * JSON serialization compatibility with localStorage.
+ * Bundled with the application (src/data/life.tables.ts) so estimates work offline.
  */
-export interface UserConfig {
+export interface LifeTable {
   /**
-   * User's date of birth in ISO format (YYY-MM-DD).
-   * @example: "2004-12-19"
-   * @default: "1995-01-01"
+   * ISO 3166-1 alpha-2 country code.
+   * @example: "JP"
    */
-  readonly dob: string;
+  readonly country: string;
 
   /**
-   * User's life expectancy
-   * @default: 80
+   * Human readable country name.
    */
-  readonly expectancy: number;
+  readonly countryName: string;
+
+  readonly sex: Sex;
 
   /**
-   * User's personal message
-   * @default: "Your time, your story."
+   * Calendar year the period table describes.
    */
-  readonly message: string;
+  readonly year: number;
 
   /**
-   * User's choice of theme
-   * @default: "light"
+   * Human readable description of where the numbers come from.
    */
-  readonly theme: ThemePreference;
+  readonly source: string;
 
   /**
-   * User's choice of shape
-   * @default: "square"
+   * Published period life expectancy at birth (years).
    */
-  readonly shape: Shape;
+  readonly lifeExpectancyAtBirth: number;
+
+  /**
+   * Probability of dying within each abridged age interval (LIFE_TABLE_AGES).
+   */
+  readonly qx: readonly number[];
 }
 
 /**
- * RENDER CONFIGURATION MODEL
+ * Result of an actuarial life expectancy estimate.
+ */
+export interface ExpectancyEstimate {
+  /**
+   * Total expected lifespan in years (current age + remaining years).
+   */
+  expectancy: number;
+
+  /**
+   * Expected remaining years of life from the current age.
+   */
+  remainingYears: number;
+
+  /**
+   * Exact current age in (fractional) years used for conditioning.
+   */
+  currentAge: number;
+
+  /**
+   * The life table the estimate was derived from.
+   */
+  table: LifeTable;
+}
+
+/**
+ * A span of time split into calendar units.
  *
- * Represents derived runtime values computed from UserConfig.
+ * Produced by the calendar arithmetic engine (life.calendar.ts) by borrowing
+ * downwards (years → months → days → ... → milliseconds).
+ * Every field is a non-negative integer.
+ */
+export interface CalendarDifference {
+  years: number;
+  /** Range [0, 11] */
+  months: number;
+  /** Range [0, 30] */
+  days: number;
+  /** Range [0, 23] */
+  hours: number;
+  /** Range [0, 59] */
+  minutes: number;
+  /** Range [0, 59] */
+  seconds: number;
+  /** Range [0, 999] */
+  milliseconds: number;
+}
+
+/**
+ * LIFE EVENT MODEL
  *
- * This object is:
- * -produced by the utils layer
- * -consumed by the Canvas renderer
+ * Something that happened (or will happen) on a specific date, pinned to the
+ * cell containing that date.
  *
- * MUST NEVER be persisted in localStorage
+ * Like UserConfig this is user-controlled input and is persisted in
+ * localStorage (under its own key, next to UserConfig).
  */
-export interface RenderConfig {
+export interface LifeEvent {
   /**
-   * Total number of life months to render.
-   * Computed as: expectancy * 12
+   * Stable identifier used by the settings list.
    */
-  totalMonths: number;
+  readonly id: string;
 
   /**
-   * Number of fully completed months lived.
+   * Date of the event in YYYY-MM-DD format.
+   * @example: "2013-09-01"
    */
-  fullMonthsLived: number;
+  readonly date: string;
 
   /**
-   * Fractional progress withing the current month.
-   * Must always be within range [0, 1].
+   * Short title of the event.
+   * @example: "Started university"
    */
-  currentMonthProgress: number;
+  readonly title: string;
 
   /**
-   * Active theme mode used during rendering.
+   * Emoji or short glyph drawn on large enough cells. May be empty.
+   * @example: "🎓"
    */
-  themeMode: ThemeMode;
+  readonly icon: string;
 
   /**
-   * Personal message of user
+   * Marker color as a #RRGGBB hex string.
    */
+  readonly color: string;
 
-  message: string;
+  /**
+   * How the event is pinned onto its cell.
+   */
+  readonly marker: EventMarker;
 
   /**
-   * Shape used to render timeline cells.
+   * Optional longer free text note.
    */
-  shape: Shape;
+  readonly note?: string;
 }
 
 /**
- * GRID LAYOUT CONFIGURATION MODEL
- *
- * Represents the spatial geometry of the life timeline grid as it should be
- * rendered on the screen.
- *
- * This configuration is produced by the layout computation layer
- * (life.layout.ts) after adapting the total life duration to the available
- * viewport dimensions.
- *
- * It defines:
- * - how many rows and columns the life grid contains
- * - the pixel size of each life-month cell
- * - the positional offset required to visually center the grid
- *
- * These values are consumed by:
- * - position mapping layer (life.position.ts)
- * - canvas rendering engine (drawing logic)
+ * A LifeEvent resolved onto the timeline grid.
  *
- * NOTE:
+ * This object is:
+ * -produced by the utils layer (life.events.ts)
+ * -consumed by the Canvas renderer
+ */
+export interface EventCell {
+  /**
+   * Index of the cell containing the event date.
+   */
+  index: number;
+
+  date: string;
+  title: string;
+  icon: string;
+  color: string;
+  marker: EventMarker;
+  note?: string;
+}
+
+/**
+ * A named life phase ("School", "Career at X", ...) spanning a date range.
  *
- * LayoutConfig represents geometry only.
- * It must NOT contain:
- * - time-derived values
- * - user preferences
- * - rendering states
+ * Cells inside the range are painted in the era's color (or a gradient from
+ * color to endColor) instead of the default palette.
+ */
+export interface Era {
+  /**
+   * Stable identifier used by the settings list.
+   */
+  readonly id: string;
+
+  /**
+   * Name shown in the legend.
+   * @example: "University"
+   */
+  readonly name: string;
+
+  /**
+   * First day of the era in YYYY-MM-DD format (inclusive).
+   */
+  readonly start: string;
+
+  /**
+   * Last day of the era in YYYY-MM-DD format (inclusive).
+   * An empty string means the era is still ongoing and runs to the end of the grid.
+   */
+  readonly end: string;
+
+  /**
+   * Era color as a #RRGGBB hex string.
+   */
+  readonly color: string;
+
+  /**
+   * Optional #RRGGBB color the era fades into over its length.
+   */
+  readonly endColor?: string;
+}
+
+/**
+ * A set of colors the timeline (and the UI around it) is painted with.
  *
- * It is strictly a viewport-adapted spatial mapping of the timeline.
+ * Every color is a #RRGGBB hex string. Bundled palettes live in
+ * life.palettes.ts; user-defined ones are stored in UserConfig.
  */
-export interface LayoutConfig {
+export interface Palette {
   /**
-   *  Number of grid rows required to represent the full life timeline.
+   * Stable identifier, referenced by UserConfig.palette.
    */
-  rows: number;
+  readonly id: string;
 
   /**
-   * Number of grid columns required such that:
-   * rows * columns >= totalMonths
+   * Name shown in the palette select.
+   * @example: "Viridis"
    */
-  columns: number;
+  readonly name: string;
 
   /**
-   * Side length (in pixels) of each square grid cell allocated for a
-   * life-month unit.
+   * Whether the palette is light or dark: decides the contrast of the text,
+   * highlights and chrome drawn on top of its background.
    */
-  cellSize: number;
+  readonly mode: ThemeMode;
 
   /**
-   * Horizontal offset (in pixels) from the left edge of the viewport
-   * indicating where the grid should begin drawing in order to remain
-   * visually centered.
+   * Color behind the timeline.
    */
-  offsetX: number;
+  readonly background: string;
 
   /**
-   * Vertical offset (in pixels) from the top edge of the viewport
-   * indicating where the grid should begin drawing in order to remain
-   * visually centered.
+   * Gradient stops of lived cells, evenly spaced from birth to the end of
+   * the grid (a single stop paints every lived cell alike).
    */
-  offsetY: number;
+  readonly past: readonly string[];
+
+  /**
+   * Fill of the present cell; null continues the past gradient.
+   */
+  readonly present: string | null;
+
+  /**
+   * Color of future cells (drawn as outlines).
+   */
+  readonly future: string;
+
+  /**
+   * Outline of the present cell.
+   */
+  readonly outline: string;
+
+  /**
+   * Buttons, links and focus rings of the UI around the timeline.
+   */
+  readonly accent: string;
+}
+
+/**
+ * Defines what is drawn behind the timeline.
+ *
+ * - palette: the background color of the active palette
+ * - solid: a color of the user's choice
+ * - gradient: a linear gradient between two colors
+ * - image: a local image file, stored in the browser (IndexedDB)
+ */
+export type BackgroundKind = 'palette' | 'solid' | 'gradient' | 'image';
+
+/**
+ * The user's background behind the timeline, and the effects applied to it.
+ *
+ * Every color is a #RRGGBB hex string. Only the fields of the selected kind
+ * are used; the others are kept so switching back restores them.
+ */
+export interface Background {
+  /**
+   * What is drawn behind the timeline.
+   */
+  readonly kind: BackgroundKind;
+
+  /**
+   * Color of the "solid" background.
+   */
+  readonly color: string;
+
+  /**
+   * Start and end colors of the "gradient" background.
+   */
+  readonly gradientFrom: string;
+  readonly gradientTo: string;
+
+  /**
+   * Direction of the gradient in degrees, as in CSS (0 points up, 90 right).
+   */
+  readonly gradientAngle: number;
+
+  /**
+   * Key of the "image" background in the image store (life.imageStore.ts);
+   * a new image always gets a new key.
+   */
+  readonly imageId: string;
+
+  /**
+   * File name of the image, shown in the settings.
+   */
+  readonly imageName: string;
+
+  /**
+   * Blur radius of the image, in CSS pixels.
+   */
+  readonly blur: number;
+
+  /**
+   * How much the background is darkened [0, 1].
+   */
+  readonly dim: number;
+
+  /**
+   * How much the corners are darkened [0, 1].
+   */
+  readonly vignette: number;
+}
+
+/**
+ * An Era resolved onto the timeline grid.
+ *
+ * This object is:
+ * -produced by the utils layer (life.eras.ts)
+ * -consumed by the Canvas renderer
+ */
+export interface EraRange {
+  name: string;
+
+  /**
+   * Index of the first cell of the era.
+   */
+  startIndex: number;
+
+  /**
+   * Index of the last cell of the era (inclusive).
+   */
+  endIndex: number;
+
+  color: string;
+  endColor?: string;
+}
+
+/**
+ * The zoomed-in part of the timeline currently on screen.
+ *
+ * `index` is a DOB-anchored unit index of the zoomed unit (ignored for "life"):
+ * the year of age for "year", the life-month for "month" and the day since
+ * birth for "day". Like the time travel preview it is never persisted.
+ */
+export interface ZoomState {
+  level: ZoomLevel;
+  index: number;
+}
+
+/**
+ * Everything worth knowing about one timeline cell, for tooltips and the
+ * detail panel.
+ *
+ * This object is:
+ * -produced by the utils layer (life.cellDetails.ts)
+ * -consumed by the React UI
+ */
+export interface CellDetails {
+  index: number;
+
+  /**
+   * First instant of the cell.
+   */
+  start: Date;
+
+  /**
+   * First instant after the cell (exclusive end).
+   */
+  end: Date;
+
+  /**
+   * Age of the user at the start of the cell.
+   */
+  ageAtStart: CalendarDifference;
+
+  state: CellState;
+
+  /**
+   * Fraction of the cell already lived, within [0, 1].
+   */
+  progress: number;
+
+  /**
+   * Life events pinned to the cell, sorted by date.
+   */
+  events: EventCell[];
+
+  /**
+   * Name of the era coloring the cell, or null.
+   */
+  eraName: string | null;
+}
+
+/**
+ * USER CONFIGURATION MODEL
+ *
+ * Represents user-controlled input values.
+ *
+ * This object is:
+ * -collected via React UI
+ * -validated in SettingsOverlay.tsx
+ * -persisted in localStorage
+ *
+ * MUST NOT contain derived values such as:
+ * -totalCells
+ * -fullCellsLived
+ * -currentCellProgress
+ *
+ * DOB is stored as an ISO string (YYYY-MM-DD) to ensure
+ * JSON serialization compatibility with localStorage.
+ */
+export interface UserConfig {
+  /**
+   * User's date of birth in ISO format (YYY-MM-DD).
+   * @example: "2004-12-19"
+   * @default: "1995-01-01"
+   */
+  readonly dob: string;
+
+  /**
+   * User's life expectancy (used when expectancyMode is "manual")
+   * @default: 80
+   */
+  readonly expectancy: number;
+
+  /**
+   * Whether the expectancy is typed by the user or estimated from a life table
+   * @default: "manual"
+   */
+  readonly expectancyMode: ExpectancyMode;
+
+  /**
+   * Country code of the life table used in "estimate" mode
+   * @default: "US"
+   */
+  readonly lifeTableCountry: string;
+
+  /**
+   * Sex used to pick the life table in "estimate" mode
+   * @default: "female"
+   */
+  readonly sex: Sex;
+
+  /**
+   * Smoking status adjustment applied in "estimate" mode
+   * @default: "never"
+   */
+  readonly smoking: SmokingStatus;
+
+  /**
+   * Physical activity adjustment applied in "estimate" mode
+   * @default: "moderate"
+   */
+  readonly activity: ActivityLevel;
+
+  /**
+   * User's personal message
+   * @default: "Your time, your story."
+   */
+  readonly message: string;
+
+  /**
+   * User's choice of theme
+   * @default: "light"
+   */
+  readonly theme: ThemePreference;
+
+  /**
+   * When the "schedule" theme switches between light and dark
+   * @default: light from 07:00, dark from 19:00
+   */
+  readonly themeSchedule: ThemeSchedule;
+
+  /**
+   * User's choice of shape
+   * @default: "square"
+   */
+  readonly shape: Shape;
+
+  /**
+   * Emoji (or any short text) or SVG path in a 24 × 24 box, used by the
+   * "custom" shape
+   * @default: "🌱"
+   */
+  readonly customShape: string;
+
+  /**
+   * Span of life represented by a single cell
+   * @default: "month"
+   */
+  readonly granularity: Granularity;
+
+  /**
+   * Arrangement of the cells on the screen
+   * @default: "grid"
+   */
+  readonly layout: LayoutStrategy;
+
+  /**
+   * Fill order of the rows (row-based layouts only)
+   * @default: "leftToRight"
+   */
+  readonly cellOrder: CellOrder;
+
+  /**
+   * How the present cell fills up as its unit progresses
+   * @default: "auto"
+   */
+  readonly fillStyle: FillStyle;
+
+  /**
+   * How future cells are shaded
+   * @default: "flat"
+   */
+  readonly futureShading: FutureShading;
+
+  /**
+   * Source of survival probabilities when futureShading is "survival"
+   * @default: "lifeTable"
+   */
+  readonly survivalModel: SurvivalModel;
+
+  /**
+   * Modal age at death (years) of the Gompertz survival curve
+   * @default: 85
+   */
+  readonly gompertzModalAge: number;
+
+  /**
+   * Dispersion (years) of the Gompertz survival curve; larger spreads deaths out
+   * @default: 10
+   */
+  readonly gompertzDispersion: number;
+
+  /**
+   * Age (years) the grid extends to when futureShading is "survival"
+   * @default: 110
+   */
+  readonly maxAge: number;
+
+  /**
+   * Named life phases painted as colored ranges
+   * @default: []
+   */
+  readonly eras: readonly Era[];
+
+  /**
+   * Id of the palette the timeline is painted with ("auto" follows the theme)
+   * @default: "auto"
+   */
+  readonly palette: string;
+
+  /**
+   * Palettes created in the theme editor
+   * @default: []
+   */
+  readonly customPalettes: readonly Palette[];
+
+  /**
+   * What is drawn behind the timeline, with its blur, dim and vignette
+   * @default: the palette background, without effects
+   */
+  readonly background: Background;
+
+  /**
+   * Animates the timeline: a pulse on the present cell, its fill advancing in
+   * real time and a sweep from birth to today on load. Always off when the
+   * OS asks for reduced motion.
+   * @default: false
+   */
+  readonly motion: boolean;
+
+  /**
+   * Thread painting the timeline canvas
+   * @default: 'worker'
+   */
+  readonly renderBackend: RenderBackend;
+}
+
+/**
+ * RENDER CONFIGURATION MODEL
+ *
+ * Represents derived runtime values computed from UserConfig.
+ *
+ * This object is:
+ * -produced by the utils layer
+ * -consumed by the Canvas renderer
+ *
+ * MUST NEVER be persisted in localStorage
+ */
+export interface RenderConfig {
+  /**
+   * Date of birth (YYYY-MM-DD) the grid is anchored to.
+   * Already validated; used to map cells back to dates (e.g. tooltips).
+   */
+  dob: string;
+
+  /**
+   * Index of the first rendered cell.
+   * 0 for the lifetime view; a zoomed view renders the window
+   * [firstCellIndex, firstCellIndex + totalCells) of its unit sequence.
+   */
+  firstCellIndex: number;
+
+  /**
+   * Total number of cells to render.
+   * Computed as the number of granularity units between DOB and DOB + expectancy
+   * (or the number of cells inside the zoomed unit).
+   */
+  totalCells: number;
+
+  /**
+   * Number of cells of the current unit spanning the whole lifetime grid.
+   * Equals totalCells for the lifetime view; the color gradient is spread
+   * over it so zoomed views keep their place in the lifetime gradient.
+   */
+  lifetimeCells: number;
+
+  /**
+   * Number of fully completed units (cells) lived.
+   * Like every cell index, counted from birth (not from firstCellIndex).
+   */
+  fullCellsLived: number;
+
+  /**
+   * Fractional progress within the current unit.
+   * Must always be within range [0, 1].
+   */
+  currentCellProgress: number;
+
+  /**
+   * Wall-clock length of the current unit in milliseconds (0 if unknown),
+   * so an animated present cell can keep filling between two configs.
+   */
+  currentCellDuration: number;
+
+  /**
+   * Span of time represented by a single cell at the current zoom level.
+   */
+  granularity: TimeUnit;
+
+  /**
+   * The zoom level this config was built for.
+   */
+  zoom: ZoomState;
+
+  /**
+   * Effective life expectancy in (possibly fractional) years.
+   * Either the manual value or the actuarial estimate.
+   */
+  expectancy: number;
+
+  /**
+   * Probability of still being alive at each whole year of age (index = age),
+   * conditioned on being alive today. Ages already lived map to 1.
+   * Null when future cells use flat shading.
+   */
+  futureSurvival: number[] | null;
+
+  /**
+   * Life events that fall inside the grid, sorted by date.
+   * Several events may share the same cell index.
+   */
+  events: EventCell[];
+
+  /**
+   * Eras that overlap the grid, ordered by precedence: when eras overlap,
+   * the first range containing a cell colors it (see life.eras.ts).
+   */
+  eras: EraRange[];
+
+  /**
+   * Active theme mode used during rendering (the mode of the palette).
+   */
+  themeMode: ThemeMode;
+
+  /**
+   * Colors the timeline is painted with. Over a custom background, its
+   * background is the average color seen behind the grid and its cell colors
+   * are adjusted to keep their contrast (see life.backdrop.ts).
+   */
+  palette: Palette;
+
+  /**
+   * The user's background, for outputs that draw it themselves (exports).
+   */
+  background: Background;
+
+  /**
+   * Personal message of user
+   */
+
+  message: string;
+
+  /**
+   * Shape used to render timeline cells.
+   */
+  shape: Shape;
+
+  /**
+   * The user-supplied outline of the "custom" shape (see UserConfig).
+   */
+  customShape: string;
+
+  /**
+   * Arrangement of the cells on the screen.
+   */
+  layout: LayoutStrategy;
+
+  /**
+   * Fill order of the rows of the row-based layouts.
+   */
+  cellOrder: CellOrder;
+
+  /**
+   * How the present cell fills up.
+   */
+  fillStyle: FillStyle;
+
+  /**
+   * Whether the user enabled animations (the renderer still honors the OS
+   * reduced motion preference).
+   */
+  motion: boolean;
+}
+
+/**
+ * GRID LAYOUT CONFIGURATION MODEL
+ *
+ * Represents the spatial geometry of the life timeline as it should be
+ * rendered on the screen.
+ *
+ * This configuration is produced by the layout computation layer
+ * (life.layout.ts) after adapting the total life duration to the available
+ * viewport dimensions.
+ *
+ * It defines:
+ * - how the cells are arranged (a grid of blocks, a spiral, rings or a
+ *   honeycomb)
+ * - the pixel size of each timeline cell
+ * - the positional offset required to visually center the cells
+ *
+ * These values are consumed by:
+ * - position mapping layer (life.position.ts)
+ * - hit-testing layer (life.hitTest.ts)
+ * - canvas rendering engine (drawing logic)
+ *
+ * NOTE:
+ *
+ * LayoutConfig represents geometry only.
+ * It must NOT contain:
+ * - time-derived values
+ * - user preferences
+ * - rendering states
+ *
+ * It is strictly a viewport-adapted spatial mapping of the timeline.
+ */
+interface BaseLayoutConfig {
+  /**
+   * Side length (in pixels) of each square grid cell allocated for a
+   * single timeline unit.
+   */
+  cellSize: number;
+
+  /**
+   * Box (in pixels) enclosing every cell, e.g. to place the legend around.
+   */
+  bounds: LayoutBounds;
+
+  /**
+   * Width and height (in pixels) of the viewport the grid was laid out in.
+   */
+  width: number;
+  height: number;
+
+  /**
+   * Margins kept free of the grid and overlays (e.g. for a dock or taskbar).
+   */
+  safeArea: SafeAreaInsets;
+}
+
+/**
+ * Cells in rows, grouped into blocks of equal size (the plain grid and the
+ * year rows are a single block; decades are one block each).
+ */
+export interface GridLayoutConfig extends BaseLayoutConfig {
+  kind: 'grid';
+
+  /**
+   *  Number of rows of a block.
+   */
+  rows: number;
+
+  /**
+   * Number of cells of a row, such that:
+   * rows * columns * blocks >= totalCells
+   */
+  columns: number;
+
+  /**
+   * Number of blocks, and how many of them sit side by side.
+   */
+  blocks: number;
+  blocksPerRow: number;
+
+  /**
+   * Space (in pixels) between neighboring blocks.
+   */
+  gutter: number;
+
+  /**
+   * Direction in which the rows are filled.
+   */
+  order: CellOrder;
+
+  /**
+   * Horizontal offset (in pixels) from the left edge of the viewport
+   * indicating where the grid should begin drawing in order to remain
+   * visually centered.
+   */
+  offsetX: number;
+
+  /**
+   * Vertical offset (in pixels) from the top edge of the viewport
+   * indicating where the grid should begin drawing in order to remain
+   * visually centered.
+   */
+  offsetY: number;
+}
+
+/**
+ * Cells along an Archimedean spiral, one cell apart along the curve and
+ * between its turns, starting at the center.
+ */
+export interface SpiralLayoutConfig extends BaseLayoutConfig {
+  kind: 'spiral';
+
+  /**
+   * Center (in pixels) of the spiral.
+   */
+  centerX: number;
+  centerY: number;
+
+  /**
+   * Angle (in radians, along the unwound spiral) of the first cell.
+   */
+  startAngle: number;
+
+  /**
+   * Number of cells on the spiral.
+   */
+  cells: number;
+}
+
+/**
+ * Cells on concentric rings, clockwise from 12 o'clock, one cell apart
+ * between rings; the innermost ring holds the first cells.
+ */
+export interface RingsLayoutConfig extends BaseLayoutConfig {
+  kind: 'rings';
+
+  /**
+   * Center (in pixels) of the rings.
+   */
+  centerX: number;
+  centerY: number;
+
+  /**
+   * Radius (in pixels) of the innermost ring, through the cell centers.
+   */
+  innerRadius: number;
+
+  /**
+   * Number of cells of a ring, and number of rings.
+   */
+  cellsPerRing: number;
+  rings: number;
+}
+
+/**
+ * Pointy-topped hexagons tiled in rows, every other row shifted by half a
+ * cell. A cell box (cellSize wide and high) holds one hexagon as tall as the
+ * box; boxes overlap, since hexagons sit √3/2 of a box apart within a row and
+ * 3/4 of a box apart between rows, which offsetX/offsetY and a uniform cell
+ * pitch cannot express.
+ */
+export interface HoneycombLayoutConfig extends BaseLayoutConfig {
+  kind: 'honeycomb';
+
+  /**
+   * Number of rows, and of cells of a row.
+   */
+  rows: number;
+  columns: number;
+
+  /**
+   * Direction in which the rows are filled.
+   */
+  order: CellOrder;
+
+  /**
+   * Top-left corner (in pixels) of the box of the first cell.
+   */
+  originX: number;
+  originY: number;
+
+  /**
+   * Distance (in pixels) between neighboring cells of a row, and between rows.
+   */
+  pitchX: number;
+  pitchY: number;
+}
+
+export type LayoutConfig =
+  | GridLayoutConfig
+  | SpiralLayoutConfig
+  | RingsLayoutConfig
+  | HoneycombLayoutConfig;
+
+/**
+ * Axis-aligned box in pixels.
+ */
+export interface LayoutBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Margins (in pixels) along each edge of a viewport or image that must stay
+ * free of content, e.g. behind a taskbar, a dock or a lock screen clock.
+ */
+export interface SafeAreaInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * A target resolution for image exports.
+ */
+export interface ExportPreset {
+  id: string;
+  label: string;
+  /**
+   * Size of the image in physical pixels.
+   */
+  width: number;
+  height: number;
+  /**
+   * Physical pixels per CSS pixel on the target screen (e.g. 2 for a 4K
+   * screen at 200% scaling), so text and outlines keep their on-screen size.
+   */
+  pixelRatio: number;
+  /**
+   * Default safe-area margins, in CSS pixels.
+   */
+  safeArea: SafeAreaInsets;
+}
+
+/**
+ * A color stop of a gradient paint.
+ */
+export interface GradientStop {
+  /**
+   * Position along the gradient [0, 1].
+   */
+  offset: number;
+  color: string;
+}
+
+/**
+ * A linear gradient between two points (in pixels).
+ */
+export interface LinearGradientPaint {
+  type: 'linear';
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  stops: GradientStop[];
+}
+
+/**
+ * Paint of a display command: a CSS color string, or a gradient.
+ */
+export type DisplayPaint = string | LinearGradientPaint;
+
+/**
+ * Wipes the whole surface (inside the current clip).
+ */
+export interface ClearCommand {
+  op: 'clear';
+}
+
+/**
+ * Pushes / pops the current clip, so a clip only applies until its restore.
+ */
+export interface SaveCommand {
+  op: 'save';
+}
+export interface RestoreCommand {
+  op: 'restore';
+}
+
+/**
+ * Restricts every following command to the union of some rectangles (and
+ * optionally of a path).
+ */
+export interface ClipCommand {
+  op: 'clip';
+  /**
+   * Flat list of rectangles: x, y, width, height, x, y, width, height, ...
+   */
+  rects: number[];
+  /**
+   * A path added to the union: an SVG path ("d") on the unit box, scaled to
+   * size × size with its top-left corner at (x, y).
+   */
+  path?: { d: string; x: number; y: number; size: number };
+}
+
+/**
+ * Draws many copies of one cell shape with the same paint.
+ * The whole grid is made of a few hundred of these at most.
+ */
+export interface ShapesCommand {
+  op: 'shapes';
+  outline: ShapeOutline;
+  /**
+   * Width and height of each copy (the padded draw box of a cell).
+   */
+  size: number;
+  /**
+   * Flat list of top-left corners: x, y, x, y, ...
+   */
+  points: number[];
+  /**
+   * Fill color, or null; the fill is painted before the outline.
+   */
+  fill: string | null;
+  /**
+   * Outline color, or null.
+   */
+  stroke: string | null;
+  lineWidth: number;
+  /**
+   * Opacity [0, 1].
+   */
+  alpha: number;
+}
+
+/**
+ * Draws a rectangle.
+ */
+export interface RectCommand {
+  op: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: DisplayPaint | null;
+  stroke: string | null;
+  lineWidth: number;
+}
+
+/**
+ * Draws a circle.
+ */
+export interface CircleCommand {
+  op: 'circle';
+  cx: number;
+  cy: number;
+  radius: number;
+  fill: string | null;
+  stroke: string | null;
+  lineWidth: number;
+}
+
+/**
+ * Draws a single line of sans-serif text, vertically centered on y.
+ */
+export interface TextCommand {
+  op: 'text';
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+  /**
+   * CSS font weight (400 regular, 300 light).
+   */
+  fontWeight: number;
+  align: 'left' | 'center';
+  color: string;
+}
+
+/**
+ * One drawing instruction of a display list.
+ */
+export type DisplayCommand =
+  | ClearCommand
+  | SaveCommand
+  | RestoreCommand
+  | ClipCommand
+  | ShapesCommand
+  | RectCommand
+  | CircleCommand
+  | TextCommand;
+
+/**
+ * A complete scene, as a serializable list of drawing instructions.
+ *
+ * The display list sits between the scene description and the output:
+ *
+ *     RenderConfig + LayoutConfig  →  DisplayList  →  backend (Canvas 2D, SVG, ...)
+ *
+ * It is plain JSON data (coordinates in CSS pixels, colors as CSS strings),
+ * so it can be built and compared in plain Node, posted to a worker, or
+ * replayed by any backend. Commands are drawn in order, each on top of the
+ * previous ones.
+ */
+export interface DisplayList {
+  /**
+   * Size of the scene (in pixels).
+   */
+  width: number;
+  height: number;
+  commands: DisplayCommand[];
 }
 
 /**
@@ -258,9 +1512,48 @@ export interface LayoutConfig {
 export const defaultConfig: UserConfig = {
   dob: '1995-01-01',
   expectancy: 80,
+  expectancyMode: 'manual',
+  lifeTableCountry: 'US',
+  sex: 'female',
+  smoking: 'never',
+  activity: 'moderate',
   message: 'Your time, your story.',
   theme: 'light',
+  themeSchedule: {
+    kind: 'fixed',
+    lightAt: '07:00',
+    darkAt: '19:00',
+    latitude: 51.48, // Greenwich
+    longitude: 0,
+  },
   shape: 'square',
+  customShape: '🌱',
+  granularity: 'month',
+  layout: 'grid',
+  cellOrder: 'leftToRight',
+  fillStyle: 'auto',
+  futureShading: 'flat',
+  survivalModel: 'lifeTable',
+  gompertzModalAge: 85,
+  gompertzDispersion: 10,
+  maxAge: 110,
+  eras: [],
+  palette: 'auto',
+  customPalettes: [],
+  background: {
+    kind: 'palette',
+    color: '#1E293B', // Tailwind Slate-800
+    gradientFrom: '#0F172A', // Tailwind Slate-900
+    gradientTo: '#4338CA', // Tailwind Indigo-700
+    gradientAngle: 135,
+    imageId: '',
+    imageName: '',
+    blur: 0,
+    dim: 0,
+    vignette: 0,
+  },
+  motion: false,
+  renderBackend: 'worker',
 };
 
 
@@ -275,9 +1568,12 @@ declare global {
    * * When the application is hosted inside Lively, the engine injects
    * user interactions from its native C# menu directly into this function.
    * * @param {string} name - The JSON key of the property being changed (e.g., 'dob', 'theme').
-   * @param {string | number} val - The new value provided by the user.
+   * @param {string | number | boolean} val - The new value provided by the user (checkboxes send booleans).
    */
   interface Window {
-    livelyPropertyListener?: (name: string, val: string | number) => void;
+    livelyPropertyListener?: (
+      name: string,
+      val: string | number | boolean,
+    ) => void;
   }
 }
\ No newline at end of file
@@ -0,0 +1,207 @@
+/**
+ * LIFE TIMELINE BACKDROP
+ *
+ * This file fits the palette to the user's background (see Background): a
+ * solid color, a gradient or an image, darkened by its dim setting.
+ *
+ * The palette was designed for its own background color. Over any other
+ * backdrop, its cells could fade into it (a dark gradient over a night photo)
+ * or its text could become unreadable. So every frame:
+ *
+ * 1. The backdrop color is estimated: the color itself, the middle of the
+ *    gradient, or the average color of the image (measured once it is loaded,
+ *    see life.imageStore.ts), then dimmed.
+ * 2. Every cell color keeps the contrast it had against the palette's own
+ *    background (capped at MIN_CELL_CONTRAST, the WCAG ratio for graphics):
+ *    a color falling short is moved towards white or black, whichever stands
+ *    out more on the backdrop.
+ * 3. The palette background becomes the backdrop color, and its mode follows
+ *    the backdrop's lightness, so text, highlights and marker halos stay
+ *    readable too.
+ *
+ * With the palette's own background and no dim, the palette is returned as is.
+ *
+ * NOTE:
+ *
+ * This file performs pure color math only.
+ * It must NOT:
+ * - access DOM or Canvas APIs (images are measured by the caller)
+ * - read or store the background image
+ */
+
+import type { Background, Palette } from '../types/life.types.ts';
+
+// Largest blur radius of a background image, in CSS pixels
+export const MAX_BACKGROUND_BLUR = 24;
+
+// Strongest dim: a fully black background would hide the image entirely
+export const MAX_BACKGROUND_DIM = 0.9;
+
+// WCAG 2.1 minimum contrast of graphical objects against their surroundings
+const MIN_CELL_CONTRAST = 3;
+
+// Steps a color is moved towards white or black to reach its contrast
+const CONTRAST_STEPS = 10;
+
+const WHITE = '#FFFFFF';
+const BLACK = '#000000';
+
+// A color as its red, green and blue channels (0 to 255)
+export type RGB = [number, number, number];
+
+/**
+ * Parses a #RRGGBB hex string.
+ * @param {string} hex - The color in #RRGGBB format.
+ * @returns {RGB} The color as [R, G, B].
+ */
+export const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.slice(1), 16);
+
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Formats a color as a #RRGGBB hex string.
+ * @param {RGB} rgb - The color as [R, G, B].
+ * @returns {string} The color in #RRGGBB format.
+ */
+const rgbToHex = (rgb: RGB): string =>
+  `#${rgb
+    .map((channel) => Math.round(channel).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`;
+
+/**
+ * Mixes two colors.
+ * @param {string} from - The first color in #RRGGBB format.
+ * @param {string} to - The second color in #RRGGBB format.
+ * @param {number} t - The share of the second color [0, 1].
+ * @returns {string} The mixed color in #RRGGBB format.
+ */
+export const mixColors = (from: string, to: string, t: number): string => {
+  const start = hexToRgb(from);
+  const end = hexToRgb(to);
+
+  return rgbToHex([
+    start[0] + (end[0] - start[0]) * t,
+    start[1] + (end[1] - start[1]) * t,
+    start[2] + (end[2] - start[2]) * t,
+  ]);
+};
+
+/**
+ * Relative luminance, as defined by WCAG 2.1.
+ * @param {string} hex - The color in #RRGGBB format.
+ * @returns {number} The luminance [0, 1].
+ */
+const getRelativeLuminance = (hex: string): number => {
+  const [r, g, b] = hexToRgb(hex).map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Contrast ratio of two colors, as defined by WCAG 2.1.
+ * @param {string} a - A color in #RRGGBB format.
+ * @param {string} b - Another color in #RRGGBB format.
+ * @returns {number} The ratio [1, 21].
+ */
+export const getContrastRatio = (a: string, b: string): number => {
+  const lighter = Math.max(getRelativeLuminance(a), getRelativeLuminance(b));
+  const darker = Math.min(getRelativeLuminance(a), getRelativeLuminance(b));
+
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+/**
+ * Moves a color towards white or black until it reaches a contrast.
+ * @param {string} color - The color in #RRGGBB format.
+ * @param {string} backdrop - The color behind it in #RRGGBB format.
+ * @param {number} minRatio - The contrast to reach.
+ * @returns {string} The color, or the closest mix reaching the contrast.
+ */
+const keepContrast = (
+  color: string,
+  backdrop: string,
+  minRatio: number,
+): string => {
+  if (getContrastRatio(color, backdrop) >= minRatio) return color;
+
+  const target =
+    getContrastRatio(WHITE, backdrop) >= getContrastRatio(BLACK, backdrop)
+      ? WHITE
+      : BLACK;
+
+  for (let step = 1; step < CONTRAST_STEPS; ++step) {
+    const mixed = mixColors(color, target, step / CONTRAST_STEPS);
+    if (getContrastRatio(mixed, backdrop) >= minRatio) return mixed;
+  }
+
+  return target;
+};
+
+/**
+ * Estimates the color seen behind the timeline.
+ * @param {Background} background - The user's background.
+ * @param {string} paletteBackground - The background color of the palette.
+ * @param {string | null} imageColor - The average color of the image, or null until measured.
+ * @returns {string} The dimmed backdrop color in #RRGGBB format.
+ */
+export const getBackdropColor = (
+  background: Background,
+  paletteBackground: string,
+  imageColor: string | null,
+): string => {
+  let color = paletteBackground;
+
+  if (background.kind === 'solid') {
+    color = background.color;
+  } else if (background.kind === 'gradient') {
+    color = mixColors(background.gradientFrom, background.gradientTo, 0.5);
+  } else if (background.kind === 'image' && imageColor !== null) {
+    color = imageColor;
+  }
+
+  return background.dim > 0 ? mixColors(color, BLACK, background.dim) : color;
+};
+
+/**
+ * Fits a palette to the backdrop behind the timeline.
+ * @param {Palette} palette - The selected palette.
+ * @param {Background} background - The user's background.
+ * @param {string | null} imageColor - The average color of the image, or null until measured.
+ * @returns {Palette} The palette as is on its own background, otherwise a copy keeping its contrast.
+ */
+export const fitPaletteToBackdrop = (
+  palette: Palette,
+  background: Background,
+  imageColor: string | null,
+): Palette => {
+  const backdrop = getBackdropColor(background, palette.background, imageColor);
+
+  if (backdrop === palette.background) return palette;
+
+  //each color keeps the contrast it was designed with, up to the WCAG minimum
+  const fit = (color: string): string =>
+    keepContrast(
+      color,
+      backdrop,
+      Math.min(getContrastRatio(color, palette.background), MIN_CELL_CONTRAST),
+    );
+
+  return {
+    ...palette,
+    mode:
+      getContrastRatio(WHITE, backdrop) >= getContrastRatio(BLACK, backdrop)
+        ? 'dark'
+        : 'light',
+    background: backdrop,
+    past: palette.past.map(fit),
+    present: palette.present === null ? null : fit(palette.present),
+    future: fit(palette.future),
+    outline: fit(palette.outline),
+  };
+};
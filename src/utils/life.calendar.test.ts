@@ -0,0 +1,314 @@
+/**
+ * LIFE TIMELINE CALENDAR ARITHMETIC TESTS
+ *
+ * Table-driven checks of the rules documented in life.calendar.ts: local
+ * midnight parsing, wall-clock arithmetic across DST switches, month-end
+ * anchoring and leap days. The countdown borrowing (getCalendarDifference,
+ * as consumed by CountdownTimer.tsx) and the Feb 29 anniversaries of the
+ * grid (life.time.ts) are checked against the same tables.
+ *
+ * Every suite pins the process time zone, so the results never depend on the
+ * machine running them.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  addCalendarDays,
+  addCalendarMonths,
+  addCalendarYears,
+  formatIsoDate,
+  getCalendarDaysBetween,
+  getCalendarDifference,
+  getWallClockProgress,
+  getWholeMonthsBetween,
+  parseIsoDate,
+} from './life.calendar.ts';
+import { getFullUnitsLived, getLifeEndDate } from './life.time.ts';
+import { createFixedClock } from './life.clock.ts';
+
+// Zones with DST in either hemisphere, a half-hour offset without DST, and UTC
+const TIME_ZONES = [
+  'America/New_York',
+  'Europe/London',
+  'Australia/Sydney',
+  'Asia/Kolkata',
+  'UTC',
+];
+
+/**
+ * Pins the local time zone for every test of the enclosing suite.
+ * @param {string} timeZone - An IANA time zone.
+ */
+const useTimeZone = (timeZone: string): void => {
+  beforeEach(() => {
+    vi.stubEnv('TZ', timeZone);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+};
+
+/**
+ * Builds a local instant from its wall-clock components, in the time zone
+ * pinned when it is called (so never while the tables are declared).
+ * @param {string} dateTime - The local date and time, as "YYYY-MM-DD[ HH:MM[:SS.mmm]]".
+ * @returns {Date} The local instant.
+ */
+const at = (dateTime: string): Date => {
+  const [isoDate, time = '00:00'] = dateTime.split(' ');
+  const [hours, minutes, seconds = '0'] = time.split(':');
+  const date = parseIsoDate(isoDate);
+  date.setHours(Number(hours), Number(minutes), 0, Number(seconds) * 1000);
+
+  return date;
+};
+
+describe.each(TIME_ZONES)('parseIsoDate in %s', (timeZone) => {
+  useTimeZone(timeZone);
+
+  it.each([
+    ['1995-01-01', 1995, 0, 1],
+    ['2000-02-29', 2000, 1, 29],
+    ['2024-03-10', 2024, 2, 10], // US spring-forward day
+    ['2024-10-06', 2024, 9, 6], // Sydney spring-forward day
+    ['0099-05-01', 99, 4, 1], // no mapping onto 1999
+    [' 1990-12-31 ', 1990, 11, 31],
+  ])('parses %s as local midnight', (isoDate, year, monthIndex, day) => {
+    const date = parseIsoDate(isoDate);
+
+    expect(date.getFullYear()).toBe(year);
+    expect(date.getMonth()).toBe(monthIndex);
+    expect(date.getDate()).toBe(day);
+    expect(date.getHours()).toBe(0);
+    expect(date.getMinutes()).toBe(0);
+    expect(formatIsoDate(date)).toBe(isoDate.trim());
+  });
+
+  it.each([
+    '2023-02-29',
+    '2023-02-30',
+    '2024-04-31',
+    '2024-13-01',
+    '2024-00-10',
+    '95-01-01',
+    '1995/01/01',
+    '',
+  ])('rejects %j', (isoDate) => {
+    expect(parseIsoDate(isoDate).getTime()).toBeNaN();
+  });
+});
+
+describe('parseIsoDate on a day starting inside a DST gap', () => {
+  // São Paulo skipped 2018-11-04 00:00 → 01:00
+  useTimeZone('America/Sao_Paulo');
+
+  it('keeps the calendar date (the engine moves the instant forward)', () => {
+    const date = parseIsoDate('2018-11-04');
+
+    expect(formatIsoDate(date)).toBe('2018-11-04');
+    expect(date.getHours()).toBe(1);
+  });
+});
+
+describe.each(TIME_ZONES)('month-end anchoring in %s', (timeZone) => {
+  useTimeZone(timeZone);
+
+  it.each([
+    ['2023-01-29', 1, '2023-02-28'],
+    ['2024-01-29', 1, '2024-02-29'],
+    ['2023-01-30', 1, '2023-02-28'],
+    ['2024-01-30', 1, '2024-02-29'],
+    ['2023-01-31', 1, '2023-02-28'],
+    ['2024-01-31', 1, '2024-02-29'],
+    ['2023-01-31', 2, '2023-03-31'], // anchored, not chained from Feb 28
+    ['2023-01-31', 3, '2023-04-30'],
+    ['2023-03-31', 1, '2023-04-30'],
+    ['2023-08-31', 1, '2023-09-30'],
+    ['2023-10-31', 1, '2023-11-30'],
+    ['2023-12-31', 2, '2024-02-29'],
+    ['2023-05-31', -1, '2023-04-30'],
+    ['2024-03-30', -1, '2024-02-29'],
+    ['2023-03-29', -13, '2022-02-28'],
+    ['2023-01-15', 1, '2023-02-15'],
+  ])('%s + %i months = %s', (anchor, months, expected) => {
+    expect(formatIsoDate(addCalendarMonths(parseIsoDate(anchor), months))).toBe(
+      expected,
+    );
+  });
+
+  it.each([
+    ['2000-02-29', 1, '2001-02-28'],
+    ['2000-02-29', 3, '2003-02-28'],
+    ['2000-02-29', 4, '2004-02-29'],
+    ['2000-02-29', 100, '2100-02-28'], // 2100 is not a leap year
+    ['2024-02-29', -1, '2023-02-28'],
+    ['1999-12-31', 1, '2000-12-31'],
+  ])('%s + %i years = %s', (anchor, years, expected) => {
+    expect(formatIsoDate(addCalendarYears(parseIsoDate(anchor), years))).toBe(
+      expected,
+    );
+  });
+
+  it.each([
+    ['2023-01-31', '2023-02-27', 0],
+    ['2023-01-31', '2023-02-28', 1], // the clamped anniversary counts
+    ['2023-01-31', '2023-03-30', 1],
+    ['2023-01-31', '2023-03-31', 2],
+    ['2024-01-30', '2024-02-29', 1],
+    ['2023-03-31', '2023-04-30', 1],
+    ['2023-05-15', '2023-05-14', 0], // `to` precedes `from`
+    ['2000-02-29', '2001-02-28', 12],
+    ['2000-02-29', '2004-02-28', 47],
+    ['2000-02-29', '2004-02-29', 48],
+  ])('%s → %s spans %i whole months', (from, to, months) => {
+    expect(getWholeMonthsBetween(parseIsoDate(from), parseIsoDate(to))).toBe(
+      months,
+    );
+  });
+});
+
+describe.each(TIME_ZONES)('Feb 29 births in %s', (timeZone) => {
+  useTimeZone(timeZone);
+
+  it.each([
+    ['2023-02-27', 22],
+    ['2023-02-28', 23], // birthday on Feb 28 in common years
+    ['2023-03-01', 23],
+    ['2024-02-28', 23],
+    ['2024-02-29', 24], // and on Feb 29 in leap years
+    ['2100-02-28', 100],
+  ])('is %s as of %s', (isoDate, years) => {
+    const clock = createFixedClock(parseIsoDate(isoDate));
+
+    expect(getFullUnitsLived('2000-02-29', 'year', clock)).toBe(years);
+  });
+
+  it.each([
+    [80, '2080-02-29'],
+    [81, '2081-02-28'],
+    [80.5, '2080-08-29'],
+  ])('ends a %d-year life on %s', (expectancy, expected) => {
+    expect(formatIsoDate(getLifeEndDate('2000-02-29', expectancy))).toBe(
+      expected,
+    );
+  });
+});
+
+describe.each([
+  // zone, spring-forward day, fall-back day, local hour of the switch
+  ['America/New_York', '2024-03-10', '2024-11-03', '02:00'],
+  ['Europe/London', '2024-03-31', '2024-10-27', '01:00'],
+  ['Australia/Sydney', '2024-10-06', '2024-04-07', '02:00'],
+])('DST switches in %s', (timeZone, springForward, fallBack, switchTime) => {
+  useTimeZone(timeZone);
+
+  it.each([
+    ['spring-forward', springForward, 23],
+    ['fall-back', fallBack, 25],
+  ])('counts the %s day (%s) as one day', (_label, day, realHours) => {
+    const start = parseIsoDate(day);
+    const end = addCalendarDays(start, 1);
+
+    expect((end.getTime() - start.getTime()) / 3_600_000).toBe(realHours);
+    expect(getCalendarDaysBetween(start, end)).toBe(1);
+    expect(getCalendarDifference(start, end)).toMatchObject({
+      days: 1,
+      hours: 0,
+      minutes: 0,
+    });
+    expect(getWallClockProgress(start, end, at(`${day} 12:00`))).toBe(0.5);
+  });
+
+  it.each([springForward, fallBack])(
+    'keeps the local time of day when adding days across %s',
+    (day) => {
+      const before = addCalendarDays(at(`${day} 12:00`), -1);
+      const after = addCalendarDays(before, 2);
+
+      expect(before.getHours()).toBe(12);
+      expect(after.getHours()).toBe(12);
+      expect(getCalendarDaysBetween(before, after)).toBe(2);
+    },
+  );
+
+  it('measures a countdown across the switch on the wall clock', () => {
+    //23:00 the day before → 03:00 on the switch day: 4 wall-clock hours
+    const dayBefore = addCalendarDays(parseIsoDate(springForward), -1);
+    const from = at(`${formatIsoDate(dayBefore)} 23:00`);
+    const to = at(`${springForward} 03:00`);
+
+    expect(getCalendarDifference(from, to)).toMatchObject({
+      days: 0,
+      hours: 4,
+      minutes: 0,
+    });
+  });
+
+  it('moves an instant inside the spring-forward gap forward', () => {
+    const [hours] = switchTime.split(':');
+    const inGap = at(`${springForward} ${hours}:30`);
+
+    expect(inGap.getHours()).toBe(Number(hours) + 1);
+  });
+});
+
+describe.each(TIME_ZONES)('countdown borrowing in %s', (timeZone) => {
+  useTimeZone(timeZone);
+
+  it.each([
+    // from, to, [years, months, days, hours, minutes, seconds, milliseconds]
+    ['2024-01-31', '2024-03-01', [0, 1, 1, 0, 0, 0, 0]],
+    ['2023-01-31', '2023-03-01', [0, 1, 1, 0, 0, 0, 0]],
+    ['2024-03-31 12:00', '2024-05-01 06:00', [0, 1, 0, 18, 0, 0, 0]],
+    ['2024-01-15 10:30', '2025-03-14 09:00', [1, 1, 26, 22, 30, 0, 0]],
+    ['2024-05-01', '2024-05-01 00:00:01.250', [0, 0, 0, 0, 0, 1, 250]],
+    ['2024-12-31 23:59:59.999', '2025-01-01', [0, 0, 0, 0, 0, 0, 1]],
+    ['2000-02-29', '2080-02-29', [80, 0, 0, 0, 0, 0, 0]],
+    ['2023-02-28', '2080-02-29', [57, 0, 1, 0, 0, 0, 0]],
+    ['2024-05-02', '2024-05-01', [0, 0, 0, 0, 0, 0, 0]], // already over
+    ['2024-05-01', '2024-05-01', [0, 0, 0, 0, 0, 0, 0]],
+  ])('%s → %s', (from, to, expected) => {
+    const { years, months, days, hours, minutes, seconds, milliseconds } =
+      getCalendarDifference(at(from), at(to));
+
+    expect([
+      years,
+      months,
+      days,
+      hours,
+      minutes,
+      seconds,
+      milliseconds,
+    ]).toEqual(expected);
+  });
+
+  it('never produces a negative or overflowing unit', () => {
+    //weekly from a month-end evening until a few days before the end
+    const to = at('2031-03-31 12:00');
+
+    for (let day = 0; day < 785; day += 7) {
+      const from = addCalendarDays(at('2029-01-31 18:45'), day);
+      const difference = getCalendarDifference(from, to);
+
+      expect(difference.months).toBeGreaterThanOrEqual(0);
+      expect(difference.months).toBeLessThan(12);
+      expect(difference.days).toBeGreaterThanOrEqual(0);
+      expect(difference.days).toBeLessThan(31);
+      expect(difference.hours).toBeLessThan(24);
+      expect(difference.minutes).toBeLessThan(60);
+
+      //borrowing is lossless: adding the parts back lands on `to`
+      const anchor = addCalendarMonths(
+        from,
+        difference.years * 12 + difference.months,
+      );
+      const rebuilt = addCalendarDays(anchor, difference.days);
+      rebuilt.setHours(
+        rebuilt.getHours() + difference.hours,
+        rebuilt.getMinutes() + difference.minutes,
+      );
+
+      expect(rebuilt.getTime()).toBe(to.getTime());
+    }
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * LIFE TIMELINE CALENDAR ARITHMETIC ENGINE
+ *
+ * This file is the single source of truth for every calendar calculation in
+ * the application. Both the grid (life.time.ts) and the countdown
+ * (CountdownTimer.tsx) are built on top of it, so they can never disagree.
+ *
+ * RULES:
+ *
+ * 1. Time zones
+ *    All arithmetic happens in the device's LOCAL time zone. ISO date strings
+ *    (YYYY-MM-DD) are calendar dates, not instants, and are always parsed as
+ *    local midnight. `new Date('1995-01-01')` (UTC midnight) is never used
+ *    because it shifts the date by one day west of Greenwich.
+ *
+ * 2. Wall-clock arithmetic (DST transitions)
+ *    Differences and progress are measured on the local wall clock, i.e. as if
+ *    every day had exactly 24 hours. A 23h or 25h DST day still counts as one
+ *    day, "00:00 → 00:00" is always a whole number of days, and a countdown to
+ *    midnight jumps by an hour at a DST switch exactly like a wall clock does.
+ *    Instants inside a DST gap are resolved by the JS engine (moved forward).
+ *
+ * 3. Month-end anchoring
+ *    Adding N months keeps the day-of-month of the ANCHOR date and clamps it
+ *    to the last day of the target month:
+ *
+ *        Jan 31 + 1 month  = Feb 28 (Feb 29 in leap years)
+ *        Jan 31 + 2 months = Mar 31 (anchored to Jan 31, not chained from Feb 28)
+ *
+ *    A whole month has elapsed once the clamped anniversary has been reached.
+ *
+ * 4. Leap days
+ *    Years are 12 months, so rule 3 applies: a Feb 29 birthday is celebrated
+ *    on Feb 28 in non-leap years and on Feb 29 in leap years.
+ *
+ * NOTE:
+ *
+ * This layer performs pure date computation only.
+ * It must NOT:
+ * - read the current time (callers pass instants, usually from a Clock)
+ * - access DOM or Canvas APIs
+ * - persist state
+ */
+
+import type { CalendarDifference } from '../types/life.types.ts';
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Maps a local instant onto a DST-free timeline by reading its wall-clock
+ * components as if they were UTC. Differences between two wall-clock values
+ * therefore ignore DST shifts entirely (rule 2).
+ * @param {Date} date the local instant
+ * @returns {number} wall-clock milliseconds
+ */
+const toWallClock = (date: Date): number => {
+  return Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds(),
+  );
+};
+
+/**
+ * @param {number} year full year (e.g. 2024)
+ * @param {number} monthIndex 0-based month (0 = January)
+ * @returns {number} number of days in that month (28 - 31)
+ */
+export const getDaysInMonth = (year: number, monthIndex: number): number => {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+};
+
+/**
+ * Strictly parses an ISO date string (YYYY-MM-DD) as LOCAL midnight.
+ * Impossible dates such as 2023-02-30 are rejected instead of overflowing.
+ * @param {string} isoDate date in YYYY-MM-DD format
+ * @returns {Date} the local Date (Invalid Date if the string is malformed)
+ */
+export const parseIsoDate = (isoDate: string): Date => {
+  const match = ISO_DATE_PATTERN.exec(isoDate.trim());
+
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  const day = Number(match[3]);
+
+  if (
+    monthIndex < 0 ||
+    monthIndex > 11 ||
+    day < 1 ||
+    day > getDaysInMonth(year, monthIndex)
+  ) {
+    return new Date(NaN);
+  }
+
+  const date = new Date(year, monthIndex, day);
+  //years 0-99 are mapped to 1900-1999 by the Date constructor
+  date.setFullYear(year);
+
+  return date;
+};
+
+/**
+ * Formats a Date as an ISO date string (YYYY-MM-DD) using its LOCAL components.
+ * @param {Date} date the date to format
+ * @returns {string} the date in YYYY-MM-DD format
+ */
+export const formatIsoDate = (date: Date): string => {
+  const year = date.getFullYear().toString().padStart(4, '0');
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Adds calendar months, clamping the day-of-month to the target month (rule 3).
+ * The local time of day is preserved.
+ * @param {Date} date the anchor date
+ * @param {number} months number of months to add (may be negative)
+ * @returns {Date} a new Date
+ */
+export const addCalendarMonths = (date: Date, months: number): Date => {
+  const totalMonths = date.getMonth() + Math.trunc(months);
+  const year = date.getFullYear() + Math.floor(totalMonths / 12);
+  const monthIndex = ((totalMonths % 12) + 12) % 12;
+  const day = Math.min(date.getDate(), getDaysInMonth(year, monthIndex));
+
+  const result = new Date(
+    year,
+    monthIndex,
+    day,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds(),
+  );
+  result.setFullYear(year, monthIndex, day);
+
+  return result;
+};
+
+/**
+ * Adds calendar years (12 months each, so Feb 29 clamps to Feb 28; rule 4).
+ * @param {Date} date the anchor date
+ * @param {number} years number of years to add (may be negative)
+ * @returns {Date} a new Date
+ */
+export const addCalendarYears = (date: Date, years: number): Date => {
+  return addCalendarMonths(date, Math.trunc(years) * 12);
+};
+
+/**
+ * Adds calendar days, preserving the local time of day across DST changes.
+ * @param {Date} date the anchor date
+ * @param {number} days number of days to add (may be negative)
+ * @returns {Date} a new Date
+ */
+export const addCalendarDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + Math.trunc(days));
+
+  return result;
+};
+
+/**
+ * Counts whole calendar days between the dates of two instants (times ignored).
+ * @param {Date} from the earlier date
+ * @param {Date} to the later date
+ * @returns {number} number of calendar days from `from` to `to` (may be negative)
+ */
+export const getCalendarDaysBetween = (from: Date, to: Date): number => {
+  const fromDayNumber = Date.UTC(
+    from.getFullYear(),
+    from.getMonth(),
+    from.getDate(),
+  );
+  const toDayNumber = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+
+  return Math.round((toDayNumber - fromDayNumber) / MS_PER_DAY);
+};
+
+/**
+ * Counts the whole months elapsed from an anchor (rule 3: clamped anniversaries).
+ * @param {Date} from the anchor instant
+ * @param {Date} to the later instant
+ * @returns {number} whole months elapsed (0 if `to` precedes `from`)
+ */
+export const getWholeMonthsBetween = (from: Date, to: Date): number => {
+  if (to.getTime() <= from.getTime()) return 0;
+
+  const months =
+    (to.getFullYear() - from.getFullYear()) * 12 +
+    (to.getMonth() - from.getMonth());
+
+  //the anniversary lands in the same month as `to`; if it is still ahead, one fewer month has elapsed
+  return toWallClock(addCalendarMonths(from, months)) > toWallClock(to)
+    ? months - 1
+    : months;
+};
+
+/**
+ * Splits the span between two instants into calendar units, borrowing in the
+ * order years → months → days → hours → minutes → seconds → milliseconds.
+ * Months follow rule 3 anchored at `from`; the sub-month remainder is wall-clock time.
+ * @param {Date} from the earlier instant (e.g. now)
+ * @param {Date} to the later instant (e.g. end of life)
+ * @returns {CalendarDifference} all zeros if `to` is not after `from`
+ */
+export const getCalendarDifference = (
+  from: Date,
+  to: Date,
+): CalendarDifference => {
+  if (toWallClock(to) <= toWallClock(from)) {
+    return {
+      years: 0,
+      months: 0,
+      days: 0,
+      hours: 0,
+      minutes: 0,
+      seconds: 0,
+      milliseconds: 0,
+    };
+  }
+
+  const totalMonths = getWholeMonthsBetween(from, to);
+  const anchor = addCalendarMonths(from, totalMonths);
+
+  let remainder = toWallClock(to) - toWallClock(anchor);
+
+  const days = Math.floor(remainder / MS_PER_DAY);
+  remainder -= days * MS_PER_DAY;
+  const hours = Math.floor(remainder / MS_PER_HOUR);
+  remainder -= hours * MS_PER_HOUR;
+  const minutes = Math.floor(remainder / MS_PER_MINUTE);
+  remainder -= minutes * MS_PER_MINUTE;
+  const seconds = Math.floor(remainder / MS_PER_SECOND);
+  remainder -= seconds * MS_PER_SECOND;
+
+  return {
+    years: Math.floor(totalMonths / 12),
+    months: totalMonths % 12,
+    days,
+    hours,
+    minutes,
+    seconds,
+    milliseconds: remainder,
+  };
+};
+
+/**
+ * Fraction of a [start, end) span that has elapsed at `now`, on the wall clock (rule 2).
+ * @param {Date} start start of the span
+ * @param {Date} end end of the span
+ * @param {Date} now the reference instant
+ * @returns {number} progress clamped between [0,1]
+ */
+export const getWallClockProgress = (
+  start: Date,
+  end: Date,
+  now: Date,
+): number => {
+  const duration = toWallClock(end) - toWallClock(start);
+
+  if (duration <= 0) return 0;
+
+  const progress = (toWallClock(now) - toWallClock(start)) / duration;
+
+  return Math.min(Math.max(progress, 0), 1);
+};
+
+/**
+ * Inverse of getWallClockProgress: the instant at which a fraction of a
+ * [start, end) span has elapsed on the wall clock (rule 2).
+ * @param {Date} start start of the span
+ * @param {Date} end end of the span
+ * @param {number} progress the fraction of the span, clamped between [0,1]
+ * @returns {Date} the local instant (moved forward if it falls inside a DST gap)
+ */
+export const getWallClockInstant = (
+  start: Date,
+  end: Date,
+  progress: number,
+): Date => {
+  const clamped = Math.min(Math.max(progress, 0), 1);
+  const startWallClock = toWallClock(start);
+
+  //rounded up to the next millisecond, so the progress is reached, never missed
+  const wallClock = new Date(
+    Math.ceil(startWallClock + clamped * (toWallClock(end) - startWallClock)),
+  );
+
+  const instant = new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    wallClock.getUTCSeconds(),
+    wallClock.getUTCMilliseconds(),
+  );
+  //years 0-99 are mapped to 1900-1999 by the Date constructor
+  instant.setFullYear(wallClock.getUTCFullYear());
+
+  return instant;
+};
@@ -0,0 +1,67 @@
+/**
+ * LIFE TIMELINE CELL DETAILS LAYER
+ *
+ * This file is responsible for describing a single timeline cell in human
+ * terms: which dates it covers, how old the user was, whether it has been
+ * lived, and which events and era belong to it.
+ *
+ * It powers the hover tooltip and the click detail panel. Dates are derived
+ * with the same DOB-anchored unit rules as the grid (life.time.ts), so a
+ * tooltip can never disagree with the cell it describes.
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - persist state
+ */
+
+import type { CellDetails, RenderConfig } from '../types/life.types.ts';
+import { getCalendarDifference, parseIsoDate } from './life.calendar.ts';
+import { getCellState } from './life.cells.ts';
+import { getEraForCell } from './life.eras.ts';
+import { getUnitStartDate } from './life.time.ts';
+
+/**
+ * Describes a timeline cell.
+ * @param {number} index the chronological index of the cell
+ * @param {RenderConfig} renderConfig provide the renderConfig of the user
+ * @returns {CellDetails | null} the details, or null if the index is not rendered
+ */
+export const getCellDetails = (
+  index: number,
+  renderConfig: RenderConfig,
+): CellDetails | null => {
+  const { dob, granularity, firstCellIndex, totalCells } = renderConfig;
+
+  if (index < firstCellIndex || index >= firstCellIndex + totalCells) {
+    return null;
+  }
+
+  const start = getUnitStartDate(dob, granularity, index);
+  const end = getUnitStartDate(dob, granularity, index + 1);
+
+  if (isNaN(start.getTime())) return null;
+
+  const state = getCellState(index, renderConfig);
+  const progress =
+    state === 'past'
+      ? 1
+      : state === 'present'
+        ? renderConfig.currentCellProgress
+        : 0;
+
+  const era = getEraForCell(index, renderConfig.eras);
+
+  return {
+    index,
+    start,
+    end,
+    ageAtStart: getCalendarDifference(parseIsoDate(dob), start),
+    state,
+    progress,
+    events: renderConfig.events.filter((event) => event.index === index),
+    eraName: era ? era.name : null,
+  };
+};
@@ -1,29 +1,31 @@
 /**
  * LIFE TIMELINE CELL STATE MAPPING LAYER
  *
- * This file is responsible for classifying each life-month cell into a
+ * This file is responsible for classifying each timeline cell into a
  * semantic rendering state based on the user's elapsed lifetime.
  *
  * The Canvas renderer does not operate directly on temporal values such as:
- * - fullMonthsLived
- * - currentMonthProgress
+ * - fullCellsLived
+ * - currentCellProgress
  *
  * Instead, it requires each cell to be mapped to a visual state that
  * determines how it should be drawn.
  *
  * CELL CLASSIFICATION MODEL:
  *
- * Each life-month cell (identified by its index in the timeline grid)
- * is categorized into one of the following states:
+ * Each cell (identified by its index in the timeline grid) represents one
+ * unit of the selected Granularity (year, month, week or day, or hour when
+ * zoomed into a day) and is categorized into one of the following states:
  *
- * - "past"     → fully completed life-month
- * - "present"  → current life-month (partially filled)
- * - "future"   → not yet lived life-month
+ * - "past"     → fully completed unit
+ * - "present"  → current unit (partially filled)
+ * - "future"   → not yet lived unit
  * - "empty"    → out-of-bounds safety fallback
  *
  * Classification is performed using:
- *     RenderConfig.fullMonthsLived
- *     RenderConfig.totalMonths
+ *     RenderConfig.fullCellsLived
+ *     RenderConfig.firstCellIndex
+ *     RenderConfig.totalCells
  *
  * RENDERING IMPLICATIONS:
  *
@@ -31,7 +33,7 @@
  *
  * - fill color (past vs future)
  * - highlight behavior (present cell)
- * - partial fill logic (using currentMonthProgress)
+ * - partial fill logic (using currentCellProgress)
  * - outline or inactive styling
  *
  * This abstraction allows the renderer to remain decoupled from
@@ -65,14 +67,17 @@ export const getCellState = (
   index: number,
   renderConfig: RenderConfig,
 ): CellState => {
-  const fullMonthsLived = renderConfig.fullMonthsLived;
-  const totalMonths = renderConfig.totalMonths;
+  const fullCellsLived = renderConfig.fullCellsLived;
+  const firstCellIndex = renderConfig.firstCellIndex;
+  const totalCells = renderConfig.totalCells;
 
-  if (index >= totalMonths || index < 0) return 'empty';
+  if (index >= firstCellIndex + totalCells || index < firstCellIndex) {
+    return 'empty';
+  }
 
-  if (index < fullMonthsLived) {
+  if (index < fullCellsLived) {
     return 'past';
-  } else if (index === fullMonthsLived) {
+  } else if (index === fullCellsLived) {
     return 'present';
   } else {
     return 'future';
@@ -0,0 +1,69 @@
+/**
+ * LIFE TIMELINE CLOCK LAYER
+ *
+ * This file provides the concrete Clock implementations that every
+ * time-dependent module reads the present moment from.
+ *
+ * Instead of calling `new Date()` directly, utilities and components accept a
+ * Clock (defaulting to the systemClock). This makes the "present" injectable:
+ *
+ *     systemClock         → the real wall-clock time
+ *     createFixedClock    → a frozen instant (deterministic calculations)
+ *     createTimeTravelClock → a clock that keeps ticking, shifted to another date
+ *
+ * TIME TRAVEL:
+ *
+ * The time travel clock stores only the offset between the requested instant
+ * and the real time at creation:
+ *
+ *     offset = target - realNow
+ *     now()  = realNow + offset
+ *
+ * so millisecond-level consumers (e.g. CountdownTimer) keep animating naturally
+ * while showing the timeline as of the chosen date.
+ *
+ * NOTE:
+ *
+ * This layer must NOT:
+ * - persist anything (previews never touch UserConfig)
+ * - access DOM or Canvas APIs
+ */
+
+import type { Clock } from '../types/life.types.ts';
+
+/**
+ * The default clock backed by the real system time.
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Creates a clock that always reports the same instant.
+ * @param {Date} instant the instant to freeze time at
+ * @returns {Clock} a clock whose now() never advances
+ */
+export const createFixedClock = (instant: Date): Clock => {
+  const frozenTime = instant.getTime();
+
+  return {
+    now: () => new Date(frozenTime),
+  };
+};
+
+/**
+ * Creates a ticking clock shifted so that "now" starts at the target instant.
+ * @param {Date} target the instant the clock should report right now
+ * @param {Clock} baseClock the clock being shifted (defaults to systemClock)
+ * @returns {Clock} a clock advancing in real time from the target instant
+ */
+export const createTimeTravelClock = (
+  target: Date,
+  baseClock: Clock = systemClock,
+): Clock => {
+  const offset = target.getTime() - baseClock.now().getTime();
+
+  return {
+    now: () => new Date(baseClock.now().getTime() + offset),
+  };
+};
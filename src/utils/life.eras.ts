@@ -0,0 +1,201 @@
+/**
+ * LIFE TIMELINE ERA MAPPING LAYER
+ *
+ * This file is responsible for resolving user-defined eras (named date ranges
+ * such as "School" or "Career at X") into cell ranges on the timeline grid.
+ *
+ * Era boundaries use the same DOB-anchored cell mapping as life events
+ * (life.events.ts): an era covers every cell from the one containing its
+ * start date to the one containing (the last instant of) its end date, both
+ * inclusive. Ongoing eras (empty end date) run to the last cell. Ranges are
+ * clamped to the rendered window of cells, so zoomed views only see the part
+ * of an era they show.
+ *
+ * OVERLAP RESOLUTION RULE:
+ *
+ * Eras may overlap ("Career" containing "Job at X"). A cell covered by several
+ * eras takes the color of the MOST SPECIFIC one:
+ *
+ * 1. the era that started later wins (nested phases start inside their parent)
+ * 2. on equal start dates, the shorter era wins
+ * 3. on a full tie, the era listed later wins (the most recently added one)
+ *
+ * The ranges are returned already sorted by that precedence, so the renderer
+ * simply uses the first range that contains a cell.
+ *
+ * LIVELY TEXT FORMAT:
+ *
+ * Entries are separated by ";" (or new lines) and fields by "|":
+ *
+ *     YYYY-MM-DD|YYYY-MM-DD|Name|#RRGGBB|#RRGGBB
+ *
+ * start|end|name are required (end may be left empty for an ongoing era);
+ * the second color turns the era into a gradient, e.g.
+ *
+ *     2001-09-01|2013-06-30|School|#F59E0B;2019-03-01||Career|#3B82F6|#8B5CF6
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - persist state
+ */
+
+import type { Era, EraRange, TimeUnit } from '../types/life.types.ts';
+import {
+  addCalendarDays,
+  formatIsoDate,
+  parseIsoDate,
+} from './life.calendar.ts';
+import { getCellIndexForDate } from './life.events.ts';
+
+// Tailwind Sky-500, used whenever an era has no (valid) color
+export const DEFAULT_ERA_COLOR = '#0EA5E9';
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Orders two eras by the overlap resolution rule (see file header).
+ * @param {Era} a first era
+ * @param {Era} b second era
+ * @param {number} positionA position of `a` in the user's list
+ * @param {number} positionB position of `b` in the user's list
+ * @returns {number} negative if `a` takes precedence over `b`
+ */
+const compareEraPrecedence = (
+  a: Era,
+  b: Era,
+  positionA: number,
+  positionB: number,
+): number => {
+  if (a.start !== b.start) return b.start.localeCompare(a.start);
+
+  //an ongoing era is the longest possible one
+  if (a.end !== b.end) {
+    if (a.end === '') return 1;
+    if (b.end === '') return -1;
+    return a.end.localeCompare(b.end);
+  }
+
+  return positionB - positionA;
+};
+
+/**
+ * Resolves every era onto the grid, dropping eras that are invalid or
+ * entirely outside the rendered cells.
+ * @param {Era[]} eras the user's eras
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @param {number} firstCellIndex index of the first rendered cell
+ * @param {number} totalCells number of rendered cells
+ * @returns {EraRange[]} ranges clamped to [firstCellIndex, firstCellIndex + totalCells), ordered by precedence
+ */
+export const getEraRanges = (
+  eras: readonly Era[],
+  dob: string,
+  granularity: TimeUnit,
+  firstCellIndex: number,
+  totalCells: number,
+): EraRange[] => {
+  const lastCellIndex = firstCellIndex + totalCells - 1;
+
+  const ordered = eras
+    .map((era, position) => ({ era, position }))
+    .sort((a, b) => compareEraPrecedence(a.era, b.era, a.position, b.position));
+
+  const ranges: EraRange[] = [];
+
+  for (const { era } of ordered) {
+    const start = parseIsoDate(era.start);
+    const end = era.end === '' ? null : parseIsoDate(era.end);
+
+    if (isNaN(start.getTime())) continue;
+    if (end && (isNaN(end.getTime()) || end.getTime() < start.getTime())) {
+      continue;
+    }
+
+    //eras that began before birth are clipped to the first cell
+    const startIndex = Math.max(
+      getCellIndexForDate(dob, granularity, era.start),
+      firstCellIndex,
+    );
+
+    //the end date is inclusive, so hour cells must run until its last hour
+    const endIndex = end
+      ? Math.min(
+          Math.max(
+            getCellIndexForDate(dob, granularity, era.end),
+            getCellIndexForDate(
+              dob,
+              granularity,
+              formatIsoDate(addCalendarDays(end, 1)),
+            ) - 1,
+          ),
+          lastCellIndex,
+        )
+      : lastCellIndex;
+
+    if (endIndex < startIndex) continue;
+
+    ranges.push({
+      name: era.name,
+      startIndex,
+      endIndex,
+      color: era.color,
+      endColor: era.endColor,
+    });
+  }
+
+  return ranges;
+};
+
+/**
+ * Finds the era coloring a cell.
+ * @param {number} index the chronological index of the cell
+ * @param {EraRange[]} eraRanges ranges ordered by precedence (from getEraRanges)
+ * @returns {EraRange | undefined} the winning era, or undefined if none covers the cell
+ */
+export const getEraForCell = (
+  index: number,
+  eraRanges: readonly EraRange[],
+): EraRange | undefined => {
+  return eraRanges.find(
+    (range) => index >= range.startIndex && index <= range.endIndex,
+  );
+};
+
+/**
+ * Parses the Lively text format (see file header) into eras.
+ * Malformed entries are skipped; a bad color falls back to the default.
+ * @param {string} text the raw text box value
+ * @returns {Era[]} the parsed eras
+ */
+export const parseEraList = (text: string): Era[] => {
+  const eras: Era[] = [];
+
+  const entries = text
+    .split(/[;\n]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+
+  entries.forEach((entry, position) => {
+    const [start = '', end = '', name = '', color = '', endColor = ''] = entry
+      .split('|')
+      .map((field) => field.trim());
+
+    if (isNaN(parseIsoDate(start).getTime()) || name === '') return;
+    if (end !== '' && isNaN(parseIsoDate(end).getTime())) return;
+
+    eras.push({
+      id: `lively-${position}`,
+      name: name.substring(0, 32),
+      start,
+      end,
+      color: HEX_COLOR_PATTERN.test(color) ? color : DEFAULT_ERA_COLOR,
+      endColor: HEX_COLOR_PATTERN.test(endColor) ? endColor : undefined,
+    });
+  });
+
+  return eras;
+};
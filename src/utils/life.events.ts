@@ -0,0 +1,153 @@
+/**
+ * LIFE TIMELINE EVENT MAPPING LAYER
+ *
+ * This file is responsible for pinning user-defined life events onto the
+ * timeline grid.
+ *
+ * A LifeEvent is stored as a calendar date (YYYY-MM-DD). The renderer works
+ * on cell indices, so every event is translated:
+ *
+ *     event date
+ *             ⬇️
+ *     DOB-anchored unit index (same rules as fullCellsLived)
+ *             ⬇️
+ *     EventCell (consumed by the Canvas renderer)
+ *
+ * An event falls into cell N exactly when a clock frozen at local midnight of
+ * the event date would report N fully lived units. Events before the DOB or
+ * outside the rendered window of cells are dropped.
+ *
+ * LIVELY TEXT FORMAT:
+ *
+ * Lively properties can only carry flat values, so events are edited there as
+ * a single text box. Entries are separated by ";" (or new lines) and fields
+ * by "|":
+ *
+ *     YYYY-MM-DD|Title|icon|#RRGGBB|marker|note
+ *
+ * Only the date and title are required, e.g.
+ *
+ *     2013-09-01|University|🎓;2021-06-12|Wedding|💍|#EC4899|recolor
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - persist state
+ */
+
+import type {
+  EventCell,
+  EventMarker,
+  LifeEvent,
+  TimeUnit,
+} from '../types/life.types.ts';
+import { createFixedClock } from './life.clock.ts';
+import { parseIsoDate } from './life.calendar.ts';
+import { getFullUnitsLived } from './life.time.ts';
+
+// Tailwind Indigo-500, used whenever an event has no (valid) color
+export const DEFAULT_EVENT_COLOR = '#6366F1';
+
+const EVENT_MARKERS: readonly EventMarker[] = ['badge', 'ring', 'recolor'];
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Resolves the index of the cell containing a date.
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @param {string} date the date in YYYY-MM-DD format
+ * @returns {number} the cell index, or -1 if the date is invalid or precedes the DOB
+ */
+export const getCellIndexForDate = (
+  dob: string,
+  granularity: TimeUnit,
+  date: string,
+): number => {
+  const birthDay = parseIsoDate(dob);
+  const target = parseIsoDate(date);
+
+  if (isNaN(birthDay.getTime()) || isNaN(target.getTime())) return -1;
+
+  if (target.getTime() < birthDay.getTime()) return -1;
+
+  return getFullUnitsLived(dob, granularity, createFixedClock(target));
+};
+
+/**
+ * Pins every event onto its cell, dropping events outside the rendered cells.
+ * @param {LifeEvent[]} events the user's life events
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @param {number} firstCellIndex index of the first rendered cell
+ * @param {number} totalCells number of rendered cells
+ * @returns {EventCell[]} events inside [firstCellIndex, firstCellIndex + totalCells), sorted by date
+ */
+export const getEventCells = (
+  events: readonly LifeEvent[],
+  dob: string,
+  granularity: TimeUnit,
+  firstCellIndex: number,
+  totalCells: number,
+): EventCell[] => {
+  const eventCells: EventCell[] = [];
+
+  for (const event of events) {
+    const index = getCellIndexForDate(dob, granularity, event.date);
+
+    if (index < firstCellIndex || index >= firstCellIndex + totalCells) {
+      continue;
+    }
+
+    eventCells.push({
+      index,
+      date: event.date,
+      title: event.title,
+      icon: event.icon,
+      color: event.color,
+      marker: event.marker,
+      note: event.note,
+    });
+  }
+
+  //ISO dates sort chronologically as plain strings
+  return eventCells.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Parses the Lively text format (see file header) into life events.
+ * Malformed entries are skipped; a bad color or marker falls back to the default.
+ * @param {string} text the raw text box value
+ * @returns {LifeEvent[]} the parsed events
+ */
+export const parseEventList = (text: string): LifeEvent[] => {
+  const events: LifeEvent[] = [];
+
+  const entries = text
+    .split(/[;\n]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+
+  entries.forEach((entry, position) => {
+    const [date = '', title = '', icon = '', color = '', marker = '', note] =
+      entry.split('|').map((field) => field.trim());
+
+    if (isNaN(parseIsoDate(date).getTime()) || title === '') return;
+
+    events.push({
+      id: `lively-${position}`,
+      date,
+      title: title.substring(0, 48),
+      //spread by code point so emoji surrogate pairs are never split
+      icon: [...icon].slice(0, 4).join(''),
+      color: HEX_COLOR_PATTERN.test(color) ? color : DEFAULT_EVENT_COLOR,
+      marker: EVENT_MARKERS.includes(marker as EventMarker)
+        ? (marker as EventMarker)
+        : 'badge',
+      note: note || undefined,
+    });
+  });
+
+  return events;
+};
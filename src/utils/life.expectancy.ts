@@ -0,0 +1,255 @@
+/**
+ * LIFE TIMELINE ACTUARIAL EXPECTANCY LAYER
+ *
+ * This file is responsible for turning the bundled period life tables
+ * (src/data/life.tables.ts) into a personal life expectancy.
+ *
+ * ESTIMATION MODEL:
+ *
+ * 1. Pick the table matching the user's country and sex.
+ * 2. Scale every interval's mortality by a lifestyle hazard ratio:
+ *
+ *        q' = 1 - (1 - q) ^ hazardRatio
+ *
+ * 3. Assume a constant force of mortality inside each abridged interval, so
+ *    survival between boundary ages decays exponentially.
+ * 4. Condition on the user's exact current age a:
+ *
+ *        remaining(a) = ∫ S(t) / S(a) dt   for t >= a
+ *
+ *    Someone who has already survived to 60 therefore gets a longer total
+ *    lifespan than the life expectancy at birth.
+ *
+ * LIFESTYLE ADJUSTMENTS:
+ *
+ * Hazard ratios are rounded from large cohort studies (current smokers lose
+ * roughly a decade of life; regular activity lowers all-cause mortality by
+ * about a fifth) and are multiplied together. They are deliberately coarse.
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - persist state
+ * - read the current time directly (a Clock is injected)
+ */
+
+import type {
+  ActivityLevel,
+  Clock,
+  ExpectancyEstimate,
+  LifeTable,
+  Sex,
+  SmokingStatus,
+  UserConfig,
+} from '../types/life.types.ts';
+import {
+  LIFE_TABLES,
+  LIFE_TABLE_AGES,
+  OPEN_INTERVAL_EXPECTANCY,
+} from '../data/life.tables.ts';
+import { systemClock } from './life.clock.ts';
+import { getCurrentYearProgress, getFullYearsLived } from './life.time.ts';
+
+const SMOKING_HAZARD_RATIOS: Record<SmokingStatus, number> = {
+  never: 1,
+  former: 1.3,
+  current: 2.5,
+};
+
+const ACTIVITY_HAZARD_RATIOS: Record<ActivityLevel, number> = {
+  sedentary: 1.25,
+  moderate: 1,
+  active: 0.8,
+};
+
+// Same bounds the manual expectancy input enforces
+const MIN_EXPECTANCY = 1;
+const MAX_EXPECTANCY = 150;
+
+/**
+ * Finds the bundled life table for a country and sex.
+ * @param {string} country ISO 3166-1 alpha-2 country code
+ * @param {Sex} sex sex of the table
+ * @returns {LifeTable | undefined} the table, or undefined if none is bundled
+ */
+export const findLifeTable = (
+  country: string,
+  sex: Sex,
+): LifeTable | undefined => {
+  return LIFE_TABLES.find(
+    (table) => table.country === country && table.sex === sex,
+  );
+};
+
+/**
+ * Combines lifestyle factors into a single multiplicative hazard ratio.
+ * @param {SmokingStatus} smoking smoking status
+ * @param {ActivityLevel} activity physical activity level
+ * @returns {number} hazard ratio (1 = population average)
+ */
+export const getHazardRatio = (
+  smoking: SmokingStatus,
+  activity: ActivityLevel,
+): number => {
+  return SMOKING_HAZARD_RATIOS[smoking] * ACTIVITY_HAZARD_RATIOS[activity];
+};
+
+/**
+ * Force of mortality (per year) inside one abridged interval.
+ * @param {LifeTable} table the life table
+ * @param {number} intervalIndex index into LIFE_TABLE_AGES
+ * @param {number} hazardRatio lifestyle hazard ratio
+ * @returns {number} constant force of mortality for the interval
+ */
+const getIntervalForce = (
+  table: LifeTable,
+  intervalIndex: number,
+  hazardRatio: number,
+): number => {
+  const width =
+    LIFE_TABLE_AGES[intervalIndex + 1] - LIFE_TABLE_AGES[intervalIndex];
+  const survival = 1 - Math.min(table.qx[intervalIndex], 1);
+
+  //a certain death inside the interval is modelled as a very steep decay
+  if (survival <= 0) return 50 / width;
+
+  return (-Math.log(survival) * hazardRatio) / width;
+};
+
+/**
+ * Probability of surviving from birth to the given exact age.
+ * @param {LifeTable} table the life table
+ * @param {number} age exact age in years
+ * @param {number} hazardRatio lifestyle hazard ratio (defaults to 1)
+ * @returns {number} survival probability within [0,1]
+ */
+export const getSurvivalProbability = (
+  table: LifeTable,
+  age: number,
+  hazardRatio = 1,
+): number => {
+  if (age <= 0) return 1;
+
+  let survival = 1;
+
+  for (let i = 0; i < LIFE_TABLE_AGES.length - 1; ++i) {
+    const start = LIFE_TABLE_AGES[i];
+    const end = LIFE_TABLE_AGES[i + 1];
+    const force = getIntervalForce(table, i, hazardRatio);
+
+    if (age < end) {
+      return survival * Math.exp(-force * (age - start));
+    }
+
+    survival *= Math.exp(-force * (end - start));
+  }
+
+  //open interval: exponential decay with the bundled mean remaining lifetime
+  const openStart = LIFE_TABLE_AGES[LIFE_TABLE_AGES.length - 1];
+  return survival * Math.exp(-(age - openStart) / OPEN_INTERVAL_EXPECTANCY);
+};
+
+/**
+ * Expected remaining years of life for someone who has survived to `age`.
+ * @param {LifeTable} table the life table
+ * @param {number} age exact current age in years
+ * @param {number} hazardRatio lifestyle hazard ratio (defaults to 1)
+ * @returns {number} expected remaining years (>= 0)
+ */
+export const getRemainingLifeExpectancy = (
+  table: LifeTable,
+  age: number,
+  hazardRatio = 1,
+): number => {
+  const safeAge = Math.max(age, 0);
+  const survivalAtAge = getSurvivalProbability(table, safeAge, hazardRatio);
+
+  if (survivalAtAge <= 0) return 0;
+
+  //person-years lived above the current age (survivors start at 1 at birth)
+  let personYears = 0;
+
+  for (let i = 0; i < LIFE_TABLE_AGES.length - 1; ++i) {
+    const start = Math.max(LIFE_TABLE_AGES[i], safeAge);
+    const end = LIFE_TABLE_AGES[i + 1];
+
+    if (end <= start) continue;
+
+    const force = getIntervalForce(table, i, hazardRatio);
+    const survivalAtStart = getSurvivalProbability(table, start, hazardRatio);
+    const width = end - start;
+
+    personYears +=
+      force === 0
+        ? survivalAtStart * width
+        : (survivalAtStart * (1 - Math.exp(-force * width))) / force;
+  }
+
+  const openStart = LIFE_TABLE_AGES[LIFE_TABLE_AGES.length - 1];
+  const openFrom = Math.max(openStart, safeAge);
+  personYears +=
+    getSurvivalProbability(table, openFrom, hazardRatio) *
+    OPEN_INTERVAL_EXPECTANCY;
+
+  return personYears / survivalAtAge;
+};
+
+/**
+ * Estimates the total life expectancy of a user conditioned on their current age.
+ * @param {UserConfig} userConfig pass the userConfig (dob + estimate inputs are used)
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {ExpectancyEstimate | null} the estimate, or null if no table matches
+ */
+export const estimateLifeExpectancy = (
+  userConfig: UserConfig,
+  clock: Clock = systemClock,
+): ExpectancyEstimate | null => {
+  const table = findLifeTable(userConfig.lifeTableCountry, userConfig.sex);
+
+  if (!table) return null;
+
+  const currentAge =
+    getFullYearsLived(userConfig.dob, clock) +
+    getCurrentYearProgress(userConfig.dob, clock);
+
+  const hazardRatio = getHazardRatio(userConfig.smoking, userConfig.activity);
+  const remainingYears = getRemainingLifeExpectancy(
+    table,
+    currentAge,
+    hazardRatio,
+  );
+
+  const expectancy = Math.min(
+    Math.max(currentAge + remainingYears, MIN_EXPECTANCY),
+    MAX_EXPECTANCY,
+  );
+
+  return {
+    expectancy,
+    remainingYears,
+    currentAge,
+    table,
+  };
+};
+
+/**
+ * Resolves the effective life expectancy for the selected ExpectancyMode.
+ * Falls back to the manual value if no life table matches.
+ * @param {UserConfig} userConfig pass the userConfig
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {number} effective life expectancy in (possibly fractional) years
+ */
+export const resolveExpectancy = (
+  userConfig: UserConfig,
+  clock: Clock = systemClock,
+): number => {
+  if (userConfig.expectancyMode === 'manual') {
+    return userConfig.expectancy;
+  }
+
+  const estimate = estimateLifeExpectancy(userConfig, clock);
+
+  return estimate ? estimate.expectancy : userConfig.expectancy;
+};
@@ -0,0 +1,162 @@
+/**
+ * LIFE TIMELINE TEXT FORMATTING LAYER
+ *
+ * This file turns CellDetails into the short human readable strings shown by
+ * the cell tooltip and the cell detail panel, so both always word things the
+ * same way.
+ *
+ * Dates are formatted with the user's locale (Intl), everything else is plain
+ * English like the rest of the UI.
+ *
+ * NOTE:
+ *
+ * This layer performs pure formatting only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - persist state
+ */
+
+import type {
+  CalendarDifference,
+  CellDetails,
+  CellState,
+  TimeUnit,
+  ZoomState,
+} from '../types/life.types.ts';
+import { addCalendarDays } from './life.calendar.ts';
+import { getUnitStartDate } from './life.time.ts';
+
+const UNIT_LABELS: Record<TimeUnit, string> = {
+  year: 'Year',
+  month: 'Month',
+  week: 'Week',
+  day: 'Day',
+  hour: 'Hour',
+};
+
+const STATE_LABELS: Record<CellState, string> = {
+  past: 'Lived',
+  present: 'Now',
+  future: 'Ahead',
+  empty: '',
+};
+
+/**
+ * @param {Date} date the date to format
+ * @returns {string} the date in the user's locale, e.g. "Mar 3, 2021"
+ */
+export const formatDisplayDate = (date: Date): string => {
+  return date.toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+/**
+ * @param {Date} date the instant to format
+ * @returns {string} the wall-clock time in the user's locale, e.g. "14:00"
+ */
+export const formatDisplayTime = (date: Date): string => {
+  return date.toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * @param {CellDetails} details the cell to describe
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @returns {string} the cell's 1-based ordinal, e.g. "Month 302"
+ */
+export const formatCellTitle = (
+  details: CellDetails,
+  granularity: TimeUnit,
+): string => {
+  //hours are titled by the clock instead of a six-digit ordinal
+  if (granularity === 'hour') {
+    return `${UNIT_LABELS.hour} ${details.start.getHours()}`;
+  }
+
+  return `${UNIT_LABELS[granularity]} ${(details.index + 1).toLocaleString()}`;
+};
+
+/**
+ * @param {CellDetails} details the cell to describe
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @returns {string} the span covered by the cell, e.g. "Mar 3, 2021 – Apr 2, 2021" or "Mar 3, 2021 · 14:00 – 15:00"
+ */
+export const formatCellRange = (
+  details: CellDetails,
+  granularity: TimeUnit,
+): string => {
+  if (granularity === 'hour') {
+    return `${formatDisplayDate(details.start)} · ${formatDisplayTime(
+      details.start,
+    )} – ${formatDisplayTime(details.end)}`;
+  }
+
+  //day-based cells end at a midnight, so show the last day they include
+  const first = formatDisplayDate(details.start);
+  const last = formatDisplayDate(addCalendarDays(details.end, -1));
+
+  return first === last ? first : `${first} – ${last}`;
+};
+
+/**
+ * Formats an age with as much precision as the granularity warrants.
+ * @param {CalendarDifference} age the age as calendar units
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @returns {string} e.g. "26 years", "26y 3m" or "26y 3m 12d"
+ */
+export const formatAge = (
+  age: CalendarDifference,
+  granularity: TimeUnit,
+): string => {
+  switch (granularity) {
+    case 'year':
+      return age.years === 1 ? '1 year' : `${age.years} years`;
+    case 'month':
+      return `${age.years}y ${age.months}m`;
+    case 'week':
+    case 'day':
+    case 'hour':
+      return `${age.years}y ${age.months}m ${age.days}d`;
+  }
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {ZoomState} zoom the zoom level to name
+ * @returns {string} a breadcrumb label, e.g. "Life", "Age 26", "Mar 15, 2021 – Apr 14, 2021" or "Mar 3, 2021"
+ */
+export const formatZoomLabel = (dob: string, zoom: ZoomState): string => {
+  switch (zoom.level) {
+    case 'life':
+      return 'Life';
+    case 'year':
+      return `Age ${zoom.index}`;
+    case 'month': {
+      const start = getUnitStartDate(dob, 'month', zoom.index);
+      const end = getUnitStartDate(dob, 'month', zoom.index + 1);
+
+      return `${formatDisplayDate(start)} – ${formatDisplayDate(
+        addCalendarDays(end, -1),
+      )}`;
+    }
+    case 'day':
+      return formatDisplayDate(getUnitStartDate(dob, 'day', zoom.index));
+  }
+};
+
+/**
+ * @param {CellDetails} details the cell to describe
+ * @returns {string} e.g. "Lived", "Now · 42%" or "Ahead"
+ */
+export const formatCellState = (details: CellDetails): string => {
+  if (details.state === 'present') {
+    return `${STATE_LABELS.present} · ${Math.floor(details.progress * 100)}%`;
+  }
+
+  return STATE_LABELS[details.state];
+};
@@ -0,0 +1,210 @@
+/**
+ * LIFE TIMELINE HIT-TESTING LAYER
+ *
+ * This file is the inverse of the cell position mapping layer
+ * (life.position.ts). It converts a pixel coordinate on the Canvas back into
+ * the timeline cell drawn underneath it:
+ *
+ *     canvas pixel position (x, y)
+ *             ⬇️
+ *     candidate cells (grid row & column, or nearest spiral, ring and
+ *     honeycomb cells)
+ *             ⬇️
+ *     timeline index
+ *
+ * Every candidate is then checked against the position mapping itself
+ * (getCellPosition), so whatever the layout or cell order, a point hits
+ * exactly the cell drawn underneath it.
+ *
+ * PADDED DRAW AREA:
+ *
+ * Cells are not drawn edge to edge: every shape renderer (life.draw.ts)
+ * leaves a gap of 8% of the cell size around the shape. A point only hits a
+ * cell if it lies inside the area the shape is actually drawn in, as given by
+ * the hit area of the shape in the registry (life.shapeRegistry.ts), e.g.:
+ *
+ * - square  → the padded square
+ * - circle  → the circle inscribed in the padded square
+ * - diamond → the diamond inscribed in the padded square
+ * - heart   → the padded square (the heart fills its box edge to edge)
+ *
+ * Points in the gaps (or gutters), outside the grid or on unused trailing
+ * grid slots (index >= totalCells) hit nothing.
+ *
+ * NOTE:
+ *
+ * This file performs coordinate computation only.
+ * It must NOT:
+ * - classify cell state
+ * - perform layout calculations
+ * - access DOM or Canvas APIs
+ * - persist any state
+ */
+
+import type {
+  GridLayoutConfig,
+  HoneycombLayoutConfig,
+  LayoutConfig,
+  Shape,
+} from '../types/life.types.ts';
+import { getCellShape } from '../data/life.shapeRegistry.ts';
+import { getCellPosition } from './life.position.ts';
+import { getRingCellsNear, getSpiralCellsNear } from './life.radialLayout.ts';
+
+// Must match the gap used by the shape renderers
+const CELL_GAP_RATIO = 0.08;
+
+/**
+ * Finds the grid slot under a point, undoing the cell order.
+ * @param {number} x horizontal coordinate in CSS pixels
+ * @param {number} y vertical coordinate in CSS pixels
+ * @param {GridLayoutConfig} layoutConfig provide the grid geometry
+ * @returns {number} the index of the slot, or -1 outside the blocks
+ */
+const getGridCellNear = (
+  x: number,
+  y: number,
+  layoutConfig: GridLayoutConfig,
+): number => {
+  const { rows, columns, blocks, blocksPerRow, gutter, cellSize, order } =
+    layoutConfig;
+  const { x: left, y: top, width } = layoutConfig.bounds;
+
+  //right to left, the grid is mirrored
+  const localX = order === 'rightToLeft' ? left + width - x : x - left;
+  const localY = y - top;
+
+  const blockWidth = columns * cellSize;
+  const blockHeight = rows * cellSize;
+  const blockColumn = Math.floor(localX / (blockWidth + gutter));
+  const blockLine = Math.floor(localY / (blockHeight + gutter));
+
+  if (blockColumn < 0 || blockColumn >= blocksPerRow || blockLine < 0) {
+    return -1;
+  }
+
+  const block = blockLine * blocksPerRow + blockColumn;
+  const column = Math.floor(
+    (localX - blockColumn * (blockWidth + gutter)) / cellSize,
+  );
+  const row = Math.floor(
+    (localY - blockLine * (blockHeight + gutter)) / cellSize,
+  );
+
+  //the gutter between blocks
+  if (block >= blocks || column >= columns || row >= rows) return -1;
+
+  const slot =
+    order === 'snake' && row % 2 === 1 ? columns - 1 - column : column;
+
+  return block * rows * columns + row * columns + slot;
+};
+
+/**
+ * Cells of a honeycomb that may be drawn under a point: the boxes of
+ * neighboring hexagons overlap, so the slots of the two rows and three
+ * columns around it.
+ * @param {number} x horizontal coordinate in CSS pixels
+ * @param {number} y vertical coordinate in CSS pixels
+ * @param {HoneycombLayoutConfig} layoutConfig provide the honeycomb geometry
+ * @returns {number[]} candidate cell indices
+ */
+const getHoneycombCellsNear = (
+  x: number,
+  y: number,
+  layoutConfig: HoneycombLayoutConfig,
+): number[] => {
+  const { rows, columns, pitchX, pitchY, cellSize, order } = layoutConfig;
+  const { x: left, width } = layoutConfig.bounds;
+
+  //right to left, the honeycomb is mirrored
+  const localX =
+    (order === 'rightToLeft' ? 2 * left + width - x : x) - layoutConfig.originX;
+  const lastRow = Math.floor((y - layoutConfig.originY) / pitchY);
+  const candidates: number[] = [];
+
+  for (let row = lastRow - 1; row <= lastRow; ++row) {
+    if (row < 0 || row >= rows) continue;
+
+    const shift = row % 2 === 1 ? pitchX / 2 : 0;
+    const nearestColumn = Math.floor((localX - shift - cellSize / 2) / pitchX);
+
+    for (let column = nearestColumn; column <= nearestColumn + 2; ++column) {
+      if (column < 0 || column >= columns) continue;
+
+      const slot =
+        order === 'snake' && row % 2 === 1 ? columns - 1 - column : column;
+      candidates.push(row * columns + slot);
+    }
+  }
+
+  return candidates;
+};
+
+/**
+ * Cells that may be drawn under a point, in any layout.
+ * @param {number} x horizontal coordinate in CSS pixels
+ * @param {number} y vertical coordinate in CSS pixels
+ * @param {LayoutConfig} layoutConfig provide the layout configuration of the grid
+ * @returns {number[]} candidate cell indices (possibly out of range)
+ */
+const getCandidateCells = (
+  x: number,
+  y: number,
+  layoutConfig: LayoutConfig,
+): number[] => {
+  switch (layoutConfig.kind) {
+    case 'grid':
+      return [getGridCellNear(x, y, layoutConfig)];
+    case 'spiral':
+      return getSpiralCellsNear(x, y, layoutConfig);
+    case 'rings':
+      return getRingCellsNear(x, y, layoutConfig);
+    case 'honeycomb':
+      return getHoneycombCellsNear(x, y, layoutConfig);
+  }
+};
+
+/**
+ * Finds the cell drawn at a canvas coordinate.
+ * @param {number} x horizontal coordinate in CSS pixels
+ * @param {number} y vertical coordinate in CSS pixels
+ * @param {LayoutConfig} layoutConfig provide the layout configuration of the grid
+ * @param {number} totalCells number of cells in the timeline
+ * @param {Shape} shape the shape the cells are drawn with
+ * @returns {number} the index of the hit cell, or -1 if no cell is hit
+ */
+export const getCellIndexAt = (
+  x: number,
+  y: number,
+  layoutConfig: LayoutConfig,
+  totalCells: number,
+  shape: Shape,
+): number => {
+  const { cellSize } = layoutConfig;
+
+  if (cellSize <= 0) return -1;
+
+  const candidates = getCandidateCells(x, y, layoutConfig);
+
+  const cellShape = getCellShape(shape, layoutConfig.kind);
+  const gap = cellSize * CELL_GAP_RATIO;
+  const drawSize = cellSize - gap;
+
+  for (const index of candidates) {
+    if (index < 0 || index >= totalCells) continue;
+
+    //position inside the cell, relative to its top-left corner
+    const position = getCellPosition(index, layoutConfig);
+    const localX = x - position.x;
+    const localY = y - position.y;
+
+    //the hit area of the shape, on the unit box of its padded draw box
+    const u = (localX - gap / 2) / drawSize;
+    const v = (localY - gap / 2) / drawSize;
+
+    if (cellShape.contains(u, v)) return index;
+  }
+
+  return -1;
+};
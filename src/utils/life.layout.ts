@@ -3,12 +3,12 @@
  * LIFE TIMELINE GRID LAYOUT ENGINE
  *
  * This file is responsible for translating the user's total life duration
- * (expressed as the number of life-months) into a spatial grid layout that
+ * (expressed as the number of timeline cells) into a spatial grid layout that
  * can be rendered on the screen.
  *
  * The goal is to map:
  *
- *     totalMonths (timeline domain)
+ *     totalCells (timeline domain)
  *             ⬇️
  *     screen resolution (viewport domain)
  *             ⬇️
@@ -40,25 +40,29 @@
  * GRID COMPUTATION STRATEGY:
  *
  * Given:
- *     totalMonths
+ *     totalCells
  *     usableWidth
  *     usableHeight
  *
  * The grid dimensions are determined such that:
  *
- *     rows * columns >= totalMonths
+ *     rows * columns >= totalCells
  *
  * Rows are estimated using:
  *
- *     rows = sqrt( totalMonths * usableHeight / usableWidth )
+ *     rows = sqrt( totalCells * usableHeight / usableWidth )
  *
  * The resulting value is:
  * - floored to ensure integer row count
  * - clamped to a minimum of 1 for safety
  *
+ * Because flooring can leave a large unused strip (noticeable for small
+ * timelines such as ~80 year cells), the neighbouring row count is also
+ * evaluated and whichever candidate yields the larger cell size wins.
+ *
  * Columns are then computed as:
  *
- *     columns = ceil(totalMonths / rows)
+ *     columns = ceil(totalCells / rows)
  *
  * This guarantees that the entire life timeline fits within the grid.
  *
@@ -99,6 +103,55 @@
  * - cellSize  → side length of each square cell
  * - offsetX   → horizontal centering offset
  * - offsetY   → vertical centering offset
+ * - bounds    → the box enclosing every cell
+ * - width, height → the viewport size itself, so consumers of the layout
+ *                   (e.g. the display list) need nothing else
+ * - safeArea  → the margins the grid was kept out of
+ *
+ * SAFE AREA:
+ *
+ * Exported wallpapers may need to keep margins free for docks, taskbars or a
+ * lock screen clock. The grid (padding included) is then laid out inside the
+ * viewport minus those margins, and centered in that region instead:
+ *
+ *     offsetX = left + (areaWidth  - columns * cellSize) / 2
+ *     offsetY = top  + (areaHeight - rows    * cellSize) / 2
+ *
+ * LAYOUT STRATEGIES:
+ *
+ * The near-square grid above is the default. computeTimelineLayout lays the
+ * cells out with the strategy selected by the user instead:
+ *
+ * - yearRows → a single block whose rows hold one year each
+ *              (12 months, 52 weeks, 365 days; ten years at year granularity)
+ * - decades  → blocks of ten year rows, one cell of gutter apart, arranged
+ *              side by side in whichever way yields the largest cells
+ * - spiral   → an Archimedean spiral unwinding from the center
+ * - rings    → concentric rings, one per decade (a zoomed window too short
+ *              for a decade becomes a single ring, e.g. a 12 month clock)
+ * - honeycomb → pointy-topped hexagons in offset rows (see below)
+ *
+ * Week and day rows hold a whole number of cells, so they drift against the
+ * calendar by a fraction of a cell every year, as in the classic paper
+ * "life in weeks" charts.
+ *
+ * The row order (left to right, right to left or snaking) applies to the
+ * row-based layouts (all but the spiral and the rings). Every layout keeps the same padding, safe area
+ * and centering rules.
+ *
+ * HONEYCOMB:
+ *
+ * A hexagon as tall as its cell box is √3/2 of the box wide. Tiled, hexagons
+ * sit √3/2 of a box apart within a row, rows sit 3/4 of a box apart, and
+ * every other row is shifted by half a hexagon. For a rows × columns
+ * honeycomb (in box sizes):
+ *
+ *     tilingWidth  = columns * √3/2 + (rows > 1 ? √3/4 : 0)
+ *     tilingHeight = (rows - 1) * 3/4 + 1
+ *
+ * Rows are estimated as for the grid, from the aspect ratio of one hexagon
+ * step (√3/2 wide, 3/4 high), and the neighbouring row counts are tried
+ * for the largest cells.
  *
  * This layout data is consumed by the Canvas rendering engine.
  *
@@ -114,46 +167,566 @@
  * It strictly adapts timeline size to viewport geometry.
  */
 
-import type { LayoutConfig } from '../types/life.types.ts';
+import type {
+  CellOrder,
+  GridLayoutConfig,
+  HoneycombLayoutConfig,
+  LayoutConfig,
+  RenderConfig,
+  RingsLayoutConfig,
+  SafeAreaInsets,
+  SpiralLayoutConfig,
+  TimeUnit,
+} from '../types/life.types.ts';
+import {
+  SPIRAL_START_ANGLE,
+  getInnerRingRadius,
+  getSpiralAngle,
+} from './life.radialLayout.ts';
+import { getUnitsPerYear } from './life.time.ts';
+
+/**
+ * No margins: the whole viewport is usable.
+ */
+export const NO_SAFE_AREA: SafeAreaInsets = {
+  top: 0,
+  right: 0,
+  bottom: 0,
+  left: 0,
+};
+
+// Space between decade blocks, in cells
+const GUTTER_CELLS = 1;
+
+// Width of a pointy-topped hexagon as tall as its box, and the row pitch
+const HEXAGON_WIDTH = Math.sqrt(3) / 2;
+const HEXAGON_ROW_PITCH = 0.75;
+
+// Padding around the grid, relative to the viewport (minus the safe area)
+const PADDING_RATIO = 0.1;
+
+/**
+ * Region the cells are laid out in: the viewport minus the safe area, and
+ * the padded part of it.
+ */
+interface LayoutArea {
+  areaWidth: number;
+  areaHeight: number;
+  usableWidth: number;
+  usableHeight: number;
+}
+
+/**
+ * Computes the region the cells are laid out in.
+ * @param {number} width provide the viewport width
+ * @param {number} height provide the viewport height
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge
+ * @returns {LayoutArea} the area and its padded, usable part
+ */
+const getLayoutArea = (
+  width: number,
+  height: number,
+  safeArea: SafeAreaInsets,
+): LayoutArea => {
+  const areaWidth = Math.max(width - safeArea.left - safeArea.right, 1);
+  const areaHeight = Math.max(height - safeArea.top - safeArea.bottom, 1);
+
+  const horizontalPadding = PADDING_RATIO * areaWidth; //10% of width
+  const verticalPadding = PADDING_RATIO * areaHeight; //10% of height
+
+  return {
+    areaWidth,
+    areaHeight,
+    usableWidth: areaWidth - 2 * horizontalPadding,
+    usableHeight: areaHeight - 2 * verticalPadding,
+  };
+};
+
+/**
+ * Largest square cell that lets a rows × columns grid fit the usable region.
+ * @param {number} rows number of grid rows
+ * @param {number} columns number of grid columns
+ * @param {number} usableWidth padded viewport width
+ * @param {number} usableHeight padded viewport height
+ * @returns {number} side length of each cell in pixels
+ */
+const getCellSizeFor = (
+  rows: number,
+  columns: number,
+  usableWidth: number,
+  usableHeight: number,
+): number => {
+  const cellWidth = usableWidth / Math.max(columns, 1);
+  const cellHeight = usableHeight / rows;
+
+  return Math.min(cellWidth, cellHeight);
+};
 
 /**
  * Function to calculate the layout of the grid
- * @param {number} totalMonths provide the totalMonths
+ * @param {number} totalCells provide the totalCells
  * @param {number} width provide the viewport width
  * @param {number} height provide the viewport height
- * @returns {LayoutConfig} returns number of rows, columns, cellSize, offsetX and offsetY
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge (default: none)
+ * @returns {GridLayoutConfig} returns number of rows, columns, cellSize, offsetX, offsetY and the viewport size
  */
 export const computeGridLayout = (
-  totalMonths: number,
+  totalCells: number,
   width: number,
   height: number,
-): LayoutConfig => {
-  const horizontalPadding = 0.1 * width; //10% of width
-  const verticalPadding = 0.1 * height; //10% of height
+  safeArea: SafeAreaInsets = NO_SAFE_AREA,
+): GridLayoutConfig => {
+  const { areaWidth, areaHeight, usableWidth, usableHeight } = getLayoutArea(
+    width,
+    height,
+    safeArea,
+  );
+
+  const estimatedRows = Math.max(
+    Math.floor(Math.sqrt((totalCells * usableHeight) / usableWidth)),
+    1,
+  );
+
+  let rows = estimatedRows;
+  let columns = Math.ceil(totalCells / rows);
+  let cellSize = getCellSizeFor(rows, columns, usableWidth, usableHeight);
+
+  //the floored estimate is not always the tightest fit, try one more row
+  const candidateRows = estimatedRows + 1;
+  const candidateColumns = Math.ceil(totalCells / candidateRows);
+  const candidateCellSize = getCellSizeFor(
+    candidateRows,
+    candidateColumns,
+    usableWidth,
+    usableHeight,
+  );
+
+  if (candidateCellSize > cellSize) {
+    rows = candidateRows;
+    columns = candidateColumns;
+    cellSize = candidateCellSize;
+  }
+
+  const offsetX = safeArea.left + (areaWidth - columns * cellSize) / 2;
+  const offsetY = safeArea.top + (areaHeight - rows * cellSize) / 2;
+
+  return {
+    kind: 'grid',
+    rows,
+    columns,
+    blocks: 1,
+    blocksPerRow: 1,
+    gutter: 0,
+    order: 'leftToRight',
+    cellSize,
+    offsetX,
+    offsetY,
+    bounds: {
+      x: offsetX,
+      y: offsetY,
+      width: columns * cellSize,
+      height: rows * cellSize,
+    },
+    width,
+    height,
+    safeArea,
+  };
+};
 
-  const usableWidth = width - 2 * horizontalPadding;
-  const usableHeight = height - 2 * verticalPadding;
+/**
+ * Number of cells of a year row.
+ * @param {TimeUnit} unit the span of a cell
+ * @returns {number} cells per row
+ */
+const getYearRowLength = (unit: TimeUnit): number => {
+  switch (unit) {
+    case 'year':
+      return 10; //a single cell per row would make a thin column: a decade per row
+    case 'hour':
+      return 24; //a day per row
+    default:
+      return Math.floor(getUnitsPerYear(unit));
+  }
+};
+
+/**
+ * Lays out blocks of rows × columns cells, side by side with a gutter between them.
+ * @param {number} totalCells provide the totalCells
+ * @param {number} columns cells per row
+ * @param {number} blockRows rows per block
+ * @param {number} width provide the viewport width
+ * @param {number} height provide the viewport height
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge
+ * @returns {GridLayoutConfig} the block grid, filled left to right
+ */
+const computeBlockLayout = (
+  totalCells: number,
+  columns: number,
+  blockRows: number,
+  width: number,
+  height: number,
+  safeArea: SafeAreaInsets,
+): GridLayoutConfig => {
+  const { areaWidth, areaHeight, usableWidth, usableHeight } = getLayoutArea(
+    width,
+    height,
+    safeArea,
+  );
 
   const rows = Math.max(
-    Math.floor(Math.sqrt((totalMonths * usableHeight) / usableWidth)),
+    Math.min(blockRows, Math.ceil(totalCells / columns)),
     1,
   );
+  const blocks = Math.max(Math.ceil(totalCells / (rows * columns)), 1);
 
-  const columns = Math.ceil(totalMonths / rows);
+  //try every arrangement of the blocks, keep the one with the largest cells
+  let blocksPerRow = 1;
+  let cellSize = 0;
 
-  const cellWidth = usableWidth / columns;
-  const cellHeight = usableHeight / rows;
+  for (let candidate = 1; candidate <= blocks; ++candidate) {
+    const blockLines = Math.ceil(blocks / candidate);
+    const candidateCellSize = getCellSizeFor(
+      blockLines * rows + (blockLines - 1) * GUTTER_CELLS,
+      candidate * columns + (candidate - 1) * GUTTER_CELLS,
+      usableWidth,
+      usableHeight,
+    );
+
+    if (candidateCellSize > cellSize) {
+      blocksPerRow = candidate;
+      cellSize = candidateCellSize;
+    }
+  }
 
-  const cellSize = Math.min(cellWidth, cellHeight);
+  const gutter = GUTTER_CELLS * cellSize;
+  const blockLines = Math.ceil(blocks / blocksPerRow);
+  const gridWidth = blocksPerRow * (columns * cellSize + gutter) - gutter;
+  const gridHeight = blockLines * (rows * cellSize + gutter) - gutter;
 
-  const offsetX = (width - columns * cellSize) / 2;
-  const offsetY = (height - rows * cellSize) / 2;
+  const offsetX = safeArea.left + (areaWidth - gridWidth) / 2;
+  const offsetY = safeArea.top + (areaHeight - gridHeight) / 2;
 
   return {
+    kind: 'grid',
     rows,
     columns,
+    blocks,
+    blocksPerRow,
+    gutter,
+    order: 'leftToRight',
     cellSize,
     offsetX,
     offsetY,
+    bounds: { x: offsetX, y: offsetY, width: gridWidth, height: gridHeight },
+    width,
+    height,
+    safeArea,
   };
 };
+
+/**
+ * The part of a round layout that centers it in the viewport.
+ */
+type RadialPlacement = Pick<
+  SpiralLayoutConfig,
+  'centerX' | 'centerY' | 'bounds' | 'width' | 'height' | 'safeArea'
+>;
+
+/**
+ * Centers a round layout in the area.
+ * @param {number} outerRadius radius through the outermost cell centers
+ * @param {number} cellSize side length of each cell
+ * @param {number} width provide the viewport width
+ * @param {number} height provide the viewport height
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge
+ * @returns {RadialPlacement} the center, bounds and viewport of the layout
+ */
+const getRadialPlacement = (
+  outerRadius: number,
+  cellSize: number,
+  width: number,
+  height: number,
+  safeArea: SafeAreaInsets,
+): RadialPlacement => {
+  const { areaWidth, areaHeight } = getLayoutArea(width, height, safeArea);
+  const centerX = safeArea.left + areaWidth / 2;
+  const centerY = safeArea.top + areaHeight / 2;
+  const extent = outerRadius + cellSize / 2;
+
+  return {
+    centerX,
+    centerY,
+    bounds: {
+      x: centerX - extent,
+      y: centerY - extent,
+      width: 2 * extent,
+      height: 2 * extent,
+    },
+    width,
+    height,
+    safeArea,
+  };
+};
+
+/**
+ * Lays the cells out along an Archimedean spiral.
+ * @param {number} totalCells provide the totalCells
+ * @param {number} width provide the viewport width
+ * @param {number} height provide the viewport height
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge
+ * @returns {SpiralLayoutConfig} the spiral geometry
+ */
+const computeSpiralLayout = (
+  totalCells: number,
+  width: number,
+  height: number,
+  safeArea: SafeAreaInsets,
+): SpiralLayoutConfig => {
+  const { usableWidth, usableHeight } = getLayoutArea(width, height, safeArea);
+
+  //outermost radius = cellSize * angle / 2π, plus half a cell on each side
+  const outerAngle = getSpiralAngle(
+    Math.max(totalCells - 1, 0),
+    SPIRAL_START_ANGLE,
+  );
+  const cellSize =
+    Math.min(usableWidth, usableHeight) / (outerAngle / Math.PI + 1);
+
+  return {
+    kind: 'spiral',
+    startAngle: SPIRAL_START_ANGLE,
+    cells: totalCells,
+    cellSize,
+    ...getRadialPlacement(
+      (cellSize * outerAngle) / (2 * Math.PI),
+      cellSize,
+      width,
+      height,
+      safeArea,
+    ),
+  };
+};
+
+/**
+ * Lays the cells out on concentric rings, one per decade.
+ * @param {number} totalCells provide the totalCells
+ * @param {TimeUnit} unit the span of a cell
+ * @param {number} width provide the viewport width
+ * @param {number} height provide the viewport height
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge
+ * @returns {RingsLayoutConfig} the rings geometry
+ */
+const computeRingsLayout = (
+  totalCells: number,
+  unit: TimeUnit,
+  width: number,
+  height: number,
+  safeArea: SafeAreaInsets,
+): RingsLayoutConfig => {
+  const { usableWidth, usableHeight } = getLayoutArea(width, height, safeArea);
+
+  const cellsPerRing = Math.max(
+    Math.min(Math.round(10 * getUnitsPerYear(unit)), totalCells),
+    1,
+  );
+  const rings = Math.max(Math.ceil(totalCells / cellsPerRing), 1);
+
+  //diameter in cells: inner ring, one cell per further ring, half a cell on each side
+  const innerRadiusCells = getInnerRingRadius(cellsPerRing, 1);
+  const cellSize =
+    Math.min(usableWidth, usableHeight) /
+    (2 * (innerRadiusCells + rings - 1) + 1);
+  const innerRadius = innerRadiusCells * cellSize;
+
+  return {
+    kind: 'rings',
+    innerRadius,
+    cellsPerRing,
+    rings,
+    cellSize,
+    ...getRadialPlacement(
+      innerRadius + (rings - 1) * cellSize,
+      cellSize,
+      width,
+      height,
+      safeArea,
+    ),
+  };
+};
+
+/**
+ * Largest cell box that lets a rows × columns honeycomb fit the usable region.
+ * @param {number} rows number of honeycomb rows
+ * @param {number} columns number of cells per row
+ * @param {number} usableWidth padded viewport width
+ * @param {number} usableHeight padded viewport height
+ * @returns {number} side length of each cell box in pixels
+ */
+const getHoneycombCellSizeFor = (
+  rows: number,
+  columns: number,
+  usableWidth: number,
+  usableHeight: number,
+): number => {
+  const tilingWidth =
+    columns * HEXAGON_WIDTH + (rows > 1 ? HEXAGON_WIDTH / 2 : 0);
+  const tilingHeight = (rows - 1) * HEXAGON_ROW_PITCH + 1;
+
+  return Math.min(usableWidth / tilingWidth, usableHeight / tilingHeight);
+};
+
+/**
+ * Tiles the cells as a honeycomb of pointy-topped hexagons in offset rows.
+ * @param {number} totalCells provide the totalCells
+ * @param {CellOrder} order direction in which the rows are filled
+ * @param {number} width provide the viewport width
+ * @param {number} height provide the viewport height
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge
+ * @returns {HoneycombLayoutConfig} the honeycomb geometry
+ */
+const computeHoneycombLayout = (
+  totalCells: number,
+  order: CellOrder,
+  width: number,
+  height: number,
+  safeArea: SafeAreaInsets,
+): HoneycombLayoutConfig => {
+  const { areaWidth, areaHeight, usableWidth, usableHeight } = getLayoutArea(
+    width,
+    height,
+    safeArea,
+  );
+
+  const estimatedRows = Math.max(
+    Math.floor(
+      Math.sqrt(
+        (totalCells * HEXAGON_WIDTH * usableHeight) /
+          (HEXAGON_ROW_PITCH * usableWidth),
+      ),
+    ),
+    1,
+  );
+
+  //the estimate ignores the half-hexagon shift and the taller last row, try its neighbours
+  let rows = estimatedRows;
+  let columns = Math.ceil(totalCells / rows);
+  let cellSize = 0;
+
+  for (
+    let candidateRows = Math.max(estimatedRows - 1, 1);
+    candidateRows <= estimatedRows + 1;
+    ++candidateRows
+  ) {
+    const candidateColumns = Math.ceil(totalCells / candidateRows);
+    const candidateCellSize = getHoneycombCellSizeFor(
+      candidateRows,
+      candidateColumns,
+      usableWidth,
+      usableHeight,
+    );
+
+    if (candidateCellSize > cellSize) {
+      rows = candidateRows;
+      columns = candidateColumns;
+      cellSize = candidateCellSize;
+    }
+  }
+
+  const pitchX = HEXAGON_WIDTH * cellSize;
+  const pitchY = HEXAGON_ROW_PITCH * cellSize;
+  const tilingWidth = columns * pitchX + (rows > 1 ? pitchX / 2 : 0);
+  const tilingHeight = (rows - 1) * pitchY + cellSize;
+
+  const left = safeArea.left + (areaWidth - tilingWidth) / 2;
+  const top = safeArea.top + (areaHeight - tilingHeight) / 2;
+
+  return {
+    kind: 'honeycomb',
+    rows,
+    columns,
+    order,
+    cellSize,
+    //the box of a hexagon is wider than the hexagon itself
+    originX: left - (cellSize - pitchX) / 2,
+    originY: top,
+    pitchX,
+    pitchY,
+    bounds: { x: left, y: top, width: tilingWidth, height: tilingHeight },
+    width,
+    height,
+    safeArea,
+  };
+};
+
+/**
+ * The part of the runtime configuration the layout depends on.
+ */
+export type TimelineLayoutInput = Pick<
+  RenderConfig,
+  'totalCells' | 'granularity' | 'layout' | 'cellOrder'
+>;
+
+/**
+ * Lays the timeline out with the strategy selected by the user.
+ * @param {TimelineLayoutInput} renderConfig the derived runtime configuration (its timeline size and layout choice)
+ * @param {number} width provide the viewport width
+ * @param {number} height provide the viewport height
+ * @param {SafeAreaInsets} safeArea margins to keep free along each edge (default: none)
+ * @returns {LayoutConfig} the geometry of the selected layout
+ */
+export const computeTimelineLayout = (
+  renderConfig: TimelineLayoutInput,
+  width: number,
+  height: number,
+  safeArea: SafeAreaInsets = NO_SAFE_AREA,
+): LayoutConfig => {
+  const { totalCells, granularity, cellOrder: order } = renderConfig;
+
+  switch (renderConfig.layout) {
+    case 'grid':
+      return {
+        ...computeGridLayout(totalCells, width, height, safeArea),
+        order,
+      };
+    case 'yearRows':
+      return {
+        ...computeBlockLayout(
+          totalCells,
+          getYearRowLength(granularity),
+          Infinity,
+          width,
+          height,
+          safeArea,
+        ),
+        order,
+      };
+    case 'decades': {
+      const columns = getYearRowLength(granularity);
+      const yearsPerRow = columns / getUnitsPerYear(granularity);
+
+      return {
+        ...computeBlockLayout(
+          totalCells,
+          columns,
+          Math.max(Math.round(10 / yearsPerRow), 1),
+          width,
+          height,
+          safeArea,
+        ),
+        order,
+      };
+    }
+    case 'spiral':
+      return computeSpiralLayout(totalCells, width, height, safeArea);
+    case 'rings':
+      return computeRingsLayout(
+        totalCells,
+        granularity,
+        width,
+        height,
+        safeArea,
+      );
+    case 'honeycomb':
+      return computeHoneycombLayout(totalCells, order, width, height, safeArea);
+  }
+};
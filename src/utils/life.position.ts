@@ -1,12 +1,12 @@
 /**
  * LIFE TIMELINE CELL POSITION MAPPING LAYER
  *
- * This file is responsible for converting a life-month index into an exact
+ * This file is responsible for converting a timeline cell index into an exact
  * pixel coordinate on the Canvas where the corresponding cell should be drawn.
  *
- * The life timeline exists as a linear sequence of months represented by:
+ * The life timeline exists as a linear sequence of cells represented by:
  *
- *     index belongs to [0, totalMonths)
+ *     index belongs to [0, totalCells)
  *
  * However, the Canvas rendering engine requires spatial coordinates in order
  * to draw visual elements.
@@ -15,15 +15,22 @@
  *
  *     timeline index
  *             ⬇️
- *     grid row & column
+ *     grid row & column (or place on the spiral, rings or honeycomb)
  *             ⬇️
  *     canvas pixel position (x, y)
  *
+ * GRID ORDER:
+ *
+ * Grid cells fill their block row by row. Right to left, the whole grid is
+ * mirrored (blocks included); snaking, every other row of a block runs back.
+ * Honeycomb rows follow the same rules, every other row shifted by half a
+ * hexagon.
+ *
  * SAFETY:
  *
  * If the provided index is outside the valid grid range:
  *
- *     index < 0 OR index ≥ rows × columns
+ *     index < 0 OR index ≥ rows × columns × blocks (or cells of the layout)
  *
  * the returned position should place the cell outside the visible viewport.
  * This allows downstream rendering logic to proceed without requiring
@@ -41,12 +48,116 @@
  *
  * It serves as the spatial adapter between:
  *
- *     LayoutConfig (grid geometry)
+ *     LayoutConfig (grid, spiral or rings geometry)
  *                 ⬇️
  *         Canvas draw positions
  */
 
-import type { LayoutConfig, CellPosition } from '../types/life.types';
+import type {
+  CellPosition,
+  GridLayoutConfig,
+  HoneycombLayoutConfig,
+  LayoutConfig,
+} from '../types/life.types';
+import {
+  getRingCellCenter,
+  getSpiralAngle,
+  getSpiralCellCenter,
+} from './life.radialLayout.ts';
+
+/**
+ * Number of cells a layout has room for.
+ * @param {LayoutConfig} layoutConfig provide the layout configuration of the grid
+ * @returns {number} the capacity of the layout
+ */
+const getLayoutCapacity = (layoutConfig: LayoutConfig): number => {
+  switch (layoutConfig.kind) {
+    case 'grid':
+      return layoutConfig.columns * layoutConfig.rows * layoutConfig.blocks;
+    case 'spiral':
+      return layoutConfig.cells;
+    case 'rings':
+      return layoutConfig.cellsPerRing * layoutConfig.rings;
+    case 'honeycomb':
+      return layoutConfig.columns * layoutConfig.rows;
+  }
+};
+
+/**
+ * Top-left corner of a grid cell.
+ * @param {number} index provide the index of cell (0 based indexing, in range)
+ * @param {GridLayoutConfig} layoutConfig provide the grid geometry
+ * @returns {CellPosition} returns x y coordinates of the cell
+ */
+const getGridCellPosition = (
+  index: number,
+  layoutConfig: GridLayoutConfig,
+): CellPosition => {
+  const { rows, columns, blocksPerRow, gutter, cellSize, order } = layoutConfig;
+
+  const block = Math.floor(index / (rows * columns));
+  const indexInBlock = index % (rows * columns);
+
+  const row = Math.floor(indexInBlock / columns);
+  let column = indexInBlock % columns;
+
+  if (order === 'snake' && row % 2 === 1) {
+    column = columns - 1 - column;
+  }
+
+  const blockX = (block % blocksPerRow) * (columns * cellSize + gutter);
+  const blockY = Math.floor(block / blocksPerRow) * (rows * cellSize + gutter);
+
+  const x = layoutConfig.offsetX + blockX + column * cellSize;
+  const y = layoutConfig.offsetY + blockY + row * cellSize;
+
+  if (order === 'rightToLeft') {
+    //mirror the cell box across the grid
+    const { x: left, width } = layoutConfig.bounds;
+    return { x: 2 * left + width - cellSize - x, y };
+  }
+
+  return {
+    x,
+    y,
+  };
+};
+
+/**
+ * Top-left corner of the box of a honeycomb cell.
+ * @param {number} index provide the index of cell (0 based indexing, in range)
+ * @param {HoneycombLayoutConfig} layoutConfig provide the honeycomb geometry
+ * @returns {CellPosition} returns x y coordinates of the cell box
+ */
+const getHoneycombCellPosition = (
+  index: number,
+  layoutConfig: HoneycombLayoutConfig,
+): CellPosition => {
+  const { columns, pitchX, pitchY, cellSize, order } = layoutConfig;
+
+  const row = Math.floor(index / columns);
+  let column = index % columns;
+
+  if (order === 'snake' && row % 2 === 1) {
+    column = columns - 1 - column;
+  }
+
+  //odd rows are shifted by half a hexagon
+  const x =
+    layoutConfig.originX + column * pitchX + (row % 2 === 1 ? pitchX / 2 : 0);
+  const y = layoutConfig.originY + row * pitchY;
+
+  if (order === 'rightToLeft') {
+    //mirror the cell box across the honeycomb
+    const { x: left, width } = layoutConfig.bounds;
+    return { x: 2 * left + width - cellSize - x, y };
+  }
+
+  return {
+    x,
+    y,
+  };
+};
 
 /**
  *
@@ -59,21 +170,60 @@ export const getCellPosition = (
   layoutConfig: LayoutConfig,
 ): CellPosition => {
   // for invalid index this will be drawn outside the screen so will not be visible on the screen
-  if (index < 0 || index >= layoutConfig.columns * layoutConfig.rows) {
+  if (index < 0 || index >= getLayoutCapacity(layoutConfig)) {
     return {
       x: -layoutConfig.cellSize,
       y: -layoutConfig.cellSize,
     };
   }
 
-  const column = index % layoutConfig.columns;
-  const row = Math.floor(index / layoutConfig.columns);
+  if (layoutConfig.kind === 'grid') {
+    return getGridCellPosition(index, layoutConfig);
+  }
 
-  const x = layoutConfig.offsetX + column * layoutConfig.cellSize;
-  const y = layoutConfig.offsetY + row * layoutConfig.cellSize;
+  if (layoutConfig.kind === 'honeycomb') {
+    return getHoneycombCellPosition(index, layoutConfig);
+  }
+
+  //round layouts place cell centers, cells are drawn from their top-left corner
+  const { x, y } =
+    layoutConfig.kind === 'spiral'
+      ? getSpiralCellCenter(index, layoutConfig)
+      : getRingCellCenter(index, layoutConfig);
 
   return {
-    x,
-    y,
+    x: x - layoutConfig.cellSize / 2,
+    y: y - layoutConfig.cellSize / 2,
   };
 };
+
+/**
+ * Largest index distance between two cells drawn next to each other, e.g.
+ * to find every neighbor whose outline may bleed into a repainted cell.
+ * @param {LayoutConfig} layoutConfig provide the layout configuration of the grid
+ * @returns {number} the index distance
+ */
+export const getNeighborIndexSpan = (layoutConfig: LayoutConfig): number => {
+  switch (layoutConfig.kind) {
+    case 'grid':
+      //snaking, the cell below the end of a row is almost two rows further
+      return layoutConfig.order === 'snake'
+        ? 2 * layoutConfig.columns
+        : layoutConfig.columns;
+    case 'spiral': {
+      //cells of the outermost turn, one cell apart along its circumference
+      const outerAngle = getSpiralAngle(
+        layoutConfig.cells,
+        layoutConfig.startAngle,
+      );
+      return Math.ceil(outerAngle + 2 * Math.PI);
+    }
+    case 'rings':
+      return layoutConfig.cellsPerRing + 1;
+    case 'honeycomb':
+      //hexagons of the next row sit half a cell further along
+      return layoutConfig.order === 'snake'
+        ? 2 * layoutConfig.columns
+        : layoutConfig.columns + 1;
+  }
+};
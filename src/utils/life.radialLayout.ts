@@ -0,0 +1,208 @@
+/**
+ * LIFE TIMELINE RADIAL LAYOUT GEOMETRY
+ *
+ * This file holds the polar math shared by the two round layouts, in both
+ * directions (index → cell center for drawing, point → cell for hit-testing):
+ *
+ * SPIRAL:
+ *
+ * An Archimedean spiral r = b·θ whose turns lie one cell apart
+ * (b = cellSize / 2π). Cells are placed one cell apart along the curve; since
+ * the arc length of the spiral grows as b·θ² / 2, the angle of cell i is
+ *
+ *     θ(i) = sqrt(θ₀² + 4π·i)
+ *
+ * which, conveniently, does not depend on the cell size. θ₀ = 2π keeps the
+ * first cell one cell away from the center.
+ *
+ * RINGS:
+ *
+ * Concentric rings one cell apart, each holding the same number of cells,
+ * clockwise from 12 o'clock. The innermost ring is just wide enough for
+ * neighboring cells not to overlap (their centers are one cell apart).
+ *
+ * Both layouts unwind clockwise from 12 o'clock, like a clock hand.
+ *
+ * NOTE:
+ *
+ * This file performs coordinate computation only.
+ * It must NOT:
+ * - decide the cell size or the center (see life.layout.ts)
+ * - classify cell state
+ * - access DOM or Canvas APIs
+ */
+
+import type {
+  RingsLayoutConfig,
+  SpiralLayoutConfig,
+} from '../types/life.types.ts';
+
+// Unwound angle of the first spiral cell: one full turn out of the center
+export const SPIRAL_START_ANGLE = 2 * Math.PI;
+
+/**
+ * Angle of a cell along the unwound spiral.
+ * @param {number} index - The cell index, counted from the center.
+ * @param {number} startAngle - The angle of the first cell.
+ * @returns {number} The angle in radians.
+ */
+export const getSpiralAngle = (index: number, startAngle: number): number => {
+  return Math.sqrt(startAngle ** 2 + 4 * Math.PI * index);
+};
+
+/**
+ * Radius of the innermost ring for a number of cells per ring.
+ * @param {number} cellsPerRing - The number of cells of every ring.
+ * @param {number} cellSize - The cell size in pixels.
+ * @returns {number} The radius through the cell centers.
+ */
+export const getInnerRingRadius = (
+  cellsPerRing: number,
+  cellSize: number,
+): number => {
+  //neighboring centers one cell apart (a single cell sits in the center)
+  return cellsPerRing > 1
+    ? cellSize / (2 * Math.sin(Math.PI / cellsPerRing))
+    : 0;
+};
+
+/**
+ * Converts a polar position (clockwise from 12 o'clock) into pixels.
+ * @param {number} centerX - Horizontal center in pixels.
+ * @param {number} centerY - Vertical center in pixels.
+ * @param {number} radius - Distance from the center in pixels.
+ * @param {number} angle - Angle in radians.
+ * @returns {{ x: number; y: number }} The point in pixels.
+ */
+const fromPolar = (
+  centerX: number,
+  centerY: number,
+  radius: number,
+  angle: number,
+): { x: number; y: number } => ({
+  x: centerX + radius * Math.sin(angle),
+  y: centerY - radius * Math.cos(angle),
+});
+
+/**
+ * Angle of a point around a center, clockwise from 12 o'clock.
+ * @param {number} dx - Horizontal distance from the center.
+ * @param {number} dy - Vertical distance from the center.
+ * @returns {number} The angle in [0, 2π).
+ */
+const getClockAngle = (dx: number, dy: number): number => {
+  const angle = Math.atan2(dx, -dy);
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+};
+
+/**
+ * Center of a spiral cell.
+ * @param {number} index - The cell index (0 based).
+ * @param {SpiralLayoutConfig} layoutConfig - The spiral geometry.
+ * @returns {{ x: number; y: number }} The cell center in pixels.
+ */
+export const getSpiralCellCenter = (
+  index: number,
+  layoutConfig: SpiralLayoutConfig,
+): { x: number; y: number } => {
+  const { centerX, centerY, cellSize, startAngle } = layoutConfig;
+  const angle = getSpiralAngle(index, startAngle);
+
+  return fromPolar(centerX, centerY, (cellSize / (2 * Math.PI)) * angle, angle);
+};
+
+/**
+ * Cells of the spiral that may be drawn under a point: the nearest cells on
+ * the turns passing closest to it.
+ * @param {number} x - Horizontal coordinate in pixels.
+ * @param {number} y - Vertical coordinate in pixels.
+ * @param {SpiralLayoutConfig} layoutConfig - The spiral geometry.
+ * @returns {number[]} Candidate cell indices (possibly out of range).
+ */
+export const getSpiralCellsNear = (
+  x: number,
+  y: number,
+  layoutConfig: SpiralLayoutConfig,
+): number[] => {
+  const { centerX, centerY, cellSize, startAngle } = layoutConfig;
+  const dx = x - centerX;
+  const dy = y - centerY;
+  const clockAngle = getClockAngle(dx, dy);
+
+  //unwound angle whose radius is closest to the point
+  const turn = Math.round(
+    ((Math.hypot(dx, dy) * 2 * Math.PI) / cellSize - clockAngle) /
+      (2 * Math.PI),
+  );
+  const candidates: number[] = [];
+
+  for (let k = turn - 1; k <= turn + 1; ++k) {
+    const angle = clockAngle + 2 * Math.PI * k;
+    const index = (angle ** 2 - startAngle ** 2) / (4 * Math.PI);
+
+    candidates.push(Math.floor(index), Math.ceil(index));
+  }
+
+  return candidates;
+};
+
+/**
+ * Center of a ring cell.
+ * @param {number} index - The cell index (0 based).
+ * @param {RingsLayoutConfig} layoutConfig - The rings geometry.
+ * @returns {{ x: number; y: number }} The cell center in pixels.
+ */
+export const getRingCellCenter = (
+  index: number,
+  layoutConfig: RingsLayoutConfig,
+): { x: number; y: number } => {
+  const { centerX, centerY, cellSize, innerRadius, cellsPerRing } =
+    layoutConfig;
+  const ring = Math.floor(index / cellsPerRing);
+  const slot = index % cellsPerRing;
+
+  return fromPolar(
+    centerX,
+    centerY,
+    innerRadius + ring * cellSize,
+    (2 * Math.PI * slot) / cellsPerRing,
+  );
+};
+
+/**
+ * Cells of the rings that may be drawn under a point: the nearest slots of
+ * the nearest rings (a cell box reaches past half the ring spacing in its
+ * corners).
+ * @param {number} x - Horizontal coordinate in pixels.
+ * @param {number} y - Vertical coordinate in pixels.
+ * @param {RingsLayoutConfig} layoutConfig - The rings geometry.
+ * @returns {number[]} Candidate cell indices.
+ */
+export const getRingCellsNear = (
+  x: number,
+  y: number,
+  layoutConfig: RingsLayoutConfig,
+): number[] => {
+  const { centerX, centerY, cellSize, innerRadius, cellsPerRing, rings } =
+    layoutConfig;
+  const dx = x - centerX;
+  const dy = y - centerY;
+
+  const nearestRing = Math.round((Math.hypot(dx, dy) - innerRadius) / cellSize);
+  const nearestSlot = Math.round(
+    (getClockAngle(dx, dy) * cellsPerRing) / (2 * Math.PI),
+  );
+  const candidates: number[] = [];
+
+  for (let ring = nearestRing - 1; ring <= nearestRing + 1; ++ring) {
+    if (ring < 0 || ring >= rings) continue;
+
+    for (let slot = nearestSlot - 1; slot <= nearestSlot + 1; ++slot) {
+      //slots wrap around 12 o'clock
+      const wrappedSlot = (slot + cellsPerRing) % cellsPerRing;
+      candidates.push(ring * cellsPerRing + wrappedSlot);
+    }
+  }
+
+  return candidates;
+};
@@ -14,35 +14,64 @@
  *
  * RESPONSIBILITIES:
  *
- * - Derive total timeline scope (totalMonths) from life expectancy
- * - Compute fully lived life-months from DOB
- * - Compute fractional progress of the current life-month
+ * - Resolve the effective life expectancy (manual value or actuarial estimate)
+ * - Derive total timeline scope (totalCells) from life expectancy and granularity
+ * - Narrow the scope to the zoomed unit's window of cells (see life.zoom.ts)
+ * - Compute fully lived units (cells) from DOB
+ * - Compute fractional progress of the current unit
+ * - Sample the survival curve for "survival" shading of future cells
+ * - Pin the user's life events onto their cells
+ * - Resolve the user's eras into cell ranges (overlaps ordered by precedence)
  * - Resolve ThemePreference → ThemeMode at runtime
- * - Pass through renderer-relevant user selections (message, shape)
+ * - Resolve the selected palette (bundled or user-defined), fitted to the
+ *   user's background (see life.backdrop.ts)
+ * - Pass through renderer-relevant user selections (message, shape, fill style, granularity, motion)
  *
  *
  * THEME RESOLUTION:
  *
  * UserConfig stores a ThemePreference:
- *     "light" | "dark" | "system"
+ *     "light" | "dark" | "system" | "schedule"
  *
- * If "system" is selected, the builder dynamically resolves the active
- * ThemeMode using the OS-level color scheme preference via:
+ * If "system" is selected, the builder falls back to the OS-level color
+ * scheme, which the caller reads from its environment and passes in (in the
+ * browser: getSystemThemeMode in life.systemTheme.ts). The builder itself never
+ * touches `window`, so it runs unchanged in plain Node (see the CLI).
  *
- *     window.matchMedia('(prefers-color-scheme: dark)')
+ * If "schedule" is selected, the mode follows the user's ThemeSchedule at the
+ * clock's present moment (life.themeSchedule.ts). The caller re-renders at the
+ * next switch like at any other boundary (see life.schedule.ts), as long as
+ * the theme is applied at all (isThemeApplied, see PALETTE RESOLUTION).
  *
  * RenderConfig MUST always contain a concrete ThemeMode:
  *     "light" | "dark"
  *
- * The renderer does not understand or handle "system" preferences.
+ * The renderer does not understand or handle "system" or "schedule" preferences.
+ *
+ * PALETTE RESOLUTION:
+ *
+ * The "auto" palette follows the resolved theme (Classic Light / Classic
+ * Dark). Any other palette id is looked up among the bundled palettes, then
+ * the user's own; an unknown id (e.g. a deleted custom palette) falls back to
+ * "auto". A selected palette carries its own mode, which then becomes the
+ * themeMode, so text and highlights stay readable on its background.
+ *
+ * Over a custom background, the palette is then fitted to it: its background
+ * becomes the color seen behind the grid, its cell colors keep their
+ * contrast and its mode follows the backdrop. The average color of an image
+ * is measured by the caller (it needs the DOM) and passed in.
  *
  * DOMAIN GUARANTEES:
  *
  * The returned RenderConfig ensures:
- * - totalMonths >= 0
- * - fullMonthsLived >= 0
- * - currentMonthProgress is clamped between [0,1]
+ * - totalCells >= 0
+ * - firstCellIndex >= 0, and every cell index is counted from birth
+ * - fullCellsLived >= 0
+ * - currentCellProgress is clamped between [0,1]
+ * - currentCellDuration >= 0 (0 when the unit cannot be resolved)
+ * - futureSurvival is null for flat shading, otherwise covers every cell's age
  * - themeMode belongs to {"light", "dark"}
+ * - palette is a concrete palette whose mode is themeMode
  *
  * This guarantees the Canvas renderer receives safe, deterministic input.
  *
@@ -58,58 +87,224 @@
  * Application-level controllers are responsible for invoking this builder
  * when user configuration or environment state (e.g. system theme) changes.
  *
+ * The present moment is read from the injected Clock, so passing a time
+ * travel clock renders the timeline as of any other date.
+ *
  */
 
 import type {
+  Clock,
+  LifeEvent,
+  Palette,
   RenderConfig,
   ThemeMode,
   ThemePreference,
+  ThemeSchedule,
   UserConfig,
+  ZoomState,
 } from '../types/life.types.ts';
-import { getFullMonthsLived, getCurrentMonthProgress } from './life.time.ts';
+import {
+  getCurrentUnitProgress,
+  getFullUnitsLived,
+  getTotalUnits,
+  getUnitStartDate,
+  getUnitsPerYear,
+} from './life.time.ts';
+import { systemClock } from './life.clock.ts';
+import { resolveExpectancy } from './life.expectancy.ts';
+import { buildSurvivalCurve } from './life.survival.ts';
+import { getEventCells } from './life.events.ts';
+import { getEraRanges } from './life.eras.ts';
+import { LIFE_ZOOM, getZoomWindow } from './life.zoom.ts';
+import { fitPaletteToBackdrop } from './life.backdrop.ts';
+import { getScheduledThemeMode } from './life.themeSchedule.ts';
+import {
+  AUTO_PALETTE_ID,
+  BUILT_IN_PALETTES,
+  CLASSIC_DARK_PALETTE,
+  CLASSIC_LIGHT_PALETTE,
+} from '../data/life.palettes.ts';
+
+// Same upper bound the manual expectancy input enforces
+const MAX_GRID_AGE = 150;
 
 /**
  * Function to dynamically resolve the themePreference into the corresponding themeMode
  * @param {ThemePreference} themePreference pass the themePreference
+ * @param {ThemeMode} systemThemeMode the OS-level color scheme, used for "system"
+ * @param {ThemeSchedule} themeSchedule the time-of-day schedule, used for "schedule"
+ * @param {Date} now the present moment, used for "schedule"
  * @returns {ThemeMode} return the corresponding themeMode
  */
-function resolveTheme(themePreference: ThemePreference): ThemeMode {
+export function resolveTheme(
+  themePreference: ThemePreference,
+  systemThemeMode: ThemeMode,
+  themeSchedule: ThemeSchedule,
+  now: Date,
+): ThemeMode {
   if (themePreference === 'light') {
     return 'light';
   } else if (themePreference === 'dark') {
     return 'dark';
+  } else if (themePreference === 'schedule') {
+    return getScheduledThemeMode(themeSchedule, now);
   } else {
-    return window.matchMedia('(prefers-color-scheme: dark)').matches
-      ? 'dark'
-      : 'light';
+    return systemThemeMode;
   }
 }
 
+/**
+ * Function to resolve the selected palette id into a palette
+ * @param {string} paletteId the id stored in the userConfig
+ * @param {readonly Palette[]} customPalettes the user's own palettes
+ * @param {ThemeMode} themeMode the resolved theme, used by "auto"
+ * @returns {Palette} the selected palette, or the "auto" one if it is unknown
+ */
+export const resolvePalette = (
+  paletteId: string,
+  customPalettes: readonly Palette[],
+  themeMode: ThemeMode,
+): Palette => {
+  const selected =
+    paletteId === AUTO_PALETTE_ID
+      ? undefined
+      : (BUILT_IN_PALETTES.find((palette) => palette.id === paletteId) ??
+        customPalettes.find((palette) => palette.id === paletteId));
+
+  if (selected) return selected;
+
+  return themeMode === 'dark' ? CLASSIC_DARK_PALETTE : CLASSIC_LIGHT_PALETTE;
+};
+
+/**
+ * Function to tell whether the theme preference decides the painted colors.
+ * Only the "auto" palette follows the theme, and only over the palette's own
+ * background: a selected palette carries its own mode, and any other backdrop
+ * sets the mode from its lightness (life.backdrop.ts). Otherwise a "system"
+ * or "schedule" theme never shows, and its changes need no re-render.
+ * @param {Pick<UserConfig, 'palette' | 'customPalettes' | 'background'>} userConfig pass the userConfig (or the settings form)
+ * @returns {boolean} true if light and dark themes paint differently
+ */
+export const isThemeApplied = (
+  userConfig: Pick<UserConfig, 'palette' | 'customPalettes' | 'background'>,
+): boolean => {
+  return (
+    userConfig.background.kind === 'palette' &&
+    resolvePalette(userConfig.palette, userConfig.customPalettes, 'light') !==
+      resolvePalette(userConfig.palette, userConfig.customPalettes, 'dark')
+  );
+};
+
 /**
  * The function to parse the userConfig(local storage) into renderConfig
  * @param {UserConfig} userConfig pass the userConfig
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @param {LifeEvent[]} events the user's life events (defaults to none)
+ * @param {ZoomState} zoom the zoom level to render (defaults to the whole lifetime)
+ * @param {ThemeMode} systemThemeMode the OS-level color scheme (defaults to light, e.g. outside a browser)
+ * @param {string | null} backgroundImageColor the average color of the background image, once measured (defaults to none)
  * @returns {RenderConfig} returns the renderConfig to be consumed by the Canvas rendering engine
  */
-export const buildRenderConfig = (userConfig: UserConfig): RenderConfig => {
+export const buildRenderConfig = (
+  userConfig: UserConfig,
+  clock: Clock = systemClock,
+  events: readonly LifeEvent[] = [],
+  zoom: ZoomState = LIFE_ZOOM,
+  systemThemeMode: ThemeMode = 'light',
+  backgroundImageColor: string | null = null,
+): RenderConfig => {
   const dob = userConfig.dob;
-  const expectancy = userConfig.expectancy;
+  const expectancy = resolveExpectancy(userConfig, clock);
   const message = userConfig.message;
   const themePreference = userConfig.theme;
   const shape = userConfig.shape;
+  const customShape = userConfig.customShape;
+
+  //survival shading keeps drawing (fading) cells past the expectancy up to maxAge
+  const isSurvivalShading = userConfig.futureShading === 'survival';
+  const gridAge = isSurvivalShading
+    ? Math.min(Math.max(userConfig.maxAge, expectancy), MAX_GRID_AGE)
+    : expectancy;
+
+  const lifeCells = getTotalUnits(dob, gridAge, userConfig.granularity);
+  const {
+    unit: granularity,
+    firstCellIndex,
+    cellCount: totalCells,
+  } = getZoomWindow(dob, zoom, userConfig.granularity, lifeCells);
+
+  //a zoomed view only renders a window, so size the whole lifetime from the grid age
+  const lifetimeCells =
+    zoom.level === 'life'
+      ? totalCells
+      : Math.round(gridAge * getUnitsPerYear(granularity));
+
+  const fullCellsLived = getFullUnitsLived(dob, granularity, clock);
+  const currentCellProgress = getCurrentUnitProgress(dob, granularity, clock);
+  const currentCellDuration =
+    getUnitStartDate(dob, granularity, fullCellsLived + 1).getTime() -
+    getUnitStartDate(dob, granularity, fullCellsLived).getTime();
+
+  const futureSurvival = isSurvivalShading
+    ? buildSurvivalCurve(userConfig, gridAge, clock)
+    : null;
 
-  const totalMonths = expectancy * 12;
-  const fullMonthsLived = getFullMonthsLived(dob);
-  const currentMonthProgress = getCurrentMonthProgress(dob);
+  const eventCells = getEventCells(
+    events,
+    dob,
+    granularity,
+    firstCellIndex,
+    totalCells,
+  );
+  const eraRanges = getEraRanges(
+    userConfig.eras,
+    dob,
+    granularity,
+    firstCellIndex,
+    totalCells,
+  );
 
-  const themeMode: ThemeMode = resolveTheme(themePreference);
+  const palette = fitPaletteToBackdrop(
+    resolvePalette(
+      userConfig.palette,
+      userConfig.customPalettes,
+      resolveTheme(
+        themePreference,
+        systemThemeMode,
+        userConfig.themeSchedule,
+        clock.now(),
+      ),
+    ),
+    userConfig.background,
+    backgroundImageColor,
+  );
+  const themeMode: ThemeMode = palette.mode;
 
   const renderConfig: RenderConfig = {
-    totalMonths: totalMonths,
-    fullMonthsLived: fullMonthsLived,
-    currentMonthProgress: currentMonthProgress,
+    dob: dob,
+    firstCellIndex: firstCellIndex,
+    totalCells: totalCells,
+    lifetimeCells: lifetimeCells,
+    fullCellsLived: fullCellsLived,
+    currentCellProgress: currentCellProgress,
+    //NaN for a malformed dob
+    currentCellDuration: currentCellDuration > 0 ? currentCellDuration : 0,
+    granularity: granularity,
+    zoom: zoom,
+    expectancy: expectancy,
+    futureSurvival: futureSurvival,
+    events: eventCells,
+    eras: eraRanges,
     themeMode: themeMode,
+    palette: palette,
+    background: userConfig.background,
     message: message,
     shape: shape,
+    customShape: customShape,
+    layout: userConfig.layout,
+    cellOrder: userConfig.cellOrder,
+    fillStyle: userConfig.fillStyle,
+    motion: userConfig.motion,
   };
 
   return renderConfig;
@@ -0,0 +1,91 @@
+/**
+ * LIFE TIMELINE BOUNDARY SCHEDULER TESTS
+ *
+ * The scheduler must wake up exactly when the present cell fill drawn by the
+ * renderer (getCurrentUnitProgress) grows by one step, including on the 23h
+ * and 25h days of DST switches, where wall-clock progress and elapsed
+ * milliseconds disagree.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getNextRenderBoundary } from './life.schedule.ts';
+import { getCurrentUnitProgress } from './life.time.ts';
+import { createFixedClock } from './life.clock.ts';
+import { parseIsoDate } from './life.calendar.ts';
+
+const DOB = '1990-01-01';
+
+// One fill step per wall-clock hour of a day cell
+const FILL_STEPS = 24;
+
+describe.each([
+  // zone, spring-forward day, fall-back day
+  ['America/New_York', '2024-03-10', '2024-11-03'],
+  ['Europe/London', '2024-03-31', '2024-10-27'],
+])('fill steps on DST days in %s', (timeZone, springForward, fallBack) => {
+  beforeEach(() => {
+    vi.stubEnv('TZ', timeZone);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([springForward, fallBack])(
+    'wakes at every visible fill step of %s',
+    (day) => {
+      const midnight = parseIsoDate(day);
+      const nextMidnight = new Date(midnight);
+      nextMidnight.setDate(midnight.getDate() + 1);
+
+      const getStep = (instant: Date): number =>
+        Math.floor(
+          getCurrentUnitProgress(DOB, 'day', createFixedClock(instant)) *
+            FILL_STEPS,
+        );
+
+      let now = new Date(midnight.getTime() + 1);
+      let wakeUps = 0;
+
+      while (now < nextMidnight) {
+        const boundary = getNextRenderBoundary(
+          DOB,
+          'day',
+          FILL_STEPS,
+          createFixedClock(now),
+        );
+
+        expect(boundary.getTime()).toBeGreaterThan(now.getTime());
+
+        if (boundary < nextMidnight) {
+          //never early: the renderer shows the next step at the wake-up...
+          expect(getStep(boundary)).toBeGreaterThan(getStep(now));
+          //...and never late: one millisecond before, it was not visible yet
+          expect(getStep(new Date(boundary.getTime() - 1))).toBe(getStep(now));
+          ++wakeUps;
+        }
+
+        now = boundary;
+      }
+
+      //one wake-up per wall-clock hour, minus the hour a spring-forward skips
+      expect(wakeUps).toBe(
+        day === springForward ? FILL_STEPS - 2 : FILL_STEPS - 1,
+      );
+    },
+  );
+
+  it('wakes at 13:00 from noon of the spring-forward day', () => {
+    const noon = parseIsoDate(springForward);
+    noon.setHours(12);
+
+    const boundary = getNextRenderBoundary(
+      DOB,
+      'day',
+      FILL_STEPS,
+      createFixedClock(noon),
+    );
+
+    expect(boundary.getHours()).toBe(13);
+    expect(boundary.getMinutes()).toBe(0);
+  });
+});
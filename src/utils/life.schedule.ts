@@ -0,0 +1,135 @@
+/**
+ * LIFE TIMELINE BOUNDARY SCHEDULER
+ *
+ * This file is responsible for working out WHEN the derived RenderConfig
+ * next needs to be rebuilt.
+ *
+ * A wallpaper (Lively) or a new tab can stay open for weeks. Re-deriving the
+ * RenderConfig every frame would be wasteful, while never re-deriving it
+ * freezes the "present" cell. Instead, the application sleeps until the next
+ * meaningful boundary, which is the EARLIEST of:
+ *
+ * - Unit rollover:   the present cell becomes past and the next cell becomes present
+ * - Visible fill:    the present cell's partial fill grows by one device pixel
+ * - Next birthday:   the user's age changes
+ * - Next midnight:   the calendar date changes
+ * - Theme switch:    the "schedule" theme flips between light and dark
+ *
+ * VISIBLE FILL STEPS:
+ *
+ * The present cell fill is drawn across `fillSteps` device pixels. A change
+ * in progress smaller than 1 / fillSteps cannot be seen, so the next visible
+ * change happens at:
+ *
+ *     unitStart + ceil-step(progress * fillSteps) / fillSteps * unitDuration
+ *
+ * measured on the wall clock, like the progress itself (life.calendar.ts, rule 2).
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - create timers or listen to events
+ * - access DOM or Canvas APIs
+ * - persist state
+ *
+ * Application-level controllers (App.tsx) own the actual setTimeout and
+ * trigger the re-derivation when the returned boundary is reached.
+ */
+
+import type { Clock, ThemeSchedule, TimeUnit } from '../types/life.types.ts';
+import { systemClock } from './life.clock.ts';
+import { getFullUnitsLived, getUnitStartDate } from './life.time.ts';
+import { getWallClockInstant, getWallClockProgress } from './life.calendar.ts';
+import { getNextThemeSwitch } from './life.themeSchedule.ts';
+
+/**
+ * Returns the next local midnight strictly after the given instant.
+ * @param {Date} now the reference instant
+ * @returns {Date} start of the next local calendar day
+ */
+const getNextMidnight = (now: Date): Date => {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+};
+
+/**
+ * Returns the next instant at which the present cell fill visibly grows.
+ * Progress is measured on the wall clock, exactly like the renderer's
+ * (getCurrentUnitProgress), so a 23h or 25h DST day cannot make the two drift.
+ * @param {Date} unitStart start of the present unit
+ * @param {Date} unitEnd end of the present unit
+ * @param {Date} now the reference instant
+ * @param {number} fillSteps number of device pixels the fill spans
+ * @returns {Date} the next visible fill change (or unitEnd when steps are exhausted)
+ */
+const getNextFillStep = (
+  unitStart: Date,
+  unitEnd: Date,
+  now: Date,
+  fillSteps: number,
+): Date => {
+  const steps = Math.max(Math.floor(fillSteps), 1);
+  const progress = getWallClockProgress(unitStart, unitEnd, now);
+
+  if (progress >= 1) return unitEnd;
+
+  let nextStep = Math.floor(progress * steps) + 1;
+  let nextInstant = getWallClockInstant(unitStart, unitEnd, nextStep / steps);
+
+  //rounding, or the repeated hour of a fall-back day, can map a step onto the past
+  while (nextInstant.getTime() <= now.getTime() && nextStep < steps) {
+    ++nextStep;
+    nextInstant = getWallClockInstant(unitStart, unitEnd, nextStep / steps);
+  }
+
+  return nextInstant;
+};
+
+/**
+ * Computes the next instant at which the RenderConfig must be re-derived.
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @param {number} fillSteps number of device pixels the present cell fill spans
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @param {ThemeSchedule | null} themeSchedule the active theme schedule, or null when the theme is not scheduled
+ * @returns {Date} the earliest upcoming boundary (always strictly after now)
+ */
+export const getNextRenderBoundary = (
+  dob: string,
+  granularity: TimeUnit,
+  fillSteps: number,
+  clock: Clock = systemClock,
+  themeSchedule: ThemeSchedule | null = null,
+): Date => {
+  const now = clock.now();
+  const candidates: Date[] = [getNextMidnight(now)];
+
+  const fullUnitsLived = getFullUnitsLived(dob, granularity, clock);
+  const unitStart = getUnitStartDate(dob, granularity, fullUnitsLived);
+  const unitEnd = getUnitStartDate(dob, granularity, fullUnitsLived + 1);
+
+  if (!isNaN(unitStart.getTime()) && !isNaN(unitEnd.getTime())) {
+    candidates.push(unitEnd);
+    candidates.push(getNextFillStep(unitStart, unitEnd, now, fillSteps));
+  }
+
+  const fullYearsLived = getFullUnitsLived(dob, 'year', clock);
+  const nextBirthday = getUnitStartDate(dob, 'year', fullYearsLived + 1);
+
+  if (!isNaN(nextBirthday.getTime())) {
+    candidates.push(nextBirthday);
+  }
+
+  if (themeSchedule !== null) {
+    candidates.push(getNextThemeSwitch(themeSchedule, now));
+  }
+
+  const upcoming = candidates.filter(
+    (candidate) => candidate.getTime() > now.getTime(),
+  );
+
+  //midnight is always upcoming, so there is at least one candidate
+  return upcoming.reduce((earliest, candidate) =>
+    candidate.getTime() < earliest.getTime() ? candidate : earliest,
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * LIFE TIMELINE SURVIVAL SHADING LAYER
+ *
+ * This file is responsible for deriving how strongly each future cell should
+ * be drawn when the user selects "survival" shading.
+ *
+ * Instead of treating the life expectancy as a hard cutoff, every future cell
+ * is shaded by the probability of still being alive at that age, given that
+ * the user is alive today:
+ *
+ *     opacity(cell) = S(ageAtCell) / S(currentAge)
+ *
+ * Cells beyond the nominal expectancy keep fading instead of disappearing,
+ * and the grid extends to a configurable maximum age (e.g. 110).
+ *
+ * SURVIVAL MODELS:
+ *
+ * - lifeTable: the bundled period table used by the actuarial estimate,
+ *   including the user's lifestyle hazard ratio.
+ * - gompertz:  S(x) = exp(-exp(-M / b) * (exp(x / b) - 1))
+ *   where M is the modal age at death and b the dispersion (years).
+ *
+ * The curve is sampled once per whole year of age into RenderConfig, so the
+ * renderer only needs cheap interpolation per cell.
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - persist state
+ */
+
+import type { Clock, RenderConfig, UserConfig } from '../types/life.types.ts';
+import { systemClock } from './life.clock.ts';
+import {
+  findLifeTable,
+  getHazardRatio,
+  getSurvivalProbability,
+} from './life.expectancy.ts';
+import {
+  getCurrentYearProgress,
+  getFullYearsLived,
+  getUnitsPerYear,
+} from './life.time.ts';
+
+// Faintest opacity a future cell can reach, so the grid outline never vanishes entirely
+const MIN_FUTURE_OPACITY = 0.06;
+
+/**
+ * Gompertz survival from birth to the given age (modal parameterisation).
+ * @param {number} age exact age in years
+ * @param {number} modalAge modal age at death M (years)
+ * @param {number} dispersion dispersion b (years, > 0)
+ * @returns {number} survival probability within [0,1]
+ */
+export const getGompertzSurvival = (
+  age: number,
+  modalAge: number,
+  dispersion: number,
+): number => {
+  const safeDispersion = Math.max(dispersion, 0.5);
+
+  return Math.exp(
+    -Math.exp(-modalAge / safeDispersion) *
+      (Math.exp(Math.max(age, 0) / safeDispersion) - 1),
+  );
+};
+
+/**
+ * Samples the conditional survival curve at every whole year of age.
+ * @param {UserConfig} userConfig pass the userConfig
+ * @param {number} maxAge last age (years) to sample
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {number[]} conditional survival, index = age in years (length maxAge + 1)
+ */
+export const buildSurvivalCurve = (
+  userConfig: UserConfig,
+  maxAge: number,
+  clock: Clock = systemClock,
+): number[] => {
+  const currentAge =
+    getFullYearsLived(userConfig.dob, clock) +
+    getCurrentYearProgress(userConfig.dob, clock);
+
+  const table =
+    userConfig.survivalModel === 'lifeTable'
+      ? findLifeTable(userConfig.lifeTableCountry, userConfig.sex)
+      : undefined;
+  const hazardRatio = getHazardRatio(userConfig.smoking, userConfig.activity);
+
+  //falls back to the Gompertz curve if no table is bundled for the selection
+  const getSurvival = (age: number): number =>
+    table
+      ? getSurvivalProbability(table, age, hazardRatio)
+      : getGompertzSurvival(
+          age,
+          userConfig.gompertzModalAge,
+          userConfig.gompertzDispersion,
+        );
+
+  const survivalToday = getSurvival(currentAge);
+  const curve: number[] = [];
+
+  for (let age = 0; age <= Math.ceil(maxAge); ++age) {
+    if (age <= currentAge || survivalToday <= 0) {
+      curve.push(1);
+    } else {
+      curve.push(Math.min(getSurvival(age) / survivalToday, 1));
+    }
+  }
+
+  return curve;
+};
+
+/**
+ * Resolves the opacity of a future cell from the sampled survival curve.
+ * @param {number} index the chronological index of the cell
+ * @param {RenderConfig} renderConfig provide the renderConfig of the user
+ * @returns {number} opacity within [MIN_FUTURE_OPACITY, 1] (1 for flat shading)
+ */
+export const getFutureCellOpacity = (
+  index: number,
+  renderConfig: RenderConfig,
+): number => {
+  const curve = renderConfig.futureSurvival;
+
+  if (!curve || curve.length === 0) return 1;
+
+  //age at the middle of the cell, interpolated between whole-year samples
+  const age = (index + 0.5) / getUnitsPerYear(renderConfig.granularity);
+  const lowerAge = Math.min(Math.floor(age), curve.length - 1);
+  const upperAge = Math.min(lowerAge + 1, curve.length - 1);
+  const fraction = Math.min(age - lowerAge, 1);
+
+  const survival =
+    curve[lowerAge] + (curve[upperAge] - curve[lowerAge]) * fraction;
+
+  return Math.max(survival, MIN_FUTURE_OPACITY);
+};
@@ -0,0 +1,27 @@
+/**
+ * LIFE TIMELINE SYSTEM THEME (BROWSER ONLY)
+ *
+ * This file reads the OS-level color scheme preference of the browser:
+ *
+ *     window.matchMedia('(prefers-color-scheme: dark)')
+ *
+ * It is kept apart from the render config builder (life.render.ts) so that
+ * the core of the app never touches `window` and runs in plain Node as well
+ * (see the CLI). Browser callers read the system theme here and pass it on.
+ *
+ * NOTE:
+ *
+ * This file must NOT be imported by code meant to run outside a browser.
+ */
+
+import type { ThemeMode } from '../types/life.types.ts';
+
+/**
+ * Reads the color scheme currently preferred by the operating system.
+ * @returns {ThemeMode} "dark" if the OS prefers a dark scheme, otherwise "light"
+ */
+export const getSystemThemeMode = (): ThemeMode => {
+  return window.matchMedia('(prefers-color-scheme: dark)').matches
+    ? 'dark'
+    : 'light';
+};
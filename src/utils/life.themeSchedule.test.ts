@@ -0,0 +1,220 @@
+/**
+ * LIFE TIMELINE THEME SCHEDULE TESTS
+ *
+ * Table-driven checks of the rules documented in life.themeSchedule.ts:
+ * sunrise and sunset land on the local calendar day they are asked for,
+ * whatever the longitude (far east and far west of Greenwich included),
+ * polar days and nights hold all day, fixed schedules may wrap around
+ * midnight, and the next switch is always strictly ahead.
+ *
+ * Every suite pins the process time zone, so the results never depend on the
+ * machine running them.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getNextThemeSwitch,
+  getScheduledThemeMode,
+  getSunTimes,
+} from './life.themeSchedule.ts';
+import { formatIsoDate, parseIsoDate } from './life.calendar.ts';
+import type { ThemeSchedule } from '../types/life.types.ts';
+
+// Cities on both sides of Greenwich and of the equator, with their time zone
+const LOCATIONS = [
+  // zone, latitude, longitude, sunrise and sunset on 2024-03-05
+  ['Australia/Sydney', -33.87, 151.21, '06:46', '19:27'],
+  ['Asia/Tokyo', 35.68, 139.69, '06:06', '17:40'],
+  ['Pacific/Auckland', -36.85, 174.76, '07:10', '19:55'],
+  ['Europe/Berlin', 52.52, 13.4, '06:44', '17:52'],
+  ['America/Chicago', 41.88, -87.63, '06:18', '17:46'],
+  ['America/Los_Angeles', 34.05, -118.24, '06:16', '17:53'],
+  ['Pacific/Honolulu', 21.31, -157.86, '06:48', '18:38'],
+] as const;
+
+// Published almanac times differ from the simplified solar position by a few minutes
+const SUN_TOLERANCE_MINUTES = 10;
+
+/**
+ * Pins the local time zone for every test of the enclosing suite.
+ * @param {string} timeZone - An IANA time zone.
+ */
+const useTimeZone = (timeZone: string): void => {
+  beforeEach(() => {
+    vi.stubEnv('TZ', timeZone);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+};
+
+/**
+ * Builds a local instant from its wall-clock components, in the time zone
+ * pinned when it is called (so never while the tables are declared).
+ * @param {string} dateTime - The local date and time, as "YYYY-MM-DD[ HH:MM]".
+ * @returns {Date} The local instant.
+ */
+const at = (dateTime: string): Date => {
+  const [isoDate, time = '00:00'] = dateTime.split(' ');
+  const [hours, minutes] = time.split(':');
+  const date = parseIsoDate(isoDate);
+  date.setHours(Number(hours), Number(minutes), 0, 0);
+
+  return date;
+};
+
+/**
+ * Builds a sun schedule for a location.
+ * @param {number} latitude - Latitude in degrees, north positive.
+ * @param {number} longitude - Longitude in degrees, east positive.
+ * @returns {ThemeSchedule} The schedule.
+ */
+const sunSchedule = (latitude: number, longitude: number): ThemeSchedule => ({
+  kind: 'sun',
+  lightAt: '07:00',
+  darkAt: '19:00',
+  latitude,
+  longitude,
+});
+
+/**
+ * Builds a fixed schedule.
+ * @param {string} lightAt - Local time of day the light theme starts at.
+ * @param {string} darkAt - Local time of day the dark theme starts at.
+ * @returns {ThemeSchedule} The schedule.
+ */
+const fixedSchedule = (lightAt: string, darkAt: string): ThemeSchedule => ({
+  kind: 'fixed',
+  lightAt,
+  darkAt,
+  latitude: 0,
+  longitude: 0,
+});
+
+describe.each(LOCATIONS)(
+  'sun schedule in %s',
+  (timeZone, latitude, longitude, sunriseAt, sunsetAt) => {
+    useTimeZone(timeZone);
+
+    it.each(['2024-03-05', '2024-06-21', '2024-12-21'])(
+      'rises and sets on the local day %s',
+      (isoDate) => {
+        //any instant of the day resolves to that same calendar day
+        for (const time of ['00:00', '12:00', '23:59']) {
+          const { sunrise, sunset } = getSunTimes(
+            at(`${isoDate} ${time}`),
+            latitude,
+            longitude,
+          );
+
+          expect(sunrise && formatIsoDate(sunrise)).toBe(isoDate);
+          expect(sunset && formatIsoDate(sunset)).toBe(isoDate);
+          expect(sunrise!.getTime()).toBeLessThan(sunset!.getTime());
+        }
+      },
+    );
+
+    it(`rises near ${sunriseAt} and sets near ${sunsetAt} on 2024-03-05`, () => {
+      const { sunrise, sunset } = getSunTimes(
+        at('2024-03-05 12:00'),
+        latitude,
+        longitude,
+      );
+      const toleranceMs = SUN_TOLERANCE_MINUTES * 60_000;
+
+      expect(
+        Math.abs(sunrise!.getTime() - at(`2024-03-05 ${sunriseAt}`).getTime()),
+      ).toBeLessThanOrEqual(toleranceMs);
+      expect(
+        Math.abs(sunset!.getTime() - at(`2024-03-05 ${sunsetAt}`).getTime()),
+      ).toBeLessThanOrEqual(toleranceMs);
+    });
+
+    it.each([
+      ['2024-03-05 03:00', 'dark'],
+      ['2024-03-05 09:00', 'light'],
+      ['2024-03-05 12:00', 'light'],
+      ['2024-03-05 15:00', 'light'],
+      ['2024-03-05 22:00', 'dark'],
+    ])('shows %s as %s', (dateTime, expected) => {
+      expect(
+        getScheduledThemeMode(sunSchedule(latitude, longitude), at(dateTime)),
+      ).toBe(expected);
+    });
+
+    it.each(['2024-03-05 03:00', '2024-03-05 09:00', '2024-03-05 15:00'])(
+      'switches next at the sunrise or sunset following %s',
+      (dateTime) => {
+        const schedule = sunSchedule(latitude, longitude);
+        const now = at(dateTime);
+        const next = getNextThemeSwitch(schedule, now);
+
+        expect(next.getTime()).toBeGreaterThan(now.getTime());
+        expect(next.getTime() - now.getTime()).toBeLessThanOrEqual(
+          24 * 60 * 60_000,
+        );
+        expect(getScheduledThemeMode(schedule, next)).not.toBe(
+          getScheduledThemeMode(schedule, new Date(next.getTime() - 1)),
+        );
+      },
+    );
+  },
+);
+
+describe('sun schedule beyond the polar circles', () => {
+  // Tromsø, Norway
+  useTimeZone('Europe/Oslo');
+  const schedule = sunSchedule(69.65, 18.96);
+
+  it.each([
+    ['2024-06-21', true, 'light'],
+    ['2024-12-21', false, 'dark'],
+  ])('holds on %s all day', (isoDate, isPolarDay, expected) => {
+    expect(getSunTimes(at(`${isoDate} 12:00`), 69.65, 18.96)).toEqual({
+      sunrise: null,
+      sunset: null,
+      isPolarDay,
+    });
+
+    for (const time of ['00:00', '12:00', '23:59']) {
+      expect(getScheduledThemeMode(schedule, at(`${isoDate} ${time}`))).toBe(
+        expected,
+      );
+    }
+  });
+
+  it('rechecks at the next local midnight', () => {
+    const next = getNextThemeSwitch(schedule, at('2024-06-21 12:00'));
+
+    expect(next.getTime()).toBe(at('2024-06-22').getTime());
+  });
+});
+
+describe.each(['Europe/London', 'Australia/Sydney', 'Asia/Tokyo', 'UTC'])(
+  'fixed schedule in %s',
+  (timeZone) => {
+    useTimeZone(timeZone);
+
+    it.each([
+      // lightAt, darkAt, local time, expected theme, next wake-up
+      ['07:00', '19:00', '2024-03-05 06:59', 'dark', '2024-03-05 07:00'],
+      ['07:00', '19:00', '2024-03-05 07:00', 'light', '2024-03-05 19:00'],
+      ['07:00', '19:00', '2024-03-05 19:00', 'dark', '2024-03-06 00:00'], // midnight recheck
+      ['07:00', '19:00', '2024-03-06 00:00', 'dark', '2024-03-06 07:00'],
+      ['22:00', '06:00', '2024-03-05 23:00', 'light', '2024-03-06 00:00'],
+      ['22:00', '06:00', '2024-03-06 00:00', 'light', '2024-03-06 06:00'],
+      ['22:00', '06:00', '2024-03-05 03:00', 'light', '2024-03-05 06:00'],
+      ['22:00', '06:00', '2024-03-05 12:00', 'dark', '2024-03-05 22:00'],
+    ])(
+      'light %s to %s: %s is %s until %s',
+      (lightAt, darkAt, dateTime, expected, nextSwitch) => {
+        const schedule = fixedSchedule(lightAt, darkAt);
+
+        expect(getScheduledThemeMode(schedule, at(dateTime))).toBe(expected);
+        expect(getNextThemeSwitch(schedule, at(dateTime)).getTime()).toBe(
+          at(nextSwitch).getTime(),
+        );
+      },
+    );
+  },
+);
@@ -0,0 +1,236 @@
+/**
+ * LIFE TIMELINE THEME SCHEDULE
+ *
+ * This file decides which theme the "schedule" preference shows at a given
+ * instant, and when it switches next (see ThemeSchedule):
+ *
+ * - fixed: light from `lightAt`, dark from `darkAt` (local times of day; the
+ *          dark period may run over midnight, e.g. 19:00 → 07:00)
+ * - sun:   light from sunrise to sunset at the user's latitude / longitude
+ *
+ * It exists for environments that never hear about OS theme changes (e.g.
+ * Lively Wallpaper, whose embedded engine receives no theme broadcasts): the
+ * wallpaper flips by itself, because the App boundary scheduler wakes up at
+ * every switch (see getNextRenderBoundary in life.schedule.ts). Like any
+ * theme, it only shows with the "auto" palette over the palette background
+ * (see isThemeApplied in life.render.ts); otherwise nothing is scheduled.
+ *
+ * SUNRISE AND SUNSET:
+ *
+ * Computed offline with the sunrise equation (NOAA's simplified solar
+ * position: mean anomaly, equation of the center, ecliptic longitude and
+ * declination), accurate to about a minute away from the poles. The sun is
+ * up when its upper limb clears the horizon, refraction included (-0.833°).
+ * Polar days stay light and polar nights stay dark.
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - create timers or access DOM APIs
+ * - read the current time itself (the instant is always passed in)
+ */
+
+import type { ThemeMode, ThemeSchedule } from '../types/life.types.ts';
+
+const MS_PER_DAY = 86_400_000;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Julian day of the Unix epoch, and of the J2000.0 epoch
+const UNIX_EPOCH_JULIAN_DAY = 2_440_587.5;
+const J2000_JULIAN_DAY = 2_451_545;
+
+// Axial tilt of the Earth
+const EARTH_OBLIQUITY = 23.4397;
+
+// Altitude of the sun's center at sunrise: upper limb on the horizon, refraction included
+const SUNRISE_ALTITUDE = -0.833;
+
+// Local time of day: "HH:MM", 24-hour clock
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Sunrise and sunset of a day; both null during a polar day or night.
+ */
+interface SunTimes {
+  sunrise: Date | null;
+  sunset: Date | null;
+  /**
+   * Whether the sun never sets (true) or never rises (false) that day, or
+   * null when it does both.
+   */
+  isPolarDay: boolean | null;
+}
+
+/**
+ * Whether a value is a local time of day ("HH:MM").
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} true for "00:00" to "23:59"
+ */
+export const isTimeOfDay = (value: unknown): value is string => {
+  return typeof value === 'string' && TIME_OF_DAY_PATTERN.test(value);
+};
+
+/**
+ * Converts a local time of day into minutes after midnight.
+ * @param {string} timeOfDay - The time, as "HH:MM".
+ * @returns {number} Minutes after midnight (0 for a malformed time).
+ */
+const toMinutes = (timeOfDay: string): number => {
+  const match = TIME_OF_DAY_PATTERN.exec(timeOfDay);
+
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+};
+
+/**
+ * Computes sunrise and sunset for the local calendar day of an instant.
+ * @param {Date} day - Any instant of the day.
+ * @param {number} latitude - Latitude in degrees, north positive.
+ * @param {number} longitude - Longitude in degrees, east positive.
+ * @returns {SunTimes} The sunrise and sunset instants.
+ */
+export const getSunTimes = (
+  day: Date,
+  latitude: number,
+  longitude: number,
+): SunTimes => {
+  //the day number of the LOCAL calendar date (noon UTC): only the longitude
+  //term below moves the solar noon, so far east or west the date never shifts
+  const julianDay =
+    Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), 12) /
+      MS_PER_DAY +
+    UNIX_EPOCH_JULIAN_DAY;
+  const cycle = Math.round(julianDay - J2000_JULIAN_DAY - longitude / 360);
+  const meanSolarNoon = cycle + longitude / -360;
+
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarNoon) % 360;
+  const m = toRadians(meanAnomaly);
+  const center =
+    1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = toRadians(
+    (meanAnomaly + center + 180 + 102.9372) % 360,
+  );
+  const solarTransit =
+    J2000_JULIAN_DAY +
+    meanSolarNoon +
+    0.0053 * Math.sin(m) -
+    0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const declination = Math.asin(
+    Math.sin(eclipticLongitude) * Math.sin(toRadians(EARTH_OBLIQUITY)),
+  );
+  const phi = toRadians(latitude);
+  const cosHourAngle =
+    (Math.sin(toRadians(SUNRISE_ALTITUDE)) -
+      Math.sin(phi) * Math.sin(declination)) /
+    (Math.cos(phi) * Math.cos(declination));
+
+  if (cosHourAngle < -1)
+    return { sunrise: null, sunset: null, isPolarDay: true };
+  if (cosHourAngle > 1)
+    return { sunrise: null, sunset: null, isPolarDay: false };
+
+  const halfDay = toDegrees(Math.acos(cosHourAngle)) / 360;
+  const toDate = (julian: number) =>
+    new Date((julian - UNIX_EPOCH_JULIAN_DAY) * MS_PER_DAY);
+
+  return {
+    sunrise: toDate(solarTransit - halfDay),
+    sunset: toDate(solarTransit + halfDay),
+    isPolarDay: null,
+  };
+};
+
+/**
+ * Resolves the theme the schedule shows at an instant.
+ * @param {ThemeSchedule} schedule - The user's schedule.
+ * @param {Date} now - The instant to resolve.
+ * @returns {ThemeMode} "light" during the light period, otherwise "dark"
+ */
+export const getScheduledThemeMode = (
+  schedule: ThemeSchedule,
+  now: Date,
+): ThemeMode => {
+  if (schedule.kind === 'sun') {
+    const { sunrise, sunset, isPolarDay } = getSunTimes(
+      now,
+      schedule.latitude,
+      schedule.longitude,
+    );
+
+    if (!sunrise || !sunset) return isPolarDay ? 'light' : 'dark';
+
+    return now >= sunrise && now < sunset ? 'light' : 'dark';
+  }
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const lightAt = toMinutes(schedule.lightAt);
+  const darkAt = toMinutes(schedule.darkAt);
+
+  //the light period may wrap around midnight (e.g. light from 22:00 to 06:00)
+  const isLight =
+    lightAt <= darkAt
+      ? minutes >= lightAt && minutes < darkAt
+      : minutes >= lightAt || minutes < darkAt;
+
+  return isLight ? 'light' : 'dark';
+};
+
+/**
+ * Computes the next instant the scheduled theme may switch.
+ * @param {ThemeSchedule} schedule - The user's schedule.
+ * @param {Date} now - The reference instant.
+ * @returns {Date} The next switch, strictly after now (at worst, the next local midnight).
+ */
+export const getNextThemeSwitch = (
+  schedule: ThemeSchedule,
+  now: Date,
+): Date => {
+  const candidates: Date[] = [];
+
+  //today and tomorrow always hold the next switch, whatever the schedule
+  for (let dayOffset = 0; dayOffset <= 1; ++dayOffset) {
+    const day = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() + dayOffset,
+    );
+
+    if (schedule.kind === 'sun') {
+      const { sunrise, sunset } = getSunTimes(
+        day,
+        schedule.latitude,
+        schedule.longitude,
+      );
+      if (sunrise) candidates.push(sunrise);
+      if (sunset) candidates.push(sunset);
+    } else {
+      for (const timeOfDay of [schedule.lightAt, schedule.darkAt]) {
+        const minutes = toMinutes(timeOfDay) % MINUTES_PER_DAY;
+        candidates.push(
+          new Date(
+            day.getFullYear(),
+            day.getMonth(),
+            day.getDate(),
+            Math.floor(minutes / 60),
+            minutes % 60,
+          ),
+        );
+      }
+    }
+  }
+
+  //polar days and nights only end at a day boundary
+  candidates.push(
+    new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1),
+  );
+
+  return candidates
+    .filter((candidate) => candidate.getTime() > now.getTime())
+    .reduce((earliest, candidate) =>
+      candidate.getTime() < earliest.getTime() ? candidate : earliest,
+    );
+};
@@ -20,13 +20,30 @@
  * - life-month duration varies depending on calendar position
  * - February life-months may be 28 or 29 days
  * - other months may be 30 or 31 days
+ * - DOBs on the 29th-31st are clamped to shorter months (Jan 31 → Feb 28 → Mar 31)
+ *
+ * OTHER GRANULARITIES:
+ *
+ * The same DOB-anchoring applies to every supported Granularity:
+ *
+ * - year:  DOB + N years  →  DOB + (N + 1) years (birthday to birthday)
+ * - week:  DOB + 7N days  →  DOB + 7(N + 1) days
+ * - day:   local midnight →  next local midnight
+ *
+ * Zoomed views additionally use the "hour" TimeUnit: hour N starts at
+ * DOB + floor(N / 24) days, (N mod 24):00 on the local wall clock.
+ *
+ * All calendar rules (local-time parsing, month-end clamping, leap days and
+ * DST handling) are delegated to the calendar arithmetic engine
+ * (life.calendar.ts), which the CountdownTimer shares.
  *
  * DATA FLOW:
  *
- * userConfig (dob)
+ * userConfig (dob, expectancy, granularity)
  *        ↓
- * getFullMonthsLived(dob)
- * getCurrentMonthProgress(dob)
+ * getTotalUnits(dob, expectancy, granularity)
+ * getFullUnitsLived(dob, granularity)
+ * getCurrentUnitProgress(dob, granularity)
  *        ↓
  * Derived temporal state
  *        ↓
@@ -35,75 +52,313 @@
  * Canvas Renderer
  *
  *
+ * CLOCK INJECTION:
+ *
+ * No function here calls `new Date()` for the present moment. Every function
+ * accepts an optional Clock (defaults to systemClock), which lets callers
+ * preview the timeline as of any date and keeps results deterministic.
+ *
  * DOMAIN INVARIANTS GUARANTEED:
  *
- * - fully lived months >= 0
+ * - fully lived units >= 0
  * - progress belongs to [0,1]
  * - renderer never receives negative indices
  * - timeline alignment remains DOB-anchored
  *
  */
 
+import type { Clock, Granularity, TimeUnit } from '../types/life.types.ts';
+import { systemClock } from './life.clock.ts';
+import {
+  addCalendarDays,
+  addCalendarMonths,
+  addCalendarYears,
+  getCalendarDaysBetween,
+  getWallClockProgress,
+  getWholeMonthsBetween,
+  parseIsoDate,
+} from './life.calendar.ts';
+
 /**
  * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
  * @returns {number} the number of months that the user has FULLY lived since his dob
  */
-export const getFullMonthsLived = (dob: string): number => {
-  const presentDate = new Date();
-  const birthDay = new Date(dob);
+export const getFullMonthsLived = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  const birthDay = parseIsoDate(dob);
 
   if (isNaN(birthDay.getTime())) {
     return 0;
   }
 
-  const presentDay = presentDate.getDate();
-  const presentMonth = presentDate.getMonth();
-  const presentYear = presentDate.getFullYear();
+  //returns 0 if a future dob is entered
+  return getWholeMonthsBetween(birthDay, clock.now());
+};
 
-  const dobDay = birthDay.getDate();
-  const dobMonth = birthDay.getMonth();
-  const dobYear = birthDay.getFullYear();
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @return {number} a fractional value = [0,1] representing the current month progress
+ */
+export const getCurrentMonthProgress = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  return getCurrentUnitProgress(dob, 'month', clock);
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {number} the number of years that the user has FULLY lived since his dob
+ */
+export const getFullYearsLived = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  return Math.floor(getFullMonthsLived(dob, clock) / 12);
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @return {number} a fractional value = [0,1] representing progress from the last birthday to the next
+ */
+export const getCurrentYearProgress = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  return getCurrentUnitProgress(dob, 'year', clock);
+};
 
-  const yearDiff = presentYear - dobYear;
-  const monthDiff = presentMonth - dobMonth;
-  const monthsFromYears = yearDiff * 12;
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {number} the number of calendar days that the user has FULLY lived since his dob
+ */
+export const getFullDaysLived = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  const birthDay = parseIsoDate(dob);
 
-  const returnVal =
-    presentDay >= dobDay
-      ? monthsFromYears + monthDiff
-      : monthsFromYears + monthDiff - 1;
+  if (isNaN(birthDay.getTime())) {
+    return 0;
+  }
 
   //prevents code from breaking if a future dob is entered
-  return Math.max(returnVal, 0);
+  return Math.max(getCalendarDaysBetween(birthDay, clock.now()), 0);
 };
 
 /**
  * @param {string} dob pass the date of birth of the user
- * @return {number} a fractional value = [0,1] representing the current month progress
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @return {number} a fractional value = [0,1] representing the current day progress
+ */
+export const getCurrentDayProgress = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  return getCurrentUnitProgress(dob, 'day', clock);
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {number} the number of 7-day weeks that the user has FULLY lived since his dob
+ */
+export const getFullWeeksLived = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  return Math.floor(getFullDaysLived(dob, clock) / 7);
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @return {number} a fractional value = [0,1] representing the current week progress
+ */
+export const getCurrentWeekProgress = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  return getCurrentUnitProgress(dob, 'week', clock);
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {number} the number of wall-clock hours that the user has FULLY lived since his dob
  */
-export const getCurrentMonthProgress = (dob: string): number => {
-  const birthDay = new Date(dob);
+export const getFullHoursLived = (
+  dob: string,
+  clock: Clock = systemClock,
+): number => {
+  const birthDay = parseIsoDate(dob);
+  const now = clock.now();
+
+  if (isNaN(birthDay.getTime()) || now.getTime() < birthDay.getTime()) {
+    return 0;
+  }
+
+  return getFullDaysLived(dob, clock) * 24 + now.getHours();
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @returns {number} the number of units that the user has FULLY lived since his dob
+ */
+export const getFullUnitsLived = (
+  dob: string,
+  granularity: TimeUnit,
+  clock: Clock = systemClock,
+): number => {
+  switch (granularity) {
+    case 'year':
+      return getFullYearsLived(dob, clock);
+    case 'month':
+      return getFullMonthsLived(dob, clock);
+    case 'week':
+      return getFullWeeksLived(dob, clock);
+    case 'day':
+      return getFullDaysLived(dob, clock);
+    case 'hour':
+      return getFullHoursLived(dob, clock);
+  }
+};
+
+/**
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @param {Clock} clock source of the current instant (defaults to the system clock)
+ * @return {number} a fractional value = [0,1] representing the current unit progress
+ */
+export const getCurrentUnitProgress = (
+  dob: string,
+  granularity: TimeUnit,
+  clock: Clock = systemClock,
+): number => {
+  const birthDay = parseIsoDate(dob);
 
   if (isNaN(birthDay.getTime())) {
     return 0;
   }
 
-  const fullMonthsLived = getFullMonthsLived(dob);
+  const fullUnitsLived = getFullUnitsLived(dob, granularity, clock);
 
-  //start of current month (Note: we move with respect to dob not actual month starting and endings)
-  const startDate = new Date(dob);
-  startDate.setMonth(startDate.getMonth() + fullMonthsLived);
+  //start and end of the current unit (Note: we move with respect to dob not actual calendar boundaries)
+  const startDate = getUnitStartDate(dob, granularity, fullUnitsLived);
+  const endDate = getUnitStartDate(dob, granularity, fullUnitsLived + 1);
 
-  //end of current month (Note: with respect to our dob)
-  const endDate = new Date(dob);
-  endDate.setMonth(endDate.getMonth() + fullMonthsLived + 1);
+  //clamped between [0,1]; an unborn user (future dob) stays at 0
+  return getWallClockProgress(startDate, endDate, clock.now());
+};
 
-  const now = new Date();
-  const elapsed = now.getTime() - startDate.getTime();
-  const duration = endDate.getTime() - startDate.getTime();
+/**
+ * Resolves the instant at which the expected lifespan ends.
+ * Fractional expectancies (e.g. actuarial estimates) are rounded to whole life-months.
+ * @param {string} dob pass the date of birth of the user
+ * @param {number} expectancy life expectancy in (possibly fractional) years
+ * @returns {Date} DOB + expectancy at local midnight (Invalid Date if the dob is malformed)
+ */
+export const getLifeEndDate = (dob: string, expectancy: number): Date => {
+  const expectancyMonths = Math.round(Math.max(expectancy, 0) * 12);
 
-  const progress = elapsed / duration;
+  return addCalendarMonths(parseIsoDate(dob), expectancyMonths);
+};
 
-  //clamp the range between [0,1]
-  return Math.min(Math.max(progress, 0), 1);
+/**
+ * Computes the number of cells spanning the whole expected life.
+ * Week and day totals are measured on the calendar (DOB → end of life)
+ * so leap days are accounted for; a trailing partial week or year still gets its own cell.
+ * @param {string} dob pass the date of birth of the user
+ * @param {number} expectancy life expectancy in (possibly fractional) years
+ * @param {Granularity} granularity span of life represented by a single cell
+ * @returns {number} total number of cells (>= 0)
+ */
+export const getTotalUnits = (
+  dob: string,
+  expectancy: number,
+  granularity: Granularity,
+): number => {
+  const expectancyMonths = Math.round(Math.max(expectancy, 0) * 12);
+
+  if (granularity === 'year') return Math.ceil(expectancyMonths / 12);
+  if (granularity === 'month') return expectancyMonths;
+
+  const birthDay = parseIsoDate(dob);
+
+  if (isNaN(birthDay.getTime())) {
+    //fall back to the average Gregorian month if the dob cannot be anchored
+    const approxDays = Math.round(expectancyMonths * (365.2425 / 12));
+    return granularity === 'day' ? approxDays : Math.ceil(approxDays / 7);
+  }
+
+  const endDate = getLifeEndDate(dob, expectancy);
+  const totalDays = Math.max(getCalendarDaysBetween(birthDay, endDate), 0);
+
+  return granularity === 'day' ? totalDays : Math.ceil(totalDays / 7);
+};
+
+/**
+ * Resolves the instant at which a given DOB-anchored unit (cell) begins.
+ * Unit 0 starts at birth (local midnight); unit N starts at DOB + N units.
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @param {number} unitIndex 0-based index of the unit
+ * @returns {Date} start of the unit (Invalid Date if the dob is malformed)
+ */
+export const getUnitStartDate = (
+  dob: string,
+  granularity: TimeUnit,
+  unitIndex: number,
+): Date => {
+  const birthDay = parseIsoDate(dob);
+
+  if (isNaN(birthDay.getTime())) {
+    return birthDay;
+  }
+
+  switch (granularity) {
+    case 'year':
+      return addCalendarYears(birthDay, unitIndex);
+    case 'month':
+      return addCalendarMonths(birthDay, unitIndex);
+    case 'week':
+      return addCalendarDays(birthDay, unitIndex * 7);
+    case 'day':
+      return addCalendarDays(birthDay, unitIndex);
+    case 'hour': {
+      const hourStart = addCalendarDays(birthDay, Math.floor(unitIndex / 24));
+      hourStart.setHours(unitIndex % 24);
+      return hourStart;
+    }
+  }
+};
+
+/**
+ * Average number of units (cells) per year of age for a granularity.
+ * Used to translate a cell index back into an approximate age.
+ * @param {TimeUnit} granularity span of time represented by a single cell
+ * @returns {number} units per average Gregorian year
+ */
+export const getUnitsPerYear = (granularity: TimeUnit): number => {
+  switch (granularity) {
+    case 'year':
+      return 1;
+    case 'month':
+      return 12;
+    case 'week':
+      return 365.2425 / 7;
+    case 'day':
+      return 365.2425;
+    case 'hour':
+      return 365.2425 * 24;
+  }
 };
@@ -0,0 +1,208 @@
+/**
+ * LIFE TIMELINE ZOOM HIERARCHY LAYER
+ *
+ * This file is responsible for the hierarchical zoom of the timeline. Every
+ * zoom level shows the cells of ONE unit of the level above it:
+ *
+ *     life   → the whole lifetime at the user's Granularity
+ *     year   → one year of age, as its 12 life-months
+ *     month  → one life-month, as its days
+ *     day    → one calendar day, as its 24 hours
+ *
+ * ZOOM WINDOWS:
+ *
+ * A zoomed level does not use its own indices. It renders a contiguous
+ * WINDOW of the DOB-anchored unit sequence of its cell unit:
+ *
+ *     year y   → months [12y, 12y + 12)
+ *     month m  → days   [day of month start, day of next month start)
+ *     day d    → hours  [24d, 24d + 24)
+ *
+ * Keeping global indices means fullCellsLived, life events, eras and the
+ * survival curve work unchanged at every level.
+ *
+ * Life-months start on the DOB's day of month (see life.time.ts), so a
+ * zoomed month holds 28 to 31 days and is not a calendar month.
+ *
+ * NOTE:
+ *
+ * This layer performs pure computation only.
+ * It must NOT:
+ * - access DOM or Canvas APIs
+ * - persist state (the zoom is a transient view, like time travel)
+ */
+
+import type {
+  Granularity,
+  TimeUnit,
+  ZoomLevel,
+  ZoomState,
+} from '../types/life.types.ts';
+import { createFixedClock } from './life.clock.ts';
+import { getFullUnitsLived, getUnitStartDate } from './life.time.ts';
+
+// The unzoomed lifetime view
+export const LIFE_ZOOM: ZoomState = { level: 'life', index: 0 };
+
+/**
+ * The cells shown at a zoom level.
+ */
+export interface ZoomWindow {
+  unit: TimeUnit;
+  firstCellIndex: number;
+  cellCount: number;
+}
+
+/**
+ * Resolves the unit containing an instant.
+ * @param {string} dob pass the date of birth of the user
+ * @param {TimeUnit} unit the unit to count
+ * @param {Date} instant the instant to locate
+ * @returns {number} the DOB-anchored index of the unit containing the instant
+ */
+const getUnitIndexAt = (dob: string, unit: TimeUnit, instant: Date): number => {
+  return getFullUnitsLived(dob, unit, createFixedClock(instant));
+};
+
+/**
+ * Resolves the cells rendered at a zoom level.
+ * @param {string} dob pass the date of birth of the user
+ * @param {ZoomState} zoom the zoom level and zoomed unit
+ * @param {Granularity} granularity span of life represented by a lifetime cell
+ * @param {number} lifetimeCells number of cells of the lifetime view
+ * @returns {ZoomWindow} the cell unit and the window of global indices to render
+ */
+export const getZoomWindow = (
+  dob: string,
+  zoom: ZoomState,
+  granularity: Granularity,
+  lifetimeCells: number,
+): ZoomWindow => {
+  switch (zoom.level) {
+    case 'life':
+      return { unit: granularity, firstCellIndex: 0, cellCount: lifetimeCells };
+    case 'year':
+      return { unit: 'month', firstCellIndex: zoom.index * 12, cellCount: 12 };
+    case 'month': {
+      const monthStart = getUnitStartDate(dob, 'month', zoom.index);
+      const nextMonthStart = getUnitStartDate(dob, 'month', zoom.index + 1);
+
+      if (isNaN(monthStart.getTime())) {
+        return { unit: 'day', firstCellIndex: 0, cellCount: 0 };
+      }
+
+      const firstDay = getUnitIndexAt(dob, 'day', monthStart);
+      const nextFirstDay = getUnitIndexAt(dob, 'day', nextMonthStart);
+
+      return {
+        unit: 'day',
+        firstCellIndex: firstDay,
+        cellCount: nextFirstDay - firstDay,
+      };
+    }
+    case 'day':
+      return { unit: 'hour', firstCellIndex: zoom.index * 24, cellCount: 24 };
+  }
+};
+
+/**
+ * Resolves the zoom level reached by zooming into a cell.
+ * @param {string} dob pass the date of birth of the user
+ * @param {ZoomState} zoom the current zoom level
+ * @param {TimeUnit} unit the unit of the cells at the current level
+ * @param {number} cellIndex the global index of the zoomed cell
+ * @returns {ZoomState | null} the next level, or null at the deepest level
+ */
+export const getZoomChild = (
+  dob: string,
+  zoom: ZoomState,
+  unit: TimeUnit,
+  cellIndex: number,
+): ZoomState | null => {
+  switch (zoom.level) {
+    case 'life': {
+      //a lifetime cell may be a week or a day, so zoom into the year holding its start
+      const cellStart = getUnitStartDate(dob, unit, cellIndex);
+      if (isNaN(cellStart.getTime())) return null;
+
+      return { level: 'year', index: getUnitIndexAt(dob, 'year', cellStart) };
+    }
+    case 'year':
+      return { level: 'month', index: cellIndex };
+    case 'month':
+      return { level: 'day', index: cellIndex };
+    case 'day':
+      return null;
+  }
+};
+
+/**
+ * Resolves the zoom level reached by zooming out.
+ * @param {string} dob pass the date of birth of the user
+ * @param {ZoomState} zoom the current zoom level
+ * @returns {ZoomState | null} the enclosing level, or null at the lifetime view
+ */
+export const getZoomParent = (
+  dob: string,
+  zoom: ZoomState,
+): ZoomState | null => {
+  switch (zoom.level) {
+    case 'life':
+      return null;
+    case 'year':
+      return LIFE_ZOOM;
+    case 'month':
+      return { level: 'year', index: Math.floor(zoom.index / 12) };
+    case 'day': {
+      const dayStart = getUnitStartDate(dob, 'day', zoom.index);
+      if (isNaN(dayStart.getTime())) return LIFE_ZOOM;
+
+      return { level: 'month', index: getUnitIndexAt(dob, 'month', dayStart) };
+    }
+  }
+};
+
+/**
+ * Lists every level from the lifetime view down to the given zoom level.
+ * @param {string} dob pass the date of birth of the user
+ * @param {ZoomState} zoom the current zoom level
+ * @returns {ZoomState[]} the breadcrumb trail, starting with LIFE_ZOOM
+ */
+export const getZoomTrail = (dob: string, zoom: ZoomState): ZoomState[] => {
+  const trail: ZoomState[] = [zoom];
+  let parent = getZoomParent(dob, zoom);
+
+  while (parent) {
+    trail.unshift(parent);
+    parent = getZoomParent(dob, parent);
+  }
+
+  return trail;
+};
+
+/**
+ * Resolves the zoom level the timeline opens to when jumping to "now".
+ * @param {string} dob pass the date of birth of the user
+ * @param {ZoomLevel} level the level to open
+ * @param {Date} now the present instant
+ * @returns {ZoomState} the level zoomed into the unit containing now
+ */
+export const getZoomAt = (
+  dob: string,
+  level: ZoomLevel,
+  now: Date,
+): ZoomState => {
+  if (level === 'life') return LIFE_ZOOM;
+
+  return { level, index: getUnitIndexAt(dob, level, now) };
+};
+
+/**
+ * Checks whether two zoom states show the same cells.
+ * @param {ZoomState} a first zoom state
+ * @param {ZoomState} b second zoom state
+ * @returns {boolean} true if both describe the same view
+ */
+export const isSameZoom = (a: ZoomState, b: ZoomState): boolean => {
+  return a.level === b.level && (a.level === 'life' || a.index === b.index);
+};
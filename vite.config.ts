@@ -4,6 +4,24 @@ import tailwindcss from '@tailwindcss/vite';
 
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => {
+  /**
+   * HEADLESS CLI BUILD
+   * * `--mode cli` bundles the Node command line entry point (src/cli) instead of the app,
+   * into a single script run by the `life-wallpaper` bin of package.json.
+   */
+  if (mode === 'cli') {
+    return {
+      publicDir: false,
+      build: {
+        ssr: 'src/cli/life.cli.ts',
+        outDir: 'dist/cli',
+        rollupOptions: {
+          output: { entryFileNames: 'life-wallpaper.js' },
+        },
+      },
+    };
+  }
+
   return {
     /**
      * ENVIRONMENT AWARE BASE PATH